@@ -0,0 +1,54 @@
+// app/api/alerts/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { toAlertRuleResponse, type AlertRuleDoc } from "@/lib/alerts";
+import { AlertRule } from "@/models/AlertRule";
+
+export const dynamic = "force-dynamic";
+
+// Pauses or resumes one of the signed-in wallet's rules. Resuming re-arms it and
+// skips trades made while it was paused.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+  }
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const body = await req.json().catch(() => null);
+  if (typeof body?.enabled !== "boolean") {
+    return NextResponse.json({ error: "enabled must be true or false" }, { status: 400 });
+  }
+  const now = new Date();
+  const update = body.enabled
+    ? { enabled: true, active: false, checkedAt: now, armedAt: now, seenTrades: [] }
+    : { enabled: false };
+  const rule = await AlertRule.findOneAndUpdate({ _id: id, wallet }, { $set: update }, { new: true })
+    .lean<AlertRuleDoc>();
+  if (!rule) return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+  return NextResponse.json({ rule: toAlertRuleResponse(rule) });
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+  }
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const { deletedCount } = await AlertRule.deleteOne({ _id: id, wallet });
+  if (deletedCount === 0) return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,64 @@
+// app/api/alerts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import {
+  ALERTS_MAX_PER_WALLET,
+  parseAlertRuleInput,
+  toAlertRuleResponse,
+  type AlertRuleDoc,
+} from "@/lib/alerts";
+import { AlertRule } from "@/models/AlertRule";
+import { MemeToken } from "@/models/MemeToken";
+
+export const dynamic = "force-dynamic";
+
+// The signed-in wallet's alert rules, newest first; ?token= narrows to one token.
+export async function GET(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const filter: Record<string, unknown> = { wallet };
+  const token = req.nextUrl.searchParams.get("token");
+  if (token) filter.token = token.toLowerCase();
+  const rules = await AlertRule.find(filter).sort({ createdAt: -1 }).lean<AlertRuleDoc[]>();
+  return NextResponse.json({ rules: rules.map(toAlertRuleResponse) });
+}
+
+export async function POST(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const input = parseAlertRuleInput(await req.json().catch(() => null));
+  if ("error" in input) return NextResponse.json({ error: input.error }, { status: 400 });
+
+  const token = await MemeToken.findOne({ address: input.token }, { isLaunched: 1 })
+    .lean<{ isLaunched?: boolean }>();
+  if (!token) return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  if (token.isLaunched && (input.kind === "graduated" || input.kind === "progressAbove")) {
+    return NextResponse.json({ error: "This token has already graduated" }, { status: 400 });
+  }
+  if ((await AlertRule.countDocuments({ wallet })) >= ALERTS_MAX_PER_WALLET) {
+    return NextResponse.json(
+      { error: `A wallet can have up to ${ALERTS_MAX_PER_WALLET} alerts` },
+      { status: 409 }
+    );
+  }
+
+  const now = new Date();
+  const rule = await AlertRule.create({
+    wallet,
+    token: input.token,
+    kind: input.kind,
+    threshold: input.threshold ?? undefined,
+    window: input.window ?? undefined,
+    checkedAt: now,
+    armedAt: now,
+  });
+  return NextResponse.json(
+    { rule: toAlertRuleResponse(rule.toObject() as AlertRuleDoc) },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,12 @@
+// app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { destroySession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Ends the caller's session and clears the cookie.
+export async function POST(req: NextRequest) {
+  const res = NextResponse.json({ ok: true });
+  await destroySession(req, res);
+  return res;
+}
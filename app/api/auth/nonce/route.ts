@@ -0,0 +1,13 @@
+// app/api/auth/nonce/route.ts
+import { NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { issueNonce, NONCE_TTL_MS } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Single-use nonce for the next Sign-In with Ethereum message.
+export async function GET() {
+  await connectMongo();
+  const nonce = await issueNonce();
+  return NextResponse.json({ nonce, expiresAt: Date.now() + NONCE_TTL_MS });
+}
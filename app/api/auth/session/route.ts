@@ -0,0 +1,11 @@
+// app/api/auth/session/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// The signed-in wallet, or { address: null }.
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  return NextResponse.json(session ?? { address: null });
+}
@@ -0,0 +1,25 @@
+// app/api/auth/verify/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { createSession, verifySiwe } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+// Body { message, signature }: verifies the signed EIP-4361 message and starts
+// a session (HTTP-only cookie) for its address.
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  if (typeof body?.message !== "string" || typeof body?.signature !== "string") {
+    return NextResponse.json({ error: "message and signature are required" }, { status: 400 });
+  }
+  await connectMongo();
+
+  const result = await verifySiwe(req, body.message, body.signature);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 401 });
+  }
+
+  const res = NextResponse.json({ address: result.address, chainId: result.chainId });
+  await createSession(res, result.address, result.chainId);
+  return res;
+}
@@ -0,0 +1,87 @@
+// app/api/candles/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { CANDLE_INTERVALS, isCandleInterval } from "@/lib/candles";
+import { Candle } from "@/models/Candle";
+
+const DEFAULT_LIMIT = 300;
+const MAX_LIMIT = 1000;
+
+type CandleRow = {
+  bucketStart: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  volumeEth: number;
+  trades: number;
+};
+
+const msParam = (value: string | null) => {
+  if (value === null || value === "") return undefined;
+  const ms = Number(value);
+  return Number.isFinite(ms) ? ms : NaN;
+};
+
+// Returns up to `limit` candles with from <= time < to (ms), oldest first.
+// Without `from` the newest candles before `to` are returned; pass the oldest
+// candle's time as `to` to page further back while `hasMore` is true.
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const token = params.get("token");
+  const interval = params.get("interval") ?? "15m";
+  const from = msParam(params.get("from"));
+  const to = msParam(params.get("to"));
+
+  if (!token || !ethers.isAddress(token)) {
+    return NextResponse.json({ error: "token must be an address" }, { status: 400 });
+  }
+  if (!isCandleInterval(interval)) {
+    return NextResponse.json(
+      { error: `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return NextResponse.json({ error: "from / to must be ms timestamps" }, { status: 400 });
+  }
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+  // ?final=1 uses the rollup built from confirmed trades only
+  const final = params.get("final") === "1";
+
+  await connectMongo();
+
+  const bucketStart: Record<string, number> = {};
+  if (from !== undefined) bucketStart.$gte = from;
+  if (to !== undefined) bucketStart.$lt = to;
+
+  // Fetch one extra row to know whether older candles remain.
+  const rows = await Candle.find({
+    token: token.toLowerCase(),
+    interval,
+    final,
+    ...(from !== undefined || to !== undefined ? { bucketStart } : {}),
+  })
+    .sort({ bucketStart: -1 })
+    .limit(limit + 1)
+    .lean<CandleRow[]>();
+
+  const hasMore = rows.length > limit;
+  const candles = rows
+    .slice(0, limit)
+    .reverse()
+    .map(c => ({
+      time: c.bucketStart,
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+      volumeEth: c.volumeEth,
+      trades: c.trades,
+    }));
+
+  return NextResponse.json({ token: token.toLowerCase(), interval, candles, hasMore });
+}
@@ -0,0 +1,81 @@
+// app/api/competition/[slug]/register/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import {
+  registrationMessage,
+  verifyRegistration,
+  type CompetitionSeasonDoc,
+} from "@/lib/competition";
+import { CompetitionRegistration } from "@/models/CompetitionRegistration";
+import { CompetitionSeason } from "@/models/CompetitionSeason";
+
+export const dynamic = "force-dynamic";
+
+const findOpenSeason = async (slug: string) => {
+  const season = await CompetitionSeason.findOne({ slug }).lean<CompetitionSeasonDoc>();
+  if (!season) return { error: NextResponse.json({ error: "Season not found" }, { status: 404 }) };
+  if (season.finalizedAt || Date.now() >= season.endAt) {
+    return { error: NextResponse.json({ error: "Registration is closed" }, { status: 409 }) };
+  }
+  return { season };
+};
+
+// The message `address` must sign to register, with the issue time to post back.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const address = req.nextUrl.searchParams.get("address");
+  if (!address || !ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  await connectMongo();
+  const { season, error } = await findOpenSeason(slug);
+  if (error) return error;
+
+  const issuedAt = Date.now();
+  return NextResponse.json({ message: registrationMessage(season, address, issuedAt), issuedAt });
+}
+
+// Body { address, issuedAt, signature }: registers the wallet once its
+// signature of the GET message checks out. Registering twice is a no-op.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const body = await req.json().catch(() => null);
+  const address = body?.address;
+  const issuedAt = Number(body?.issuedAt);
+  const signature = body?.signature;
+  if (typeof address !== "string" || !ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  if (typeof signature !== "string") {
+    return NextResponse.json({ error: "Missing signature" }, { status: 400 });
+  }
+
+  await connectMongo();
+  const { season, error } = await findOpenSeason(slug);
+  if (error) return error;
+
+  const invalid = verifyRegistration(season, address, issuedAt, signature);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 401 });
+
+  const wallet = address.toLowerCase();
+  const registration = await CompetitionRegistration.findOneAndUpdate(
+    { season: slug, wallet },
+    {
+      $setOnInsert: {
+        message: registrationMessage(season, address, issuedAt),
+        signature,
+        registeredAt: Date.now(),
+      },
+    },
+    { upsert: true, new: true }
+  ).lean<{ registeredAt: number }>();
+
+  return NextResponse.json({ season: slug, wallet, registeredAt: registration!.registeredAt });
+}
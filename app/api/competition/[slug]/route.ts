@@ -0,0 +1,101 @@
+// app/api/competition/[slug]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import {
+  getCompetitionSnapshotMs,
+  seasonStatus,
+  type CompetitionSeasonDoc,
+  type CompetitionSnapshotDoc,
+} from "@/lib/competition";
+import { CompetitionRegistration } from "@/models/CompetitionRegistration";
+import { CompetitionSeason } from "@/models/CompetitionSeason";
+import { CompetitionSnapshot } from "@/models/CompetitionSnapshot";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+// Snapshots this many intervals old are flagged `stale`. Standings are only
+// computed and finalized by the indexer loop, never inside a request.
+const STALE_INTERVALS = 5;
+
+// One season: rules, status, entrant count and a page of the latest standings
+// snapshot (the frozen one once final). With `address`, `me` tells whether that
+// wallet is registered and where it stands.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const search = req.nextUrl.searchParams;
+  const address = search.get("address");
+  if (address && !ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  const page = Math.max(1, Number(search.get("page")) || 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(search.get("limit")) || DEFAULT_LIMIT));
+
+  await connectMongo();
+  const season = await CompetitionSeason.findOne({ slug }).lean<CompetitionSeasonDoc>();
+  if (!season) {
+    return NextResponse.json({ error: "Season not found" }, { status: 404 });
+  }
+
+  const now = Date.now();
+  const snapshot = await CompetitionSnapshot.findOne({ season: slug })
+    .sort({ final: -1, computedAt: -1 })
+    .lean<CompetitionSnapshotDoc>();
+  const stale =
+    now >= season.startAt &&
+    !snapshot?.final &&
+    (!snapshot || now - snapshot.computedAt > getCompetitionSnapshotMs() * STALE_INTERVALS);
+
+  const registered = await CompetitionRegistration.countDocuments({ season: slug });
+  let me = null;
+  if (address) {
+    const wallet = address.toLowerCase();
+    const registration = await CompetitionRegistration.findOne({ season: slug, wallet })
+      .lean<{ registeredAt: number }>();
+    me = {
+      wallet,
+      registered: Boolean(registration),
+      registeredAt: registration?.registeredAt ?? null,
+      standing: snapshot?.entries.find(e => e.wallet === wallet) ?? null,
+    };
+  }
+
+  const entries = snapshot?.entries ?? [];
+  return NextResponse.json({
+    season: {
+      slug: season.slug,
+      name: season.name,
+      description: season.description ?? "",
+      startAt: season.startAt,
+      endAt: season.endAt,
+      status: seasonStatus(season, now),
+      eligibleTokens: season.eligibleTokens,
+      scoring: season.scoring,
+      minVolumeEth: season.minVolumeEth,
+      prizeTiers: season.prizeTiers,
+      finalizedAt: season.finalizedAt ?? null,
+    },
+    registered,
+    snapshot: snapshot
+      ? {
+        computedAt: snapshot.computedAt,
+        cutoff: snapshot.cutoff,
+        final: snapshot.final,
+        participants: snapshot.participants,
+      }
+      : null,
+    stale,
+    page,
+    limit,
+    total: entries.length,
+    hasMore: page * limit < entries.length,
+    entries: entries.slice((page - 1) * limit, page * limit),
+    me,
+  });
+}
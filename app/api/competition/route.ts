@@ -0,0 +1,32 @@
+// app/api/competition/route.ts
+import { NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { seasonStatus, type CompetitionSeasonDoc } from "@/lib/competition";
+import { CompetitionRegistration } from "@/models/CompetitionRegistration";
+import { CompetitionSeason } from "@/models/CompetitionSeason";
+
+export const dynamic = "force-dynamic";
+
+// Every competition season, newest start first, with its status and entrant count.
+export async function GET() {
+  await connectMongo();
+  const seasons = await CompetitionSeason.find({})
+    .sort({ startAt: -1 })
+    .lean<CompetitionSeasonDoc[]>();
+  const counts = await CompetitionRegistration.aggregate<{ _id: string; count: number }>([
+    { $group: { _id: "$season", count: { $sum: 1 } } },
+  ]);
+  const registered = new Map(counts.map(c => [c._id, c.count]));
+
+  const now = Date.now();
+  return NextResponse.json({
+    seasons: seasons.map(s => ({
+      slug: s.slug,
+      name: s.name,
+      startAt: s.startAt,
+      endAt: s.endAt,
+      status: seasonStatus(s, now),
+      registered: registered.get(s.slug) ?? 0,
+    })),
+  });
+}
@@ -0,0 +1,25 @@
+// app/api/creator/[address]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { getCreatorDashboard } from "@/lib/creator";
+import { getFundingGoal } from "@/lib/tokenIndex";
+
+export const dynamic = "force-dynamic";
+
+// Every token the wallet created, with the stats of the creator dashboard.
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  await connectMongo();
+  const [dashboard, fundingGoal] = await Promise.all([
+    getCreatorDashboard(address),
+    getFundingGoal(),
+  ]);
+  return NextResponse.json({ ...dashboard, fundingGoal: fundingGoal.toString() });
+}
@@ -0,0 +1,133 @@
+// app/api/graduating/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { decimalToBigInt } from "@/lib/amounts";
+import { type IndexedToken, getFundingGoal, toTokenResponse } from "@/lib/tokenIndex";
+import { MemeToken } from "@/models/MemeToken";
+import { Trade } from "@/models/Trade";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const LOOKBACKS = {
+  "1h": HOUR_MS,
+  "6h": 6 * HOUR_MS,
+  "24h": 24 * HOUR_MS,
+} as const;
+
+const SORTS = ["progress", "velocity", "eta"] as const;
+type Sort = (typeof SORTS)[number];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+type Inflow = { _id: string; inflow: Types.Decimal128; trades: number };
+
+/**
+ * Net change of fundingRaised per token from curve trades since `since`:
+ * buys add their cost (totalPaid - fee), sells remove their refund (netRefund + fee).
+ */
+async function curveInflows(since: number, tokens?: string[]) {
+  const rows = await Trade.aggregate<Inflow>([
+    {
+      $match: {
+        timestamp: { $gte: since },
+        venue: "curve",
+        ...(tokens ? { token: { $in: tokens } } : {}),
+      },
+    },
+    {
+      $group: {
+        _id: "$token",
+        inflow: {
+          $sum: {
+            $cond: [
+              { $eq: ["$side", "buy"] },
+              { $subtract: [{ $toDecimal: { $ifNull: ["$ethWei", "0"] } }, { $toDecimal: { $ifNull: ["$feeWei", "0"] } }] },
+              { $multiply: [-1, { $add: [{ $toDecimal: { $ifNull: ["$ethWei", "0"] } }, { $toDecimal: { $ifNull: ["$feeWei", "0"] } }] }] },
+            ],
+          },
+        },
+        trades: { $sum: 1 },
+      },
+    },
+  ]);
+  return new Map(rows.map(r => [r._id, { inflowWei: decimalToBigInt(r.inflow), trades: r.trades }]));
+}
+
+// Un-launched tokens closest to MEMECOIN_FUNDING_GOAL.
+//   sort=progress (default) – fundingRaised / goal
+//   sort=velocity – net SEI inflow per hour over `lookback` (1h, 6h or 24h; default 6h)
+//   sort=eta – estimated time to graduation at that pace (tokens not moving last)
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const sort = (params.get("sort") ?? "progress") as Sort;
+  if (!SORTS.includes(sort)) {
+    return NextResponse.json({ error: `sort must be one of ${SORTS.join(", ")}` }, { status: 400 });
+  }
+  const lookback = params.get("lookback") ?? "6h";
+  if (!Object.hasOwn(LOOKBACKS, lookback)) {
+    return NextResponse.json(
+      { error: `lookback must be one of ${Object.keys(LOOKBACKS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const lookbackMs = LOOKBACKS[lookback as keyof typeof LOOKBACKS];
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+
+  await connectMongo();
+  const goal = await getFundingGoal();
+  const since = Date.now() - lookbackMs;
+
+  let candidates: IndexedToken[];
+  let inflows: Awaited<ReturnType<typeof curveInflows>>;
+  if (sort === "progress") {
+    candidates = await MemeToken.find({ isLaunched: false })
+      .sort({ progress: -1, _id: -1 })
+      .limit(limit)
+      .lean<IndexedToken[]>();
+    inflows = await curveInflows(since, candidates.map(t => t.address));
+  } else {
+    // Only tokens with curve trades in the lookback can be moving.
+    inflows = await curveInflows(since);
+    candidates = await MemeToken.find({ isLaunched: false, address: { $in: [...inflows.keys()] } })
+      .lean<IndexedToken[]>();
+  }
+
+  const entries = candidates.map(t => {
+    const fundingRaised = BigInt(t.fundingRaised ?? "0");
+    const remainingWei = fundingRaised >= goal ? 0n : goal - fundingRaised;
+    const { inflowWei = 0n, trades = 0 } = inflows.get(t.address) ?? {};
+    const inflowEth = Number(ethers.formatEther(inflowWei));
+    const etaMs = remainingWei === 0n
+      ? 0
+      : inflowWei > 0n
+        ? Number((remainingWei * BigInt(lookbackMs)) / inflowWei)
+        : null;
+    return {
+      ...toTokenResponse(t),
+      fundingGoal: goal.toString(),
+      remainingWei: remainingWei.toString(),
+      remainingEth: Number(ethers.formatEther(remainingWei)),
+      inflowWei: inflowWei.toString(),
+      inflowEth,
+      recentTrades: trades,
+      velocityEthPerHour: (inflowEth * HOUR_MS) / lookbackMs,
+      etaMs,
+    };
+  });
+
+  if (sort === "velocity") {
+    entries.sort((a, b) => b.velocityEthPerHour - a.velocityEthPerHour);
+  } else if (sort === "eta") {
+    entries.sort((a, b) => (a.etaMs ?? Infinity) - (b.etaMs ?? Infinity));
+  }
+
+  return NextResponse.json({
+    sort,
+    lookback,
+    fundingGoal: goal.toString(),
+    tokens: entries.slice(0, limit).map((entry, i) => ({ ...entry, rank: i + 1 })),
+  });
+}
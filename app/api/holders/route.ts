@@ -1,58 +1,107 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import type { Types } from "mongoose";
 import { connectMongo } from "@/lib/mongo";
-import { Trade } from "@/models/Trade";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { tokenAbi } from "@/lib/abi/Token";
+import { decimalToBigInt, toDecimal128 } from "@/lib/amounts";
+import { getFactoryAddress } from "@/lib/indexer/config";
+import { HolderBalance } from "@/models/HolderBalance";
+import { MemeToken } from "@/models/MemeToken";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+type HolderRow = {
+    address: string;
+    balance?: Types.Decimal128;
+    finalBalance?: Types.Decimal128;
+};
 
 export async function GET(req: NextRequest) {
-    const token = req.nextUrl.searchParams.get("token");
+    const params = req.nextUrl.searchParams;
+    const token = params.get("token");
     if (!token) {
-        return NextResponse.json({ holders: [] });
+        return NextResponse.json({ holders: [], totalHolders: 0 });
+    }
+    if (!ethers.isAddress(token)) {
+        return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
     }
 
+    const tokenAddress = token.toLowerCase();
+    const page = Math.max(1, Number(params.get("page")) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+    // ?final=1 ranks by balances built from confirmed transfers only
+    const field = params.get("final") === "1" ? "finalBalance" : "balance";
+
     await connectMongo();
 
     try {
-        // Aggregate trades to find top holders
-        // We sum tokens for buys and subtract for sells
-        const holders = await Trade.aggregate([
-            {
-                $match: {
-                    token: token,
-                    user: { $exists: true, $ne: null }
-                }
-            },
-            {
-                $group: {
-                    _id: "$user",
-                    balance: {
-                        $sum: {
-                            $cond: [
-                                { $eq: ["$side", "buy"] },
-                                "$tokens",
-                                { $multiply: ["$tokens", -1] }
-                            ]
-                        }
-                    }
-                }
-            },
-            {
-                $match: {
-                    balance: { $gt: 0 }
-                }
-            },
-            { $sort: { balance: -1 } },
-            { $limit: 50 },
-            {
-                $project: {
-                    _id: 0,
-                    address: "$_id",
-                    balance: 1
-                }
-            }
+        // Balances come from the Transfer ledger, so wallet-to-wallet moves and
+        // DEX swaps after graduation are reflected.
+        // Burned tokens sit on the zero address, which is not a holder: it is
+        // left out of the pages and the count, and reported as `burned`.
+        const filter = {
+            token: tokenAddress,
+            address: { $ne: ethers.ZeroAddress },
+            [field]: { $gt: toDecimal128(0n) },
+        };
+        const [rows, totalHolders, burnRow, meta] = await Promise.all([
+            HolderBalance.find(filter)
+                .sort({ [field]: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean<HolderRow[]>(),
+            HolderBalance.countDocuments(filter),
+            HolderBalance.findOne({ token: tokenAddress, address: ethers.ZeroAddress })
+                .lean<HolderRow>(),
+            MemeToken.findOne({ address: tokenAddress }).lean<{ pairAddress?: string }>(),
         ]);
 
-        return NextResponse.json({ holders });
+        let totalSupply: bigint | null = null;
+        try {
+            const contract = new ethers.Contract(tokenAddress, tokenAbi, getRpcProvider());
+            totalSupply = await contract.totalSupply();
+        } catch (e) {
+            console.error("Failed to fetch totalSupply:", e);
+        }
+
+        const labels: Record<string, string> = {
+            [getFactoryAddress()]: "Bonding curve (factory)",
+        };
+        if (meta?.pairAddress) labels[meta.pairAddress] = "DragonSwap LP";
+
+        const holders = rows.map(row => {
+            const raw = decimalToBigInt(row[field]);
+            return {
+                address: row.address,
+                balance: Number(ethers.formatUnits(raw, 18)),
+                balanceRaw: raw.toString(),
+                percent: totalSupply
+                    ? Number((raw * 1_000_000n) / totalSupply) / 10_000
+                    : undefined,
+                label: labels[row.address],
+            };
+        });
+
+        // Burns lower totalSupply, so the burned amount has no share of it.
+        const burnedRaw = burnRow ? decimalToBigInt(burnRow[field]) : 0n;
+
+        return NextResponse.json({
+            holders,
+            totalHolders,
+            burned: {
+                address: ethers.ZeroAddress,
+                label: "Burn address",
+                balance: Number(ethers.formatUnits(burnedRaw, 18)),
+                balanceRaw: burnedRaw.toString(),
+            },
+            totalSupply: totalSupply?.toString() ?? null,
+            page,
+            limit,
+        });
     } catch (e) {
         console.error("Failed to fetch holders:", e);
-        return NextResponse.json({ holders: [] }, { status: 500 });
+        return NextResponse.json({ holders: [], totalHolders: 0 }, { status: 500 });
     }
 }
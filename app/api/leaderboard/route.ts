@@ -0,0 +1,127 @@
+// app/api/leaderboard/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import {
+  LEADERBOARD_SORTS,
+  LEADERBOARD_WINDOWS,
+  getLeaderboardRefreshMs,
+  isLeaderboardSort,
+  isLeaderboardWindow,
+} from "@/lib/leaderboard";
+import { LeaderboardEntry } from "@/models/LeaderboardEntry";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+// Entries this many refresh intervals old are flagged `stale`. They are only
+// recomputed by the indexer loop, never inside a request.
+const STALE_INTERVALS = 5;
+
+type EntryDoc = {
+  user: string;
+  volumeEth: number;
+  trades: number;
+  buys: number;
+  sells: number;
+  realizedPnlEth: number;
+  costSoldEth: number;
+  roi: number | null;
+  tokens: number;
+  lastTradeAt: number;
+  computedAt: number;
+};
+
+const toEntry = (doc: EntryDoc, rank: number) => ({
+  rank,
+  user: doc.user,
+  volumeEth: doc.volumeEth,
+  trades: doc.trades,
+  buys: doc.buys,
+  sells: doc.sells,
+  realizedPnlEth: doc.realizedPnlEth,
+  costSoldEth: doc.costSoldEth,
+  roi: doc.roi,
+  tokens: doc.tokens,
+  lastTradeAt: doc.lastTradeAt,
+});
+
+// Ranks wallets over `window` (24h, 7d, 30d, all) by `sort` (volume, trades,
+// realizedPnl, roi), `page` / `limit` at a time. With `address`, also returns
+// that wallet's own rank as `me` (null when it has no trades in the window).
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const window = params.get("window") ?? "7d";
+  if (!isLeaderboardWindow(window)) {
+    return NextResponse.json(
+      { error: `window must be one of ${Object.keys(LEADERBOARD_WINDOWS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const sort = params.get("sort") ?? "volume";
+  if (!isLeaderboardSort(sort)) {
+    return NextResponse.json(
+      { error: `sort must be one of ${Object.keys(LEADERBOARD_SORTS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const address = params.get("address");
+  if (address && !ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+
+  await connectMongo();
+
+  const latest = await LeaderboardEntry.findOne({}, { computedAt: 1 })
+    .sort({ computedAt: -1 })
+    .lean<{ computedAt: number }>();
+  const computedAt = latest?.computedAt ?? null;
+  const stale =
+    computedAt === null || Date.now() - computedAt > getLeaderboardRefreshMs() * STALE_INTERVALS;
+
+  const field = LEADERBOARD_SORTS[sort];
+  // ROI is null for wallets below MIN_ROI_COST_ETH; they only rank on other sorts.
+  const filter = { window, [field]: { $ne: null } };
+  const order = { [field]: -1, user: 1 } as const;
+
+  const [docs, total] = await Promise.all([
+    LeaderboardEntry.find(filter)
+      .sort(order)
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<EntryDoc[]>(),
+    LeaderboardEntry.countDocuments(filter),
+  ]);
+
+  let me = null;
+  if (address) {
+    const user = address.toLowerCase();
+    const own = await LeaderboardEntry.findOne({ ...filter, user }).lean<EntryDoc>();
+    if (own) {
+      const value = own[field as keyof EntryDoc];
+      // Same order as the list: higher values first, address breaks ties.
+      const ahead = await LeaderboardEntry.countDocuments({
+        window,
+        $or: [{ [field]: { $gt: value } }, { [field]: value, user: { $lt: user } }],
+      });
+      me = toEntry(own, ahead + 1);
+    }
+  }
+
+  return NextResponse.json({
+    window,
+    sort,
+    computedAt,
+    stale,
+    page,
+    limit,
+    total,
+    hasMore: page * limit < total,
+    entries: docs.map((doc, i) => toEntry(doc, (page - 1) * limit + i + 1)),
+    me,
+  });
+}
@@ -0,0 +1,39 @@
+// app/api/livestream/chat/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { canDeleteChatMessage, findCurrentSession, type ChatMessageDoc } from "@/lib/livestream";
+import { ChatMessage } from "@/models/ChatMessage";
+
+export const dynamic = "force-dynamic";
+
+// Deletes a chat message (its author, an admin or the host of the session on
+// air). Viewers drop it when the activity stream sends the update.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+
+  const { address: viewer, error } = await requireAuth(req);
+  if (error) return error;
+
+  await connectMongo();
+  const message = await ChatMessage.findById(id).lean<ChatMessageDoc>();
+  if (!message || message.deletedAt) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+  if (!canDeleteChatMessage(viewer, message, await findCurrentSession())) {
+    return NextResponse.json({ error: "Not allowed to delete this message" }, { status: 403 });
+  }
+
+  await ChatMessage.updateOne(
+    { _id: id },
+    { $set: { deletedAt: new Date(), deletedBy: viewer, body: "" } }
+  );
+  return NextResponse.json({ ok: true });
+}
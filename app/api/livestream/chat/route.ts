@@ -0,0 +1,60 @@
+// app/api/livestream/chat/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import {
+  CHAT_MESSAGE_MAX_LENGTH,
+  findCurrentSession,
+  recentChatMessages,
+  sessionStatus,
+  takeChatSlot,
+  toChatMessageResponse,
+} from "@/lib/livestream";
+import { ChatMessage } from "@/models/ChatMessage";
+
+export const dynamic = "force-dynamic";
+
+// The latest chat messages, oldest first. New ones arrive over /api/stream/activity.
+export async function GET() {
+  await connectMongo();
+  return NextResponse.json({ messages: await recentChatMessages() });
+}
+
+// Body { body }. Posts as the signed-in wallet, tagged with the session on air.
+// 429 past LIVESTREAM_CHAT_PER_MINUTE.
+export async function POST(req: NextRequest) {
+  const { address: author, error } = await requireAuth(req);
+  if (error) return error;
+
+  const input = await req.json().catch(() => null);
+  const body = typeof input?.body === "string" ? input.body.trim() : "";
+  if (!body) {
+    return NextResponse.json({ error: "Message is empty" }, { status: 400 });
+  }
+  if (body.length > CHAT_MESSAGE_MAX_LENGTH) {
+    return NextResponse.json(
+      { error: `Messages are limited to ${CHAT_MESSAGE_MAX_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  await connectMongo();
+  const wait = await takeChatSlot(author);
+  if (wait > 0) {
+    return NextResponse.json(
+      { error: "You are chatting too fast", retryAfterMs: wait },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(wait / 1000)) } }
+    );
+  }
+
+  const session = await findCurrentSession();
+  const message = await ChatMessage.create({
+    author,
+    body,
+    session: session && sessionStatus(session) === "live" ? session.slug : undefined,
+  });
+  return NextResponse.json(
+    { message: toChatMessageResponse(message.toObject()) },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,115 @@
+// app/api/livestream/sessions/[slug]/featured/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import {
+  FEATURED_MAX_TOKENS,
+  FEATURED_NOTE_MAX_LENGTH,
+  canManageSession,
+  sessionStatus,
+  toSessionResponse,
+  type StreamSessionDoc,
+} from "@/lib/livestream";
+import { MemeToken } from "@/models/MemeToken";
+import { StreamSession } from "@/models/StreamSession";
+
+export const dynamic = "force-dynamic";
+
+// Loads a session the signed-in wallet may pin tokens to, or the error response.
+async function manageableSession(req: NextRequest, slug: string) {
+  const { address, error } = await requireAuth(req);
+  if (error) return { error };
+
+  await connectMongo();
+  const session = await StreamSession.findOne({ slug }).lean<StreamSessionDoc>();
+  if (!session) {
+    return { error: NextResponse.json({ error: "Session not found" }, { status: 404 }) };
+  }
+  if (!canManageSession(address, session)) {
+    return {
+      error: NextResponse.json(
+        { error: "Only the host or an admin can pin tokens" },
+        { status: 403 }
+      ),
+    };
+  }
+  if (sessionStatus(session) === "ended") {
+    return { error: NextResponse.json({ error: "Session has ended" }, { status: 409 }) };
+  }
+  return { address, session };
+}
+
+// Body { token, note? }. Pins a token to the session (host or admin), or updates
+// the note of a pinned one. At most FEATURED_MAX_TOKENS are pinned at once.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const input = await req.json().catch(() => null);
+  if (typeof input?.token !== "string" || !ethers.isAddress(input.token)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  const token = input.token.toLowerCase();
+  const note = typeof input?.note === "string" ? input.note.trim() : "";
+  if (note.length > FEATURED_NOTE_MAX_LENGTH) {
+    return NextResponse.json(
+      { error: `Notes are limited to ${FEATURED_NOTE_MAX_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const { address, session, error } = await manageableSession(req, slug);
+  if (error) return error;
+  if (!(await MemeToken.exists({ address: token }))) {
+    return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  }
+
+  if (session.featuredTokens.some(f => f.token === token)) {
+    await StreamSession.updateOne(
+      { slug, "featuredTokens.token": token },
+      { $set: { "featuredTokens.$.note": note } }
+    );
+  } else {
+    const res = await StreamSession.updateOne(
+      {
+        slug,
+        "featuredTokens.token": { $ne: token },
+        [`featuredTokens.${FEATURED_MAX_TOKENS - 1}`]: { $exists: false },
+      },
+      { $push: { featuredTokens: { token, note, pinnedAt: Date.now(), pinnedBy: address } } }
+    );
+    if (res.modifiedCount === 0) {
+      return NextResponse.json(
+        { error: `At most ${FEATURED_MAX_TOKENS} tokens can be pinned` },
+        { status: 409 }
+      );
+    }
+  }
+
+  const updated = await StreamSession.findOne({ slug }).lean<StreamSessionDoc>();
+  return NextResponse.json(await toSessionResponse(updated!, address));
+}
+
+// DELETE ?token=0x... unpins a token (host or admin).
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  const token = req.nextUrl.searchParams.get("token");
+  if (!token || !ethers.isAddress(token)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+
+  const { address, error } = await manageableSession(req, slug);
+  if (error) return error;
+
+  await StreamSession.updateOne(
+    { slug },
+    { $pull: { featuredTokens: { token: token.toLowerCase() } } }
+  );
+  const updated = await StreamSession.findOne({ slug }).lean<StreamSessionDoc>();
+  return NextResponse.json(await toSessionResponse(updated!, address));
+}
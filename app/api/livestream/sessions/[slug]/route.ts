@@ -0,0 +1,26 @@
+// app/api/livestream/sessions/[slug]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { getSession } from "@/lib/auth";
+import { toSessionResponse, type StreamSessionDoc } from "@/lib/livestream";
+import { StreamSession } from "@/models/StreamSession";
+
+export const dynamic = "force-dynamic";
+
+// One stream session with its featured tokens; `canManage` is set for its host
+// and admins.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  await connectMongo();
+  const [viewerSession, session] = await Promise.all([
+    getSession(req),
+    StreamSession.findOne({ slug }).lean<StreamSessionDoc>(),
+  ]);
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+  return NextResponse.json(await toSessionResponse(session, viewerSession?.address ?? null));
+}
@@ -0,0 +1,50 @@
+// app/api/livestream/sessions/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { getSession } from "@/lib/auth";
+import {
+  findCurrentSession,
+  sessionStatus,
+  toSessionResponse,
+  type StreamSessionDoc,
+} from "@/lib/livestream";
+import { StreamSession } from "@/models/StreamSession";
+
+export const dynamic = "force-dynamic";
+
+const SCHEDULE_LIMIT = 10;
+
+// The current session (on air, else the next one) with its featured tokens, plus
+// the upcoming and most recent sessions.
+export async function GET(req: NextRequest) {
+  await connectMongo();
+  const now = Date.now();
+  const [viewerSession, current, upcoming, past] = await Promise.all([
+    getSession(req),
+    findCurrentSession(now),
+    StreamSession.find({ startAt: { $gt: now } })
+      .sort({ startAt: 1 })
+      .limit(SCHEDULE_LIMIT)
+      .lean<StreamSessionDoc[]>(),
+    StreamSession.find({ endAt: { $lte: now } })
+      .sort({ endAt: -1 })
+      .limit(SCHEDULE_LIMIT)
+      .lean<StreamSessionDoc[]>(),
+  ]);
+
+  const toListItem = (s: StreamSessionDoc) => ({
+    slug: s.slug,
+    title: s.title,
+    host: s.host,
+    startAt: s.startAt,
+    endAt: s.endAt,
+    status: sessionStatus(s, now),
+    featuredCount: s.featuredTokens.length,
+  });
+
+  return NextResponse.json({
+    current: current && (await toSessionResponse(current, viewerSession?.address ?? null, now)),
+    upcoming: upcoming.map(toListItem),
+    past: past.map(toListItem),
+  });
+}
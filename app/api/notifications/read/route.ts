@@ -0,0 +1,26 @@
+// app/api/notifications/read/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { Notification } from "@/models/Notification";
+
+export const dynamic = "force-dynamic";
+
+// Marks the listed notifications read, or all of them without `ids`.
+export async function POST(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const body = await req.json().catch(() => null);
+  const filter: Record<string, unknown> = { wallet, readAt: null };
+  if (body?.ids !== undefined) {
+    if (!Array.isArray(body.ids) || !body.ids.every((id: unknown) => typeof id === "string" && Types.ObjectId.isValid(id))) {
+      return NextResponse.json({ error: "ids must be a list of notification ids" }, { status: 400 });
+    }
+    filter._id = { $in: body.ids };
+  }
+  const { modifiedCount } = await Notification.updateMany(filter, { $set: { readAt: new Date() } });
+  return NextResponse.json({ updated: modifiedCount });
+}
@@ -0,0 +1,50 @@
+// app/api/notifications/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { Notification } from "@/models/Notification";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+type NotificationDoc = {
+  _id: Types.ObjectId;
+  token?: string;
+  kind?: string;
+  title: string;
+  body: string;
+  readAt?: Date;
+  createdAt: Date;
+};
+
+// The signed-in wallet's latest notifications and its unread count.
+export async function GET(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const limitParam = Number(req.nextUrl.searchParams.get("limit") ?? DEFAULT_LIMIT);
+  const limit = Number.isInteger(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+    : DEFAULT_LIMIT;
+
+  const [rows, unread] = await Promise.all([
+    Notification.find({ wallet }).sort({ createdAt: -1 }).limit(limit).lean<NotificationDoc[]>(),
+    Notification.countDocuments({ wallet, readAt: null }),
+  ]);
+  return NextResponse.json({
+    unread,
+    notifications: rows.map(n => ({
+      id: n._id.toString(),
+      token: n.token ?? null,
+      kind: n.kind ?? null,
+      title: n.title,
+      body: n.body,
+      read: Boolean(n.readAt),
+      createdAt: n.createdAt.getTime(),
+    })),
+  });
+}
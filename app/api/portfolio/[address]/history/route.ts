@@ -0,0 +1,27 @@
+// app/api/portfolio/[address]/history/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { HISTORY_INTERVALS, type HistoryInterval, getPortfolioHistory } from "@/lib/portfolio";
+
+// Combined portfolio value per `interval` bucket (1h: last 30 days, 1d: last year).
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  const interval = req.nextUrl.searchParams.get("interval") ?? "1d";
+  if (!Object.hasOwn(HISTORY_INTERVALS, interval)) {
+    return NextResponse.json(
+      { error: `interval must be one of ${Object.keys(HISTORY_INTERVALS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  await connectMongo();
+
+  const points = await getPortfolioHistory(address, interval as HistoryInterval);
+  return NextResponse.json({ address: address.toLowerCase(), interval, points });
+}
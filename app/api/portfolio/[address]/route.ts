@@ -0,0 +1,36 @@
+// app/api/portfolio/[address]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { PNL_METHODS, type PnlMethod } from "@/lib/pnl";
+import { getPortfolio } from "@/lib/portfolio";
+
+export const dynamic = "force-dynamic";
+
+// Every factory token a wallet holds or has traded: balanceOf, value at the
+// current curve / DEX sell quote, cost basis and realized / unrealized PnL
+// (method=average, the default, or fifo).
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  const method = (req.nextUrl.searchParams.get("method") ?? "average") as PnlMethod;
+  if (!PNL_METHODS.includes(method)) {
+    return NextResponse.json(
+      { error: `method must be one of ${PNL_METHODS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  await connectMongo();
+
+  try {
+    return NextResponse.json(await getPortfolio(address, method));
+  } catch (e) {
+    console.error("Failed to build portfolio:", e);
+    return NextResponse.json({ error: "Failed to build portfolio" }, { status: 500 });
+  }
+}
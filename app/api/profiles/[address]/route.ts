@@ -0,0 +1,163 @@
+// app/api/profiles/[address]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { decimalToBigInt } from "@/lib/amounts";
+import { parseProfileInput, type ProfileDoc } from "@/lib/profiles";
+import { toTokenResponse, type IndexedToken } from "@/lib/tokenIndex";
+import { Comment } from "@/models/Comment";
+import { HolderBalance } from "@/models/HolderBalance";
+import { MemeToken } from "@/models/MemeToken";
+import { Profile } from "@/models/Profile";
+import { Trade } from "@/models/Trade";
+
+export const dynamic = "force-dynamic";
+
+const RECENT_LIMIT = 20;
+
+const toProfile = (address: string, p: ProfileDoc | null) => ({
+  address,
+  username: p?.username ?? null,
+  avatarUrl: p?.avatarUrl ?? null,
+  bio: p?.bio ?? "",
+  links: p?.links ?? {},
+  updatedAt: p?.updatedAt?.getTime() ?? null,
+});
+
+// A wallet's profile with the tokens it created, the tokens it holds (by the
+// Transfer ledger), its latest trades and its latest comments.
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  const wallet = address.toLowerCase();
+  await connectMongo();
+
+  const [profile, created, balances, trades, comments] = await Promise.all([
+    Profile.findOne({ address: wallet }).lean<ProfileDoc>(),
+    MemeToken.find({ creator: wallet }).sort({ createdAt: -1 }).lean<IndexedToken[]>(),
+    HolderBalance.find({ address: wallet }, { token: 1, balance: 1 })
+      .lean<{ token: string; balance: Types.Decimal128 }[]>(),
+    Trade.find({ user: wallet })
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(RECENT_LIMIT)
+      .lean<{ token: string; hash: string; side: string; tokens: number; eth: number; timestamp: number; venue?: string }[]>(),
+    Comment.find({ author: wallet, deletedAt: null })
+      .sort({ createdAt: -1 })
+      .limit(RECENT_LIMIT)
+      .lean<{ _id: unknown; token: string; body: string; imageUrl?: string; createdAt: Date }[]>(),
+  ]);
+
+  const held = balances
+    .map(b => ({ token: b.token, balance: decimalToBigInt(b.balance) }))
+    .filter(b => b.balance > 0n);
+
+  // Names / symbols / images of every token mentioned below.
+  const tokenAddresses = [
+    ...new Set([...held.map(h => h.token), ...trades.map(t => t.token), ...comments.map(c => c.token)]),
+  ];
+  const metas = await MemeToken.find({ address: { $in: tokenAddresses } })
+    .lean<IndexedToken[]>();
+  const byAddress = new Map(metas.map(m => [m.address, m]));
+  const tokenRef = (token: string) => {
+    const meta = byAddress.get(token);
+    return {
+      token,
+      name: meta?.name ?? "",
+      symbol: meta?.symbol ?? "",
+      tokenImageUrl: meta?.tokenImageUrl ?? "",
+    };
+  };
+
+  return NextResponse.json({
+    profile: toProfile(wallet, profile),
+    created: created.map(toTokenResponse),
+    // Largest position first, valued at the indexed price.
+    held: held
+      .map(h => ({
+        ...tokenRef(h.token),
+        balance: h.balance.toString(),
+        valueEth: (byAddress.get(h.token)?.priceEth ?? 0) * Number(ethers.formatEther(h.balance)),
+      }))
+      .sort((a, b) => b.valueEth - a.valueEth),
+    trades: trades.map(t => ({
+      ...tokenRef(t.token),
+      hash: t.hash,
+      side: t.side,
+      tokens: t.tokens,
+      eth: t.eth,
+      venue: t.venue ?? "curve",
+      timestamp: t.timestamp,
+    })),
+    comments: comments.map(c => ({
+      ...tokenRef(c.token),
+      id: String(c._id),
+      body: c.body,
+      imageUrl: c.imageUrl ?? null,
+      createdAt: c.createdAt.getTime(),
+    })),
+  });
+}
+
+// Body { username?, avatarUrl?, bio?, links? }: replaces the profile. Only a
+// session for the same wallet may edit it; 409 when the username is taken.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+  const wallet = address.toLowerCase();
+
+  const { address: viewer, error } = await requireAuth(req);
+  if (error) return error;
+  if (viewer !== wallet) {
+    return NextResponse.json({ error: "You can only edit your own profile" }, { status: 403 });
+  }
+
+  const input = parseProfileInput(await req.json().catch(() => null));
+  if ("error" in input) return NextResponse.json({ error: input.error }, { status: 400 });
+
+  await connectMongo();
+  const usernameLower = input.username?.toLowerCase() ?? null;
+  if (usernameLower) {
+    const taken = await Profile.exists({ usernameLower, address: { $ne: wallet } });
+    if (taken) return NextResponse.json({ error: "Username is taken" }, { status: 409 });
+  }
+
+  const update = {
+    $set: { bio: input.bio, links: input.links } as Record<string, unknown>,
+    $unset: {} as Record<string, 1>,
+  };
+  if (input.username) {
+    update.$set.username = input.username;
+    update.$set.usernameLower = usernameLower;
+  } else {
+    update.$unset.username = 1;
+    update.$unset.usernameLower = 1;
+  }
+  if (input.avatarUrl) update.$set.avatarUrl = input.avatarUrl;
+  else update.$unset.avatarUrl = 1;
+
+  try {
+    const profile = await Profile.findOneAndUpdate({ address: wallet }, update, {
+      upsert: true,
+      new: true,
+    }).lean<ProfileDoc>();
+    return NextResponse.json({ profile: toProfile(wallet, profile) });
+  } catch (e) {
+    // Lost a race for the same username against another wallet.
+    if ((e as { code?: number }).code === 11000) {
+      return NextResponse.json({ error: "Username is taken" }, { status: 409 });
+    }
+    throw e;
+  }
+}
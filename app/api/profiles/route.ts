@@ -0,0 +1,31 @@
+// app/api/profiles/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { getProfileSummaries } from "@/lib/profiles";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ADDRESSES = 100;
+
+// Username + avatar for up to 100 comma-separated `addresses`, keyed by lowercase
+// address. Addresses without a profile are left out.
+export async function GET(req: NextRequest) {
+  const addresses = (req.nextUrl.searchParams.get("addresses") ?? "")
+    .split(",")
+    .map(a => a.trim())
+    .filter(Boolean);
+  if (addresses.length > MAX_ADDRESSES) {
+    return NextResponse.json(
+      { error: `At most ${MAX_ADDRESSES} addresses per request` },
+      { status: 400 }
+    );
+  }
+  if (addresses.some(a => !ethers.isAddress(a))) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 });
+  }
+
+  await connectMongo();
+  const summaries = await getProfileSummaries(addresses);
+  return NextResponse.json({ profiles: Object.fromEntries(summaries) });
+}
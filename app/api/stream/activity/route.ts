@@ -0,0 +1,220 @@
+// app/api/stream/activity/route.ts
+import { NextRequest } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { getSession, isAdmin } from "@/lib/auth";
+import {
+  LAUNCH_FILTER,
+  findCurrentSession,
+  getBigTradeEth,
+  getTrendingMovers,
+  recentBigTrades,
+  recentChatMessages,
+  recentGraduations,
+  recentLaunches,
+  toChatMessageResponse,
+  toGraduationItem,
+  toLaunchItem,
+  toSessionResponse,
+  toTradeItems,
+  type ChatMessageDoc,
+  type TradeDoc,
+} from "@/lib/livestream";
+import type { IndexedToken } from "@/lib/tokenIndex";
+import { ChatMessage } from "@/models/ChatMessage";
+import { MemeToken } from "@/models/MemeToken";
+import { Trade } from "@/models/Trade";
+import { TrendingSnapshot } from "@/models/TrendingSnapshot";
+
+export const dynamic = "force-dynamic";
+
+const POLL_MS = 2000;
+const SLOW_POLL_MS = 10_000;
+const HEARTBEAT_MS = 15_000;
+// Launches, graduations and trades are matched on their chain time, which trails
+// the moment they are indexed; anything this recent that was not sent yet is new.
+const LOOKBACK_MS = 10 * 60 * 1000;
+
+// Server-Sent Events for the /livestream board:
+//   event: snapshot   – { viewer, session, launches, trades, graduations, trending, chat } on connect
+//   event: launch     – a new token
+//   event: trade      – a buy or sell of at least LIVESTREAM_BIG_TRADE_ETH
+//   event: graduation – a token reached its funding goal and launched on DragonSwap
+//   event: trending   – the 1h trending movers, when the ranking is recomputed
+//   event: session    – the current stream session when it changes (pins, start, end), or null
+//   event: chat       – a chat message posted or deleted since connecting
+export async function GET(req: NextRequest) {
+  await connectMongo();
+  const viewerSession = await getSession(req);
+  const viewer = viewerSession?.address ?? null;
+
+  const encoder = new TextEncoder();
+  let timers: ReturnType<typeof setInterval>[] = [];
+  let closed = false;
+  const stopTimers = () => {
+    closed = true;
+    timers.forEach(clearInterval);
+    timers = [];
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const sendEvent = (event: string, data: unknown) =>
+        send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      // Keys sent that can still match a poll; rebuilt from each poll's rows,
+      // so items that leave the lookback window are forgotten.
+      let sentLaunches = new Set<string>();
+      let sentGraduations = new Set<string>();
+      let sentTrades = new Set<string>();
+      let chatSince = new Date();
+      // Chat rows already sent with the current `chatSince` (writes in the same ms).
+      let chatSentAtSince = new Set<string>();
+      let lastSession: string | null = null;
+      let lastTrendingAt: number | null = null;
+      let ready = false;
+      let polling = false;
+      let slowPolling = false;
+
+      const pushSession = async () => {
+        const current = await findCurrentSession();
+        const session = current && (await toSessionResponse(current, viewer));
+        const key = JSON.stringify(session);
+        if (key !== lastSession) {
+          if (lastSession !== null) sendEvent("session", session);
+          lastSession = key;
+        }
+        return session;
+      };
+
+      const close = () => {
+        if (closed) return;
+        stopTimers();
+        controller.close();
+      };
+      req.signal.addEventListener("abort", close);
+
+      const init = async () => {
+        try {
+          const [session, launches, trades, graduations, trending, chat] = await Promise.all([
+            pushSession(),
+            recentLaunches(),
+            recentBigTrades(),
+            recentGraduations(),
+            getTrendingMovers(),
+            recentChatMessages(),
+          ]);
+          sentLaunches = new Set(launches.map(l => l.token.address));
+          sentGraduations = new Set(graduations.map(g => g.token.address));
+          sentTrades = new Set(trades.map(t => t.id));
+          lastTrendingAt = trending?.computedAt ?? null;
+          sendEvent("snapshot", {
+            viewer: viewer && { address: viewer, admin: isAdmin(viewer) },
+            session,
+            launches,
+            trades,
+            graduations,
+            trending,
+            chat,
+          });
+          ready = true;
+        } catch (e) {
+          console.error("[stream] activity snapshot failed:", e);
+          close();
+        }
+      };
+
+      const poll = async () => {
+        if (!ready || polling || closed) return;
+        polling = true;
+        try {
+          const after = Date.now() - LOOKBACK_MS;
+          const [launches, graduations, trades, chat] = await Promise.all([
+            MemeToken.find({ ...LAUNCH_FILTER, createdAt: { $gte: after } })
+              .sort({ createdAt: 1, _id: 1 })
+              .lean<IndexedToken[]>(),
+            MemeToken.find({ isLaunched: true, launchedAt: { $gte: after } })
+              .sort({ launchedAt: 1, _id: 1 })
+              .lean<IndexedToken[]>(),
+            Trade.find({ timestamp: { $gte: after }, eth: { $gte: getBigTradeEth() } })
+              .sort({ timestamp: 1, _id: 1 })
+              .lean<TradeDoc[]>(),
+            ChatMessage.find({ updatedAt: { $gte: chatSince } })
+              .sort({ updatedAt: 1, _id: 1 })
+              .lean<ChatMessageDoc[]>(),
+          ]);
+
+          for (const t of launches.filter(t => !sentLaunches.has(t.address))) {
+            sendEvent("launch", toLaunchItem(t));
+          }
+          sentLaunches = new Set(launches.map(t => t.address));
+
+          for (const t of graduations.filter(t => !sentGraduations.has(t.address))) {
+            sendEvent("graduation", toGraduationItem(t));
+          }
+          sentGraduations = new Set(graduations.map(t => t.address));
+
+          const freshTrades = trades.filter(t => !sentTrades.has(t._id.toString()));
+          for (const item of await toTradeItems(freshTrades)) sendEvent("trade", item);
+          sentTrades = new Set(trades.map(t => t._id.toString()));
+
+          const freshChat = chat.filter(
+            m => !chatSentAtSince.has(`${m._id}:${m.updatedAt.getTime()}`)
+          );
+          for (const m of freshChat) sendEvent("chat", toChatMessageResponse(m));
+          if (chat.length > 0) {
+            chatSince = chat[chat.length - 1].updatedAt;
+            chatSentAtSince = new Set(
+              chat
+                .filter(m => m.updatedAt.getTime() === chatSince.getTime())
+                .map(m => `${m._id}:${m.updatedAt.getTime()}`)
+            );
+          }
+        } catch (e) {
+          console.error("[stream] activity poll failed:", e);
+        } finally {
+          polling = false;
+        }
+      };
+
+      // The session (pins, start, end) and the trending ranking change slowly.
+      const slowPoll = async () => {
+        if (!ready || slowPolling || closed) return;
+        slowPolling = true;
+        try {
+          await pushSession();
+          const snapshot = await TrendingSnapshot.findOne({ window: "1h" }, { computedAt: 1 })
+            .lean<{ computedAt: number }>();
+          if (snapshot && snapshot.computedAt !== lastTrendingAt) {
+            const trending = await getTrendingMovers();
+            lastTrendingAt = trending?.computedAt ?? null;
+            sendEvent("trending", trending);
+          }
+        } catch (e) {
+          console.error("[stream] activity session poll failed:", e);
+        } finally {
+          slowPolling = false;
+        }
+      };
+
+      send(`retry: ${POLL_MS}\n\n`);
+      void init();
+      timers = [
+        setInterval(poll, POLL_MS),
+        setInterval(slowPoll, SLOW_POLL_MS),
+        setInterval(() => send(": ping\n\n"), HEARTBEAT_MS),
+      ];
+    },
+    cancel: stopTimers,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,134 @@
+// app/api/stream/trades/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import type { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { getCurveState, type CurveState } from "@/lib/curve";
+import { Trade } from "@/models/Trade";
+import { TradeRollback } from "@/models/TradeRollback";
+
+export const dynamic = "force-dynamic";
+
+const POLL_MS = 2000;
+const HEARTBEAT_MS = 15_000;
+
+type TradeRow = { _id: Types.ObjectId; updatedAt: Date };
+type RollbackRow = { _id: Types.ObjectId; trade: Types.ObjectId; timestamp?: number };
+
+// Server-Sent Events for one token:
+//   event: trade – a trade stored or updated (e.g. pending -> final) since connecting
+//   event: remove – { _id, timestamp } of a pending trade deleted by reorg rollback
+//   event: curve – { fundingRaised, curveSupply, isLaunched } on connect and after new trades
+// Trades are picked up from Mongo, so they appear as soon as the indexer or
+// POST /api/trades stores them.
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token");
+  if (!token || !ethers.isAddress(token)) {
+    return NextResponse.json({ error: "token must be an address" }, { status: 400 });
+  }
+  const tokenAddress = token.toLowerCase();
+  await connectMongo();
+
+  const encoder = new TextEncoder();
+  let timers: ReturnType<typeof setInterval>[] = [];
+  let closed = false;
+  const stopTimers = () => {
+    closed = true;
+    timers.forEach(clearInterval);
+    timers = [];
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const sendEvent = (event: string, data: unknown) =>
+        send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const connectedAt = new Date();
+      let since = connectedAt;
+      // Rows already sent with the current `since` (writes in the same ms).
+      let sentAtSince = new Set<string>();
+      // Rollbacks are rare, so every one sent on this connection is remembered.
+      const removedSent = new Set<string>();
+      let lastCurve: string | null = null;
+      let polling = false;
+
+      const pushCurve = async () => {
+        try {
+          const state: CurveState = await getCurveState(tokenAddress);
+          const key = JSON.stringify(state);
+          if (key !== lastCurve) {
+            lastCurve = key;
+            sendEvent("curve", state);
+          }
+        } catch (e) {
+          console.error("[stream] curve state failed:", e);
+        }
+      };
+
+      const poll = async () => {
+        if (polling || closed) return;
+        polling = true;
+        try {
+          const rows = await Trade.find({ token: tokenAddress, updatedAt: { $gte: since } })
+            .sort({ updatedAt: 1, _id: 1 })
+            .lean<TradeRow[]>();
+          const fresh = rows.filter(
+            r => !sentAtSince.has(`${r._id}:${r.updatedAt.getTime()}`)
+          );
+          for (const row of fresh) sendEvent("trade", row);
+
+          if (rows.length > 0) {
+            since = rows[rows.length - 1].updatedAt;
+            sentAtSince = new Set(
+              rows
+                .filter(r => r.updatedAt.getTime() === since.getTime())
+                .map(r => `${r._id}:${r.updatedAt.getTime()}`)
+            );
+          }
+
+          const rollbacks = await TradeRollback.find({
+            token: tokenAddress,
+            createdAt: { $gte: connectedAt },
+          }).lean<RollbackRow[]>();
+          const removed = rollbacks.filter(r => !removedSent.has(r._id.toString()));
+          for (const r of removed) {
+            removedSent.add(r._id.toString());
+            sendEvent("remove", { _id: r.trade.toString(), timestamp: r.timestamp ?? null });
+          }
+
+          if (fresh.length > 0 || removed.length > 0) await pushCurve();
+        } catch (e) {
+          console.error("[stream] poll failed:", e);
+        } finally {
+          polling = false;
+        }
+      };
+
+      const close = () => {
+        if (closed) return;
+        stopTimers();
+        controller.close();
+      };
+      req.signal.addEventListener("abort", close);
+
+      send(`retry: ${POLL_MS}\n\n`);
+      void pushCurve();
+      timers = [
+        setInterval(poll, POLL_MS),
+        setInterval(() => send(": ping\n\n"), HEARTBEAT_MS),
+      ];
+    },
+    cancel: stopTimers,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,48 @@
+// app/api/tokens/[address]/comments/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { canDeleteComment, type CommentDoc } from "@/lib/comments";
+import { Comment } from "@/models/Comment";
+import { MemeToken } from "@/models/MemeToken";
+
+export const dynamic = "force-dynamic";
+
+// Deletes a comment (its author, the token's creator or an admin). The row is
+// kept without its body and image so replies stay threaded.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string; id: string }> }
+) {
+  const { address, id } = await params;
+  if (!ethers.isAddress(address) || !Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+  }
+  const token = address.toLowerCase();
+
+  const { address: viewer, error } = await requireAuth(req);
+  if (error) return error;
+
+  await connectMongo();
+  const comment = await Comment.findOne({ _id: id, token }).lean<CommentDoc>();
+  if (!comment || comment.deletedAt) {
+    return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+  }
+  const meta = await MemeToken.findOne({ address: token }, { creator: 1 })
+    .lean<{ creator?: string }>();
+  if (!canDeleteComment(viewer, comment, meta?.creator?.toLowerCase() ?? null)) {
+    return NextResponse.json({ error: "Not allowed to delete this comment" }, { status: 403 });
+  }
+
+  // Conditional on deletedAt, so parallel deletes only count the reply once.
+  const res = await Comment.updateOne(
+    { _id: id, deletedAt: null },
+    { $set: { deletedAt: new Date(), deletedBy: viewer, body: "" }, $unset: { imageUrl: 1 } }
+  );
+  if (res.modifiedCount > 0 && comment.parentId) {
+    await Comment.updateOne({ _id: comment.parentId }, { $inc: { replyCount: -1 } });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,162 @@
+// app/api/tokens/[address]/comments/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { getSession, isAdmin, requireAuth } from "@/lib/auth";
+import {
+  COMMENT_MAX_LENGTH,
+  canDeleteComment,
+  checkImageUrl,
+  holdersAmong,
+  takeCommentSlot,
+  type CommentDoc,
+} from "@/lib/comments";
+import { Comment } from "@/models/Comment";
+import { MemeToken } from "@/models/MemeToken";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const tokenCreator = async (token: string) => {
+  const meta = await MemeToken.findOne({ address: token }, { creator: 1 })
+    .lean<{ creator?: string }>();
+  return meta ? (meta.creator?.toLowerCase() ?? null) : undefined;
+};
+
+// Top-level comments of a token, newest first, `page` / `limit` at a time, each
+// with its replies oldest first. Authors holding the token get `holder: true`;
+// `canDelete` is set for the signed-in viewer.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  const token = address.toLowerCase();
+  const search = req.nextUrl.searchParams;
+  const page = Math.max(1, Number(search.get("page")) || 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(search.get("limit")) || DEFAULT_LIMIT));
+
+  await connectMongo();
+  const [session, creator] = await Promise.all([getSession(req), tokenCreator(token)]);
+
+  // Deleted comments only stay listed while they have replies.
+  const filter = {
+    token,
+    parentId: null,
+    $or: [{ deletedAt: null }, { replyCount: { $gt: 0 } }],
+  };
+  const [roots, total] = await Promise.all([
+    Comment.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<CommentDoc[]>(),
+    Comment.countDocuments(filter),
+  ]);
+  const replies = await Comment.find({ token, parentId: { $in: roots.map(r => r._id) } })
+    .sort({ createdAt: 1 })
+    .lean<CommentDoc[]>();
+
+  const holders = await holdersAmong(
+    token,
+    [...new Set([...roots, ...replies].map(c => c.author))]
+  );
+  const viewer = session?.address ?? null;
+  const toComment = (c: CommentDoc) => ({
+    id: c._id.toString(),
+    author: c.author,
+    body: c.deletedAt ? "" : c.body,
+    imageUrl: c.deletedAt ? null : (c.imageUrl ?? null),
+    createdAt: c.createdAt.getTime(),
+    deleted: Boolean(c.deletedAt),
+    holder: holders.has(c.author),
+    creator: c.author === creator,
+    canDelete: !c.deletedAt && viewer !== null && canDeleteComment(viewer, c, creator ?? null),
+  });
+
+  return NextResponse.json({
+    comments: roots.map(root => ({
+      ...toComment(root),
+      replies: replies.filter(r => r.parentId?.equals(root._id)).map(toComment),
+    })),
+    page,
+    limit,
+    total,
+    hasMore: page * limit < total,
+    viewer: viewer && { address: viewer, admin: isAdmin(viewer) },
+  });
+}
+
+// Body { body, imageUrl?, parentId? }. Posts as the signed-in wallet; a reply
+// to a reply joins the top-level comment's thread. 429 past COMMENTS_PER_MINUTE.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  const token = address.toLowerCase();
+
+  const { address: author, error } = await requireAuth(req);
+  if (error) return error;
+
+  const input = await req.json().catch(() => null);
+  const body = typeof input?.body === "string" ? input.body.trim() : "";
+  const imageUrl = typeof input?.imageUrl === "string" ? input.imageUrl.trim() : "";
+  if (!body && !imageUrl) {
+    return NextResponse.json({ error: "Comment is empty" }, { status: 400 });
+  }
+  if (body.length > COMMENT_MAX_LENGTH) {
+    return NextResponse.json(
+      { error: `Comments are limited to ${COMMENT_MAX_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  const badImage = imageUrl ? checkImageUrl(imageUrl) : null;
+  if (badImage) return NextResponse.json({ error: badImage }, { status: 400 });
+
+  await connectMongo();
+  if ((await tokenCreator(token)) === undefined) {
+    return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  }
+
+  let rootId: Types.ObjectId | null = null;
+  if (input?.parentId !== undefined && input?.parentId !== null) {
+    if (!Types.ObjectId.isValid(input.parentId)) {
+      return NextResponse.json({ error: "Invalid parentId" }, { status: 400 });
+    }
+    const parent = await Comment.findOne({ _id: input.parentId, token })
+      .lean<CommentDoc>();
+    if (!parent || parent.deletedAt) {
+      return NextResponse.json({ error: "Parent comment not found" }, { status: 404 });
+    }
+    rootId = parent.parentId ?? parent._id;
+  }
+
+  const wait = await takeCommentSlot(author);
+  if (wait > 0) {
+    return NextResponse.json(
+      { error: "You are commenting too fast", retryAfterMs: wait },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(wait / 1000)) } }
+    );
+  }
+
+  const comment = await Comment.create({
+    token,
+    author,
+    body,
+    imageUrl: imageUrl || undefined,
+    parentId: rootId,
+  });
+  if (rootId) await Comment.updateOne({ _id: rootId }, { $inc: { replyCount: 1 } });
+
+  return NextResponse.json({ id: comment._id.toString() }, { status: 201 });
+}
@@ -0,0 +1,61 @@
+// app/api/tokens/[address]/metadata/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { checkHttpsUrl, parseSocialLinks } from "@/lib/links";
+import { toTokenResponse, type IndexedToken } from "@/lib/tokenIndex";
+import { MemeToken } from "@/models/MemeToken";
+
+export const dynamic = "force-dynamic";
+
+const BANNER_URL_MAX_LENGTH = 500;
+
+// Off-chain metadata (social links, banner) of a token; only its creator may edit it.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  const token = address.toLowerCase();
+
+  const { address: viewer, error } = await requireAuth(req);
+  if (error) return error;
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const links = parseSocialLinks(body.links);
+  if ("error" in links) return NextResponse.json({ error: links.error }, { status: 400 });
+  const bannerUrl = typeof body.bannerUrl === "string" ? body.bannerUrl.trim() : "";
+  if (bannerUrl) {
+    const bannerError = checkHttpsUrl(bannerUrl, "Banner link", BANNER_URL_MAX_LENGTH);
+    if (bannerError) return NextResponse.json({ error: bannerError }, { status: 400 });
+  }
+
+  await connectMongo();
+  const existing = await MemeToken.findOne({ address: token }, { creator: 1 })
+    .lean<{ creator?: string }>();
+  if (!existing) return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  if (existing.creator !== viewer) {
+    return NextResponse.json(
+      { error: "Only the token's creator can edit its metadata" },
+      { status: 403 }
+    );
+  }
+
+  const update = {
+    $set: { links, metadataUpdatedAt: Date.now() } as Record<string, unknown>,
+    $unset: {} as Record<string, 1>,
+  };
+  if (bannerUrl) update.$set.bannerUrl = bannerUrl;
+  else update.$unset.bannerUrl = 1;
+
+  const updated = await MemeToken.findOneAndUpdate({ address: token }, update, { new: true })
+    .lean<IndexedToken>();
+  return NextResponse.json({ token: toTokenResponse(updated!) });
+}
@@ -0,0 +1,31 @@
+// app/api/tokens/[address]/pool/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { getPoolInfo } from "@/lib/pool";
+
+export const dynamic = "force-dynamic";
+
+// Live DragonSwap pool of a graduated token: reserves, pool price, liquidity,
+// LP burn proof and the TokenLaunched data. 404 until the token has launched.
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  await connectMongo();
+
+  try {
+    const pool = await getPoolInfo(address);
+    if (!pool) {
+      return NextResponse.json({ error: "Token has not graduated" }, { status: 404 });
+    }
+    return NextResponse.json({ pool });
+  } catch (e) {
+    console.error("Failed to read pool:", e);
+    return NextResponse.json({ error: "Failed to read pool" }, { status: 500 });
+  }
+}
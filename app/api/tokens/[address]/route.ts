@@ -0,0 +1,46 @@
+// app/api/tokens/[address]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { type IndexedToken, refreshTokenIndex, toTokenResponse } from "@/lib/tokenIndex";
+import { MemeToken } from "@/models/MemeToken";
+
+// Entries older than this are re-read from the factory before answering.
+const MAX_AGE_MS = 60 * 1000;
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  const token = address.toLowerCase();
+  await connectMongo();
+
+  let doc = await MemeToken.findOne({ address: token })
+    .lean<IndexedToken & { indexRefreshedAt?: number }>();
+  let known = doc !== null;
+  if (!doc || Date.now() - (doc.indexRefreshedAt ?? 0) > MAX_AGE_MS) {
+    try {
+      // Also picks up tokens the indexer has not reached yet.
+      known = await refreshTokenIndex(token);
+      if (known) doc = await MemeToken.findOne({ address: token }).lean<IndexedToken>();
+    } catch (e) {
+      // RPC trouble: answer from the index if the token is in it.
+      console.error("Failed to refresh token:", e);
+      if (!doc) {
+        return NextResponse.json(
+          { error: "Could not reach the chain RPC to look up the token; try again" },
+          { status: 502 }
+        );
+      }
+    }
+  }
+
+  if (!known || !doc) {
+    return NextResponse.json({ error: "Token not found" }, { status: 404 });
+  }
+  return NextResponse.json({ token: toTokenResponse(doc) });
+}
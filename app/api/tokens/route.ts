@@ -0,0 +1,129 @@
+// app/api/tokens/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { type IndexedToken, toTokenResponse } from "@/lib/tokenIndex";
+import { MemeToken } from "@/models/MemeToken";
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+const SORT_FIELDS = {
+  newest: "createdAt",
+  marketCap: "marketCapEth",
+  volume: "volume24hEth",
+  progress: "progress",
+  graduated: "launchedAt",
+  liquidity: "liquidityEth",
+} as const;
+
+type SortKey = keyof typeof SORT_FIELDS;
+type TokenRow = IndexedToken & { _id: Types.ObjectId } & Record<string, unknown>;
+
+const numberParam = (value: string | null) =>
+  value === null || value === "" ? undefined : Number(value);
+
+// Cursors are "<sort value>_<_id>" of the last token of a page. Tokens without a
+// sort value (e.g. launchedAt before graduation) sort last and use "null".
+function decodeCursor(cursor: string) {
+  const sep = cursor.lastIndexOf("_");
+  const raw = cursor.slice(0, sep);
+  const value = raw === "null" ? null : Number(raw);
+  const id = cursor.slice(sep + 1);
+  if (sep < 1 || (value !== null && !Number.isFinite(value)) || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { value, id: new Types.ObjectId(id) };
+}
+
+// Lists indexed tokens, highest `sort` value first.
+// Filters: q (full-text on name / symbol), launched, minProgress / maxProgress,
+// creator, createdAfter / createdBefore (ms), address (comma-separated list).
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+
+  const sort = (params.get("sort") ?? "newest") as SortKey;
+  if (!Object.hasOwn(SORT_FIELDS, sort)) {
+    return NextResponse.json(
+      { error: `sort must be one of ${Object.keys(SORT_FIELDS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const field = SORT_FIELDS[sort];
+
+  const minProgress = numberParam(params.get("minProgress"));
+  const maxProgress = numberParam(params.get("maxProgress"));
+  const createdAfter = numberParam(params.get("createdAfter"));
+  const createdBefore = numberParam(params.get("createdBefore"));
+  if ([minProgress, maxProgress, createdAfter, createdBefore].some(
+    n => n !== undefined && !Number.isFinite(n)
+  )) {
+    return NextResponse.json(
+      { error: "minProgress / maxProgress / createdAfter / createdBefore must be numbers" },
+      { status: 400 }
+    );
+  }
+
+  const creator = params.get("creator");
+  const addresses = params.get("address")?.split(",").filter(Boolean) ?? [];
+  if ((creator && !ethers.isAddress(creator)) || addresses.some(a => !ethers.isAddress(a))) {
+    return NextResponse.json({ error: "creator / address must be addresses" }, { status: 400 });
+  }
+
+  const cursorParam = params.get("cursor");
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+
+  const filter: Record<string, unknown> = {};
+  const q = params.get("q")?.trim();
+  if (q) filter.$text = { $search: q };
+  const launched = params.get("launched");
+  if (launched === "true" || launched === "false") filter.isLaunched = launched === "true";
+  if (creator) filter.creator = creator.toLowerCase();
+  if (addresses.length > 0) filter.address = { $in: addresses.map(a => a.toLowerCase()) };
+  if (minProgress !== undefined || maxProgress !== undefined) {
+    filter.progress = {
+      ...(minProgress !== undefined ? { $gte: minProgress } : {}),
+      ...(maxProgress !== undefined ? { $lte: maxProgress } : {}),
+    };
+  }
+  if (createdAfter !== undefined || createdBefore !== undefined) {
+    filter.createdAt = {
+      ...(createdAfter !== undefined ? { $gte: createdAfter } : {}),
+      ...(createdBefore !== undefined ? { $lt: createdBefore } : {}),
+    };
+  }
+
+  await connectMongo();
+
+  const total = await MemeToken.countDocuments(filter);
+  // A descending sort puts missing / null values after every number.
+  if (cursor?.value === null) {
+    filter.$and = [{ [field]: null }, { _id: { $lt: cursor.id } }];
+  } else if (cursor) {
+    filter.$or = [
+      { [field]: { $lt: cursor.value } },
+      { [field]: cursor.value, _id: { $lt: cursor.id } },
+      { [field]: null },
+    ];
+  }
+
+  // One extra row tells whether another page exists.
+  const rows = await MemeToken.find(filter)
+    .sort({ [field]: -1, _id: -1 })
+    .limit(limit + 1)
+    .lean<TokenRow[]>();
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const lastValue = last?.[field];
+  const nextCursor = rows.length > limit
+    ? `${lastValue === null || lastValue === undefined ? "null" : Number(lastValue)}_${last._id.toString()}`
+    : null;
+
+  return NextResponse.json({ tokens: page.map(toTokenResponse), total, nextCursor });
+}
@@ -1,23 +1,176 @@
 // app/api/trades/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
 import { connectMongo } from "@/lib/mongo";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { refreshCandles } from "@/lib/candles";
+import { refreshTokenIndex } from "@/lib/tokenIndex";
+import { getFactoryAddress } from "@/lib/indexer/config";
+import { tradesFromReceipt, upsertChainTrade } from "@/lib/indexer/factoryEvents";
+import { swapTradesFromReceipt } from "@/lib/indexer/pairEvents";
 import { Trade } from "@/models/Trade";
+import { MemeToken } from "@/models/MemeToken";
 
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+type TradeRow = { _id: Types.ObjectId; timestamp: number };
+
+// Cursors are "<timestamp>_<_id>" of the last trade of a page.
+const encodeCursor = (t: TradeRow) => `${t.timestamp}_${t._id.toString()}`;
+
+function decodeCursor(cursor: string) {
+  const [ts, id] = cursor.split("_");
+  const timestamp = Number(ts);
+  if (!Number.isFinite(timestamp) || !id || !Types.ObjectId.isValid(id)) return null;
+  return { timestamp, id: new Types.ObjectId(id) };
+}
+
+const numberParam = (value: string | null) =>
+  value === null || value === "" ? undefined : Number(value);
+
+// Pages newest first by default; `before=<cursor>` continues towards older
+// trades. `after=<cursor>` (or `order=asc` without a cursor) pages oldest first.
+// `nextCursor` continues in the same direction and is null on the last page.
 export async function GET(req: NextRequest) {
-  const token = req.nextUrl.searchParams.get("token");
-  if (!token) {
-    return NextResponse.json({ trades: [] });
+  const params = req.nextUrl.searchParams;
+  const token = params.get("token");
+  const user = params.get("user");
+  if (!token && !user) {
+    return NextResponse.json({ trades: [], nextCursor: null });
+  }
+  if ((token && !ethers.isAddress(token)) || (user && !ethers.isAddress(user))) {
+    return NextResponse.json({ error: "token / user must be addresses" }, { status: 400 });
+  }
+
+  const side = params.get("side");
+  if (side !== null && side !== "buy" && side !== "sell") {
+    return NextResponse.json({ error: "side must be buy or sell" }, { status: 400 });
+  }
+  const minEth = numberParam(params.get("minEth"));
+  const from = numberParam(params.get("from"));
+  const to = numberParam(params.get("to"));
+  if ([minEth, from, to].some(n => n !== undefined && !Number.isFinite(n))) {
+    return NextResponse.json({ error: "minEth / from / to must be numbers" }, { status: 400 });
+  }
+
+  const before = params.get("before");
+  const after = params.get("after");
+  if (before && after) {
+    return NextResponse.json({ error: "Use either before or after" }, { status: 400 });
+  }
+  const cursor = before ?? after;
+  const decoded = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !decoded) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+  const ascending = after !== null || (before === null && params.get("order") === "asc");
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+  // ?final=1 drops trades that could still be rolled back by a reorg
+  const finalOnly = params.get("final") === "1";
+
+  const filter: Record<string, unknown> = {};
+  if (token) filter.token = token.toLowerCase();
+  if (user) filter.user = user.toLowerCase();
+  if (side) filter.side = side;
+  if (finalOnly) filter.status = "final";
+  if (minEth !== undefined) filter.eth = { $gte: minEth };
+  if (from !== undefined || to !== undefined) {
+    filter.timestamp = {
+      ...(from !== undefined ? { $gte: from } : {}),
+      ...(to !== undefined ? { $lt: to } : {}),
+    };
   }
+  if (decoded) {
+    const op = ascending ? "$gt" : "$lt";
+    filter.$or = [
+      { timestamp: { [op]: decoded.timestamp } },
+      { timestamp: decoded.timestamp, _id: { [op]: decoded.id } },
+    ];
+  }
+
   await connectMongo();
-  const trades = await Trade.find({ token })
-    .sort({ timestamp: 1 })
-    .lean();
-  return NextResponse.json({ trades });
+  const dir = ascending ? 1 : -1;
+  // One extra row tells whether another page exists.
+  const rows = await Trade.find(filter)
+    .sort({ timestamp: dir, _id: dir })
+    .limit(limit + 1)
+    .lean<TradeRow[]>();
+
+  const trades = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(trades[trades.length - 1]) : null;
+  return NextResponse.json({ trades, nextCursor });
 }
 
+const rpcError = (e: unknown) => {
+  console.error("RPC call failed:", e);
+  return NextResponse.json(
+    { error: "Could not reach the chain RPC to verify the transaction; try again" },
+    { status: 502 }
+  );
+};
+
+// Records a trade from its tx hash. Side, user and amounts come from the
+// factory's TokenBought / TokenSold log (or the pair's Swap log after
+// graduation), never from the request body.
 export async function POST(req: NextRequest) {
-  const body = await req.json();
+  const body = await req.json().catch(() => null);
+  const hash = body?.hash;
+  const token = body?.token;
+  if (!ethers.isHexString(hash, 32) || typeof token !== "string" || !ethers.isAddress(token)) {
+    return NextResponse.json(
+      { error: "Expected { hash, token } with a tx hash and token address" },
+      { status: 400 }
+    );
+  }
+
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await getRpcProvider().getTransactionReceipt(hash);
+  } catch (e) {
+    return rpcError(e);
+  }
+  if (!receipt) {
+    return NextResponse.json({ error: "Transaction not found or not mined yet" }, { status: 404 });
+  }
+  if (receipt.status !== 1) {
+    return NextResponse.json({ error: "Transaction reverted" }, { status: 422 });
+  }
+
   await connectMongo();
-  await Trade.create(body);
-  return NextResponse.json({ ok: true });
+  let trades = tradesFromReceipt(receipt, token, getFactoryAddress());
+  if (trades.length === 0) {
+    const meta = await MemeToken.findOne({ address: token.toLowerCase() })
+      .lean<{ pairAddress?: string; pairToken0?: string }>();
+    if (meta?.pairAddress && meta.pairToken0) {
+      let block: ethers.Block | null;
+      try {
+        block = await getRpcProvider().getBlock(receipt.blockNumber);
+      } catch (e) {
+        return rpcError(e);
+      }
+      trades = swapTradesFromReceipt(
+        receipt,
+        token,
+        { address: meta.pairAddress, token0: meta.pairToken0 },
+        (block?.timestamp ?? 0) * 1000
+      );
+    }
+  }
+  if (trades.length === 0) {
+    return NextResponse.json(
+      { error: "Transaction has no trade for this token" },
+      { status: 422 }
+    );
+  }
+
+  // upsertChainTrade keys on (hash, logIndex), so re-posting the same hash is a no-op.
+  for (const trade of trades) {
+    await upsertChainTrade(trade);
+  }
+  await refreshCandles(trades);
+  // The trade is stored either way; a stale index entry is refreshed by the indexer.
+  await refreshTokenIndex(token).catch(err => console.error("Failed to refresh token index:", err));
+  return NextResponse.json({ ok: true, trades });
 }
@@ -1,34 +1,48 @@
 // app/api/trending/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { connectMongo } from "@/lib/mongo";
-import { Trade } from "@/models/Trade";
+import {
+  TRENDING_MAX_ENTRIES,
+  TRENDING_WINDOWS,
+  getTrendingConfig,
+  isTrendingWindow,
+  type TrendingSnapshotDoc,
+} from "@/lib/trending";
+import { TrendingSnapshot } from "@/models/TrendingSnapshot";
 
-export async function GET(_req: NextRequest) {
-  await connectMongo();
+const DEFAULT_LIMIT = 10;
+
+// Snapshots this many refresh intervals old are flagged `stale`. They are only
+// recomputed by the indexer loop, never inside a request.
+const STALE_INTERVALS = 5;
 
-  const ONE_DAY = 24 * 60 * 60 * 1000;
-  const since = Date.now() - ONE_DAY;
+// Ranks tokens by the precomputed trending score for `window` (default 24h).
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const window = params.get("window") ?? "24h";
+  if (!isTrendingWindow(window)) {
+    return NextResponse.json(
+      { error: `window must be one of ${Object.keys(TRENDING_WINDOWS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const limit = Math.min(
+    TRENDING_MAX_ENTRIES,
+    Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT)
+  );
 
-  const agg = await Trade.aggregate([
-    { $match: { timestamp: { $gte: since } } },
-    {
-      $group: {
-        _id: "$token",
-        tradeCount: { $sum: 1 },
-        totalVolumeEth: { $sum: "$eth" },
-        lastTradeAt: { $max: "$timestamp" }
-      }
-    },
-    { $sort: { totalVolumeEth: -1 } },
-    { $limit: 10 }
-  ]);
+  await connectMongo();
 
-  const trending = agg.map((row: any) => ({
-    token: row._id as string,
-    tradeCount: row.tradeCount as number,
-    totalVolumeEth: row.totalVolumeEth as number,
-    lastTradeAt: row.lastTradeAt as number
-  }));
+  const { weights, halfLife, whalePenalty, refreshMs } = getTrendingConfig();
+  const snapshot = await TrendingSnapshot.findOne({ window }).lean<TrendingSnapshotDoc>();
 
-  return NextResponse.json({ trending });
+  return NextResponse.json({
+    window,
+    computedAt: snapshot?.computedAt ?? null,
+    stale: !snapshot || Date.now() - snapshot.computedAt > refreshMs * STALE_INTERVALS,
+    totalVolumeEth: snapshot?.totalVolumeEth ?? 0,
+    activeTokens: snapshot?.activeTokens ?? 0,
+    config: { weights, halfLife, whalePenalty },
+    trending: snapshot?.entries.slice(0, limit) ?? [],
+  });
 }
@@ -0,0 +1,81 @@
+// app/api/watchlist/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { requireAuth } from "@/lib/auth";
+import { WATCHLIST_MAX_TOKENS } from "@/lib/alerts";
+import { toTokenResponse, type IndexedToken } from "@/lib/tokenIndex";
+import { MemeToken } from "@/models/MemeToken";
+import { WatchlistItem } from "@/models/WatchlistItem";
+
+export const dynamic = "force-dynamic";
+
+async function listWatchlist(wallet: string) {
+  const items = await WatchlistItem.find({ wallet })
+    .sort({ createdAt: 1 })
+    .lean<{ token: string }[]>();
+  const addresses = items.map(i => i.token);
+  const tokens = await MemeToken.find({ address: { $in: addresses } }).lean<IndexedToken[]>();
+  const byAddress = new Map(tokens.map(t => [t.address, t]));
+  return {
+    addresses,
+    tokens: addresses.flatMap(a => {
+      const t = byAddress.get(a);
+      return t ? [toTokenResponse(t)] : [];
+    }),
+  };
+}
+
+// The signed-in wallet's watchlist, oldest first.
+export async function GET(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+  return NextResponse.json(await listWatchlist(wallet));
+}
+
+// Adds `tokens` (e.g. a single token, or a browser-stored list on sign-in).
+export async function POST(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const body = await req.json().catch(() => null);
+  const raw: unknown[] = Array.isArray(body?.tokens) ? body.tokens : [];
+  if (raw.length === 0 || !raw.every(t => typeof t === "string" && ethers.isAddress(t))) {
+    return NextResponse.json({ error: "tokens must be a list of token addresses" }, { status: 400 });
+  }
+  const tokens = [...new Set((raw as string[]).map(t => t.toLowerCase()))];
+
+  const known = await MemeToken.distinct("address", { address: { $in: tokens } });
+  const existing = await WatchlistItem.distinct("token", { wallet });
+  const toAdd = known.filter((t: string) => !existing.includes(t));
+  if (existing.length + toAdd.length > WATCHLIST_MAX_TOKENS) {
+    return NextResponse.json(
+      { error: `A watchlist holds up to ${WATCHLIST_MAX_TOKENS} tokens` },
+      { status: 409 }
+    );
+  }
+  if (toAdd.length > 0) {
+    await WatchlistItem.bulkWrite(
+      toAdd.map((token: string) => ({
+        updateOne: { filter: { wallet, token }, update: { $setOnInsert: { wallet, token } }, upsert: true },
+      }))
+    );
+  }
+  return NextResponse.json(await listWatchlist(wallet));
+}
+
+// Removes ?token= from the watchlist.
+export async function DELETE(req: NextRequest) {
+  const { address: wallet, error } = await requireAuth(req);
+  if (error) return error;
+  await connectMongo();
+
+  const token = req.nextUrl.searchParams.get("token");
+  if (!token || !ethers.isAddress(token)) {
+    return NextResponse.json({ error: "Invalid token address" }, { status: 400 });
+  }
+  await WatchlistItem.deleteOne({ wallet, token: token.toLowerCase() });
+  return NextResponse.json(await listWatchlist(wallet));
+}
@@ -0,0 +1,36 @@
+// app/api/webhooks/[id]/deliveries/[deliveryId]/retry/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAdmin } from "@/lib/auth";
+import { requeueDelivery, toDeliveryResponse } from "@/lib/webhooks";
+import { WebhookDelivery } from "@/models/WebhookDelivery";
+
+export const dynamic = "force-dynamic";
+
+// Moves a dead-lettered (or pending) delivery back into the queue with a fresh
+// attempt budget; the indexer sends it on its next pass.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  const { id, deliveryId } = await params;
+  if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(deliveryId)) {
+    return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+  }
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+  await connectMongo();
+
+  const existing = await WebhookDelivery.findOne(
+    { _id: deliveryId, subscription: new Types.ObjectId(id) },
+    { status: 1 }
+  ).lean<{ status: string }>();
+  if (!existing) return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+  if (existing.status === "delivered") {
+    return NextResponse.json({ error: "Delivery already succeeded" }, { status: 409 });
+  }
+  const delivery = await requeueDelivery(deliveryId);
+  if (!delivery) return NextResponse.json({ error: "Delivery already succeeded" }, { status: 409 });
+  return NextResponse.json({ delivery: toDeliveryResponse(delivery) });
+}
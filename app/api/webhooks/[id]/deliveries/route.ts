@@ -0,0 +1,57 @@
+// app/api/webhooks/[id]/deliveries/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAdmin } from "@/lib/auth";
+import { toDeliveryResponse, type WebhookDeliveryDoc } from "@/lib/webhooks";
+import { WebhookDelivery } from "@/models/WebhookDelivery";
+import { WebhookSubscription } from "@/models/WebhookSubscription";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const STATUSES = ["pending", "delivered", "dead"];
+
+// Delivery log of a subscription, newest first; ?status=dead lists its dead-letter queue.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+
+  const search = req.nextUrl.searchParams;
+  const status = search.get("status");
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${STATUSES.join(", ")}` }, { status: 400 });
+  }
+  const page = Math.max(1, Number(search.get("page")) || 1);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(search.get("limit")) || DEFAULT_LIMIT));
+
+  await connectMongo();
+  if (!(await WebhookSubscription.exists({ _id: id }))) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  const filter: Record<string, unknown> = { subscription: new Types.ObjectId(id) };
+  if (status) filter.status = status;
+  const [rows, total] = await Promise.all([
+    WebhookDelivery.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean<WebhookDeliveryDoc[]>(),
+    WebhookDelivery.countDocuments(filter),
+  ]);
+  return NextResponse.json({
+    page,
+    limit,
+    total,
+    hasMore: page * limit < total,
+    deliveries: rows.map(toDeliveryResponse),
+  });
+}
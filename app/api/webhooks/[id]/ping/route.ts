@@ -0,0 +1,31 @@
+// app/api/webhooks/[id]/ping/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAdmin } from "@/lib/auth";
+import { enqueuePing, toDeliveryResponse, type WebhookDeliveryDoc } from "@/lib/webhooks";
+import { WebhookSubscription } from "@/models/WebhookSubscription";
+
+export const dynamic = "force-dynamic";
+
+// Queues a signed "ping" event to test the endpoint; the indexer sends it.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+  await connectMongo();
+
+  const subscription = await WebhookSubscription.findById(id, { _id: 1 }).lean<{ _id: Types.ObjectId }>();
+  if (!subscription) return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  const delivery = await enqueuePing(subscription._id);
+  return NextResponse.json(
+    { delivery: toDeliveryResponse(delivery.toObject() as WebhookDeliveryDoc) },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,74 @@
+// app/api/webhooks/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { requireAdmin } from "@/lib/auth";
+import {
+  generateWebhookSecret,
+  parseSubscriptionInput,
+  toSubscriptionResponse,
+  type WebhookSubscriptionDoc,
+} from "@/lib/webhooks";
+import { WebhookDelivery } from "@/models/WebhookDelivery";
+import { WebhookSubscription } from "@/models/WebhookSubscription";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+
+// One subscription with its delivery counts per status.
+export async function GET(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) return notFound();
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+  await connectMongo();
+
+  const subscription = await WebhookSubscription.findById(id).lean<WebhookSubscriptionDoc>();
+  if (!subscription) return notFound();
+  const counts = await WebhookDelivery.aggregate<{ _id: string; count: number }>([
+    { $match: { subscription: subscription._id } },
+    { $group: { _id: "$status", count: { $sum: 1 } } },
+  ]);
+  const deliveries = { pending: 0, delivered: 0, dead: 0 };
+  for (const c of counts) deliveries[c._id as keyof typeof deliveries] = c.count;
+  return NextResponse.json({ subscription: toSubscriptionResponse(subscription), deliveries });
+}
+
+// Updates url / description / events / filters / enabled; `rotateSecret: true`
+// issues a new secret, returned once.
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) return notFound();
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+
+  const body = await req.json().catch(() => null);
+  const input = parseSubscriptionInput(body, true);
+  if ("error" in input) return NextResponse.json({ error: input.error }, { status: 400 });
+  const rotate = body?.rotateSecret === true;
+
+  await connectMongo();
+  const update: Record<string, unknown> = { ...input };
+  if (rotate) update.secret = generateWebhookSecret();
+  const subscription = await WebhookSubscription.findByIdAndUpdate(id, { $set: update }, { new: true })
+    .lean<WebhookSubscriptionDoc>();
+  if (!subscription) return notFound();
+  return NextResponse.json({ subscription: toSubscriptionResponse(subscription, rotate) });
+}
+
+// Deletes the subscription and its delivery log.
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const { id } = await params;
+  if (!Types.ObjectId.isValid(id)) return notFound();
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+  await connectMongo();
+
+  const { deletedCount } = await WebhookSubscription.deleteOne({ _id: id });
+  if (deletedCount === 0) return notFound();
+  await WebhookDelivery.deleteMany({ subscription: new Types.ObjectId(id) });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,45 @@
+// app/api/webhooks/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { connectMongo } from "@/lib/mongo";
+import { requireAdmin } from "@/lib/auth";
+import {
+  generateWebhookSecret,
+  parseSubscriptionInput,
+  toSubscriptionResponse,
+  type WebhookSubscriptionDoc,
+} from "@/lib/webhooks";
+import { WebhookSubscription } from "@/models/WebhookSubscription";
+
+export const dynamic = "force-dynamic";
+
+// Every webhook subscription, newest first (admins only).
+export async function GET(req: NextRequest) {
+  const { error } = await requireAdmin(req);
+  if (error) return error;
+  await connectMongo();
+
+  const subscriptions = await WebhookSubscription.find()
+    .sort({ createdAt: -1 })
+    .lean<WebhookSubscriptionDoc[]>();
+  return NextResponse.json({ subscriptions: subscriptions.map(s => toSubscriptionResponse(s)) });
+}
+
+// Creates a subscription; the response is the only time its secret is shown.
+export async function POST(req: NextRequest) {
+  const { address: owner, error } = await requireAdmin(req);
+  if (error) return error;
+
+  const input = parseSubscriptionInput(await req.json().catch(() => null));
+  if ("error" in input) return NextResponse.json({ error: input.error }, { status: 400 });
+
+  await connectMongo();
+  const created = await WebhookSubscription.create({
+    ...input,
+    owner,
+    secret: generateWebhookSecret(),
+  });
+  return NextResponse.json(
+    { subscription: toSubscriptionResponse(created.toObject() as WebhookSubscriptionDoc, true) },
+    { status: 201 }
+  );
+}
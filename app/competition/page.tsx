@@ -1,12 +1,124 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import axios from "axios";
 import Navbar from "@/components/Navbar";
+import UserLabel from "@/components/UserLabel";
 import { getBrowserProvider } from "@/lib/ethersClient";
-import { TrophyIcon, BoltIcon } from "@heroicons/react/24/outline";
+import { TrophyIcon, BoltIcon, ChartBarIcon, CheckCircleIcon } from "@heroicons/react/24/outline";
+
+// Row of GET /api/leaderboard.
+type LeaderboardEntry = {
+  rank: number;
+  user: string;
+  volumeEth: number;
+  trades: number;
+  buys: number;
+  sells: number;
+  realizedPnlEth: number;
+  roi: number | null;
+  tokens: number;
+};
+
+type LeaderboardWindow = "24h" | "7d" | "30d" | "all";
+
+type LeaderboardSort = "volume" | "trades" | "realizedPnl" | "roi";
+
+const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ["24h", "7d", "30d", "all"];
+
+const LEADERBOARD_SORTS: { key: LeaderboardSort; label: string }[] = [
+  { key: "volume", label: "Volume" },
+  { key: "trades", label: "Trades" },
+  { key: "realizedPnl", label: "Realized PnL" },
+  { key: "roi", label: "ROI" },
+];
+
+type SeasonStatus = "upcoming" | "active" | "ended" | "final";
+
+// Season of GET /api/competition/[slug].
+type Season = {
+  slug: string;
+  name: string;
+  description: string;
+  startAt: number;
+  endAt: number;
+  status: SeasonStatus;
+  eligibleTokens: string[];
+  scoring: { volume: number; realizedPnl: number; trades: number };
+  minVolumeEth: number;
+  prizeTiers: { fromRank: number; toRank: number; prize: string }[];
+};
+
+type Standing = {
+  rank: number | null;
+  wallet: string;
+  score: number;
+  volumeEth: number;
+  trades: number;
+  realizedPnlEth: number;
+  prize: string | null;
+};
+
+type SeasonSnapshot = { computedAt: number; final: boolean; participants: number };
+
+type SeasonMe = { registered: boolean; standing: Standing | null };
+
+const STATUS_LABELS: Record<SeasonStatus, string> = {
+  upcoming: "Upcoming",
+  active: "Live",
+  ended: "Ended",
+  final: "Final results",
+};
+
+const PAGE_SIZE = 25;
+
+const formatSei = (value: number, digits = 2) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: digits })} SEI`;
+
+const pnlClass = (value: number) =>
+  value > 0 ? "text-emerald-300" : value < 0 ? "text-rose-300" : "text-slate-300";
+
+const formatDate = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// Human-readable scoring formula, e.g. "1 × volume + 2 × realized PnL".
+const describeScoring = (scoring: Season["scoring"]) =>
+  [
+    { weight: scoring.volume, label: "SEI volume" },
+    { weight: scoring.realizedPnl, label: "realized PnL (SEI)" },
+    { weight: scoring.trades, label: "trades" },
+  ]
+    .filter(t => t.weight !== 0)
+    .map(t => `${t.weight} × ${t.label}`)
+    .join(" + ") || "0";
+
+// Active season first, then the next upcoming one, then the most recent.
+const pickSeason = (seasons: { slug: string; startAt: number; status: SeasonStatus }[]) =>
+  seasons.find(s => s.status === "active") ??
+  [...seasons].filter(s => s.status === "upcoming").sort((a, b) => a.startAt - b.startAt)[0] ??
+  seasons[0] ??
+  null;
 
 export default function CompetitionPage() {
   const [account, setAccount] = useState<string | null>(null);
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("7d");
+  const [sort, setSort] = useState<LeaderboardSort>("volume");
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [me, setMe] = useState<LeaderboardEntry | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [seasonSlug, setSeasonSlug] = useState<string | null>(null);
+  const [season, setSeason] = useState<Season | null>(null);
+  const [seasonSnapshot, setSeasonSnapshot] = useState<SeasonSnapshot | null>(null);
+  const [standings, setStandings] = useState<Standing[]>([]);
+  const [standingsPage, setStandingsPage] = useState(1);
+  const [standingsHasMore, setStandingsHasMore] = useState(false);
+  const [registeredCount, setRegisteredCount] = useState(0);
+  const [seasonMe, setSeasonMe] = useState<SeasonMe | null>(null);
+  const [registering, setRegistering] = useState(false);
+  const [registerError, setRegisterError] = useState<string | null>(null);
+  const [seasonReload, setSeasonReload] = useState(0);
 
   const connect = async () => {
     const provider = getBrowserProvider();
@@ -16,6 +128,110 @@ export default function CompetitionPage() {
 
   const disconnect = () => setAccount(null);
 
+  useEffect(() => {
+    const loadLeaderboard = async () => {
+      setLoading(true);
+      try {
+        const res = await axios.get("/api/leaderboard", {
+          params: { window: timeWindow, sort, page, limit: PAGE_SIZE, address: account ?? undefined },
+        });
+        setEntries(res.data.entries);
+        setHasMore(res.data.hasMore);
+        setMe(res.data.me);
+      } catch (e) {
+        console.error("Failed to load leaderboard", e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadLeaderboard();
+  }, [timeWindow, sort, page, account]);
+
+  useEffect(() => {
+    axios
+      .get("/api/competition")
+      .then(res => setSeasonSlug(pickSeason(res.data.seasons)?.slug ?? null))
+      .catch(e => console.error("Failed to load competition seasons", e));
+  }, []);
+
+  useEffect(() => {
+    if (!seasonSlug) return;
+    axios
+      .get(`/api/competition/${seasonSlug}`, {
+        params: { page: standingsPage, limit: PAGE_SIZE, address: account ?? undefined },
+      })
+      .then(res => {
+        setSeason(res.data.season);
+        setSeasonSnapshot(res.data.snapshot);
+        setStandings(res.data.entries);
+        setStandingsHasMore(res.data.hasMore);
+        setRegisteredCount(res.data.registered);
+        setSeasonMe(res.data.me);
+      })
+      .catch(e => console.error("Failed to load competition season", e));
+  }, [seasonSlug, standingsPage, account, seasonReload]);
+
+  const register = async () => {
+    if (!season) return;
+    setRegistering(true);
+    setRegisterError(null);
+    try {
+      const provider = getBrowserProvider();
+      const accounts = await provider.send("eth_requestAccounts", []);
+      const wallet: string = accounts[0];
+      setAccount(wallet);
+      const { data } = await axios.get(`/api/competition/${season.slug}/register`, {
+        params: { address: wallet },
+      });
+      const signer = await provider.getSigner(wallet);
+      const signature = await signer.signMessage(data.message);
+      await axios.post(`/api/competition/${season.slug}/register`, {
+        address: wallet,
+        issuedAt: data.issuedAt,
+        signature,
+      });
+      setSeasonReload(n => n + 1);
+    } catch (e) {
+      console.error("Failed to register", e);
+      setRegisterError(
+        axios.isAxiosError(e) && e.response?.data?.error
+          ? e.response.data.error
+          : "Registration failed.",
+      );
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  const renderRow = (entry: LeaderboardEntry, highlight: boolean) => (
+    <tr
+      key={`${entry.rank}-${entry.user}`}
+      className={highlight ? "bg-cyan-400/10 text-white" : "text-slate-200"}
+    >
+      <td className="py-2 pr-3 font-semibold">#{entry.rank}</td>
+      <td className="py-2 pr-3">
+        <UserLabel address={entry.user} />
+        {highlight && <span className="ml-2 text-[10px] text-cyan-300">you</span>}
+      </td>
+      <td className="py-2 pr-3 text-right">{formatSei(entry.volumeEth)}</td>
+      <td className="py-2 pr-3 text-right">
+        {entry.trades}
+        <span className="ml-1 text-[10px] text-slate-500">
+          {entry.buys}B / {entry.sells}S
+        </span>
+      </td>
+      <td className={`py-2 pr-3 text-right ${pnlClass(entry.realizedPnlEth)}`}>
+        {entry.realizedPnlEth > 0 ? "+" : ""}
+        {formatSei(entry.realizedPnlEth, 4)}
+      </td>
+      <td className={`py-2 text-right ${pnlClass(entry.roi ?? 0)}`}>
+        {entry.roi === null ? "—" : `${(entry.roi * 100).toFixed(1)}%`}
+      </td>
+    </tr>
+  );
+
+  const meOnPage = me !== null && entries.some(e => e.user === me.user);
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
       <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
@@ -24,34 +240,280 @@ export default function CompetitionPage() {
           <div className="flex flex-col gap-3">
             <span className="inline-flex w-max items-center gap-1 rounded-full border border-fuchsia-500/40 bg-fuchsia-500/10 px-3 py-1 text-[11px] text-fuchsia-200">
               <BoltIcon className="h-3 w-3" />
-              Upcoming
+              {season ? STATUS_LABELS[season.status] : "Upcoming"}
             </span>
-            <h1 className="text-3xl font-semibold text-white">Sei Trading Competition</h1>
+            <h1 className="text-3xl font-semibold text-white">
+              {season ? season.name : "Sei Trading Competition"}
+            </h1>
             <p className="text-sm text-slate-300">
-              Compete for volume and PnL across bonding-curve launches. Climb the leaderboard and earn bragging rights on Sei.
+              {season?.description ||
+                "Compete for volume and PnL across bonding-curve launches. Climb the leaderboard and earn bragging rights on Sei."}
             </p>
+            {season && (
+              <p className="text-xs text-slate-400">
+                {formatDate(season.startAt)} – {formatDate(season.endAt)} · {registeredCount} registered
+              </p>
+            )}
           </div>
           <div className="rounded-2xl border border-white/10 bg-black/30 p-6 text-sm text-slate-300 backdrop-blur">
             <div className="flex items-center gap-2 text-white">
               <TrophyIcon className="h-5 w-5 text-amber-300" />
-              <h2 className="text-lg font-semibold">Competition preview</h2>
+              <h2 className="text-lg font-semibold">{season ? "Rules" : "Competition preview"}</h2>
             </div>
-            <ul className="mt-4 space-y-2 text-slate-300">
-              <li>• 7-day window measuring volume, fills, and realized PnL.</li>
-              <li>• Leaderboard featuring the top traders and creators.</li>
-              <li>• Bonus spotlight for the most innovative meme narrative.</li>
-            </ul>
-            <p className="mt-4 text-slate-400">
-              This is a preview UI. Final rules, scoring, and prizes will be announced before launch.
-            </p>
+            {season ? (
+              <ul className="mt-4 space-y-2 text-slate-300">
+                <li>• Score = {describeScoring(season.scoring)}, from trades inside the season window.</li>
+                <li>
+                  • Realized PnL uses the average cost of each wallet&apos;s buys, including buys made before the season.
+                </li>
+                <li>
+                  •{" "}
+                  {season.eligibleTokens.length === 0
+                    ? "Every Sei.Fun token counts."
+                    : `${season.eligibleTokens.length} eligible token${season.eligibleTokens.length === 1 ? "" : "s"}.`}
+                </li>
+                {season.minVolumeEth > 0 && (
+                  <li>• Trade at least {formatSei(season.minVolumeEth)} to be ranked.</li>
+                )}
+                {season.prizeTiers.map(tier => (
+                  <li key={`${tier.fromRank}-${tier.toRank}`}>
+                    • {tier.fromRank === tier.toRank ? `#${tier.fromRank}` : `#${tier.fromRank}–${tier.toRank}`}:{" "}
+                    {tier.prize}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <>
+                <ul className="mt-4 space-y-2 text-slate-300">
+                  <li>• 7-day window measuring volume, fills, and realized PnL.</li>
+                  <li>• Leaderboard featuring the top traders and creators.</li>
+                  <li>• Bonus spotlight for the most innovative meme narrative.</li>
+                </ul>
+                <p className="mt-4 text-slate-400">
+                  This is a preview UI. Final rules, scoring, and prizes will be announced before launch.
+                </p>
+              </>
+            )}
           </div>
           <div className="flex flex-col gap-3 text-sm text-slate-300 md:flex-row md:items-center md:justify-between">
-            <div>
-              <p className="font-semibold text-white">Coming soon</p>
-              <p className="text-slate-400">Sign up to get notified when registration opens.</p>
+            {!season ? (
+              <div>
+                <p className="font-semibold text-white">Coming soon</p>
+                <p className="text-slate-400">Registration opens when the first season is announced.</p>
+              </div>
+            ) : seasonMe?.registered ? (
+              <div className="flex items-center gap-2 text-emerald-300">
+                <CheckCircleIcon className="h-5 w-5" />
+                <p className="font-semibold">You are registered for {season.name}.</p>
+              </div>
+            ) : season.status === "upcoming" || season.status === "active" ? (
+              <>
+                <div>
+                  <p className="font-semibold text-white">Registration is open</p>
+                  <p className="text-slate-400">
+                    Sign a message with your wallet to enter. No transaction, no gas.
+                  </p>
+                  {registerError && <p className="mt-1 text-xs text-rose-300">{registerError}</p>}
+                </div>
+                <button
+                  onClick={register}
+                  disabled={registering}
+                  className="rounded-full border border-white/20 bg-white/5 px-5 py-2 text-sm font-medium text-white transition hover:bg-white/10 disabled:opacity-50"
+                >
+                  {registering ? "Waiting for signature..." : account ? "Register" : "Connect & Register"}
+                </button>
+              </>
+            ) : (
+              <p className="text-slate-400">Registration is closed.</p>
+            )}
+          </div>
+        </section>
+
+        {/* Season standings */}
+        {season && season.status !== "upcoming" && (
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-6">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm font-semibold text-white">
+                <TrophyIcon className="h-4 w-4 text-amber-300" />
+                {seasonSnapshot?.final ? "Final standings" : "Season standings"}
+              </div>
+              {seasonSnapshot && (
+                <span className="text-[11px] text-slate-400">
+                  {seasonSnapshot.final ? "Frozen" : "Snapshot"} {formatDate(seasonSnapshot.computedAt)}
+                </span>
+              )}
+            </div>
+            {seasonMe?.standing && (
+              <p className="mb-3 text-xs text-slate-400">
+                {seasonMe.standing.rank
+                  ? `Your rank: #${seasonMe.standing.rank} (score ${seasonMe.standing.score.toFixed(2)})`
+                  : seasonMe.standing.trades === 0
+                    ? "No trades this season yet."
+                    : `Not ranked yet: trade at least ${formatSei(season.minVolumeEth)}.`}
+              </p>
+            )}
+            {standings.length === 0 ? (
+              <p className="text-xs text-slate-400">No registered traders yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="text-[10px] uppercase tracking-wide text-slate-400">
+                    <tr>
+                      <th className="py-2 pr-3">Rank</th>
+                      <th className="py-2 pr-3">Trader</th>
+                      <th className="py-2 pr-3 text-right">Score</th>
+                      <th className="py-2 pr-3 text-right">Volume</th>
+                      <th className="py-2 pr-3 text-right">Trades</th>
+                      <th className="py-2 pr-3 text-right">Realized PnL</th>
+                      <th className="py-2 text-right">Prize</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {standings.map(entry => {
+                      const mine = entry.wallet === account?.toLowerCase();
+                      return (
+                        <tr
+                          key={entry.wallet}
+                          className={mine ? "bg-cyan-400/10 text-white" : "text-slate-200"}
+                        >
+                          <td className="py-2 pr-3 font-semibold">{entry.rank ? `#${entry.rank}` : "—"}</td>
+                          <td className="py-2 pr-3">
+                            <UserLabel address={entry.wallet} />
+                            {mine && <span className="ml-2 text-[10px] text-cyan-300">you</span>}
+                          </td>
+                          <td className="py-2 pr-3 text-right">{entry.score.toFixed(2)}</td>
+                          <td className="py-2 pr-3 text-right">{formatSei(entry.volumeEth)}</td>
+                          <td className="py-2 pr-3 text-right">{entry.trades}</td>
+                          <td className={`py-2 pr-3 text-right ${pnlClass(entry.realizedPnlEth)}`}>
+                            {entry.realizedPnlEth > 0 ? "+" : ""}
+                            {formatSei(entry.realizedPnlEth, 4)}
+                          </td>
+                          <td className="py-2 text-right text-amber-200">{entry.prize ?? ""}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="mt-4 flex items-center justify-end gap-2 text-xs">
+              <button
+                onClick={() => setStandingsPage(p => Math.max(1, p - 1))}
+                disabled={standingsPage === 1}
+                className="rounded-full border border-white/20 px-3 py-1 text-slate-200 disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <span className="text-slate-400">Page {standingsPage}</span>
+              <button
+                onClick={() => setStandingsPage(p => p + 1)}
+                disabled={!standingsHasMore}
+                className="rounded-full border border-white/20 px-3 py-1 text-slate-200 disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          </section>
+        )}
+
+        {/* Leaderboard */}
+        <section className="rounded-3xl border border-white/10 bg-white/5 p-6">
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm font-semibold text-white">
+              <ChartBarIcon className="h-4 w-4 text-cyan-300" />
+              All traders
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
+                {LEADERBOARD_SORTS.map(s => (
+                  <button
+                    key={s.key}
+                    onClick={() => {
+                      setSort(s.key);
+                      setPage(1);
+                    }}
+                    className={`rounded-full px-3 py-1 transition ${sort === s.key
+                      ? "bg-white/15 text-white"
+                      : "text-slate-400 hover:text-white"
+                      }`}
+                  >
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+              <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
+                {LEADERBOARD_WINDOWS.map(w => (
+                  <button
+                    key={w}
+                    onClick={() => {
+                      setTimeWindow(w);
+                      setPage(1);
+                    }}
+                    className={`rounded-full px-3 py-1 transition ${timeWindow === w
+                      ? "bg-white/15 text-white"
+                      : "text-slate-400 hover:text-white"
+                      }`}
+                  >
+                    {w === "all" ? "All time" : w}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {account && (
+            <p className="mb-3 text-xs text-slate-400">
+              {me
+                ? `Your rank: #${me.rank}`
+                : "You have no ranked trades in this window yet."}
+            </p>
+          )}
+
+          {loading && entries.length === 0 ? (
+            <p className="text-xs text-slate-400">Loading leaderboard...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-slate-400">No trades in this window yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[10px] uppercase tracking-wide text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-3">Rank</th>
+                    <th className="py-2 pr-3">Trader</th>
+                    <th className="py-2 pr-3 text-right">Volume</th>
+                    <th className="py-2 pr-3 text-right">Trades</th>
+                    <th className="py-2 pr-3 text-right">Realized PnL</th>
+                    <th className="py-2 text-right">ROI</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {entries.map(entry => renderRow(entry, entry.user === me?.user))}
+                  {me && !meOnPage && renderRow(me, true)}
+                </tbody>
+              </table>
             </div>
-            <button className="rounded-full border border-white/20 bg-white/5 px-5 py-2 text-sm font-medium text-white transition hover:bg-white/10">
-              Notify Me
+          )}
+          {sort === "roi" && (
+            <p className="mt-3 text-[11px] text-slate-500">
+              ROI ranks wallets that sold at least 1 SEI of cost basis in the window.
+            </p>
+          )}
+
+          <div className="mt-4 flex items-center justify-end gap-2 text-xs">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1 || loading}
+              className="rounded-full border border-white/20 px-3 py-1 text-slate-200 disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <span className="text-slate-400">Page {page}</span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={!hasMore || loading}
+              className="rounded-full border border-white/20 px-3 py-1 text-slate-200 disabled:opacity-40"
+            >
+              Next
             </button>
           </div>
         </section>
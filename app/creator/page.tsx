@@ -0,0 +1,414 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { ethers } from "ethers";
+import Navbar from "@/components/Navbar";
+import BuyersChart, { type BuyerPoint } from "@/components/BuyersChart";
+import { getBrowserProvider } from "@/lib/ethersClient";
+import { useAuthSession } from "@/lib/authClient";
+import {
+  CheckIcon,
+  ClipboardDocumentIcon,
+  PencilSquareIcon,
+  ShareIcon,
+  SparklesIcon,
+} from "@heroicons/react/24/outline";
+
+type TokenLinks = { website?: string; twitter?: string; telegram?: string };
+
+type CreatorPosition = {
+  balance: string;
+  percentOfSupply: number;
+  valueEth: number;
+  costBasisEth: number;
+  realizedPnlEth: number;
+  trades: number;
+};
+
+// Token of GET /api/creator/[address].
+type CreatorToken = {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  fundingRaised: string;
+  progress: number;
+  isLaunched: boolean;
+  priceEth: number;
+  marketCapEth: number;
+  volume24hEth: number;
+  links: TokenLinks;
+  bannerUrl: string | null;
+  volumeEth: number;
+  trades: number;
+  holders: number;
+  uniqueBuyers: number;
+  buyers: BuyerPoint[];
+  position: CreatorPosition;
+};
+
+type MetadataForm = {
+  bannerUrl: string;
+  website: string;
+  twitter: string;
+  telegram: string;
+};
+
+const LINK_LABELS: { key: keyof TokenLinks; label: string }[] = [
+  { key: "website", label: "Website" },
+  { key: "twitter", label: "X / Twitter" },
+  { key: "telegram", label: "Telegram" },
+];
+
+const formatEth = (value: number, digits = 4) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const inputClass =
+  "w-full rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none";
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border border-white/5 bg-slate-900/40 px-3 py-2">
+      <p className="text-[10px] uppercase tracking-wide text-slate-500">{label}</p>
+      <p className="mt-0.5 text-sm font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+function CreatorTokenCard({
+  token,
+  fundingGoal,
+  canEdit,
+  onSaved,
+}: {
+  token: CreatorToken;
+  fundingGoal: string;
+  canEdit: boolean;
+  onSaved: (token: CreatorToken) => void;
+}) {
+  const [form, setForm] = useState<MetadataForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const tokenUrl =
+    typeof window === "undefined" ? `/token/${token.tokenAddress}` : `${window.location.origin}/token/${token.tokenAddress}`;
+  const shareText = `${token.name} ($${token.symbol}) is live on Sei.Fun`;
+  const shareOnX = `https://twitter.com/intent/tweet?text=${encodeURIComponent(shareText)}&url=${encodeURIComponent(tokenUrl)}`;
+
+  const raised = Number(ethers.formatEther(token.fundingRaised));
+  const goal = Number(ethers.formatEther(fundingGoal));
+  const tokensHeld = Number(ethers.formatUnits(token.position.balance, 18));
+  const unrealized = token.position.valueEth - token.position.costBasisEth;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(tokenUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Failed to copy link", e);
+    }
+  };
+
+  const startEditing = () => {
+    setForm({
+      bannerUrl: token.bannerUrl ?? "",
+      website: token.links.website ?? "",
+      twitter: token.links.twitter ?? "",
+      telegram: token.links.telegram ?? "",
+    });
+    setSaveError(null);
+  };
+
+  const saveMetadata = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const res = await axios.patch(`/api/tokens/${token.tokenAddress}/metadata`, {
+        bannerUrl: form.bannerUrl,
+        links: { website: form.website, twitter: form.twitter, telegram: form.telegram },
+      });
+      onSaved({ ...token, links: res.data.token.links, bannerUrl: res.data.token.bannerUrl });
+      setForm(null);
+    } catch (err) {
+      console.error("Failed to save token metadata", err);
+      setSaveError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : "Failed to save metadata.",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="overflow-hidden rounded-3xl border border-white/10 bg-white/5">
+      {token.bannerUrl && (
+        <img src={token.bannerUrl} alt={`${token.name} banner`} className="h-28 w-full object-cover" />
+      )}
+      <div className="space-y-4 p-5">
+        {/* Header */}
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <Link href={`/token/${token.tokenAddress}`} className="flex items-center gap-3 hover:opacity-90">
+            {token.tokenImageUrl && (
+              <img src={token.tokenImageUrl} alt={token.name} className="h-10 w-10 rounded-full object-cover" />
+            )}
+            <div>
+              <p className="text-sm font-semibold text-white">
+                {token.name} <span className="text-slate-400">{token.symbol}</span>
+              </p>
+              <p className="font-mono text-[10px] text-slate-500">{token.tokenAddress}</p>
+            </div>
+          </Link>
+          <div className="flex flex-wrap gap-2 text-[11px]">
+            <button
+              onClick={copyLink}
+              className="inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-slate-200 hover:bg-white/10"
+            >
+              {copied ? <CheckIcon className="h-3.5 w-3.5" /> : <ClipboardDocumentIcon className="h-3.5 w-3.5" />}
+              {copied ? "Copied" : "Copy link"}
+            </button>
+            <a
+              href={shareOnX}
+              target="_blank"
+              rel="noreferrer noopener"
+              className="inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-slate-200 hover:bg-white/10"
+            >
+              <ShareIcon className="h-3.5 w-3.5" />
+              Share on X
+            </a>
+            {canEdit && !form && (
+              <button
+                onClick={startEditing}
+                className="inline-flex items-center gap-1 rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-3 py-1 font-semibold text-slate-950"
+              >
+                <PencilSquareIcon className="h-3.5 w-3.5" />
+                Edit metadata
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Progress to MEMECOIN_FUNDING_GOAL */}
+        <div>
+          <div className="mb-1 flex justify-between text-[11px] text-slate-400">
+            <span>{token.isLaunched ? "Graduated to DragonSwap" : "Bonding curve progress"}</span>
+            <span>
+              {token.isLaunched
+                ? "100%"
+                : `${formatEth(raised, 2)} / ${formatEth(goal, 2)} SEI (${token.progress.toFixed(1)}%)`}
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-slate-800">
+            <div
+              className="h-full rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500"
+              style={{ width: `${Math.min(100, token.progress)}%` }}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          <Stat label="Volume" value={`${formatEth(token.volumeEth, 2)} SEI`} />
+          <Stat label="24h volume" value={`${formatEth(token.volume24hEth, 2)} SEI`} />
+          <Stat label="Holders" value={token.holders.toLocaleString()} />
+          <Stat label="Unique buyers" value={token.uniqueBuyers.toLocaleString()} />
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div>
+            <p className="mb-1 text-[11px] text-slate-400">Unique buyers over time</p>
+            {token.buyers.length === 0 ? (
+              <p className="py-6 text-center text-xs text-slate-500">No buys yet.</p>
+            ) : (
+              <BuyersChart points={token.buyers} />
+            )}
+          </div>
+          <div>
+            <p className="mb-1 text-[11px] text-slate-400">Your position</p>
+            <div className="grid grid-cols-2 gap-2">
+              <Stat
+                label="Held"
+                value={`${tokensHeld.toLocaleString(undefined, { maximumFractionDigits: 2 })} (${token.position.percentOfSupply.toFixed(2)}%)`}
+              />
+              <Stat label="Value" value={`${formatEth(token.position.valueEth)} SEI`} />
+              <Stat label="Cost basis" value={`${formatEth(token.position.costBasisEth)} SEI`} />
+              <Stat
+                label="Unrealized / realized"
+                value={`${formatEth(unrealized)} / ${formatEth(token.position.realizedPnlEth)} SEI`}
+              />
+            </div>
+          </div>
+        </div>
+
+        {!form && LINK_LABELS.some(l => token.links[l.key]) && (
+          <div className="flex flex-wrap gap-2 text-[11px]">
+            {LINK_LABELS.filter(l => token.links[l.key]).map(l => (
+              <a
+                key={l.key}
+                href={token.links[l.key]}
+                target="_blank"
+                rel="noreferrer noopener"
+                className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-cyan-200 hover:text-white"
+              >
+                {l.label}
+              </a>
+            ))}
+          </div>
+        )}
+
+        {/* Metadata form (creator only; the API checks the session too) */}
+        {form && (
+          <form onSubmit={saveMetadata} className="grid gap-3 rounded-2xl border border-cyan-400/30 p-4 text-xs sm:grid-cols-2">
+            <label className="space-y-1 sm:col-span-2">
+              <span className="text-slate-400">Banner image (https link)</span>
+              <input
+                value={form.bannerUrl}
+                onChange={e => setForm({ ...form, bannerUrl: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            {LINK_LABELS.map(l => (
+              <label key={l.key} className="space-y-1">
+                <span className="text-slate-400">{l.label} (https link)</span>
+                <input
+                  value={form[l.key]}
+                  onChange={e => setForm({ ...form, [l.key]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <div className="flex items-end justify-end gap-2 sm:col-span-2">
+              {saveError && <span className="mr-auto text-rose-300">{saveError}</span>}
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="rounded-full border border-white/15 px-4 py-1.5 text-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-1.5 font-semibold text-slate-950 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default function CreatorPage() {
+  const session = useAuthSession();
+  const [account, setAccount] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<CreatorToken[]>([]);
+  const [fundingGoal, setFundingGoal] = useState("0");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  const connect = async () => {
+    const provider = getBrowserProvider();
+    const accounts = await provider.send("eth_requestAccounts", []);
+    setAccount(accounts[0]);
+  };
+
+  const disconnect = () => setAccount(null);
+
+  const loadDashboard = useCallback(async (wallet: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await axios.get(`/api/creator/${wallet}`);
+      setTokens(res.data.tokens);
+      setFundingGoal(res.data.fundingGoal);
+    } catch (e) {
+      console.error("Failed to load creator dashboard", e);
+      setError("Failed to load your tokens.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (account) loadDashboard(account);
+    else setTokens([]);
+  }, [account, loadDashboard]);
+
+  const signedIn = account !== null && session.address === account.toLowerCase();
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    try {
+      await session.signIn();
+    } catch (e) {
+      console.error("Sign-in failed", e);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const replaceToken = (updated: CreatorToken) =>
+    setTokens(prev => prev.map(t => (t.tokenAddress === updated.tokenAddress ? updated : t)));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
+      <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
+      <div className="mx-auto max-w-6xl space-y-6 px-4 py-8">
+        <header className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="flex items-center gap-2 text-xl font-semibold text-white">
+              <SparklesIcon className="h-5 w-5 text-fuchsia-300" />
+              Creator dashboard
+            </h1>
+            <p className="text-xs text-slate-400">
+              Tokens you launched: progress, volume, holders, buyers and your own position.
+            </p>
+          </div>
+          {account && !signedIn && tokens.length > 0 && (
+            <button
+              onClick={handleSignIn}
+              disabled={signingIn}
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs text-white transition hover:bg-white/10 disabled:opacity-50"
+            >
+              {signingIn ? "Signing..." : "Sign in to edit metadata"}
+            </button>
+          )}
+        </header>
+
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+
+        {!account ? (
+          <p className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300">
+            Connect your wallet to see the tokens you created.
+          </p>
+        ) : loading && tokens.length === 0 ? (
+          <p className="text-sm text-slate-400">Loading your tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300">
+            You have not created any tokens yet. <Link href="/" className="text-cyan-300 hover:text-white">Launch one</Link>.
+          </p>
+        ) : (
+          tokens.map(t => (
+            <CreatorTokenCard
+              key={t.tokenAddress}
+              token={t}
+              fundingGoal={fundingGoal}
+              canEdit={signedIn}
+              onSaved={replaceToken}
+            />
+          ))
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { ethers } from "ethers";
+import Navbar from "@/components/Navbar";
+import { getBrowserProvider } from "@/lib/ethersClient";
+import { CheckCircleIcon } from "@heroicons/react/24/outline";
+
+// GET /api/tokens?launched=true row (pool fields come from the pair's Sync logs).
+type GraduatedToken = {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  launchedAt: number | null;
+  pairAddress: string | null;
+  reserveToken: string | null;
+  reserveSei: string | null;
+  liquidityEth: number;
+  ethForLP: string | null;
+  listingFeeTaken: string | null;
+};
+
+type GraduatedSort = "graduated" | "liquidity";
+
+const PAGE_SIZE = 24;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const poolPrice = (t: GraduatedToken) => {
+  if (!t.reserveToken || !t.reserveSei || t.reserveToken === "0") return null;
+  return Number(ethers.formatEther(t.reserveSei)) / Number(ethers.formatUnits(t.reserveToken, 18));
+};
+
+export default function GraduatedPage() {
+  const [account, setAccount] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<GraduatedToken[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [sort, setSort] = useState<GraduatedSort>("graduated");
+  const [loading, setLoading] = useState(false);
+  const requestRef = useRef(0);
+  const [ethUsd, setEthUsd] = useState<number | null>(null);
+
+  const connect = async () => {
+    const provider = getBrowserProvider();
+    const accounts = await provider.send("eth_requestAccounts", []);
+    setAccount(accounts[0]);
+  };
+
+  const disconnect = () => setAccount(null);
+
+  const loadTokens = async (next?: string) => {
+    // A slower response for an older sort must not replace a newer one.
+    const request = ++requestRef.current;
+    setLoading(true);
+    try {
+      const res = await axios.get("/api/tokens", {
+        params: { launched: "true", sort, limit: PAGE_SIZE, cursor: next },
+      });
+      if (request !== requestRef.current) return;
+      setTokens(prev => (next ? [...prev, ...res.data.tokens] : res.data.tokens));
+      setCursor(res.data.nextCursor ?? null);
+      setTotal(res.data.total);
+    } catch (e) {
+      console.error("Failed to load graduated tokens", e);
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sort]);
+
+  useEffect(() => {
+    const loadEthUsd = async () => {
+      try {
+        const res = await fetch("https://api.coingecko.com/api/v3/simple/price?ids=sei-network&vs_currencies=usd");
+        const json = await res.json();
+        const price = Number(json?.["sei-network"]?.usd);
+        if (!Number.isNaN(price)) setEthUsd(price);
+      } catch (e) {
+        console.error("Failed to fetch SEI price", e);
+      }
+    };
+    loadEthUsd();
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
+      <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
+      <div className="mx-auto max-w-6xl space-y-6 px-4 py-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-1">
+            <span className="inline-flex w-max items-center gap-1 rounded-full border border-emerald-400/40 bg-emerald-400/10 px-3 py-1 text-[11px] text-emerald-200">
+              <CheckCircleIcon className="h-3 w-3" />
+              Graduated
+            </span>
+            <h1 className="text-2xl font-semibold text-white">Tokens trading on DragonSwap</h1>
+            <p className="text-sm text-slate-400">
+              {total !== null ? `${total} tokens` : "Tokens"} completed their bonding curve and seeded a DragonSwap pool with burned LP.
+            </p>
+          </div>
+          <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
+            {(["graduated", "liquidity"] as GraduatedSort[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setSort(s)}
+                className={`rounded-full px-3 py-1.5 transition ${sort === s
+                  ? "bg-gradient-to-r from-cyan-400 to-fuchsia-500 text-slate-950 shadow-sm"
+                  : "text-slate-300 hover:text-white"
+                  }`}
+              >
+                {s === "graduated" ? "Recently graduated" : "Liquidity"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {tokens.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            {loading ? "Loading..." : "No token has graduated yet."}
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {tokens.map(t => {
+              const price = poolPrice(t);
+              return (
+                <Link
+                  key={t.tokenAddress}
+                  href={`/token/${t.tokenAddress}`}
+                  className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 shadow-[0_0_30px_rgba(16,185,129,0.12)] transition hover:scale-[1.01] hover:border-emerald-400/60"
+                >
+                  <div className="flex items-center gap-3">
+                    {t.tokenImageUrl && (
+                      <img
+                        src={t.tokenImageUrl}
+                        alt={t.name}
+                        className="h-10 w-10 rounded-full object-cover"
+                      />
+                    )}
+                    <div>
+                      <div className="text-sm font-semibold text-white">
+                        {t.name} ({t.symbol})
+                      </div>
+                      <div className="text-[11px] text-slate-400">
+                        Pair {t.pairAddress ? shortAddress(t.pairAddress) : "—"}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="space-y-1 text-[11px] text-slate-300">
+                    <div className="flex justify-between">
+                      <span>Pool price</span>
+                      <span className="text-white">{price !== null ? `${price.toPrecision(4)} SEI` : "—"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Liquidity</span>
+                      <span className="text-white">
+                        {t.liquidityEth.toLocaleString(undefined, { maximumFractionDigits: 2 })} SEI
+                        {ethUsd !== null && (
+                          <span className="text-slate-400">
+                            {" "}(${(t.liquidityEth * ethUsd).toLocaleString(undefined, { maximumFractionDigits: 0 })})
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>SEI seeded</span>
+                      <span>{t.ethForLP ? `${Number(ethers.formatEther(t.ethForLP)).toLocaleString()} SEI` : "—"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Graduated</span>
+                      <span>{t.launchedAt ? new Date(t.launchedAt).toLocaleString() : "—"}</span>
+                    </div>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+
+        {cursor && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => loadTokens(cursor)}
+              disabled={loading}
+              className="rounded-full border border-white/10 px-4 py-2 text-xs text-slate-300 transition hover:border-emerald-400/60 hover:text-white disabled:opacity-50"
+            >
+              {loading ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
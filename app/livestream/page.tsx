@@ -1,12 +1,423 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
 import Navbar from "@/components/Navbar";
+import UserLabel from "@/components/UserLabel";
 import { getBrowserProvider } from "@/lib/ethersClient";
-import { PlayCircleIcon, SparklesIcon } from "@heroicons/react/24/outline";
+import { useAuthSession } from "@/lib/authClient";
+import {
+  AcademicCapIcon,
+  ArrowTrendingDownIcon,
+  ArrowTrendingUpIcon,
+  ChatBubbleLeftRightIcon,
+  FireIcon,
+  RocketLaunchIcon,
+  SignalIcon,
+  SparklesIcon,
+  TrashIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+
+// Token fields of the activity events of /api/stream/activity.
+type TokenSummary = {
+  address: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+};
+
+type LaunchItem = { token: TokenSummary; creator: string | null; createdAt: number | null };
+
+type TradeItem = {
+  id: string;
+  token: TokenSummary;
+  side: "buy" | "sell";
+  user: string | null;
+  eth: number;
+  tokens: number;
+  hash: string | null;
+  status: "pending" | "final" | null;
+  timestamp: number;
+};
+
+type GraduationItem = {
+  token: TokenSummary;
+  launchedAt: number | null;
+  pairAddress: string | null;
+  liquidityEth: number;
+};
+
+type Mover = {
+  token: TokenSummary;
+  rank: number;
+  score: number;
+  volumeEth: number;
+  trades: number;
+  priceEth: number | null;
+  changePct: number | null;
+};
+
+type TrendingMovers = { window: string; computedAt: number; movers: Mover[] } | null;
+
+type FeaturedToken = {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  progress: number;
+  isLaunched: boolean;
+  priceEth: number;
+  marketCapEth: number;
+  note: string;
+  pinnedAt: number;
+};
+
+type LiveSession = {
+  slug: string;
+  title: string;
+  description: string;
+  host: string;
+  startAt: number;
+  endAt: number;
+  status: "upcoming" | "live" | "ended";
+  featured: FeaturedToken[];
+  canManage: boolean;
+};
+
+type ChatMessage = {
+  id: string;
+  author: string;
+  body: string;
+  session: string | null;
+  deleted: boolean;
+  createdAt: number;
+};
+
+type Viewer = { address: string; admin: boolean } | null;
+
+type ActivityEvent =
+  | { kind: "launch"; key: string; at: number; item: LaunchItem }
+  | { kind: "trade"; key: string; at: number; item: TradeItem }
+  | { kind: "graduation"; key: string; at: number; item: GraduationItem };
+
+type ActivityFilter = "all" | ActivityEvent["kind"];
+
+const FEED_LIMIT = 60;
+const CHAT_LIMIT = 100;
+const CHAT_MAX_LENGTH = 280;
+
+const FILTERS: { value: ActivityFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "launch", label: "Launches" },
+  { value: "trade", label: "Big trades" },
+  { value: "graduation", label: "Graduations" },
+];
+
+const launchEvent = (item: LaunchItem): ActivityEvent => ({
+  kind: "launch",
+  key: `launch:${item.token.address}`,
+  at: item.createdAt ?? 0,
+  item,
+});
+
+const tradeEvent = (item: TradeItem): ActivityEvent => ({
+  kind: "trade",
+  key: `trade:${item.id}`,
+  at: item.timestamp,
+  item,
+});
+
+const graduationEvent = (item: GraduationItem): ActivityEvent => ({
+  kind: "graduation",
+  key: `graduation:${item.token.address}`,
+  at: item.launchedAt ?? 0,
+  item,
+});
+
+// Adds events to the feed, newest first, without duplicates.
+const mergeEvents = (prev: ActivityEvent[], events: ActivityEvent[]) => {
+  const keys = new Set(events.map(e => e.key));
+  return [...events, ...prev.filter(e => !keys.has(e.key))]
+    .sort((a, b) => b.at - a.at)
+    .slice(0, FEED_LIMIT);
+};
+
+const formatSei = (value: number) =>
+  value.toLocaleString("en-US", { maximumSignificantDigits: 4 });
+
+const tokenLabel = (t: TokenSummary) =>
+  t.symbol ? `$${t.symbol}` : `${t.address.slice(0, 6)}...${t.address.slice(-4)}`;
+
+const timeAgo = (ms: number, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - ms) / 1000));
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86_400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(ms).toLocaleDateString();
+};
+
+const countdown = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86_400);
+  const hours = Math.floor((total % 86_400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  return `${hours}h ${minutes.toString().padStart(2, "0")}m ${seconds.toString().padStart(2, "0")}s`;
+};
+
+const errorMessage = (e: unknown, fallback: string) =>
+  axios.isAxiosError(e) && e.response?.data?.error ? e.response.data.error : fallback;
+
+const inputClass =
+  "rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none";
+
+function TokenAvatar({ token }: { token: TokenSummary }) {
+  return token.tokenImageUrl ? (
+    <img src={token.tokenImageUrl} alt="" className="h-7 w-7 shrink-0 rounded-full object-cover" />
+  ) : (
+    <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-white/10 text-[10px] text-slate-300">
+      {(token.symbol || "?").slice(0, 2)}
+    </span>
+  );
+}
+
+function ActivityRow({ event, now }: { event: ActivityEvent; now: number }) {
+  const token = event.item.token;
+  let icon;
+  let text;
+  if (event.kind === "launch") {
+    icon = <RocketLaunchIcon className="h-4 w-4 text-cyan-300" />;
+    text = (
+      <>
+        <span className="text-slate-300">New token </span>
+        <span className="font-semibold text-white">{tokenLabel(token)}</span>
+        {token.name && <span className="text-slate-400"> · {token.name}</span>}
+        {event.item.creator && (
+          <span className="text-slate-400">
+            {" "}by <UserLabel address={event.item.creator} avatar={false} />
+          </span>
+        )}
+      </>
+    );
+  } else if (event.kind === "trade") {
+    const buy = event.item.side === "buy";
+    icon = buy
+      ? <ArrowTrendingUpIcon className="h-4 w-4 text-emerald-300" />
+      : <ArrowTrendingDownIcon className="h-4 w-4 text-rose-300" />;
+    text = (
+      <>
+        {event.item.user ? (
+          <UserLabel address={event.item.user} avatar={false} className="text-slate-200" />
+        ) : (
+          <span className="text-slate-200">Someone</span>
+        )}
+        <span className={buy ? "text-emerald-300" : "text-rose-300"}>
+          {buy ? " bought " : " sold "}
+        </span>
+        <span className="font-semibold text-white">{formatSei(event.item.eth)} SEI</span>
+        <span className="text-slate-400"> of </span>
+        <span className="font-semibold text-white">{tokenLabel(token)}</span>
+        {event.item.status === "pending" && <span className="text-slate-500"> · pending</span>}
+      </>
+    );
+  } else {
+    icon = <AcademicCapIcon className="h-4 w-4 text-amber-300" />;
+    text = (
+      <>
+        <span className="font-semibold text-white">{tokenLabel(token)}</span>
+        <span className="text-amber-200"> graduated to DragonSwap</span>
+        {event.item.liquidityEth > 0 && (
+          <span className="text-slate-400"> · {formatSei(event.item.liquidityEth)} SEI liquidity</span>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <li className="flex items-center gap-3 rounded-2xl px-2 py-2 hover:bg-white/5">
+      <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-white/5">{icon}</span>
+      <Link href={`/token/${token.address}`} className="shrink-0">
+        <TokenAvatar token={token} />
+      </Link>
+      <p className="min-w-0 flex-1 truncate text-xs">{text}</p>
+      <span className="shrink-0 text-[10px] text-slate-500">{event.at ? timeAgo(event.at, now) : ""}</span>
+    </li>
+  );
+}
+
+function SessionPanel({
+  session,
+  now,
+  onChange,
+}: {
+  session: LiveSession | null;
+  now: number;
+  onChange: (session: LiveSession) => void;
+}) {
+  const [pinToken, setPinToken] = useState("");
+  const [pinNote, setPinNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [pinError, setPinError] = useState<string | null>(null);
+
+  if (!session) {
+    return (
+      <section className="rounded-3xl border border-white/10 bg-white/5 p-6 text-sm text-slate-300 backdrop-blur">
+        No broadcast is scheduled right now. The board below stays live around the clock.
+      </section>
+    );
+  }
+
+  const live = session.status === "live";
+
+  const pin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setPinError(null);
+    try {
+      const res = await axios.post(`/api/livestream/sessions/${session.slug}/featured`, {
+        token: pinToken.trim(),
+        note: pinNote.trim() || undefined,
+      });
+      onChange(res.data);
+      setPinToken("");
+      setPinNote("");
+    } catch (err) {
+      setPinError(errorMessage(err, "Failed to pin token."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unpin = async (token: string) => {
+    try {
+      const res = await axios.delete(`/api/livestream/sessions/${session.slug}/featured`, {
+        params: { token },
+      });
+      onChange(res.data);
+    } catch (err) {
+      window.alert(errorMessage(err, "Failed to unpin token."));
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-6 shadow-[0_0_50px_rgba(8,145,178,0.25)] backdrop-blur">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          {live ? (
+            <span className="inline-flex items-center gap-1 rounded-full border border-rose-400/50 bg-rose-500/15 px-2.5 py-0.5 text-[11px] font-semibold uppercase text-rose-200">
+              <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-rose-400" />
+              On air
+            </span>
+          ) : (
+            <span className="inline-flex rounded-full border border-cyan-400/40 bg-cyan-400/10 px-2.5 py-0.5 text-[11px] text-cyan-200">
+              Starts in {countdown(session.startAt - now)}
+            </span>
+          )}
+          <h2 className="text-xl font-semibold text-white">{session.title}</h2>
+          <p className="flex items-center gap-1 text-xs text-slate-400">
+            Hosted by <UserLabel address={session.host} className="text-cyan-200" />
+            <span>
+              · {new Date(session.startAt).toLocaleString()} – {new Date(session.endAt).toLocaleTimeString()}
+            </span>
+          </p>
+        </div>
+        {live && (
+          <span className="text-[11px] text-slate-400">Ends in {countdown(session.endAt - now)}</span>
+        )}
+      </div>
+      {session.description && <p className="text-sm text-slate-300">{session.description}</p>}
+
+      <div>
+        <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">Featured tokens</h3>
+        {session.featured.length === 0 ? (
+          <p className="text-xs text-slate-500">The host has not pinned any tokens yet.</p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {session.featured.map(t => (
+              <div key={t.tokenAddress} className="relative rounded-2xl border border-white/10 bg-slate-950/50 p-3">
+                {session.canManage && (
+                  <button
+                    onClick={() => unpin(t.tokenAddress)}
+                    className="absolute right-2 top-2 text-slate-500 hover:text-rose-300"
+                    aria-label="Unpin token"
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                )}
+                <Link href={`/token/${t.tokenAddress}`} className="flex items-center gap-2">
+                  <TokenAvatar token={{ address: t.tokenAddress, name: t.name, symbol: t.symbol, tokenImageUrl: t.tokenImageUrl }} />
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-white">{t.name || t.symbol}</p>
+                    <p className="text-[11px] text-slate-400">
+                      ${t.symbol} · {formatSei(t.marketCapEth)} SEI mcap
+                    </p>
+                  </div>
+                </Link>
+                <div className="mt-2 h-1.5 w-full rounded-full bg-white/10">
+                  <div
+                    className="h-1.5 rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500"
+                    style={{ width: `${Math.min(100, t.progress)}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-[10px] text-slate-500">
+                  {t.isLaunched ? "Graduated" : `${t.progress.toFixed(1)}% of funding goal`}
+                </p>
+                {t.note && <p className="mt-2 text-xs text-slate-300">{t.note}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {session.canManage && (
+        <form onSubmit={pin} className="flex flex-wrap items-center gap-2">
+          <input
+            value={pinToken}
+            onChange={e => setPinToken(e.target.value)}
+            placeholder="Token address to pin"
+            className={`${inputClass} min-w-0 flex-1 font-mono`}
+          />
+          <input
+            value={pinNote}
+            onChange={e => setPinNote(e.target.value)}
+            placeholder="Note (optional)"
+            maxLength={140}
+            className={`${inputClass} min-w-0 flex-1`}
+          />
+          <button
+            type="submit"
+            disabled={saving || !pinToken.trim()}
+            className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-2 text-xs font-semibold text-slate-950 disabled:opacity-50"
+          >
+            {saving ? "Pinning..." : "Pin token"}
+          </button>
+          {pinError && <p className="w-full text-[11px] text-rose-300">{pinError}</p>}
+        </form>
+      )}
+    </section>
+  );
+}
 
 export default function LivestreamPage() {
+  const auth = useAuthSession();
   const [account, setAccount] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [viewer, setViewer] = useState<Viewer>(null);
+  const [session, setSession] = useState<LiveSession | null>(null);
+  const [feed, setFeed] = useState<ActivityEvent[]>([]);
+  const [trending, setTrending] = useState<TrendingMovers>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [filter, setFilter] = useState<ActivityFilter>("all");
+  const [now, setNow] = useState(() => Date.now());
+
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const chatRef = useRef<HTMLDivElement>(null);
 
   const connect = async () => {
     const provider = getBrowserProvider();
@@ -16,43 +427,282 @@ export default function LivestreamPage() {
 
   const disconnect = () => setAccount(null);
 
+  const signedIn = auth.address !== null;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Reconnects when the wallet signs in or out, so the stream knows the viewer.
+  useEffect(() => {
+    if (auth.loading) return;
+    const source = new EventSource("/api/stream/activity");
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("snapshot", e => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setViewer(data.viewer);
+      setSession(data.session);
+      setTrending(data.trending);
+      setMessages(data.chat);
+      setFeed(
+        mergeEvents([], [
+          ...(data.launches as LaunchItem[]).map(launchEvent),
+          ...(data.trades as TradeItem[]).map(tradeEvent),
+          ...(data.graduations as GraduationItem[]).map(graduationEvent),
+        ])
+      );
+    });
+    source.addEventListener("launch", e => {
+      setFeed(prev => mergeEvents(prev, [launchEvent(JSON.parse((e as MessageEvent).data))]));
+    });
+    source.addEventListener("trade", e => {
+      setFeed(prev => mergeEvents(prev, [tradeEvent(JSON.parse((e as MessageEvent).data))]));
+    });
+    source.addEventListener("graduation", e => {
+      setFeed(prev => mergeEvents(prev, [graduationEvent(JSON.parse((e as MessageEvent).data))]));
+    });
+    source.addEventListener("trending", e => setTrending(JSON.parse((e as MessageEvent).data)));
+    source.addEventListener("session", e => setSession(JSON.parse((e as MessageEvent).data)));
+    source.addEventListener("chat", e => {
+      const message: ChatMessage = JSON.parse((e as MessageEvent).data);
+      // Deletions arrive as updates of an existing message.
+      setMessages(prev =>
+        message.deleted
+          ? prev.filter(m => m.id !== message.id)
+          : prev.some(m => m.id === message.id)
+            ? prev
+            : [...prev, message].slice(-CHAT_LIMIT)
+      );
+    });
+
+    return () => source.close();
+  }, [auth.loading, auth.address]);
+
+  useEffect(() => {
+    chatRef.current?.scrollTo({ top: chatRef.current.scrollHeight });
+  }, [messages.length]);
+
+  const visibleFeed = useMemo(
+    () => (filter === "all" ? feed : feed.filter(e => e.kind === filter)),
+    [feed, filter]
+  );
+
+  const canDelete = (m: ChatMessage) =>
+    viewer !== null &&
+    (viewer.address === m.author ||
+      viewer.admin ||
+      (session?.status === "live" && viewer.address === session.host));
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+    setSending(true);
+    setChatError(null);
+    try {
+      const res = await axios.post("/api/livestream/chat", { body });
+      const message: ChatMessage = res.data.message;
+      setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message].slice(-CHAT_LIMIT)));
+      setDraft("");
+    } catch (err) {
+      setChatError(errorMessage(err, "Failed to send message."));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await axios.delete(`/api/livestream/chat/${id}`);
+      setMessages(prev => prev.filter(m => m.id !== id));
+    } catch (err) {
+      window.alert(errorMessage(err, "Failed to delete message."));
+    }
+  };
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    try {
+      await auth.signIn();
+    } catch (e) {
+      console.error("Sign-in failed", e);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
       <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
-      <div className="mx-auto max-w-5xl px-4 py-10">
-        <section className="rounded-3xl border border-white/10 bg-white/5 p-8 shadow-[0_0_50px_rgba(8,145,178,0.35)] backdrop-blur space-y-6">
-          <div className="flex flex-col gap-3">
+      <div className="mx-auto max-w-6xl space-y-6 px-4 py-10">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div className="space-y-2">
             <span className="inline-flex w-max items-center gap-1 rounded-full border border-cyan-400/40 bg-cyan-400/10 px-3 py-1 text-[11px] text-cyan-200">
               <SparklesIcon className="h-3 w-3" />
-              Live Streams
+              Live
             </span>
-            <h1 className="text-3xl font-semibold text-white">Trading Competitions on Sei</h1>
+            <h1 className="text-3xl font-semibold text-white">Live on Sei.Fun</h1>
             <p className="text-sm text-slate-300">
-              Watch bonding-curve launches unfold in real time. Follow volume battles, leaderboard surprises, and meme-fueled narratives.
+              Launches, big buys and sells, graduations and trending movers as they happen.
             </p>
           </div>
-          <div className="h-64 w-full rounded-2xl border border-white/15 bg-gradient-to-br from-cyan-500/20 via-fuchsia-500/10 to-transparent text-center text-slate-200 shadow-[0_0_60px_rgba(236,72,153,0.35)]">
-            <div className="flex h-full flex-col items-center justify-center gap-3">
-              <PlayCircleIcon className="h-14 w-14 text-white/80" />
-              <span className="text-sm uppercase tracking-wide text-slate-200">
-                Livestream placeholder
-              </span>
-              <p className="text-xs text-slate-300">
-                First broadcast coming soon. Stay tuned.
-              </p>
-            </div>
-          </div>
-          <div className="space-y-2 text-sm text-slate-300">
-            <p>
-              We&apos;re preparing the first Sei trading competition with live commentary, project spotlights, and real-time analytics.
-            </p>
-            <p>
-              Subscribe to updates or join our community channels to be notified when the inaugural stream goes live.
-            </p>
+          <span
+            className={`inline-flex items-center gap-1.5 text-[11px] ${connected ? "text-emerald-300" : "text-slate-500"}`}
+          >
+            <SignalIcon className="h-3.5 w-3.5" />
+            {connected ? "Connected" : "Connecting..."}
+          </span>
+        </div>
+
+        <SessionPanel session={session} now={now} onChange={setSession} />
+
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_22rem]">
+          <div className="space-y-6">
+            <section className="rounded-3xl border border-white/10 bg-white/5 p-4 backdrop-blur">
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-sm font-semibold text-white">Activity</h2>
+                <div className="flex gap-1">
+                  {FILTERS.map(f => (
+                    <button
+                      key={f.value}
+                      onClick={() => setFilter(f.value)}
+                      className={`rounded-full px-3 py-1 text-[11px] transition ${
+                        filter === f.value
+                          ? "bg-white/15 text-white"
+                          : "text-slate-400 hover:bg-white/5 hover:text-white"
+                      }`}
+                    >
+                      {f.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {visibleFeed.length === 0 ? (
+                <p className="py-8 text-center text-xs text-slate-500">Waiting for activity...</p>
+              ) : (
+                <ul className="max-h-[32rem] space-y-0.5 overflow-y-auto">
+                  {visibleFeed.map(e => (
+                    <ActivityRow key={e.key} event={e} now={now} />
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="rounded-3xl border border-white/10 bg-white/5 p-4 backdrop-blur">
+              <h2 className="mb-3 flex items-center gap-1.5 text-sm font-semibold text-white">
+                <FireIcon className="h-4 w-4 text-orange-300" />
+                Trending movers
+                {trending && <span className="text-[11px] font-normal text-slate-500">· last {trending.window}</span>}
+              </h2>
+              {!trending || trending.movers.length === 0 ? (
+                <p className="py-4 text-center text-xs text-slate-500">No trading in the last hour.</p>
+              ) : (
+                <ol className="space-y-1">
+                  {trending.movers.map(m => (
+                    <li key={m.token.address}>
+                      <Link
+                        href={`/token/${m.token.address}`}
+                        className="flex items-center gap-3 rounded-2xl px-2 py-2 text-xs hover:bg-white/5"
+                      >
+                        <span className="w-4 text-slate-500">{m.rank}</span>
+                        <TokenAvatar token={m.token} />
+                        <span className="min-w-0 flex-1 truncate font-semibold text-white">{tokenLabel(m.token)}</span>
+                        <span className="text-slate-400">{formatSei(m.volumeEth)} SEI vol</span>
+                        <span
+                          className={`w-16 text-right ${
+                            m.changePct === null
+                              ? "text-slate-500"
+                              : m.changePct >= 0
+                                ? "text-emerald-300"
+                                : "text-rose-300"
+                          }`}
+                        >
+                          {m.changePct === null ? "new" : `${m.changePct >= 0 ? "+" : ""}${m.changePct.toFixed(1)}%`}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
           </div>
-        </section>
+
+          <section className="flex h-[40rem] flex-col rounded-3xl border border-white/10 bg-white/5 p-4 backdrop-blur">
+            <h2 className="mb-3 flex items-center gap-1.5 text-sm font-semibold text-white">
+              <ChatBubbleLeftRightIcon className="h-4 w-4 text-fuchsia-300" />
+              Live chat
+            </h2>
+            <div ref={chatRef} className="flex-1 space-y-2 overflow-y-auto pr-1">
+              {messages.length === 0 ? (
+                <p className="py-8 text-center text-xs text-slate-500">No messages yet. Say hi!</p>
+              ) : (
+                messages.map(m => (
+                  <div key={m.id} className="group text-xs">
+                    <div className="flex items-center gap-2 text-[11px]">
+                      <UserLabel
+                        address={m.author}
+                        className={session && m.author === session.host ? "text-amber-200" : "text-cyan-200"}
+                      />
+                      {session && m.author === session.host && (
+                        <span className="rounded-full border border-amber-400/40 bg-amber-400/10 px-2 py-0.5 text-[9px] text-amber-200">
+                          host
+                        </span>
+                      )}
+                      <span className="text-slate-500">{timeAgo(m.createdAt, now)}</span>
+                      {canDelete(m) && (
+                        <button
+                          onClick={() => remove(m.id)}
+                          className="ml-auto hidden text-slate-500 hover:text-rose-300 group-hover:block"
+                          aria-label="Delete message"
+                        >
+                          <TrashIcon className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    <p className="whitespace-pre-wrap break-words text-slate-200">{m.body}</p>
+                  </div>
+                ))
+              )}
+            </div>
+            {signedIn ? (
+              <form onSubmit={send} className="mt-3 space-y-1">
+                <div className="flex gap-2">
+                  <input
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    placeholder="Say something..."
+                    maxLength={CHAT_MAX_LENGTH}
+                    className={`${inputClass} min-w-0 flex-1`}
+                  />
+                  <button
+                    type="submit"
+                    disabled={sending || !draft.trim()}
+                    className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-2 text-xs font-semibold text-slate-950 disabled:opacity-50"
+                  >
+                    Send
+                  </button>
+                </div>
+                {chatError && <p className="text-[11px] text-rose-300">{chatError}</p>}
+              </form>
+            ) : (
+              <div className="mt-3 flex items-center justify-between gap-2 rounded-2xl border border-white/10 bg-slate-950/50 px-3 py-2 text-xs text-slate-300">
+                <span>Sign in with your wallet to chat.</span>
+                <button
+                  onClick={handleSignIn}
+                  disabled={signingIn}
+                  className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-white hover:bg-white/10 disabled:opacity-50"
+                >
+                  {signingIn ? "Signing..." : "Sign in"}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
       </div>
     </main>
   );
 }
-
@@ -1,11 +1,12 @@
 // app/page.tsx
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
 import Link from "next/link";
 import axios from "axios";
 import Navbar from "@/components/Navbar";
+import UserLabel from "@/components/UserLabel";
 import { getBrowserProvider, getFactoryReadOnly, getFactoryContract } from "@/lib/ethersClient";
 import { getTransactionError } from "@/lib/errorHandler";
 import {
@@ -36,21 +37,81 @@ type MemeToken = {
   tokenAddress: string;
   creatorAddress: string;
   isLaunched: boolean;
+  progress: number; // % of the funding goal, computed by the token index
 };
 
+// GET /api/tokens row; fundingRaised arrives as a wei decimal string.
+type ApiToken = Omit<MemeToken, "fundingRaised"> & { fundingRaised: string };
+
+type TokenSort = "newest" | "marketCap" | "volume" | "progress";
+
+const TOKEN_SORTS: { value: TokenSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "marketCap", label: "Market cap" },
+  { value: "volume", label: "24h volume" },
+  { value: "progress", label: "Curve progress" },
+];
+
+const TOKENS_PAGE_SIZE = 24;
+
+const fromApiToken = (t: ApiToken): MemeToken => ({
+  ...t,
+  fundingRaised: BigInt(t.fundingRaised),
+});
+
 type TrendingInfo = {
   token: string;
+  rank: number;
+  score: number; // 0-100
+  components: {
+    volume: number;
+    traders: number;
+    buyPressure: number;
+    trades: number;
+    recency: number;
+  };
   tradeCount: number;
+  uniqueTraders: number;
   totalVolumeEth: number;
   lastTradeAt: number;
 };
 
-type HomeTab = "trending" | "featured" | "new";
+const TRENDING_WINDOWS = ["5m", "1h", "6h", "24h", "7d"] as const;
+type TrendingWindow = (typeof TRENDING_WINDOWS)[number];
+
+// GET /api/graduating row.
+type GraduatingToken = ApiToken & {
+  rank: number;
+  remainingEth: number;
+  velocityEthPerHour: number;
+  etaMs: number | null; // null when the curve has no net inflow
+};
+
+type GraduatingSort = "progress" | "velocity";
+
+type HomeTab = "trending" | "graduating" | "featured" | "new";
+
+const formatEta = (ms: number | null) => {
+  if (ms === null) return "—";
+  if (ms <= 0) return "Now";
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `~${Math.max(1, minutes)}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `~${hours}h`;
+  return `~${Math.round(hours / 24)}d`;
+};
 
 export default function HomePage() {
   const [account, setAccount] = useState<string | null>(null);
   const [tokens, setTokens] = useState<MemeToken[]>([]);
+  const [tokensCursor, setTokensCursor] = useState<string | null>(null);
   const [loadingTokens, setLoadingTokens] = useState(false);
+  const tokensRequestRef = useRef(0);
+  const [tokenSort, setTokenSort] = useState<TokenSort>("newest");
+  const [tokenQuery, setTokenQuery] = useState("");
+  const [newTokens, setNewTokens] = useState<MemeToken[]>([]);
+  const [tokenCount, setTokenCount] = useState<number | null>(null);
+  const [trendingMeta, setTrendingMeta] = useState<MemeToken[]>([]);
   const [form, setForm] = useState({
     name: "",
     symbol: "",
@@ -60,8 +121,12 @@ export default function HomePage() {
   const [creationFee, setCreationFee] = useState<bigint | null>(null);
   const [txPending, setTxPending] = useState(false);
   const [trending, setTrending] = useState<TrendingInfo[]>([]);
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>("24h");
+  const [windowVolumeEth, setWindowVolumeEth] = useState(0);
   const [ethUsd, setEthUsd] = useState<number | null>(null);
   const [homeTab, setHomeTab] = useState<HomeTab>("trending");
+  const [graduating, setGraduating] = useState<GraduatingToken[]>([]);
+  const [graduatingSort, setGraduatingSort] = useState<GraduatingSort>("progress");
 
   // 👇 new state just for image upload UX
   const [uploadingImage, setUploadingImage] = useState(false);
@@ -93,12 +158,44 @@ export default function HomePage() {
 
   const disconnect = () => setAccount(null);
 
-  const loadTokens = async () => {
+  // Pass the cursor of the last page to append the next one.
+  const loadTokens = async (cursor?: string) => {
+    // A slower response for an older sort / query must not replace a newer one.
+    const request = ++tokensRequestRef.current;
     setLoadingTokens(true);
+    try {
+      const res = await axios.get("/api/tokens", {
+        params: {
+          sort: tokenSort,
+          q: tokenQuery.trim() || undefined,
+          limit: TOKENS_PAGE_SIZE,
+          cursor,
+        },
+      });
+      if (request !== tokensRequestRef.current) return;
+      const page = (res.data.tokens as ApiToken[]).map(fromApiToken);
+      setTokens(prev => (cursor ? [...prev, ...page] : page));
+      setTokensCursor(res.data.nextCursor ?? null);
+    } catch (e) {
+      console.error("Failed to load tokens", e);
+    } finally {
+      if (request === tokensRequestRef.current) setLoadingTokens(false);
+    }
+  };
+
+  const loadNewTokens = async () => {
+    try {
+      const res = await axios.get("/api/tokens", { params: { sort: "newest", limit: 4 } });
+      setNewTokens((res.data.tokens as ApiToken[]).map(fromApiToken));
+      setTokenCount(res.data.total);
+    } catch (e) {
+      console.error("Failed to load new tokens", e);
+    }
+  };
+
+  const loadFactoryConfig = async () => {
     try {
       const factory = getFactoryReadOnly();
-      const res = await factory.getAllMemeTokens();
-      setTokens(res as MemeToken[]);
       const fee: bigint = await factory.MEMETOKEN_CREATION_FEE();
       setCreationFee(fee);
       try {
@@ -115,20 +212,37 @@ export default function HomePage() {
       }
     } catch (e) {
       console.error(e);
-    } finally {
-      setLoadingTokens(false);
     }
   };
 
   const loadTrending = async () => {
     try {
-      const res = await axios.get("/api/trending");
-      setTrending(res.data.trending || []);
+      const res = await axios.get("/api/trending", { params: { window: trendingWindow } });
+      const list: TrendingInfo[] = res.data.trending || [];
+      setTrending(list);
+      setWindowVolumeEth(Number(res.data.totalVolumeEth || 0));
+      if (list.length > 0) {
+        const meta = await axios.get("/api/tokens", {
+          params: { address: list.map(t => t.token).join(","), limit: list.length },
+        });
+        setTrendingMeta((meta.data.tokens as ApiToken[]).map(fromApiToken));
+      }
     } catch (e) {
       console.error("Failed to load trending", e);
     }
   };
 
+  const loadGraduating = async () => {
+    try {
+      const res = await axios.get("/api/graduating", {
+        params: { sort: graduatingSort, limit: 8 },
+      });
+      setGraduating(res.data.tokens || []);
+    } catch (e) {
+      console.error("Failed to load graduating tokens", e);
+    }
+  };
+
   const loadEthUsd = async () => {
     try {
       const res = await fetch("https://api.coingecko.com/api/v3/simple/price?ids=sei-network&vs_currencies=usd");
@@ -141,11 +255,28 @@ export default function HomePage() {
   };
 
   useEffect(() => {
-    loadTokens();
-    loadTrending();
+    loadFactoryConfig();
+    loadNewTokens();
     loadEthUsd();
   }, []);
 
+  useEffect(() => {
+    loadTrending();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trendingWindow]);
+
+  useEffect(() => {
+    loadGraduating();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [graduatingSort]);
+
+  // Debounced so typing in the search box doesn't fire a request per key.
+  useEffect(() => {
+    const timer = setTimeout(() => loadTokens(), 300);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tokenSort, tokenQuery]);
+
   // Estimate ETH cost for optional initial buy (same math as token detail bonding-curve buy)
   useEffect(() => {
     const run = async () => {
@@ -185,17 +316,22 @@ export default function HomePage() {
         form.description,
         { value: MEMETOKEN_CREATION_FEE }
       );
-      await tx.wait();
+      const receipt = await tx.wait();
+      const created = receipt.logs
+        .map((log: ethers.Log) => {
+          try {
+            return factory.interface.parseLog(log);
+          } catch {
+            return null;
+          }
+        })
+        .find((parsed: ethers.LogDescription | null) => parsed?.name === "MemeTokenCreated");
+      const newTokenAddr: string | undefined = created?.args.tokenAddress;
 
       // Optional initial buy on the fresh bonding curve (separate tx, same as token detail buy)
       const initialQtyNumber = Number(initialBuyQty);
       if (initialQtyNumber > 0 && initialBuyCost && initialBuyCost > 0n) {
         try {
-          const factoryReadonly = getFactoryReadOnly();
-          const allTokens: MemeToken[] = await factoryReadonly.getAllMemeTokens();
-          const latest = allTokens[allTokens.length - 1];
-          const newTokenAddr = latest?.tokenAddress;
-
           if (newTokenAddr) {
             const buyTx = await factory.buyMemeToken(
               newTokenAddr,
@@ -209,11 +345,6 @@ export default function HomePage() {
               await axios.post("/api/trades", {
                 token: newTokenAddr,
                 hash: buyReceipt.hash,
-                side: "buy",
-                tokens: initialQtyNumber,
-                eth: Number(ethers.formatEther(initialBuyCost)),
-                timestamp: Date.now(),
-                user: account,
               });
             } catch (tradeErr) {
               console.error("Failed to log initial buy trade", tradeErr);
@@ -242,7 +373,11 @@ export default function HomePage() {
       setForm({ name: "", symbol: "", imageUrl: "", description: "" });
       setInitialBuyQty("");
       setInitialBuyCost(null);
-      await loadTokens();
+      if (newTokenAddr) {
+        // Index the token now rather than waiting for the indexer to reach its block.
+        await axios.get(`/api/tokens/${newTokenAddr}`).catch(() => undefined);
+      }
+      await Promise.all([loadTokens(), loadNewTokens()]);
     } catch (err: any) {
       // Only log non-user-rejection errors to console
       if (!err?.code || (err.code !== 4001 && err.code !== -32603)) {
@@ -312,40 +447,31 @@ export default function HomePage() {
     () =>
       trending
         .map(info => {
-          const meta = tokens.find(
+          const meta = trendingMeta.find(
             t => t.tokenAddress.toLowerCase() === info.token.toLowerCase()
           );
           return meta ? { info, meta } : null;
         })
         .filter(Boolean) as { info: TrendingInfo; meta: MemeToken }[],
-    [trending, tokens],
+    [trending, trendingMeta],
   );
 
-  const totalVolumeEth24h = trending.reduce(
-    (acc, cur) => acc + Number(cur.totalVolumeEth || 0),
-    0
-  );
-  const totalVolumeUsd24h =
+  const totalVolumeUsd =
     ethUsd !== null
-      ? totalVolumeEth24h * ethUsd
+      ? windowVolumeEth * ethUsd
       : null;
 
   const featuredTokens = trendingWithMeta
     .filter(({ meta }) => meta.isLaunched)
     .slice(0, 4);
 
-  const newTokens = [...tokens].reverse().slice(0, 4);
-
-  // Helper to calculate progress
-  const getProgress = (fundingRaised: bigint, isLaunched: boolean) => {
-    if (isLaunched) return 100;
-    const goal = ethers.parseEther("115000"); // 115,000 SEI goal
-    const pct = Number((fundingRaised * 10000n) / goal) / 100;
-    return pct > 100 ? 100 : pct;
-  };
-
-  const renderTokenCard = (token: MemeToken, info?: TrendingInfo, badge?: string) => {
-    const progress = getProgress(token.fundingRaised, token.isLaunched);
+  const renderTokenCard = (
+    token: MemeToken,
+    info?: TrendingInfo,
+    badge?: string,
+    extra?: React.ReactNode,
+  ) => {
+    const progress = token.progress;
 
     return (
       <Link
@@ -372,6 +498,11 @@ export default function HomePage() {
             </div>
             <div className="text-[11px] text-slate-400">
               {token.tokenAddress.slice(0, 6)}...{token.tokenAddress.slice(-4)}
+              {token.creatorAddress && (
+                <>
+                  {" "}· by <UserLabel address={token.creatorAddress} link={false} className="text-slate-300" />
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -379,9 +510,20 @@ export default function HomePage() {
           {token.description || "No description provided."}
         </p>
         <div className="flex items-center justify-between text-[11px] text-slate-300">
-          <span>Volume (24h)</span>
+          <span>Volume ({trendingWindow})</span>
           <span>{info ? `${info.totalVolumeEth.toFixed(4)} SEI` : "—"}</span>
         </div>
+        {info && (
+          <div
+            className="flex items-center justify-between text-[11px] text-slate-300"
+            title={`Volume ${info.components.volume} · Traders ${info.components.traders} · Buy pressure ${info.components.buyPressure} · Trades ${info.components.trades} · Recency ${info.components.recency}`}
+          >
+            <span>Trend score · {info.uniqueTraders} traders</span>
+            <span className="text-cyan-300">{info.score.toFixed(1)}</span>
+          </div>
+        )}
+
+        {extra}
 
         {/* Progress Bar */}
         <div className="space-y-1">
@@ -419,7 +561,41 @@ export default function HomePage() {
       return (
         <div className="flex gap-4 overflow-x-auto pb-2">
           {trendingWithMeta.map(({ info, meta }) =>
-            renderTokenCard(meta, info, "Trending · 24h")
+            renderTokenCard(meta, info, `#${info.rank} Trending · ${trendingWindow}`)
+          )}
+        </div>
+      );
+    }
+    if (homeTab === "graduating") {
+      if (graduating.length === 0) {
+        return (
+          <p className="text-sm text-slate-400">
+            No tokens on the bonding curve right now.
+          </p>
+        );
+      }
+      return (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {graduating.map(g =>
+            renderTokenCard(
+              fromApiToken(g),
+              undefined,
+              `#${g.rank} About to graduate`,
+              <div className="space-y-1 text-[11px] text-slate-300">
+                <div className="flex items-center justify-between">
+                  <span>SEI to goal</span>
+                  <span>{g.remainingEth.toLocaleString(undefined, { maximumFractionDigits: 2 })} SEI</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Inflow</span>
+                  <span>{g.velocityEthPerHour.toFixed(2)} SEI/h</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Est. graduation</span>
+                  <span className="text-emerald-300">{formatEta(g.etaMs)}</span>
+                </div>
+              </div>,
+            )
           )}
         </div>
       );
@@ -495,15 +671,15 @@ export default function HomePage() {
           <div className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-4 text-xs shadow-[0_0_40px_rgba(15,23,42,0.7)] backdrop-blur">
             <div className="flex items-center justify-between">
               <span className="text-slate-400">Tokens launched</span>
-              <span className="text-lg font-semibold text-white">{tokens.length}</span>
+              <span className="text-lg font-semibold text-white">{tokenCount ?? "—"}</span>
             </div>
             <div className="flex items-center justify-between">
-              <span className="text-slate-400">24h Volume</span>
+              <span className="text-slate-400">{trendingWindow} Volume</span>
               <span className="text-lg font-semibold text-white">
-                {totalVolumeEth24h.toFixed(4)} SEI{" "}
-                {totalVolumeUsd24h !== null && (
+                {windowVolumeEth.toFixed(4)} SEI{" "}
+                {totalVolumeUsd !== null && (
                   <span className="text-sm text-slate-400">
-                    ({totalVolumeUsd24h.toLocaleString(undefined, { maximumFractionDigits: 0 })} USD)
+                    ({totalVolumeUsd.toLocaleString(undefined, { maximumFractionDigits: 0 })} USD)
                   </span>
                 )}
               </span>
@@ -526,7 +702,7 @@ export default function HomePage() {
           <div className="flex flex-wrap items-center justify-between gap-4">
             <h2 className="text-lg font-semibold text-white">Market mood</h2>
             <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
-              {(["trending", "featured", "new"] as HomeTab[]).map(tab => (
+              {(["trending", "graduating", "featured", "new"] as HomeTab[]).map(tab => (
                 <button
                   key={tab}
                   onClick={() => setHomeTab(tab)}
@@ -540,6 +716,38 @@ export default function HomePage() {
               ))}
             </div>
           </div>
+          {homeTab === "trending" && (
+            <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
+              {TRENDING_WINDOWS.map(w => (
+                <button
+                  key={w}
+                  onClick={() => setTrendingWindow(w)}
+                  className={`rounded-full px-3 py-1 transition ${trendingWindow === w
+                    ? "bg-white/15 text-white"
+                    : "text-slate-400 hover:text-white"
+                    }`}
+                >
+                  {w}
+                </button>
+              ))}
+            </div>
+          )}
+          {homeTab === "graduating" && (
+            <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
+              {(["progress", "velocity"] as GraduatingSort[]).map(sort => (
+                <button
+                  key={sort}
+                  onClick={() => setGraduatingSort(sort)}
+                  className={`rounded-full px-3 py-1 capitalize transition ${graduatingSort === sort
+                    ? "bg-white/15 text-white"
+                    : "text-slate-400 hover:text-white"
+                    }`}
+                >
+                  {sort === "progress" ? "Closest" : "Fastest"}
+                </button>
+              ))}
+            </div>
+          )}
           {renderTabContent()}
         </section>
 
@@ -733,14 +941,36 @@ export default function HomePage() {
               <span className="text-xs text-slate-400">Refreshing...</span>
             )}
           </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="search"
+              value={tokenQuery}
+              onChange={e => setTokenQuery(e.target.value)}
+              placeholder="Search name or symbol"
+              className="flex-1 rounded-full border border-white/10 bg-white/5 px-4 py-2 text-xs text-white placeholder:text-slate-500 focus:border-fuchsia-400/60 focus:outline-none"
+            />
+            <select
+              value={tokenSort}
+              onChange={e => setTokenSort(e.target.value as TokenSort)}
+              className="rounded-full border border-white/10 bg-slate-900 px-3 py-2 text-xs text-white focus:outline-none"
+            >
+              {TOKEN_SORTS.map(s => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
           {tokens.length === 0 ? (
             <p className="text-sm text-slate-400">
-              No tokens launched yet. Be the first!
+              {tokenQuery.trim()
+                ? "No tokens match your search."
+                : "No tokens launched yet. Be the first!"}
             </p>
           ) : (
             <div className="grid gap-4 md:grid-cols-2">
               {tokens.map(t => {
-                const progress = getProgress(t.fundingRaised, t.isLaunched);
+                const progress = t.progress;
                 return (
                   <div
                     key={t.tokenAddress}
@@ -800,6 +1030,17 @@ export default function HomePage() {
               })}
             </div>
           )}
+          {tokensCursor && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadTokens(tokensCursor)}
+                disabled={loadingTokens}
+                className="rounded-full border border-white/10 px-4 py-2 text-xs text-slate-300 transition hover:border-fuchsia-400/60 hover:text-white disabled:opacity-50"
+              >
+                {loadingTokens ? "Loading..." : "Load more"}
+              </button>
+            </div>
+          )}
         </section>
       </div>
     </main>
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import axios from "axios";
+import { ethers } from "ethers";
+import Navbar from "@/components/Navbar";
+import PortfolioChart, { type PortfolioPoint } from "@/components/PortfolioChart";
+import { getBrowserProvider } from "@/lib/ethersClient";
+import { BriefcaseIcon, ChartBarIcon } from "@heroicons/react/24/outline";
+
+// Row of GET /api/portfolio/[address].
+type Holding = {
+  token: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  venue: "curve" | "dex";
+  balance: string;
+  valueEth: number;
+  averageCostEth: number;
+  costBasisEth: number;
+  realizedPnlEth: number;
+  unrealizedPnlEth: number;
+  trades: number;
+};
+
+type Totals = {
+  valueEth: number;
+  costBasisEth: number;
+  realizedPnlEth: number;
+  unrealizedPnlEth: number;
+};
+
+type HistoryInterval = "1h" | "1d";
+
+type PnlMethod = "average" | "fifo";
+
+const formatSei = (value: number, digits = 4) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: digits })} SEI`;
+
+const pnlClass = (value: number) =>
+  value > 0 ? "text-emerald-300" : value < 0 ? "text-rose-300" : "text-slate-300";
+
+const signed = (value: number) => `${value > 0 ? "+" : ""}${formatSei(value)}`;
+
+export default function PortfolioPage() {
+  const params = useParams<{ address: string }>();
+  const router = useRouter();
+  const wallet = params.address;
+
+  const [account, setAccount] = useState<string | null>(null);
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [totals, setTotals] = useState<Totals | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<PortfolioPoint[]>([]);
+  const [interval, setHistoryInterval] = useState<HistoryInterval>("1d");
+  const [showClosed, setShowClosed] = useState(false);
+  const [method, setMethod] = useState<PnlMethod>("average");
+  const [lookup, setLookup] = useState("");
+  const [ethUsd, setEthUsd] = useState<number | null>(null);
+
+  const connect = async () => {
+    const provider = getBrowserProvider();
+    const accounts = await provider.send("eth_requestAccounts", []);
+    setAccount(accounts[0]);
+  };
+
+  const disconnect = () => setAccount(null);
+
+  useEffect(() => {
+    if (!wallet) return;
+    const loadPortfolio = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await axios.get(`/api/portfolio/${wallet}`, { params: { method } });
+        setHoldings(res.data.holdings);
+        setTotals(res.data.totals);
+      } catch (e) {
+        console.error("Failed to load portfolio", e);
+        setError(
+          axios.isAxiosError(e) && e.response?.status === 400
+            ? "That is not a valid wallet address."
+            : "Failed to load portfolio.",
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPortfolio();
+  }, [wallet, method]);
+
+  useEffect(() => {
+    if (!wallet) return;
+    axios
+      .get(`/api/portfolio/${wallet}/history`, { params: { interval } })
+      .then(res => setHistory(res.data.points))
+      .catch(e => console.error("Failed to load portfolio history", e));
+  }, [wallet, interval]);
+
+  useEffect(() => {
+    const fetchSeiPrice = async () => {
+      try {
+        const res = await fetch("https://api.coingecko.com/api/v3/simple/price?ids=sei-network&vs_currencies=usd");
+        const json = await res.json();
+        const price = Number(json?.["sei-network"]?.usd);
+        if (!Number.isNaN(price)) setEthUsd(price);
+      } catch (e) {
+        console.error("Failed to fetch SEI price", e);
+      }
+    };
+    fetchSeiPrice();
+  }, []);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (ethers.isAddress(lookup.trim())) router.push(`/portfolio/${lookup.trim()}`);
+  };
+
+  const visible = showClosed ? holdings : holdings.filter(h => h.balance !== "0");
+  const closedCount = holdings.length - holdings.filter(h => h.balance !== "0").length;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
+      <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
+      <div className="mx-auto max-w-6xl space-y-6 px-4 py-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-1">
+            <span className="inline-flex w-max items-center gap-1 rounded-full border border-cyan-400/40 bg-cyan-400/10 px-3 py-1 text-[11px] text-cyan-200">
+              <BriefcaseIcon className="h-3 w-3" />
+              Portfolio
+            </span>
+            <h1 className="break-all text-xl font-semibold text-white">{wallet}</h1>
+          </div>
+          <form onSubmit={handleLookup} className="flex gap-2">
+            <input
+              value={lookup}
+              onChange={e => setLookup(e.target.value)}
+              placeholder="Look up another wallet (0x...)"
+              className="w-72 rounded-full border border-white/10 bg-white/5 px-4 py-2 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!ethers.isAddress(lookup.trim())}
+              className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-2 text-xs font-semibold text-slate-950 disabled:opacity-50"
+            >
+              View
+            </button>
+          </form>
+        </div>
+
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+
+        {/* Totals */}
+        <section className="grid gap-3 text-xs sm:grid-cols-2 lg:grid-cols-4">
+          {[
+            {
+              label: "Value",
+              text: totals ? formatSei(totals.valueEth) : "—",
+              sub: totals && ethUsd !== null ? `≈ $${(totals.valueEth * ethUsd).toFixed(2)}` : null,
+              className: "text-white",
+            },
+            {
+              label: "Cost basis",
+              text: totals ? formatSei(totals.costBasisEth) : "—",
+              sub: null,
+              className: "text-white",
+            },
+            {
+              label: "Unrealized PnL",
+              text: totals ? signed(totals.unrealizedPnlEth) : "—",
+              sub: null,
+              className: pnlClass(totals?.unrealizedPnlEth ?? 0),
+            },
+            {
+              label: "Realized PnL",
+              text: totals ? signed(totals.realizedPnlEth) : "—",
+              sub: null,
+              className: pnlClass(totals?.realizedPnlEth ?? 0),
+            },
+          ].map(item => (
+            <div
+              key={item.label}
+              className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3"
+            >
+              <p className="text-[10px] font-medium uppercase tracking-wide text-slate-400">
+                {item.label}
+              </p>
+              <p className={`mt-1 text-lg font-semibold ${item.className}`}>{item.text}</p>
+              {item.sub && <p className="text-[11px] text-slate-400">{item.sub}</p>}
+            </div>
+          ))}
+        </section>
+
+        {/* Value over time */}
+        <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+          <div className="mb-4 flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm font-semibold text-white">
+              <ChartBarIcon className="h-4 w-4 text-cyan-300" />
+              Value over time
+              <span className="text-[11px] font-normal text-slate-400">
+                (dashed: net SEI invested)
+              </span>
+            </div>
+            <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]">
+              {(["1h", "1d"] as HistoryInterval[]).map(i => (
+                <button
+                  key={i}
+                  onClick={() => setHistoryInterval(i)}
+                  className={`rounded-full px-3 py-1 transition ${interval === i
+                    ? "bg-white/15 text-white"
+                    : "text-slate-400 hover:text-white"
+                    }`}
+                >
+                  {i}
+                </button>
+              ))}
+            </div>
+          </div>
+          {history.length === 0 ? (
+            <p className="text-xs text-slate-400">No trades yet.</p>
+          ) : (
+            <PortfolioChart points={history} />
+          )}
+        </section>
+
+        {/* Holdings */}
+        <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+          <div className="mb-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <h2 className="text-sm font-semibold text-white">Holdings</h2>
+              <div className="inline-flex rounded-full bg-white/5 p-1 text-[11px]" title="Cost basis method">
+                {(["average", "fifo"] as PnlMethod[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMethod(m)}
+                    className={`rounded-full px-3 py-1 transition ${method === m
+                      ? "bg-white/15 text-white"
+                      : "text-slate-400 hover:text-white"
+                      }`}
+                  >
+                    {m === "average" ? "Avg cost" : "FIFO"}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {closedCount > 0 && (
+              <label className="flex items-center gap-2 text-[11px] text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={showClosed}
+                  onChange={e => setShowClosed(e.target.checked)}
+                />
+                Show closed positions ({closedCount})
+              </label>
+            )}
+          </div>
+          {loading && holdings.length === 0 ? (
+            <p className="text-xs text-slate-400">Loading balances...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-xs text-slate-400">This wallet holds no Sei.Fun tokens.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[10px] uppercase tracking-wide text-slate-400">
+                  <tr>
+                    <th className="py-2 pr-3">Token</th>
+                    <th className="py-2 pr-3 text-right">Balance</th>
+                    <th className="py-2 pr-3 text-right">Value</th>
+                    <th className="py-2 pr-3 text-right">Avg cost</th>
+                    <th className="py-2 pr-3 text-right">Unrealized</th>
+                    <th className="py-2 text-right">Realized</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {visible.map(h => (
+                    <tr key={h.token} className="text-slate-200">
+                      <td className="py-2 pr-3">
+                        <Link href={`/token/${h.token}`} className="flex items-center gap-2 hover:text-white">
+                          {h.tokenImageUrl && (
+                            <img
+                              src={h.tokenImageUrl}
+                              alt={h.name}
+                              className="h-7 w-7 rounded-full object-cover"
+                            />
+                          )}
+                          <span>
+                            {h.name || h.token.slice(0, 8)}{" "}
+                            <span className="text-slate-400">{h.symbol}</span>
+                          </span>
+                          {h.venue === "dex" && (
+                            <span className="rounded-full border border-emerald-400/30 px-1.5 text-[9px] text-emerald-300">
+                              DEX
+                            </span>
+                          )}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        {Number(ethers.formatUnits(h.balance, 18)).toLocaleString(undefined, {
+                          maximumFractionDigits: 2,
+                        })}
+                      </td>
+                      <td className="py-2 pr-3 text-right">{formatSei(h.valueEth)}</td>
+                      <td className="py-2 pr-3 text-right">
+                        {h.averageCostEth > 0 ? `${h.averageCostEth.toPrecision(4)} SEI` : "—"}
+                      </td>
+                      <td className={`py-2 pr-3 text-right ${pnlClass(h.unrealizedPnlEth)}`}>
+                        {signed(h.unrealizedPnlEth)}
+                      </td>
+                      <td className={`py-2 text-right ${pnlClass(h.realizedPnlEth)}`}>
+                        {signed(h.realizedPnlEth)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
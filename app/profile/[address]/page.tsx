@@ -0,0 +1,429 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import axios from "axios";
+import { ethers } from "ethers";
+import Navbar from "@/components/Navbar";
+import { getBrowserProvider } from "@/lib/ethersClient";
+import { useAuthSession } from "@/lib/authClient";
+import { invalidateProfile, shortAddress } from "@/lib/profilesClient";
+import {
+  BriefcaseIcon,
+  ChatBubbleLeftIcon,
+  GlobeAltIcon,
+  PencilSquareIcon,
+  SparklesIcon,
+  UserCircleIcon,
+} from "@heroicons/react/24/outline";
+
+type ProfileLinks = { website?: string; twitter?: string; telegram?: string };
+
+// GET /api/profiles/[address].
+type Profile = {
+  address: string;
+  username: string | null;
+  avatarUrl: string | null;
+  bio: string;
+  links: ProfileLinks;
+};
+
+type TokenRef = { token: string; name: string; symbol: string; tokenImageUrl: string };
+
+type CreatedToken = {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  progress: number;
+  isLaunched: boolean;
+  marketCapEth: number;
+};
+
+type HeldToken = TokenRef & { balance: string; valueEth: number };
+
+type ProfileTrade = TokenRef & {
+  hash: string;
+  side: "buy" | "sell";
+  tokens: number;
+  eth: number;
+  venue: "curve" | "dex";
+  timestamp: number;
+};
+
+type ProfileComment = TokenRef & {
+  id: string;
+  body: string;
+  imageUrl: string | null;
+  createdAt: number;
+};
+
+type ProfileForm = {
+  username: string;
+  avatarUrl: string;
+  bio: string;
+  website: string;
+  twitter: string;
+  telegram: string;
+};
+
+const LINK_LABELS: { key: keyof ProfileLinks; label: string }[] = [
+  { key: "website", label: "Website" },
+  { key: "twitter", label: "X / Twitter" },
+  { key: "telegram", label: "Telegram" },
+];
+
+const tokenLabel = (t: TokenRef) => t.name || shortAddress(t.token);
+
+export default function ProfilePage() {
+  const params = useParams<{ address: string }>();
+  const wallet = params.address;
+  const session = useAuthSession();
+
+  const [account, setAccount] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [created, setCreated] = useState<CreatedToken[]>([]);
+  const [held, setHeld] = useState<HeldToken[]>([]);
+  const [trades, setTrades] = useState<ProfileTrade[]>([]);
+  const [comments, setComments] = useState<ProfileComment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const connect = async () => {
+    const provider = getBrowserProvider();
+    const accounts = await provider.send("eth_requestAccounts", []);
+    setAccount(accounts[0]);
+  };
+
+  const disconnect = () => setAccount(null);
+
+  useEffect(() => {
+    if (!wallet) return;
+    axios
+      .get(`/api/profiles/${wallet}`)
+      .then(res => {
+        setProfile(res.data.profile);
+        setCreated(res.data.created);
+        setHeld(res.data.held);
+        setTrades(res.data.trades);
+        setComments(res.data.comments);
+      })
+      .catch(e => {
+        console.error("Failed to load profile", e);
+        setError(
+          axios.isAxiosError(e) && e.response?.status === 400
+            ? "That is not a valid wallet address."
+            : "Failed to load profile.",
+        );
+      });
+  }, [wallet]);
+
+  const isOwner = Boolean(wallet) && session.address === wallet?.toLowerCase();
+
+  const startEditing = () => {
+    if (!profile) return;
+    setForm({
+      username: profile.username ?? "",
+      avatarUrl: profile.avatarUrl ?? "",
+      bio: profile.bio,
+      website: profile.links.website ?? "",
+      twitter: profile.links.twitter ?? "",
+      telegram: profile.links.telegram ?? "",
+    });
+    setSaveError(null);
+    setEditing(true);
+  };
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const res = await axios.put(`/api/profiles/${wallet}`, {
+        username: form.username,
+        avatarUrl: form.avatarUrl,
+        bio: form.bio,
+        links: { website: form.website, twitter: form.twitter, telegram: form.telegram },
+      });
+      setProfile(res.data.profile);
+      invalidateProfile(wallet);
+      setEditing(false);
+    } catch (err) {
+      console.error("Failed to save profile", err);
+      setSaveError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : "Failed to save profile.",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
+      <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
+      <div className="mx-auto max-w-6xl space-y-6 px-4 py-8">
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+
+        {/* Header */}
+        <section className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 sm:flex-row sm:items-start sm:justify-between">
+          <div className="flex items-start gap-4">
+            {profile?.avatarUrl ? (
+              <img
+                src={profile.avatarUrl}
+                alt={profile.username ?? wallet}
+                className="h-16 w-16 rounded-full object-cover"
+              />
+            ) : (
+              <UserCircleIcon className="h-16 w-16 text-slate-500" />
+            )}
+            <div className="space-y-1">
+              <h1 className="text-xl font-semibold text-white">
+                {profile?.username ?? (wallet ? shortAddress(wallet) : "")}
+              </h1>
+              <p className="break-all font-mono text-[11px] text-slate-400">{wallet}</p>
+              {profile?.bio && (
+                <p className="max-w-xl whitespace-pre-wrap text-sm text-slate-300">{profile.bio}</p>
+              )}
+              <div className="flex flex-wrap gap-2 pt-1">
+                {LINK_LABELS.filter(l => profile?.links[l.key]).map(l => (
+                  <a
+                    key={l.key}
+                    href={profile!.links[l.key]}
+                    target="_blank"
+                    rel="noreferrer noopener"
+                    className="inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-cyan-200 hover:text-white"
+                  >
+                    <GlobeAltIcon className="h-3 w-3" />
+                    {l.label}
+                  </a>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href={`/portfolio/${wallet}`}
+              className="inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs text-slate-200 hover:bg-white/10"
+            >
+              <BriefcaseIcon className="h-4 w-4" />
+              Portfolio
+            </Link>
+            {isOwner && !editing && (
+              <button
+                onClick={startEditing}
+                className="inline-flex items-center gap-1 rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-3 py-1.5 text-xs font-semibold text-slate-950"
+              >
+                <PencilSquareIcon className="h-4 w-4" />
+                Edit profile
+              </button>
+            )}
+          </div>
+        </section>
+
+        {/* Edit form (owner only; the API checks the session too) */}
+        {editing && form && (
+          <form
+            onSubmit={saveProfile}
+            className="grid gap-3 rounded-3xl border border-cyan-400/30 bg-white/5 p-6 text-xs sm:grid-cols-2"
+          >
+            <label className="space-y-1">
+              <span className="text-slate-400">Username (3-20 letters, digits or _)</span>
+              <input
+                value={form.username}
+                onChange={e => setForm({ ...form, username: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-slate-400">Avatar image (https link)</span>
+              <input
+                value={form.avatarUrl}
+                onChange={e => setForm({ ...form, avatarUrl: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1 sm:col-span-2">
+              <span className="text-slate-400">Bio</span>
+              <textarea
+                value={form.bio}
+                maxLength={280}
+                rows={3}
+                onChange={e => setForm({ ...form, bio: e.target.value })}
+                className={`${inputClass} resize-none`}
+              />
+            </label>
+            {LINK_LABELS.map(l => (
+              <label key={l.key} className="space-y-1">
+                <span className="text-slate-400">{l.label} (https link)</span>
+                <input
+                  value={form[l.key]}
+                  onChange={e => setForm({ ...form, [l.key]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <div className="flex items-end justify-end gap-2 sm:col-span-2">
+              {saveError && <span className="mr-auto text-rose-300">{saveError}</span>}
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="rounded-full border border-white/15 px-4 py-1.5 text-slate-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-1.5 font-semibold text-slate-950 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Created tokens */}
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+            <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-white">
+              <SparklesIcon className="h-4 w-4 text-fuchsia-300" />
+              Tokens created ({created.length})
+            </h2>
+            {created.length === 0 ? (
+              <p className="text-xs text-slate-400">No tokens created.</p>
+            ) : (
+              <ul className="max-h-80 space-y-2 overflow-y-auto text-xs">
+                {created.map(t => (
+                  <li key={t.tokenAddress}>
+                    <Link
+                      href={`/token/${t.tokenAddress}`}
+                      className="flex items-center justify-between gap-2 rounded-2xl border border-white/5 bg-slate-900/40 px-3 py-2 hover:border-cyan-400/40"
+                    >
+                      <span className="flex items-center gap-2">
+                        {t.tokenImageUrl && (
+                          <img src={t.tokenImageUrl} alt={t.name} className="h-7 w-7 rounded-full object-cover" />
+                        )}
+                        <span className="text-white">
+                          {t.name} <span className="text-slate-400">{t.symbol}</span>
+                        </span>
+                      </span>
+                      <span className="text-slate-400">
+                        {t.isLaunched ? "Graduated" : `${t.progress.toFixed(1)}%`}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Held tokens */}
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+            <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-white">
+              <BriefcaseIcon className="h-4 w-4 text-cyan-300" />
+              Tokens held ({held.length})
+            </h2>
+            {held.length === 0 ? (
+              <p className="text-xs text-slate-400">No Sei.Fun tokens held.</p>
+            ) : (
+              <ul className="max-h-80 space-y-2 overflow-y-auto text-xs">
+                {held.map(h => (
+                  <li key={h.token}>
+                    <Link
+                      href={`/token/${h.token}`}
+                      className="flex items-center justify-between gap-2 rounded-2xl border border-white/5 bg-slate-900/40 px-3 py-2 hover:border-cyan-400/40"
+                    >
+                      <span className="text-white">
+                        {tokenLabel(h)} <span className="text-slate-400">{h.symbol}</span>
+                      </span>
+                      <span className="text-slate-300">
+                        {Number(ethers.formatUnits(h.balance, 18)).toLocaleString(undefined, {
+                          maximumFractionDigits: 2,
+                        })}
+                        <span className="ml-2 text-slate-500">≈ {h.valueEth.toFixed(4)} SEI</span>
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Recent trades */}
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+            <h2 className="mb-3 text-sm font-semibold text-white">Recent trades</h2>
+            {trades.length === 0 ? (
+              <p className="text-xs text-slate-400">No trades yet.</p>
+            ) : (
+              <table className="w-full text-left text-xs text-slate-300">
+                <thead className="text-[10px] uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="pb-2">Side</th>
+                    <th className="pb-2">Token</th>
+                    <th className="pb-2 text-right">SEI</th>
+                    <th className="pb-2 text-right">Time</th>
+                  </tr>
+                </thead>
+                <tbody className="text-[11px]">
+                  {trades.map((t, i) => (
+                    <tr key={`${t.hash}-${i}`} className="border-t border-white/10">
+                      <td className={`py-2 font-semibold ${t.side === "buy" ? "text-emerald-300" : "text-rose-300"}`}>
+                        {t.side.toUpperCase()}
+                        {t.venue === "dex" && <span className="ml-1 font-normal text-slate-500">DEX</span>}
+                      </td>
+                      <td className="py-2">
+                        <Link href={`/token/${t.token}`} className="hover:text-white">
+                          {(t.tokens ?? 0).toFixed(2)} {t.symbol || tokenLabel(t)}
+                        </Link>
+                      </td>
+                      <td className="py-2 text-right">{(t.eth ?? 0).toFixed(4)}</td>
+                      <td className="py-2 text-right text-slate-400">
+                        {new Date(t.timestamp).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {/* Comments */}
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+            <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-white">
+              <ChatBubbleLeftIcon className="h-4 w-4 text-amber-300" />
+              Comments
+            </h2>
+            {comments.length === 0 ? (
+              <p className="text-xs text-slate-400">No comments yet.</p>
+            ) : (
+              <ul className="max-h-80 space-y-3 overflow-y-auto text-xs">
+                {comments.map(c => (
+                  <li key={c.id} className="rounded-2xl border border-white/5 bg-slate-900/40 px-3 py-2">
+                    <div className="flex justify-between text-[11px] text-slate-400">
+                      <Link href={`/token/${c.token}`} className="text-cyan-200 hover:text-white">
+                        {tokenLabel(c)}
+                      </Link>
+                      <span>{new Date(c.createdAt).toLocaleString()}</span>
+                    </div>
+                    {c.body && <p className="mt-1 whitespace-pre-wrap break-words text-slate-200">{c.body}</p>}
+                    {c.imageUrl && <p className="mt-1 text-[11px] text-slate-500">[image]</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -30,8 +30,12 @@ import {
   ClockIcon,
   ChartBarIcon,
   SparklesIcon,
+  BellAlertIcon,
 } from "@heroicons/react/24/outline";
-import AdvancedChart from "@/components/AdvancedChart";
+import AdvancedChart, { type ApiCandle, type LiveTrade, type RemovedTrade } from "@/components/AdvancedChart";
+import TokenComments from "@/components/TokenComments";
+import UserLabel from "@/components/UserLabel";
+import WatchButton from "@/components/WatchButton";
 
 // 👉 Bonding curve funding goal (must match your on-chain graduation threshold)
 const FUNDING_GOAL_WEI = ethers.parseEther("15"); // 115,000 SEI to graduate & launch
@@ -47,81 +51,67 @@ type MemeToken = {
   tokenAddress: string;
   creatorAddress: string;
   isLaunched: boolean;
+  links?: { website?: string; twitter?: string; telegram?: string };
+  bannerUrl?: string | null;
 };
 
+const TOKEN_LINK_LABELS = [
+  { key: "website", label: "Website" },
+  { key: "twitter", label: "X / Twitter" },
+  { key: "telegram", label: "Telegram" },
+] as const;
+
 type TradePoint = {
+  _id?: string;
   token: string;
   hash: string;
   side: "buy" | "sell";
   tokens: number;
   eth: number;
   timestamp: number;
+  status?: "pending" | "final";
+  priceWei?: string; // fee-free wei per token (schema v2 rows)
+  venue?: "curve" | "dex";
+  user?: string;
 };
 
-type Candle = {
-  bucketStart: number; // ms since epoch
-  open: number;
-  high: number;
-  low: number;
-  close: number;
+// GET /api/tokens/[address]/pool (live DragonSwap pool of a graduated token).
+type PoolInfo = {
+  pairAddress: string;
+  reserveToken: string;
+  reserveSei: string;
+  priceEth: number;
+  liquidityEth: number;
+  lp: {
+    totalSupply: string;
+    burnedBalance: string;
+    burnedPercent: number;
+    factoryBalance: string;
+    burnTx: string | null;
+    burnLogIndex: number | null;
+    burnAmount: string | null;
+  };
+  launch: {
+    ethForLP: string | null;
+    listingFeeTaken: string | null;
+    launchedAt: number | null;
+    launchedBlock: number | null;
+    launchTx: string | null;
+  };
 };
 
-type TimeRange = "1m" | "1h" | "1d" | "1w" | "all";
+const POOL_REFRESH_MS = 30_000;
 
 type Holder = {
   address: string;
   balance: number; // in tokens
-  percent?: number; // 0-100
-};
-
-const TIME_RANGE_CONFIG: Record<
-  TimeRange,
-  {
-    label: string;
-    bucketMs: number;
-    timeUnit: "minute" | "hour" | "day";
-  }
-> = {
-  "1m": {
-    label: "1m",
-    bucketMs: 60 * 1000,
-    timeUnit: "minute",
-  },
-  "1h": {
-    label: "1h",
-    bucketMs: 60 * 60 * 1000,
-    timeUnit: "hour",
-  },
-  "1d": {
-    label: "1D",
-    bucketMs: 24 * 60 * 60 * 1000,
-    timeUnit: "day",
-  },
-  "1w": {
-    label: "1W",
-    bucketMs: 7 * 24 * 60 * 60 * 1000,
-    timeUnit: "day",
-  },
-  all: {
-    label: "All",
-    bucketMs: 0,
-    timeUnit: "day",
-  },
+  percent?: number; // 0-100, of total supply
+  label?: string; // factory / LP pair
 };
 
-const TIME_RANGE_ORDER: TimeRange[] = ["1m", "1h", "1d", "1w", "all"];
-
-const NICE_BUCKETS_MS = [
-  60 * 1000, // 1m
-  5 * 60 * 1000,
-  15 * 60 * 1000,
-  60 * 60 * 1000, // 1h
-  4 * 60 * 60 * 1000,
-  24 * 60 * 60 * 1000,
-  7 * 24 * 60 * 60 * 1000, // 1w
-];
-
-const TARGET_CANDLES = 200;
+const HOLDERS_PAGE_SIZE = 50;
+const TRADES_PAGE_SIZE = 100;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
 type PriceEvent = { x: number; y: number };
 
@@ -136,7 +126,8 @@ const buildPriceEvents = (trades: TradePoint[]): PriceEvent[] => {
     )
     .map((t) => ({
       x: Number(t.timestamp),
-      y: t.eth / t.tokens,
+      // Prefer the exact fee-free price; legacy rows only have the float totals.
+      y: t.priceWei ? Number(ethers.formatEther(t.priceWei)) : t.eth / t.tokens,
     }))
     .filter(
       (p) =>
@@ -148,104 +139,12 @@ const buildPriceEvents = (trades: TradePoint[]): PriceEvent[] => {
   return priceEvents;
 };
 
-const pickBucketSizeForAll = (minTs: number, maxTs: number): number => {
-  const duration = Math.max(maxTs - minTs, NICE_BUCKETS_MS[0]);
-  const rawBucket = duration / TARGET_CANDLES;
-  for (const candidate of NICE_BUCKETS_MS) {
-    if (rawBucket <= candidate) {
-      return candidate;
-    }
-  }
-  return NICE_BUCKETS_MS[NICE_BUCKETS_MS.length - 1];
-};
-
-function buildCandles(trades: TradePoint[], range: TimeRange): Candle[] {
-  const priceEvents = buildPriceEvents(trades);
-  if (priceEvents.length === 0) {
-    console.log("[buildCandles] no price events, returning []");
-    return [];
-  }
-
-  let bucketMs = TIME_RANGE_CONFIG[range].bucketMs;
-  if (range === "all" || bucketMs <= 0) {
-    bucketMs = pickBucketSizeForAll(
-      priceEvents[0].x,
-      priceEvents[priceEvents.length - 1].x,
-    );
-  }
-  if (!bucketMs || !Number.isFinite(bucketMs) || bucketMs <= 0) {
-    bucketMs = NICE_BUCKETS_MS[0];
-  }
-
-  const earliest = priceEvents[0].x;
-  const latest = priceEvents[priceEvents.length - 1].x;
-  const alignedStart = Math.floor(earliest / bucketMs) * bucketMs;
-  const alignedEnd = Math.ceil(latest / bucketMs) * bucketMs;
-
-  const candles: Candle[] = [];
-  let eventIdx = 0;
-  let carry = priceEvents[0].y;
-
-  for (
-    let bucketStart = alignedStart;
-    bucketStart <= alignedEnd;
-    bucketStart += bucketMs
-  ) {
-    const bucketEnd = bucketStart + bucketMs;
-    let open = carry;
-    let high = carry;
-    let low = carry;
-    let close = carry;
-    let touched = false;
-
-    while (eventIdx < priceEvents.length && priceEvents[eventIdx].x < bucketEnd) {
-      const price = priceEvents[eventIdx].y;
-      if (!touched) {
-        open = price;
-        high = price;
-        low = price;
-        close = price;
-        touched = true;
-      } else {
-        high = Math.max(high, price);
-        low = Math.min(low, price);
-        close = price;
-      }
-      eventIdx++;
-    }
-
-    if (!touched) {
-      open = carry;
-      high = carry;
-      low = carry;
-      close = carry;
-    }
-
-    carry = close;
-    candles.push({
-      bucketStart,
-      open,
-      high,
-      low,
-      close,
-    });
-  }
-
-  console.log(
-    "[buildCandles] range:",
-    range,
-    "candles:",
-    candles.length,
-    candles.slice(0, 5),
-  );
-  return candles;
-}
-
 export default function TokenPage() {
   const params = useParams<{ address: string }>();
   const tokenAddress = params.address;
 
   const [token, setToken] = useState<MemeToken | null>(null);
+  const [tokenNotFound, setTokenNotFound] = useState(false);
   const [account, setAccount] = useState<string | null>(null);
 
   const [qty, setQty] = useState<string>("0");
@@ -253,13 +152,23 @@ export default function TokenPage() {
   const [loadingCost, setLoadingCost] = useState(false);
   const [pending, setPending] = useState(false);
 
+  // Newest-first pages of GET /api/trades
   const [trades, setTrades] = useState<TradePoint[]>([]);
+  const [tradesCursor, setTradesCursor] = useState<string | null>(null);
+  const [tradesLoading, setTradesLoading] = useState(false);
+  // Hourly candles of the last 30 days + first ever price, for volume / change stats
+  const [statsCandles, setStatsCandles] = useState<ApiCandle[]>([]);
+  const [firstPriceEth, setFirstPriceEth] = useState<number | null>(null);
+  // Latest trade pushed by /api/stream/trades, handed to the chart
+  const [liveTrade, setLiveTrade] = useState<LiveTrade | null>(null);
+  // Latest trade rolled back by a reorg, so the chart can drop it
+  const [removedTrade, setRemovedTrade] = useState<RemovedTrade | null>(null);
 
   const [sellQty, setSellQty] = useState<string>("0");
   const [estRefund, setEstRefund] = useState<bigint | null>(null);
 
-  const [timeRange, setTimeRange] = useState<TimeRange>("1h");
   const [ethUsd, setEthUsd] = useState<number | null>(null);
+  const [pool, setPool] = useState<PoolInfo | null>(null);
 
   // 🔹 curve supply for market cap
   const [curveSupply, setCurveSupply] = useState<bigint | null>(null);
@@ -272,9 +181,11 @@ export default function TokenPage() {
   // 🔹 top holders (for bottom tab)
   const [holders, setHolders] = useState<Holder[]>([]);
   const [holdersLoading, setHoldersLoading] = useState(false);
+  const [holdersTotal, setHoldersTotal] = useState(0);
+  const [holdersPage, setHoldersPage] = useState(1);
 
   // 🔹 bottom tab: history / holders
-  const [bottomTab, setBottomTab] = useState<"history" | "holders">("history");
+  const [bottomTab, setBottomTab] = useState<"history" | "holders" | "comments">("history");
   const [curveFeeBps, setCurveFeeBps] = useState<bigint>(DEFAULT_CURVE_FEE_BPS);
   const [curveFeeDenominator, setCurveFeeDenominator] = useState<bigint>(
     DEFAULT_BPS_DENOMINATOR,
@@ -291,6 +202,61 @@ export default function TokenPage() {
     message: "",
   });
 
+  const loadHolders = async (page: number) => {
+    try {
+      setHoldersLoading(true);
+      const res = await axios.get("/api/holders", {
+        params: { token: tokenAddress, page, limit: HOLDERS_PAGE_SIZE },
+      });
+      const pageHolders: Holder[] = res.data.holders || [];
+      setHolders(prev => (page === 1 ? pageHolders : [...prev, ...pageHolders]));
+      setHoldersTotal(res.data.totalHolders ?? pageHolders.length);
+      setHoldersPage(page);
+    } catch (e) {
+      console.log("[loadHolders] no top holders endpoint or error", e);
+      if (page === 1) {
+        setHolders([]);
+        setHoldersTotal(0);
+      }
+    } finally {
+      setHoldersLoading(false);
+    }
+  };
+
+  const loadTrades = async (cursor?: string) => {
+    try {
+      setTradesLoading(true);
+      const res = await axios.get("/api/trades", {
+        params: { token: tokenAddress, limit: TRADES_PAGE_SIZE, before: cursor },
+      });
+      const pageTrades: TradePoint[] = res.data.trades || [];
+      setTrades(prev => (cursor ? [...prev, ...pageTrades] : pageTrades));
+      setTradesCursor(res.data.nextCursor ?? null);
+    } catch (e) {
+      console.log("No trade history yet", e);
+    } finally {
+      setTradesLoading(false);
+    }
+  };
+
+  const loadPriceStats = async () => {
+    try {
+      const [hourly, first] = await Promise.all([
+        axios.get("/api/candles", {
+          params: { token: tokenAddress, interval: "1h", from: Date.now() - 30 * ONE_DAY_MS, limit: 1000 },
+        }),
+        axios.get("/api/trades", {
+          params: { token: tokenAddress, order: "asc", limit: 1 },
+        }),
+      ]);
+      setStatsCandles(hourly.data.candles || []);
+      const [firstEvent] = buildPriceEvents(first.data.trades || []);
+      setFirstPriceEth(firstEvent ? firstEvent.y : null);
+    } catch (e) {
+      console.log("[loadPriceStats] failed", e);
+    }
+  };
+
   const connect = async () => {
     const provider = getBrowserProvider();
     const accounts = await provider.send("eth_requestAccounts", []);
@@ -305,10 +271,17 @@ export default function TokenPage() {
       tokenAddress,
     );
     const factory = getFactoryReadOnly();
-    const list: MemeToken[] = await factory.getAllMemeTokens();
-    const t = list.find(
-      (m) => m.tokenAddress.toLowerCase() === tokenAddress.toLowerCase(),
-    );
+    let t: MemeToken | null = null;
+    try {
+      const { data } = await axios.get(`/api/tokens/${tokenAddress}`);
+      t = { ...data.token, fundingRaised: BigInt(data.token.fundingRaised) };
+    } catch (e) {
+      if (axios.isAxiosError(e) && e.response?.status === 404) {
+        setTokenNotFound(true);
+      } else {
+        console.error("[loadToken] failed to fetch token", e);
+      }
+    }
     if (t) {
       console.log("[loadToken] token found:", t.tokenAddress);
       setToken(t);
@@ -377,42 +350,10 @@ export default function TokenPage() {
       }
     }
 
-    try {
-      const res = await axios.get(`/api/trades?token=${tokenAddress}`);
-      console.log(
-        "[loadToken] trades from API:",
-        res.data.trades?.length ?? 0,
-        res.data.trades?.slice(0, 5),
-      );
-      setTrades(res.data.trades || []);
-    } catch (e) {
-      console.log("No trade history yet", e);
-    }
-
-    // 🔹 fetch top holders (if backend supports it)
-    try {
-      setHoldersLoading(true);
-      const res = await axios.get(`/api/holders?token=${tokenAddress}`);
-      const serverHolders: Holder[] = res.data.holders || [];
-
-      // Calculate percentage if supply is known
-      if (t) {
-        const supplyRaw = await factory.curveSupply(tokenAddress);
-        const supply = Number(ethers.formatUnits(supplyRaw, 18));
-        if (supply > 0) {
-          serverHolders.forEach(h => {
-            h.percent = (h.balance / supply) * 100;
-          });
-        }
-      }
+    await Promise.all([loadTrades(), loadPriceStats()]);
 
-      setHolders(serverHolders);
-    } catch (e) {
-      console.log("[loadToken] no top holders endpoint or error", e);
-      setHolders([]);
-    } finally {
-      setHoldersLoading(false);
-    }
+    // 🔹 fetch top holders (share is computed server-side against total supply)
+    await loadHolders(1);
   };
 
   // 🔹 Check if token is launched to enable DEX mode
@@ -504,6 +445,47 @@ export default function TokenPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tokenAddress]);
 
+  // 🔹 live trades + curve state (other people's trades show up without a reload)
+  useEffect(() => {
+    if (!tokenAddress) return;
+    const source = new EventSource(`/api/stream/trades?token=${tokenAddress}`);
+
+    source.addEventListener("trade", (e) => {
+      const trade: TradePoint & { _id: string } = JSON.parse((e as MessageEvent).data);
+      // Replace on status updates (pending -> final), prepend new rows
+      setTrades((prev) =>
+        prev.some((t) => t._id === trade._id)
+          ? prev.map((t) => (t._id === trade._id ? trade : t))
+          : [trade, ...prev],
+      );
+      setLiveTrade(trade);
+    });
+
+    source.addEventListener("remove", (e) => {
+      const removed: RemovedTrade = JSON.parse((e as MessageEvent).data);
+      setTrades((prev) => prev.filter((t) => t._id !== removed._id));
+      setRemovedTrade(removed);
+    });
+
+    source.addEventListener("curve", (e) => {
+      const state = JSON.parse((e as MessageEvent).data) as {
+        fundingRaised: string;
+        curveSupply: string;
+        isLaunched: boolean;
+      };
+      setToken((prev) =>
+        prev && {
+          ...prev,
+          fundingRaised: BigInt(state.fundingRaised),
+          isLaunched: state.isLaunched,
+        },
+      );
+      setCurveSupply(BigInt(state.curveSupply));
+    });
+
+    return () => source.close();
+  }, [tokenAddress]);
+
   useEffect(() => {
     const fetchSeiPrice = async () => {
       try {
@@ -520,6 +502,22 @@ export default function TokenPage() {
     fetchSeiPrice();
   }, []);
 
+  // 🔹 Live pool data once the token has graduated to DragonSwap
+  useEffect(() => {
+    if (!tokenAddress || !token?.isLaunched) return;
+    const loadPool = async () => {
+      try {
+        const res = await axios.get(`/api/tokens/${tokenAddress}/pool`);
+        setPool(res.data.pool);
+      } catch (e) {
+        console.error("[loadPool] failed", e);
+      }
+    };
+    loadPool();
+    const timer = setInterval(loadPool, POOL_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [tokenAddress, token?.isLaunched]);
+
 
 
   const handleBuy = async () => {
@@ -529,7 +527,6 @@ export default function TokenPage() {
     try {
       const provider = getBrowserProvider();
       let txHash = "";
-      let ethSpent = estimatedCost;
 
       if (isDexMode) {
         // DEX Buy
@@ -564,15 +561,8 @@ export default function TokenPage() {
       }
 
       try {
-        await axios.post("/api/trades", {
-          token: tokenAddress,
-          hash: txHash,
-          side: "buy",
-          tokens: Number(qty),
-          eth: Number(ethers.formatEther(ethSpent)),
-          timestamp: Date.now(),
-          user: account,
-        });
+        // Server reads side, user and amounts from the tx receipt
+        await axios.post("/api/trades", { token: tokenAddress, hash: txHash });
       } catch (_) { }
 
       setQty("0");
@@ -602,7 +592,6 @@ export default function TokenPage() {
     try {
       const provider = getBrowserProvider();
       let txHash = "";
-      let ethReceived = 0n;
 
       if (isDexMode) {
         // DEX Sell
@@ -618,7 +607,6 @@ export default function TokenPage() {
         const minEthOut = (estRefund || 0n) * 95n / 100n; // 5% slippage
         const receipt = await sellTokenDex(provider, tokenAddress, amountIn, minEthOut, account);
         txHash = receipt.hash;
-        ethReceived = estRefund || 0n; // Approximation for DB
       } else {
         // Bonding Curve Sell
         const factory = await getFactoryContract();
@@ -628,19 +616,10 @@ export default function TokenPage() {
         );
         const receipt = await tx.wait();
         txHash = receipt.hash;
-        ethReceived = estRefund || 0n;
       }
 
       try {
-        await axios.post("/api/trades", {
-          token: tokenAddress,
-          hash: txHash,
-          side: "sell",
-          tokens: Number(sellQty),
-          eth: Number(ethers.formatEther(ethReceived)),
-          timestamp: Date.now(),
-          user: account,
-        });
+        await axios.post("/api/trades", { token: tokenAddress, hash: txHash });
       } catch (_) { }
 
       setSellQty("0");
@@ -669,44 +648,33 @@ export default function TokenPage() {
         <Link href="/" className="text-xs text-slate-400 hover:text-white">
           &larr; Back
         </Link>
-        <p className="mt-10">Loading token...</p>
+        <p className="mt-10">{tokenNotFound ? "Token not found." : "Loading token..."}</p>
       </main>
     );
   }
 
   // ----- Build price points from trades: price = sei / tokens -----
   const sortedTrades = trades.slice().sort((a, b) => a.timestamp - b.timestamp);
-  const selectedRange = TIME_RANGE_CONFIG[timeRange];
   const priceEvents = buildPriceEvents(sortedTrades);
-  const candles: Candle[] = buildCandles(sortedTrades, timeRange);
-
-  console.log("[TokenPage render]", {
-    tradesLen: trades.length,
-    candlesLen: candles.length,
-    timeRange,
-    firstTrade: trades[0],
-    firstCandle: candles[0],
-  });
 
   const now = Date.now();
-  const last24hTrades = trades.filter(
-    (t) => now - t.timestamp <= 24 * 60 * 60 * 1000,
+  // Hourly buckets, so "24h" covers up to one extra partial hour.
+  const last24hCandles = statsCandles.filter(
+    (c) => c.time >= Math.floor((now - ONE_DAY_MS) / 3_600_000) * 3_600_000,
   );
-  const volumeEth24h = last24hTrades.reduce(
-    (acc, t) => acc + (t.eth || 0),
+  const volumeEth24h = last24hCandles.reduce(
+    (acc, c) => acc + (c.volumeEth || 0),
     0,
   );
-  const volumeTokens24h = last24hTrades.reduce(
-    (acc, t) => acc + (t.tokens || 0),
+  const volumeTokens24h = last24hCandles.reduce(
+    (acc, c) => acc + (c.volume || 0),
     0,
   );
   const volumeUsd24h = ethUsd !== null ? volumeEth24h * ethUsd : null;
 
-  // 👉 current price (SEI per token) from last candle or last trade, fallback to initial price
+  // 👉 current price (SEI per token) from last trade, fallback to initial price
   let lastPriceEth: number | null = null;
-  if (candles.length > 0) {
-    lastPriceEth = candles[candles.length - 1].close;
-  } else if (priceEvents.length > 0) {
+  if (priceEvents.length > 0) {
     lastPriceEth = priceEvents[priceEvents.length - 1].y;
   } else if (initialPrice !== null) {
     // Use initial price from bonding curve when no trades exist
@@ -777,11 +745,11 @@ export default function TokenPage() {
     let basePrice: number | null = null;
 
     if (periodMs === "all") {
-      basePrice = priceEvents[0].y;
+      basePrice = firstPriceEth;
     } else {
       const cutoff = now - periodMs;
-      const candidate = priceEvents.find((p) => p.x >= cutoff);
-      basePrice = candidate ? candidate.y : priceEvents[0].y;
+      const candidate = statsCandles.find((c) => c.time >= cutoff);
+      basePrice = candidate ? candidate.open : firstPriceEth;
     }
 
     if (!basePrice || basePrice <= 0) {
@@ -794,11 +762,10 @@ export default function TokenPage() {
     return { changePct, changeAbs };
   };
 
-  const oneDayMs = 24 * 60 * 60 * 1000;
-  const oneWeekMs = 7 * oneDayMs;
-  const oneMonthMs = 30 * oneDayMs;
+  const oneWeekMs = 7 * ONE_DAY_MS;
+  const oneMonthMs = 30 * ONE_DAY_MS;
 
-  const change1d = computeChange(oneDayMs);
+  const change1d = computeChange(ONE_DAY_MS);
   const change1w = computeChange(oneWeekMs);
   const change1m = computeChange(oneMonthMs);
   const changeAll = computeChange("all");
@@ -838,6 +805,13 @@ export default function TokenPage() {
       <div className="mx-auto max-w-6xl space-y-8 px-4 py-8">
         {/* ------- TOP: Token header + stat boxes ------- */}
         <section className="rounded-3xl border border-cyan-500/20 bg-[radial-gradient(circle_at_top,_rgba(34,211,238,0.18),_transparent_55%),_radial-gradient(circle_at_bottom,_rgba(236,72,153,0.16),_transparent_60%)] p-6 shadow-[0_0_50px_rgba(15,23,42,0.8)] backdrop-blur">
+          {token.bannerUrl && (
+            <img
+              src={token.bannerUrl}
+              alt={`${token.name} banner`}
+              className="-mx-6 -mt-6 mb-6 h-36 w-[calc(100%+3rem)] max-w-none rounded-t-3xl object-cover"
+            />
+          )}
           <div className="flex flex-col gap-6 md:flex-row md:items-center md:justify-between">
             {/* Left: avatar + name + status */}
             <div className="flex items-center gap-4">
@@ -877,6 +851,12 @@ export default function TokenPage() {
                       {token.tokenAddress.slice(0, 6)}...
                       {token.tokenAddress.slice(-4)} ·{" "}
                       <span className="text-cyan-300">Sei Network</span>
+                      {token.creatorAddress && (
+                        <>
+                          {" "}· created by{" "}
+                          <UserLabel address={token.creatorAddress} className="text-cyan-200" />
+                        </>
+                      )}
                     </p>
                   </div>
                   {token.isLaunched ? (
@@ -890,6 +870,14 @@ export default function TokenPage() {
                       Bonding curve phase
                     </span>
                   )}
+                  <WatchButton token={token.tokenAddress} />
+                  <Link
+                    href={`/watchlist?token=${token.tokenAddress}`}
+                    className="inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/5 px-2 py-0.5 text-[10px] text-slate-200 transition hover:bg-white/10"
+                  >
+                    <BellAlertIcon className="h-3 w-3" />
+                    Alerts
+                  </Link>
                 </div>
               </div>
             </div>
@@ -1017,6 +1005,21 @@ export default function TokenPage() {
           </div>
 
           <p className="mt-4 text-sm text-slate-200">{token.description}</p>
+          {TOKEN_LINK_LABELS.some(l => token.links?.[l.key]) && (
+            <div className="mt-3 flex flex-wrap gap-2 text-[11px]">
+              {TOKEN_LINK_LABELS.filter(l => token.links?.[l.key]).map(l => (
+                <a
+                  key={l.key}
+                  href={token.links![l.key]}
+                  target="_blank"
+                  rel="noreferrer noopener"
+                  className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-cyan-200 hover:text-white"
+                >
+                  {l.label}
+                </a>
+              ))}
+            </div>
+          )}
         </section>
 
         {/* ------- MIDDLE: Price chart (TradingView candles) ------- */}
@@ -1026,7 +1029,12 @@ export default function TokenPage() {
             Price chart
           </div>
 
-          <AdvancedChart trades={trades} symbol={token.symbol} />
+          <AdvancedChart
+            token={tokenAddress}
+            symbol={token.symbol}
+            liveTrade={liveTrade}
+            removedTrade={removedTrade}
+          />
 
           {/* 🔹 Price change boxes under chart */}
           <div className="mt-5 grid gap-3 text-xs sm:grid-cols-2 lg:grid-cols-4">
@@ -1056,6 +1064,98 @@ export default function TokenPage() {
           </div>
         </section>
 
+        {/* ------- DRAGONSWAP POOL (graduated tokens) ------- */}
+        {token.isLaunched && (
+          <section className="rounded-3xl border border-emerald-400/20 bg-white/5 p-5 shadow-[0_0_30px_rgba(16,185,129,0.15)]">
+            <div className="mb-4 flex items-center gap-2 text-sm font-semibold text-white">
+              <CheckCircleIcon className="h-4 w-4 text-emerald-300" />
+              DragonSwap pool
+            </div>
+            {!pool ? (
+              <p className="text-xs text-slate-400">Loading pool...</p>
+            ) : (
+              <div className="grid gap-3 text-xs sm:grid-cols-2 lg:grid-cols-4">
+                {[
+                  {
+                    label: "Pair",
+                    value: (
+                      <a
+                        href={`https://seitrace.com/address/${pool.pairAddress}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-cyan-300 hover:underline"
+                      >
+                        {pool.pairAddress.slice(0, 6)}...{pool.pairAddress.slice(-4)}
+                      </a>
+                    ),
+                  },
+                  {
+                    label: "Reserves",
+                    value: `${Number(ethers.formatUnits(pool.reserveToken, 18)).toLocaleString(undefined, { maximumFractionDigits: 0 })} ${token.symbol} / ${Number(ethers.formatEther(pool.reserveSei)).toLocaleString(undefined, { maximumFractionDigits: 2 })} SEI`,
+                  },
+                  {
+                    label: "Pool price",
+                    value: `${pool.priceEth.toPrecision(4)} SEI${ethUsd !== null ? ` ≈ $${(pool.priceEth * ethUsd).toPrecision(4)}` : ""}`,
+                  },
+                  {
+                    label: "Liquidity",
+                    value: `${pool.liquidityEth.toLocaleString(undefined, { maximumFractionDigits: 2 })} SEI${ethUsd !== null ? ` ≈ $${(pool.liquidityEth * ethUsd).toLocaleString(undefined, { maximumFractionDigits: 0 })}` : ""}`,
+                  },
+                  {
+                    label: "LP burned to address(0)",
+                    value: (
+                      <span className={pool.lp.factoryBalance === "0" ? "text-emerald-300" : "text-amber-300"}>
+                        {pool.lp.burnedPercent.toFixed(2)}% of LP supply
+                        {pool.lp.burnTx && (
+                          <>
+                            {" · "}
+                            <a
+                              href={`https://seitrace.com/tx/${pool.lp.burnTx}`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-cyan-300 hover:underline"
+                            >
+                              burn tx
+                            </a>
+                          </>
+                        )}
+                      </span>
+                    ),
+                  },
+                  {
+                    label: "SEI seeded (ethForLP)",
+                    value: pool.launch.ethForLP
+                      ? `${ethers.formatEther(pool.launch.ethForLP)} SEI`
+                      : "—",
+                  },
+                  {
+                    label: "Listing fee taken",
+                    value: pool.launch.listingFeeTaken
+                      ? `${ethers.formatEther(pool.launch.listingFeeTaken)} SEI`
+                      : "—",
+                  },
+                  {
+                    label: "Graduated at",
+                    value: pool.launch.launchedAt
+                      ? new Date(pool.launch.launchedAt).toLocaleString()
+                      : "—",
+                  },
+                ].map(item => (
+                  <div
+                    key={item.label}
+                    className="rounded-2xl border border-white/10 bg-slate-950/40 px-3 py-2.5"
+                  >
+                    <p className="text-[10px] font-medium uppercase tracking-wide text-slate-400">
+                      {item.label}
+                    </p>
+                    <p className="mt-1 text-sm font-semibold text-white">{item.value}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
         {/* ------- BUY / SELL ------- */}
         <div className="grid gap-6 md:grid-cols-2">
           <div className="rounded-3xl border border-white/10 bg-white/5 p-5 shadow-[0_0_30px_rgba(34,197,94,0.2)] backdrop-blur">
@@ -1172,7 +1272,7 @@ export default function TokenPage() {
           </div>
         </div>
 
-        {/* ------- HISTORY / TOP HOLDERS TABS ------- */}
+        {/* ------- HISTORY / TOP HOLDERS / COMMENTS TABS ------- */}
         <section className="rounded-3xl border border-white/10 bg-white/5 p-5 shadow-[0_0_30px_rgba(15,23,42,0.5)] backdrop-blur">
           <div className="flex items-center justify-between gap-4">
             <h3 className="text-sm font-semibold text-white">
@@ -1195,7 +1295,16 @@ export default function TokenPage() {
                   : "text-slate-300 hover:text-white"
                   }`}
               >
-                Top holders
+                Top holders{holdersTotal > 0 ? ` (${holdersTotal})` : ""}
+              </button>
+              <button
+                onClick={() => setBottomTab("comments")}
+                className={`rounded-full px-3 py-1 ${bottomTab === "comments"
+                  ? "bg-gradient-to-r from-cyan-400 to-fuchsia-500 text-slate-950 shadow"
+                  : "text-slate-300 hover:text-white"
+                  }`}
+              >
+                Comments
               </button>
             </div>
           </div>
@@ -1212,6 +1321,7 @@ export default function TokenPage() {
                   <thead className="text-[11px] uppercase tracking-wide text-slate-500">
                     <tr>
                       <th className="pb-2 text-left">Side</th>
+                      <th className="pb-2 text-left">Trader</th>
                       <th className="pb-2 text-left">Tokens</th>
                       <th className="pb-2 text-left">SEI</th>
                       <th className="pb-2 text-left">Time</th>
@@ -1236,6 +1346,12 @@ export default function TokenPage() {
                             >
                               {t.side.toUpperCase()}
                             </span>
+                            {t.venue === "dex" && (
+                              <span className="ml-1 text-[10px] text-slate-400">DEX</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-slate-200">
+                            {t.user ? <UserLabel address={t.user} /> : <span className="text-slate-500">—</span>}
                           </td>
                           <td className="py-2 text-slate-200">
                             {t.tokens.toFixed(2)} {token.symbol}
@@ -1245,6 +1361,9 @@ export default function TokenPage() {
                           </td>
                           <td className="py-2 text-slate-400">
                             {new Date(t.timestamp).toLocaleTimeString()}
+                            {t.status === "pending" && (
+                              <span className="ml-1 text-amber-300/80">· pending</span>
+                            )}
                           </td>
                           <td className="py-2">
                             {t.hash ? (
@@ -1264,19 +1383,27 @@ export default function TokenPage() {
                       ))}
                   </tbody>
                 </table>
+                {tradesCursor && (
+                  <button
+                    disabled={tradesLoading}
+                    onClick={() => loadTrades(tradesCursor)}
+                    className="mt-3 w-full rounded-full border border-white/15 bg-white/5 py-1.5 text-[11px] text-slate-200 transition hover:bg-white/10 disabled:opacity-50"
+                  >
+                    {tradesLoading ? "Loading..." : "Load older trades"}
+                  </button>
+                )}
               </div>
             )
+          ) : bottomTab === "comments" ? (
+            <TokenComments token={tokenAddress} account={account} />
           ) : (
             <div className="mt-4">
-              {holdersLoading ? (
+              {holdersLoading && holders.length === 0 ? (
                 <p className="text-xs text-slate-400">Loading top holders...</p>
               ) : holders.length === 0 ? (
                 <p className="text-xs text-slate-400">
-                  Top holders data is not available yet. Wire up{" "}
-                  <code className="rounded bg-black/40 px-1 py-0.5">
-                    /api/holders?token=
-                  </code>{" "}
-                  on your backend to power this section.
+                  No holders indexed yet. Balances appear once the indexer has
+                  processed this token&apos;s Transfer events.
                 </p>
               ) : (
                 <div className="max-h-64 overflow-y-auto">
@@ -1299,10 +1426,12 @@ export default function TokenPage() {
                             {idx + 1}
                           </td>
                           <td className="py-2">
-                            <span className="font-mono text-[11px] text-cyan-200">
-                              {h.address.slice(0, 8)}...
-                              {h.address.slice(-4)}
-                            </span>
+                            <UserLabel address={h.address} className="text-[11px] text-cyan-200" />
+                            {h.label && (
+                              <span className="ml-2 rounded-full border border-white/15 bg-white/5 px-2 py-0.5 text-[10px] text-slate-300">
+                                {h.label}
+                              </span>
+                            )}
                           </td>
                           <td className="py-2 text-slate-200">
                             {h.balance.toLocaleString(undefined, {
@@ -1319,6 +1448,15 @@ export default function TokenPage() {
                       ))}
                     </tbody>
                   </table>
+                  {holders.length < holdersTotal && (
+                    <button
+                      disabled={holdersLoading}
+                      onClick={() => loadHolders(holdersPage + 1)}
+                      className="mt-3 w-full rounded-full border border-white/15 bg-white/5 py-1.5 text-[11px] text-slate-200 transition hover:bg-white/10 disabled:opacity-50"
+                    >
+                      {holdersLoading ? "Loading..." : `Load more (${holders.length} of ${holdersTotal})`}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,381 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import Navbar from "@/components/Navbar";
+import WatchButton from "@/components/WatchButton";
+import { getBrowserProvider } from "@/lib/ethersClient";
+import { useAuthSession } from "@/lib/authClient";
+import { useWatchlist } from "@/lib/watchlistClient";
+import { BellAlertIcon, PauseIcon, PlayIcon, StarIcon, TrashIcon } from "@heroicons/react/24/outline";
+
+type AlertKind = "priceAbove" | "priceBelow" | "percentChange" | "progressAbove" | "graduated" | "largeTrade";
+type AlertWindow = "5m" | "1h" | "6h" | "24h";
+
+// Token of GET /api/tokens.
+type WatchedToken = {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  progress: number;
+  isLaunched: boolean;
+  priceEth: number;
+  marketCapEth: number;
+  volume24hEth: number;
+};
+
+// Rule of GET /api/alerts.
+type AlertRule = {
+  id: string;
+  token: string;
+  kind: AlertKind;
+  threshold: number | null;
+  window: AlertWindow | null;
+  enabled: boolean;
+  active: boolean;
+  lastTriggeredAt: number | null;
+};
+
+const KIND_LABELS: Record<AlertKind, string> = {
+  priceAbove: "Price above (SEI)",
+  priceBelow: "Price below (SEI)",
+  percentChange: "Price change (%)",
+  progressAbove: "Progress reaches (%)",
+  graduated: "Graduates",
+  largeTrade: "Trade larger than (SEI)",
+};
+
+const WINDOWS: AlertWindow[] = ["5m", "1h", "6h", "24h"];
+
+const describeRule = (r: AlertRule) => {
+  switch (r.kind) {
+    case "priceAbove":
+      return `Price ≥ ${r.threshold} SEI`;
+    case "priceBelow":
+      return `Price ≤ ${r.threshold} SEI`;
+    case "percentChange":
+      return `${r.threshold! > 0 ? "Up" : "Down"} ${Math.abs(r.threshold!)}% within ${r.window}`;
+    case "progressAbove":
+      return `Progress ≥ ${r.threshold}%`;
+    case "graduated":
+      return "Graduates to DragonSwap";
+    case "largeTrade":
+      return `Trade ≥ ${r.threshold} SEI`;
+  }
+};
+
+const errorMessage = (e: unknown, fallback: string) =>
+  axios.isAxiosError(e) && e.response?.data?.error ? e.response.data.error : fallback;
+
+const inputClass =
+  "rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none";
+
+export default function WatchlistPage() {
+  const session = useAuthSession();
+  const watchlist = useWatchlist();
+  const [account, setAccount] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<WatchedToken[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [signingIn, setSigningIn] = useState(false);
+
+  const [formToken, setFormToken] = useState("");
+  const [kind, setKind] = useState<AlertKind>("priceAbove");
+  const [threshold, setThreshold] = useState("");
+  const [alertWindow, setAlertWindow] = useState<AlertWindow>("1h");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const connect = async () => {
+    const provider = getBrowserProvider();
+    const accounts = await provider.send("eth_requestAccounts", []);
+    setAccount(accounts[0]);
+  };
+
+  const disconnect = () => setAccount(null);
+
+  const signedIn = session.address !== null;
+
+  // ?token= preselects the token of the alert form (the token page links here).
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (token) setFormToken(token.toLowerCase());
+  }, []);
+
+  useEffect(() => {
+    if (watchlist.addresses.length === 0) {
+      setTokens([]);
+      return;
+    }
+    axios
+      .get("/api/tokens", { params: { address: watchlist.addresses.join(","), limit: 100 } })
+      .then(res => {
+        const byAddress = new Map<string, WatchedToken>(
+          res.data.tokens.map((t: WatchedToken) => [t.tokenAddress, t])
+        );
+        setTokens(watchlist.addresses.flatMap(a => byAddress.get(a) ?? []));
+      })
+      .catch(e => console.error("Failed to load watchlist tokens", e));
+  }, [watchlist.addresses]);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const res = await axios.get("/api/alerts");
+      setRules(res.data.rules);
+    } catch (e) {
+      console.error("Failed to load alerts", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (signedIn) loadRules();
+    else setRules([]);
+  }, [signedIn, loadRules]);
+
+  const tokenName = useMemo(() => {
+    const names = new Map(tokens.map(t => [t.tokenAddress, t.symbol || t.name]));
+    return (address: string) => names.get(address) ?? `${address.slice(0, 6)}...${address.slice(-4)}`;
+  }, [tokens]);
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    try {
+      await session.signIn();
+    } catch (e) {
+      console.error("Sign-in failed", e);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      await axios.post("/api/alerts", {
+        token: formToken,
+        kind,
+        threshold: kind === "graduated" ? undefined : Number(threshold),
+        window: kind === "percentChange" ? alertWindow : undefined,
+      });
+      setThreshold("");
+      await loadRules();
+    } catch (err) {
+      setFormError(errorMessage(err, "Failed to create alert."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setEnabled = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      const res = await axios.patch(`/api/alerts/${rule.id}`, { enabled });
+      setRules(prev => prev.map(r => (r.id === rule.id ? res.data.rule : r)));
+    } catch (e) {
+      console.error("Failed to update alert", e);
+    }
+  };
+
+  const removeRule = async (rule: AlertRule) => {
+    try {
+      await axios.delete(`/api/alerts/${rule.id}`);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (e) {
+      console.error("Failed to delete alert", e);
+    }
+  };
+
+  const formTokens = useMemo(() => {
+    const options = tokens.map(t => ({ address: t.tokenAddress, label: `${t.name} (${t.symbol})` }));
+    if (formToken && !options.some(o => o.address === formToken)) {
+      options.unshift({ address: formToken, label: tokenName(formToken) });
+    }
+    return options;
+  }, [tokens, formToken, tokenName]);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-[#050816] via-[#050319] to-[#020617] text-slate-50">
+      <Navbar account={account} onConnect={connect} onDisconnect={disconnect} />
+      <div className="mx-auto max-w-6xl space-y-6 px-4 py-8">
+        {/* Watched tokens */}
+        <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <h1 className="flex items-center gap-2 text-lg font-semibold text-white">
+              <StarIcon className="h-5 w-5 text-amber-300" />
+              Watchlist ({tokens.length})
+            </h1>
+            <span className="text-[11px] text-slate-400">
+              {watchlist.synced ? "Synced to your wallet" : "Saved in this browser · sign in to sync"}
+            </span>
+          </div>
+          {tokens.length === 0 ? (
+            <p className="text-xs text-slate-400">
+              No tokens yet. Use the Watch button on a token page to add one.
+            </p>
+          ) : (
+            <table className="w-full text-left text-xs text-slate-300">
+              <thead className="text-[10px] uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="pb-2">Token</th>
+                  <th className="pb-2 text-right">Price (SEI)</th>
+                  <th className="pb-2 text-right">Market cap</th>
+                  <th className="pb-2 text-right">24h volume</th>
+                  <th className="pb-2 text-right">Progress</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody className="text-[11px]">
+                {tokens.map(t => (
+                  <tr key={t.tokenAddress} className="border-t border-white/10">
+                    <td className="py-2">
+                      <Link href={`/token/${t.tokenAddress}`} className="flex items-center gap-2 hover:text-white">
+                        {t.tokenImageUrl && (
+                          <img src={t.tokenImageUrl} alt={t.name} className="h-6 w-6 rounded-full object-cover" />
+                        )}
+                        <span className="text-white">{t.name}</span>
+                        <span className="text-slate-500">{t.symbol}</span>
+                      </Link>
+                    </td>
+                    <td className="py-2 text-right">{t.priceEth.toPrecision(4)}</td>
+                    <td className="py-2 text-right">{t.marketCapEth.toFixed(2)} SEI</td>
+                    <td className="py-2 text-right">{t.volume24hEth.toFixed(2)} SEI</td>
+                    <td className="py-2 text-right">{t.isLaunched ? "Graduated" : `${t.progress.toFixed(1)}%`}</td>
+                    <td className="py-2 text-right">
+                      <WatchButton token={t.tokenAddress} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {/* Alerts */}
+        <section className="rounded-3xl border border-white/10 bg-white/5 p-5">
+          <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold text-white">
+            <BellAlertIcon className="h-4 w-4 text-fuchsia-300" />
+            Alerts
+          </h2>
+          {!signedIn ? (
+            <div className="flex items-center justify-between rounded-2xl border border-white/10 bg-slate-900/60 px-4 py-3 text-xs text-slate-300">
+              <span>
+                {account
+                  ? "Sign in with your wallet to set price and graduation alerts."
+                  : "Connect and sign in with your wallet to set alerts."}
+              </span>
+              {account && (
+                <button
+                  onClick={handleSignIn}
+                  disabled={signingIn}
+                  className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-white transition hover:bg-white/10 disabled:opacity-50"
+                >
+                  {signingIn ? "Signing..." : "Sign in"}
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <form onSubmit={createRule} className="flex flex-wrap items-end gap-2">
+                <select
+                  value={formToken}
+                  onChange={e => setFormToken(e.target.value)}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">Select a token</option>
+                  {formTokens.map(o => (
+                    <option key={o.address} value={o.address}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <select value={kind} onChange={e => setKind(e.target.value as AlertKind)} className={inputClass}>
+                  {(Object.keys(KIND_LABELS) as AlertKind[]).map(k => (
+                    <option key={k} value={k}>
+                      {KIND_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+                {kind !== "graduated" && (
+                  <input
+                    value={threshold}
+                    onChange={e => setThreshold(e.target.value)}
+                    type="number"
+                    step="any"
+                    required
+                    placeholder={kind === "percentChange" ? "e.g. 20 or -15" : "Threshold"}
+                    className={`${inputClass} w-36`}
+                  />
+                )}
+                {kind === "percentChange" && (
+                  <select
+                    value={alertWindow}
+                    onChange={e => setAlertWindow(e.target.value as AlertWindow)}
+                    className={inputClass}
+                  >
+                    {WINDOWS.map(w => (
+                      <option key={w} value={w}>
+                        within {w}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  type="submit"
+                  disabled={saving || !formToken}
+                  className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-2 text-xs font-semibold text-slate-950 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Add alert"}
+                </button>
+                {formError && <span className="text-xs text-rose-300">{formError}</span>}
+              </form>
+
+              {rules.length === 0 ? (
+                <p className="text-xs text-slate-400">No alerts yet.</p>
+              ) : (
+                <ul className="space-y-2 text-xs">
+                  {rules.map(r => (
+                    <li
+                      key={r.id}
+                      className="flex items-center justify-between gap-2 rounded-2xl border border-white/5 bg-slate-900/40 px-3 py-2"
+                    >
+                      <span className={r.enabled ? "text-slate-200" : "text-slate-500"}>
+                        <Link href={`/token/${r.token}`} className="text-cyan-200 hover:text-white">
+                          {tokenName(r.token)}
+                        </Link>{" "}
+                        · {describeRule(r)}
+                        {r.lastTriggeredAt && (
+                          <span className="ml-2 text-[10px] text-slate-500">
+                            last fired {new Date(r.lastTriggeredAt).toLocaleString()}
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex gap-1">
+                        <button
+                          onClick={() => setEnabled(r, !r.enabled)}
+                          className="rounded-full p-1 text-slate-400 hover:text-white"
+                          aria-label={r.enabled ? "Pause alert" : "Resume alert"}
+                        >
+                          {r.enabled ? <PauseIcon className="h-3.5 w-3.5" /> : <PlayIcon className="h-3.5 w-3.5" />}
+                        </button>
+                        <button
+                          onClick={() => removeRule(r)}
+                          className="rounded-full p-1 text-slate-400 hover:text-rose-300"
+                          aria-label="Delete alert"
+                        >
+                          <TrashIcon className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
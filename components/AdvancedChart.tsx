@@ -1,6 +1,7 @@
 "use client";
 
-import React, { useEffect, useRef, useState, useMemo } from "react";
+import React, { useEffect, useRef, useState, useMemo, useCallback } from "react";
+import axios from "axios";
 import {
     createChart,
     ColorType,
@@ -12,22 +13,44 @@ import {
     UTCTimestamp,
     CandlestickSeries,
     LineSeries,
+    HistogramSeries,
+    HistogramData,
 } from "lightweight-charts";
 import {
     ChartBarIcon,
     ClockIcon,
     AdjustmentsHorizontalIcon,
 } from "@heroicons/react/24/outline";
+import { ethers } from "ethers";
 
 // --- Types ---
 
-export type TradePoint = {
-    token: string;
-    hash: string;
-    side: "buy" | "sell";
+// Row of GET /api/candles (time = bucket start, ms).
+export type ApiCandle = {
+    time: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    volumeEth: number;
+    trades: number;
+};
+
+// Trade pushed by /api/stream/trades.
+export type LiveTrade = {
+    _id: string;
+    timestamp: number;
     tokens: number;
     eth: number;
-    timestamp: number;
+    priceWei?: string;
+    status?: "pending" | "final";
+};
+
+// Pending trade rolled back by a reorg, pushed by /api/stream/trades.
+export type RemovedTrade = {
+    _id: string;
+    timestamp: number | null;
 };
 
 type TimeRange = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
@@ -35,12 +58,68 @@ type TimeRange = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
 type IndicatorType = "SMA" | "EMA" | "BB";
 
 interface AdvancedChartProps {
-    trades: TradePoint[];
+    token: string;
     symbol?: string;
+    /** Newest streamed trade; folded into the last candle without refetching. */
+    liveTrade?: LiveTrade | null;
+    /** Newest rolled-back trade; its candles are refetched from the server. */
+    removedTrade?: RemovedTrade | null;
 }
 
 // --- Helpers ---
 
+const CANDLES_PAGE_SIZE = 300;
+// Load older candles when fewer than this many bars are left of the viewport.
+const LOAD_MORE_THRESHOLD = 20;
+
+// Merges two candle lists by time; `newer` wins for buckets present in both.
+const mergeCandles = (older: ApiCandle[], newer: ApiCandle[]) => {
+    const byTime = new Map<number, ApiCandle>();
+    for (const c of older) byTime.set(c.time, c);
+    for (const c of newer) byTime.set(c.time, c);
+    return [...byTime.values()].sort((a, b) => a.time - b.time);
+};
+
+// Updates the last candle with a trade in its bucket, or opens the next one.
+// Trades older than the last candle are left to the server rollup.
+const applyTrade = (candles: ApiCandle[], trade: LiveTrade, bucketMs: number) => {
+    const price = trade.priceWei
+        ? Number(ethers.formatEther(trade.priceWei))
+        : trade.eth / trade.tokens;
+    if (!Number.isFinite(price) || price <= 0) return candles;
+
+    const time = Math.floor(trade.timestamp / bucketMs) * bucketMs;
+    const last = candles[candles.length - 1];
+    if (last && time < last.time) return candles;
+    if (last && time === last.time) {
+        return [
+            ...candles.slice(0, -1),
+            {
+                ...last,
+                high: Math.max(last.high, price),
+                low: Math.min(last.low, price),
+                close: price,
+                volume: last.volume + trade.tokens,
+                volumeEth: last.volumeEth + trade.eth,
+                trades: last.trades + 1,
+            },
+        ];
+    }
+    return [
+        ...candles,
+        {
+            time,
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            volume: trade.tokens,
+            volumeEth: trade.eth,
+            trades: 1,
+        },
+    ];
+};
+
 const TIME_RANGE_CONFIG: Record<TimeRange, { label: string; bucketMs: number }> = {
     "1m": { label: "1m", bucketMs: 60 * 1000 },
     "5m": { label: "5m", bucketMs: 5 * 60 * 1000 },
@@ -98,10 +177,11 @@ const calculateBollingerBands = (data: CandlestickData<Time>[], period: number,
 };
 
 
-export default function AdvancedChart({ trades, symbol = "TOKEN" }: AdvancedChartProps) {
+export default function AdvancedChart({ token, symbol = "TOKEN", liveTrade, removedTrade }: AdvancedChartProps) {
     const chartContainerRef = useRef<HTMLDivElement>(null);
     const chartRef = useRef<IChartApi | null>(null);
     const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
+    const volumeSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
 
     // Indicator series refs
     const smaSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
@@ -115,82 +195,126 @@ export default function AdvancedChart({ trades, symbol = "TOKEN" }: AdvancedChar
         EMA: false,
         BB: false,
     });
+    // Hide trades that are not yet past the indexer's confirmation depth
+    const [finalOnly, setFinalOnly] = useState(false);
 
     // OHLC Legend State
     const [legend, setLegend] = useState<{ open: string, high: string, low: string, close: string, change: string, color: string } | null>(null);
 
-    // --- Data Processing ---
-    const candleData = useMemo(() => {
-        if (!trades || trades.length === 0) return [];
+    // Server-side rollups (GET /api/candles), paged backwards on scroll
+    const [candles, setCandles] = useState<ApiCandle[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const loadingOlderRef = useRef(false);
+    // Streamed trades already folded in, so status updates aren't counted twice
+    const appliedTradesRef = useRef(new Set<string>());
+
+    const fetchCandles = useCallback(async (to?: number) => {
+        const res = await axios.get("/api/candles", {
+            params: {
+                token,
+                interval: timeRange,
+                limit: CANDLES_PAGE_SIZE,
+                to,
+                final: finalOnly ? 1 : undefined,
+            },
+        });
+        return res.data as { candles: ApiCandle[]; hasMore: boolean };
+    }, [token, timeRange, finalOnly]);
 
-        const sortedTrades = [...trades].sort((a, b) => a.timestamp - b.timestamp);
-        const bucketMs = TIME_RANGE_CONFIG[timeRange].bucketMs;
+    // Token / interval / series the loaded candles belong to; an older page
+    // requested for a previous one is dropped when it arrives.
+    const seriesKeyRef = useRef("");
+    const seriesKey = `${token}:${timeRange}:${finalOnly ? "final" : "all"}`;
 
-        // Filter out bad data
-        const validTrades = sortedTrades.filter(t =>
-            t.timestamp && Number.isFinite(t.timestamp) && t.tokens > 0 && t.eth > 0
-        );
-
-        if (validTrades.length === 0) return [];
-
-        const priceEvents = validTrades.map(t => ({
-            x: t.timestamp,
-            y: t.eth / t.tokens
-        }));
-
-        const earliest = priceEvents[0].x;
-        const latest = priceEvents[priceEvents.length - 1].x;
-        const alignedStart = Math.floor(earliest / bucketMs) * bucketMs;
-        const alignedEnd = Math.ceil(latest / bucketMs) * bucketMs;
-
-        const candles: CandlestickData<Time>[] = [];
-        let eventIdx = 0;
-        let carry = priceEvents[0].y;
-
-        for (let t = alignedStart; t <= alignedEnd; t += bucketMs) {
-            const bucketEnd = t + bucketMs;
-            let open = carry;
-            let high = carry;
-            let low = carry;
-            let close = carry;
-            let touched = false;
-
-            while (eventIdx < priceEvents.length && priceEvents[eventIdx].x < bucketEnd) {
-                const price = priceEvents[eventIdx].y;
-                if (!touched) {
-                    open = price;
-                    high = price;
-                    low = price;
-                    close = price;
-                    touched = true;
-                } else {
-                    high = Math.max(high, price);
-                    low = Math.min(low, price);
-                    close = price;
-                }
-                eventIdx++;
-            }
+    // Different interval / series: start over.
+    useEffect(() => {
+        seriesKeyRef.current = seriesKey;
+        setCandles([]);
+        setHasMore(false);
+        appliedTradesRef.current = new Set();
+    }, [fetchCandles, seriesKey]);
 
-            if (!touched) {
-                open = carry;
-                high = carry;
-                low = carry;
-                close = carry;
-            }
+    // Newest page, merged into whatever is loaded.
+    useEffect(() => {
+        let cancelled = false;
+        fetchCandles()
+            .then(data => {
+                if (cancelled) return;
+                setCandles(prev => mergeCandles(prev, data.candles));
+                setHasMore(prev => prev || data.hasMore);
+            })
+            .catch(err => console.error("Failed to load candles:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [fetchCandles]);
 
-            carry = close;
+    useEffect(() => {
+        if (!liveTrade || appliedTradesRef.current.has(liveTrade._id)) return;
+        if (finalOnly && liveTrade.status !== "final") return;
+        appliedTradesRef.current.add(liveTrade._id);
+        const bucketMs = TIME_RANGE_CONFIG[timeRange].bucketMs;
+        setCandles(prev => applyTrade(prev, liveTrade, bucketMs));
+    }, [liveTrade, timeRange, finalOnly]);
 
-            candles.push({
-                time: (t / 1000) as UTCTimestamp,
-                open,
-                high,
-                low,
-                close,
-            });
+    // The server rollups are rebuilt before the removal is streamed: drop the
+    // buckets from the trade's onwards and take the newest page again.
+    useEffect(() => {
+        if (!removedTrade) return;
+        appliedTradesRef.current.delete(removedTrade._id);
+        const bucketMs = TIME_RANGE_CONFIG[timeRange].bucketMs;
+        const from = removedTrade.timestamp === null
+            ? -Infinity
+            : Math.floor(removedTrade.timestamp / bucketMs) * bucketMs;
+        const requestedFor = seriesKeyRef.current;
+        fetchCandles()
+            .then(data => {
+                if (seriesKeyRef.current !== requestedFor) return;
+                setCandles(prev => mergeCandles(prev.filter(c => c.time < from), data.candles));
+            })
+            .catch(err => console.error("Failed to reload candles:", err));
+        // Only a new removal triggers a reload.
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [removedTrade]);
+
+    const loadOlder = async () => {
+        if (loadingOlderRef.current || !hasMore || candles.length === 0) return;
+        loadingOlderRef.current = true;
+        const requestedFor = seriesKeyRef.current;
+        try {
+            const data = await fetchCandles(candles[0].time);
+            if (seriesKeyRef.current !== requestedFor) return;
+            setCandles(prev => mergeCandles(data.candles, prev));
+            setHasMore(data.hasMore);
+        } catch (err) {
+            console.error("Failed to load older candles:", err);
+        } finally {
+            loadingOlderRef.current = false;
         }
+    };
+    // The scroll subscription is created once; always call the latest closure.
+    const loadOlderRef = useRef(loadOlder);
+    loadOlderRef.current = loadOlder;
+
+    const candleData = useMemo<CandlestickData<Time>[]>(
+        () => candles.map(c => ({
+            time: (c.time / 1000) as UTCTimestamp,
+            open: c.open,
+            high: c.high,
+            low: c.low,
+            close: c.close,
+        })),
+        [candles]
+    );
 
-        return candles;
-    }, [trades, timeRange]);
+    const volumeData = useMemo<HistogramData<Time>[]>(
+        () => candles.map(c => ({
+            time: (c.time / 1000) as UTCTimestamp,
+            value: c.volumeEth,
+            color: c.close >= c.open ? "rgba(34, 197, 94, 0.35)" : "rgba(239, 68, 68, 0.35)",
+        })),
+        [candles]
+    );
 
     // --- Chart Initialization ---
     useEffect(() => {
@@ -256,8 +380,22 @@ export default function AdvancedChart({ trades, symbol = "TOKEN" }: AdvancedChar
             },
         });
 
+        // Volume (SEI) in the bottom fifth of the pane
+        const volumeSeries = chart.addSeries(HistogramSeries, {
+            priceScaleId: "volume",
+            priceFormat: { type: "volume" },
+        });
+        chart.priceScale("volume").applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+
         chartRef.current = chart;
         candleSeriesRef.current = candleSeries;
+        volumeSeriesRef.current = volumeSeries;
+
+        chart.timeScale().subscribeVisibleLogicalRangeChange(range => {
+            if (range && range.from < LOAD_MORE_THRESHOLD) {
+                void loadOlderRef.current();
+            }
+        });
 
         // Crosshair move handler for OHLC legend
         chart.subscribeCrosshairMove((param) => {
@@ -330,6 +468,7 @@ export default function AdvancedChart({ trades, symbol = "TOKEN" }: AdvancedChar
 
         // Update candles
         candleSeriesRef.current.setData(candleData);
+        volumeSeriesRef.current?.setData(volumeData);
 
         // Update initial legend to last candle
         if (candleData.length > 0) {
@@ -369,14 +508,15 @@ export default function AdvancedChart({ trades, symbol = "TOKEN" }: AdvancedChar
         updateIndicator(bbUpperSeriesRef, indicators.BB, bbData.upper, { color: 'rgba(167, 139, 250, 0.5)', lineWidth: 1, title: 'BB Upper' });
         updateIndicator(bbLowerSeriesRef, indicators.BB, bbData.lower, { color: 'rgba(167, 139, 250, 0.5)', lineWidth: 1, title: 'BB Lower' });
 
-    }, [candleData, indicators]);
+    }, [candleData, volumeData, indicators]);
 
-    // Fit content when time range changes
+    // Fit content once the first page of a time range arrives (not when paging back)
+    const hasCandles = candleData.length > 0;
     useEffect(() => {
-        if (chartRef.current && candleData.length > 0) {
+        if (chartRef.current && hasCandles) {
             chartRef.current.timeScale().fitContent();
         }
-    }, [timeRange, candleData.length]);
+    }, [timeRange, hasCandles]);
 
 
     return (
@@ -423,6 +563,18 @@ export default function AdvancedChart({ trades, symbol = "TOKEN" }: AdvancedChar
                             </button>
                         ))}
                     </div>
+
+                    {/* Confirmed-data toggle */}
+                    <button
+                        onClick={() => setFinalOnly(prev => !prev)}
+                        title="Only plot trades past the confirmation depth"
+                        className={`rounded-lg border px-2 py-1.5 text-[10px] font-bold transition-colors ${finalOnly
+                            ? "border-emerald-500/50 bg-emerald-500/10 text-emerald-300"
+                            : "border-slate-700 bg-slate-800 text-slate-500 hover:text-slate-300"
+                            }`}
+                    >
+                        Final only
+                    </button>
                 </div>
             </div>
 
@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import {
+    createChart,
+    ColorType,
+    IChartApi,
+    ISeriesApi,
+    UTCTimestamp,
+    AreaSeries,
+    HistogramSeries,
+} from "lightweight-charts";
+
+// Buyer series of GET /api/creator/[address] (time = day start, ms).
+export type BuyerPoint = {
+    time: number;
+    newBuyers: number;
+    totalBuyers: number;
+};
+
+type BuyersChartProps = {
+    points: BuyerPoint[];
+    height?: number;
+};
+
+// Cumulative unique buyers (area) with each day's new buyers (bars).
+export default function BuyersChart({ points, height = 160 }: BuyersChartProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const chartRef = useRef<IChartApi | null>(null);
+    const totalSeriesRef = useRef<ISeriesApi<"Area"> | null>(null);
+    const newSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+
+        const chart = createChart(containerRef.current, {
+            layout: {
+                background: { type: ColorType.Solid, color: "transparent" },
+                textColor: "#94a3b8",
+            },
+            grid: {
+                vertLines: { color: "rgba(148, 163, 184, 0.05)" },
+                horzLines: { color: "rgba(148, 163, 184, 0.05)" },
+            },
+            width: containerRef.current.clientWidth,
+            height,
+            timeScale: {
+                timeVisible: false,
+                borderColor: "rgba(148, 163, 184, 0.1)",
+            },
+            rightPriceScale: {
+                borderColor: "rgba(148, 163, 184, 0.1)",
+            },
+        });
+
+        totalSeriesRef.current = chart.addSeries(AreaSeries, {
+            lineColor: "#22d3ee",
+            topColor: "rgba(34, 211, 238, 0.35)",
+            bottomColor: "rgba(34, 211, 238, 0.02)",
+            lineWidth: 2,
+            priceFormat: { type: "price", precision: 0, minMove: 1 },
+        });
+        newSeriesRef.current = chart.addSeries(HistogramSeries, {
+            color: "rgba(232, 121, 249, 0.6)",
+            priceFormat: { type: "price", precision: 0, minMove: 1 },
+        });
+        chartRef.current = chart;
+
+        const handleResize = () => {
+            if (containerRef.current && chartRef.current) {
+                chartRef.current.applyOptions({ width: containerRef.current.clientWidth });
+            }
+        };
+        window.addEventListener("resize", handleResize);
+
+        return () => {
+            window.removeEventListener("resize", handleResize);
+            chart.remove();
+            chartRef.current = null;
+        };
+    }, [height]);
+
+    useEffect(() => {
+        if (!totalSeriesRef.current || !newSeriesRef.current) return;
+        const toTime = (ms: number) => Math.floor(ms / 1000) as UTCTimestamp;
+        totalSeriesRef.current.setData(points.map(p => ({ time: toTime(p.time), value: p.totalBuyers })));
+        newSeriesRef.current.setData(points.map(p => ({ time: toTime(p.time), value: p.newBuyers })));
+        chartRef.current?.timeScale().fitContent();
+    }, [points]);
+
+    return <div ref={containerRef} className="w-full" />;
+}
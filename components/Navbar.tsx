@@ -1,8 +1,12 @@
 "use client";
 
+import { useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { WalletIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { ShieldCheckIcon, WalletIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import NotificationCenter from "@/components/NotificationCenter";
+import { useAuthSession } from "@/lib/authClient";
+import { shortAddress, useProfile } from "@/lib/profilesClient";
 
 type NavbarProps = {
   account: string | null;
@@ -12,12 +16,39 @@ type NavbarProps = {
 
 const NAV_LINKS = [
   { href: "/", label: "Home" },
+  { href: "/graduated", label: "Graduated" },
   { href: "/livestream", label: "Live Streams" },
   { href: "/competition", label: "Trading Competition" },
+  { href: "/watchlist", label: "Watchlist" },
+  { href: "/creator", label: "Creator" },
 ];
 
 export default function Navbar({ account, onConnect, onDisconnect }: NavbarProps) {
   const pathname = usePathname();
+  const session = useAuthSession();
+  const profile = useProfile(account);
+  const [signingIn, setSigningIn] = useState(false);
+
+  // Signed in as the connected account (a session for another account does not count).
+  const signedIn = account !== null && session.address === account.toLowerCase();
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    try {
+      await session.signIn();
+    } catch (e) {
+      console.error("Sign-in failed", e);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (session.address) {
+      await session.signOut().catch(e => console.error("Sign-out failed", e));
+    }
+    onDisconnect();
+  };
 
   return (
     <nav className="sticky top-0 z-30 border-b border-white/10 bg-black/40 backdrop-blur-md">
@@ -56,12 +87,34 @@ export default function Navbar({ account, onConnect, onDisconnect }: NavbarProps
         <div className="flex items-center gap-2">
           {account ? (
             <>
-              <span className="hidden items-center gap-2 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-slate-200 sm:inline-flex">
-                <span className="h-2 w-2 rounded-full bg-emerald-400 animate-pulse" />
-                {account.slice(0, 6)}...{account.slice(-4)}
-              </span>
+              <Link
+                href={`/profile/${account}`}
+                title="View profile"
+                className="hidden items-center gap-2 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-slate-200 transition hover:bg-white/10 sm:inline-flex"
+              >
+                {profile.avatarUrl ? (
+                  <img src={profile.avatarUrl} alt="" className="h-4 w-4 rounded-full object-cover" />
+                ) : (
+                  <span className="h-2 w-2 rounded-full bg-emerald-400 animate-pulse" />
+                )}
+                {profile.username ?? shortAddress(account)}
+                {signedIn && (
+                  <ShieldCheckIcon className="h-3.5 w-3.5 text-emerald-300" aria-label="Signed in" />
+                )}
+              </Link>
+              {!signedIn && !session.loading && (
+                <button
+                  onClick={handleSignIn}
+                  disabled={signingIn}
+                  title="Sign a message to prove you own this wallet"
+                  className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-slate-200 transition hover:bg-white/10 disabled:opacity-50"
+                >
+                  {signingIn ? "Signing..." : "Sign in"}
+                </button>
+              )}
+              {signedIn && <NotificationCenter />}
               <button
-                onClick={onDisconnect}
+                onClick={handleDisconnect}
                 className="rounded-full border border-white/10 bg-white/5 p-1.5 text-slate-300 transition hover:bg-white/10"
                 aria-label="Disconnect wallet"
               >
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import axios from "axios";
+import { BellAlertIcon, BellIcon } from "@heroicons/react/24/outline";
+
+// Row of GET /api/notifications.
+type AlertNotification = {
+  id: string;
+  token: string | null;
+  kind: string | null;
+  title: string;
+  body: string;
+  read: boolean;
+  createdAt: number;
+};
+
+const POLL_MS = 30_000;
+
+const browserNotificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+const timeAgo = (ms: number) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - ms) / 1000));
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86_400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(ms).toLocaleDateString();
+};
+
+// Bell with the signed-in wallet's alert notifications. Polls the server and, once
+// allowed, repeats notifications that arrive while the page is open as browser
+// notifications.
+export default function NotificationCenter() {
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [open, setOpen] = useState(false);
+  // Mounted only once the session is known, so this never runs on the server.
+  const [permission, setPermission] = useState<NotificationPermission | null>(() =>
+    browserNotificationsSupported() ? window.Notification.permission : null
+  );
+  // Newest createdAt already seen; null until the first load, which never pops up.
+  const seenUntil = useRef<number | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await axios.get("/api/notifications");
+        const rows: AlertNotification[] = res.data.notifications;
+        setNotifications(rows);
+        setUnread(res.data.unread);
+
+        if (
+          seenUntil.current !== null &&
+          browserNotificationsSupported() &&
+          window.Notification.permission === "granted"
+        ) {
+          for (const n of rows.filter(r => !r.read && r.createdAt > seenUntil.current!).reverse()) {
+            new window.Notification(n.title, { body: n.body, tag: n.id });
+          }
+        }
+        seenUntil.current = Math.max(seenUntil.current ?? 0, ...rows.map(r => r.createdAt));
+      } catch (e) {
+        console.error("Failed to load notifications", e);
+      }
+    };
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const markAllRead = async () => {
+    try {
+      await axios.post("/api/notifications/read", {});
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      setUnread(0);
+    } catch (e) {
+      console.error("Failed to mark notifications read", e);
+    }
+  };
+
+  const enableBrowserNotifications = async () => {
+    if (!browserNotificationsSupported()) return;
+    setPermission(await window.Notification.requestPermission());
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="relative rounded-full border border-white/10 bg-white/5 p-1.5 text-slate-300 transition hover:bg-white/10"
+        aria-label="Notifications"
+      >
+        {unread > 0 ? <BellAlertIcon className="h-3.5 w-3.5 text-amber-300" /> : <BellIcon className="h-3.5 w-3.5" />}
+        {unread > 0 && (
+          <span className="absolute -right-1 -top-1 min-w-[1rem] rounded-full bg-fuchsia-500 px-1 text-center text-[9px] font-semibold text-white">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 rounded-2xl border border-white/10 bg-slate-950/95 p-3 text-xs shadow-xl backdrop-blur">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="font-semibold text-white">Notifications</span>
+            <div className="flex gap-3 text-[11px]">
+              <Link href="/watchlist" onClick={() => setOpen(false)} className="text-slate-400 hover:text-white">
+                Manage alerts
+              </Link>
+              {unread > 0 && (
+                <button onClick={markAllRead} className="text-cyan-300 hover:text-white">
+                  Mark all read
+                </button>
+              )}
+            </div>
+          </div>
+          {permission === "default" && (
+            <button
+              onClick={enableBrowserNotifications}
+              className="mb-2 w-full rounded-full border border-white/15 bg-white/5 py-1 text-[11px] text-slate-200 hover:bg-white/10"
+            >
+              Enable browser notifications
+            </button>
+          )}
+          {notifications.length === 0 ? (
+            <p className="py-4 text-center text-slate-400">No notifications yet.</p>
+          ) : (
+            <ul className="max-h-80 space-y-1 overflow-y-auto">
+              {notifications.map(n => (
+                <li key={n.id}>
+                  <Link
+                    href={n.token ? `/token/${n.token}` : "/watchlist"}
+                    onClick={() => setOpen(false)}
+                    className={`block rounded-xl px-2 py-1.5 hover:bg-white/5 ${n.read ? "text-slate-400" : "text-slate-100"}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{n.title}</span>
+                      {!n.read && <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-fuchsia-400" />}
+                    </div>
+                    <p className="text-[11px] text-slate-500">
+                      {n.body} · {timeAgo(n.createdAt)}
+                    </p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
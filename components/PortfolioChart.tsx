@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import {
+    createChart,
+    ColorType,
+    IChartApi,
+    ISeriesApi,
+    UTCTimestamp,
+    AreaSeries,
+    LineSeries,
+} from "lightweight-charts";
+
+// Row of GET /api/portfolio/[address]/history (time = bucket start, ms).
+export type PortfolioPoint = {
+    time: number;
+    valueEth: number;
+    investedEth: number;
+};
+
+type PortfolioChartProps = {
+    points: PortfolioPoint[];
+    height?: number;
+};
+
+// Portfolio value (area) against net SEI invested (dashed line).
+export default function PortfolioChart({ points, height = 280 }: PortfolioChartProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const chartRef = useRef<IChartApi | null>(null);
+    const valueSeriesRef = useRef<ISeriesApi<"Area"> | null>(null);
+    const investedSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+
+        const chart = createChart(containerRef.current, {
+            layout: {
+                background: { type: ColorType.Solid, color: "transparent" },
+                textColor: "#94a3b8",
+            },
+            grid: {
+                vertLines: { color: "rgba(148, 163, 184, 0.05)" },
+                horzLines: { color: "rgba(148, 163, 184, 0.05)" },
+            },
+            width: containerRef.current.clientWidth,
+            height,
+            timeScale: {
+                timeVisible: true,
+                secondsVisible: false,
+                borderColor: "rgba(148, 163, 184, 0.1)",
+            },
+            rightPriceScale: {
+                borderColor: "rgba(148, 163, 184, 0.1)",
+            },
+        });
+
+        valueSeriesRef.current = chart.addSeries(AreaSeries, {
+            lineColor: "#22d3ee",
+            topColor: "rgba(34, 211, 238, 0.35)",
+            bottomColor: "rgba(34, 211, 238, 0.02)",
+            lineWidth: 2,
+            priceFormat: { type: "price", precision: 4, minMove: 0.0001 },
+        });
+        investedSeriesRef.current = chart.addSeries(LineSeries, {
+            color: "rgba(232, 121, 249, 0.8)",
+            lineWidth: 1,
+            lineStyle: 2, // Dashed
+            priceFormat: { type: "price", precision: 4, minMove: 0.0001 },
+        });
+        chartRef.current = chart;
+
+        const handleResize = () => {
+            if (containerRef.current && chartRef.current) {
+                chartRef.current.applyOptions({ width: containerRef.current.clientWidth });
+            }
+        };
+        window.addEventListener("resize", handleResize);
+
+        return () => {
+            window.removeEventListener("resize", handleResize);
+            chart.remove();
+            chartRef.current = null;
+        };
+    }, [height]);
+
+    useEffect(() => {
+        if (!valueSeriesRef.current || !investedSeriesRef.current) return;
+        const toTime = (ms: number) => Math.floor(ms / 1000) as UTCTimestamp;
+        valueSeriesRef.current.setData(points.map(p => ({ time: toTime(p.time), value: p.valueEth })));
+        investedSeriesRef.current.setData(points.map(p => ({ time: toTime(p.time), value: p.investedEth })));
+        chartRef.current?.timeScale().fitContent();
+    }, [points]);
+
+    return <div ref={containerRef} className="w-full" />;
+}
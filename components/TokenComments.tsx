@@ -0,0 +1,295 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { PhotoIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { useAuthSession } from "@/lib/authClient";
+import UserLabel from "@/components/UserLabel";
+
+// Comment of GET /api/tokens/[address]/comments.
+type TokenComment = {
+  id: string;
+  author: string;
+  body: string;
+  imageUrl: string | null;
+  createdAt: number;
+  deleted: boolean;
+  holder: boolean;
+  creator: boolean;
+  canDelete: boolean;
+  replies?: TokenComment[];
+};
+
+type TokenCommentsProps = {
+  token: string;
+  account: string | null;
+};
+
+const MAX_LENGTH = 1000;
+
+const timeAgo = (ms: number) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - ms) / 1000));
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86_400) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(ms).toLocaleDateString();
+};
+
+const errorMessage = (e: unknown, fallback: string) =>
+  axios.isAxiosError(e) && e.response?.data?.error ? e.response.data.error : fallback;
+
+function Composer({
+  onSubmit,
+  placeholder,
+  compact = false,
+}: {
+  onSubmit: (body: string, imageUrl: string) => Promise<void>;
+  placeholder: string;
+  compact?: boolean;
+}) {
+  const [body, setBody] = useState("");
+  const [imageUrl, setImageUrl] = useState("");
+  const [showImage, setShowImage] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPosting(true);
+    setError(null);
+    try {
+      await onSubmit(body.trim(), imageUrl.trim());
+      setBody("");
+      setImageUrl("");
+      setShowImage(false);
+    } catch (err) {
+      setError(errorMessage(err, "Failed to post comment."));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        maxLength={MAX_LENGTH}
+        rows={compact ? 2 : 3}
+        placeholder={placeholder}
+        className="w-full resize-none rounded-2xl border border-white/10 bg-slate-900/60 px-3 py-2 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none"
+      />
+      {showImage && (
+        <input
+          value={imageUrl}
+          onChange={e => setImageUrl(e.target.value)}
+          placeholder="https://... image link"
+          className="w-full rounded-full border border-white/10 bg-slate-900/60 px-3 py-1.5 text-xs text-white placeholder:text-slate-500 focus:border-cyan-400/60 focus:outline-none"
+        />
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setShowImage(v => !v)}
+          className="inline-flex items-center gap-1 text-[11px] text-slate-400 hover:text-white"
+        >
+          <PhotoIcon className="h-3.5 w-3.5" />
+          {showImage ? "Remove image" : "Add image link"}
+        </button>
+        <div className="flex items-center gap-2">
+          {error && <span className="text-[11px] text-rose-300">{error}</span>}
+          <span className="text-[10px] text-slate-500">
+            {body.length}/{MAX_LENGTH}
+          </span>
+          <button
+            type="submit"
+            disabled={posting || (!body.trim() && !imageUrl.trim())}
+            className="rounded-full bg-gradient-to-r from-cyan-400 to-fuchsia-500 px-4 py-1 text-[11px] font-semibold text-slate-950 disabled:opacity-50"
+          >
+            {posting ? "Posting..." : compact ? "Reply" : "Post"}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export default function TokenComments({ token, account }: TokenCommentsProps) {
+  const session = useAuthSession();
+  const [comments, setComments] = useState<TokenComment[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  const signedIn = account !== null && session.address === account.toLowerCase();
+
+  const loadComments = useCallback(
+    async (nextPage: number) => {
+      setLoading(true);
+      try {
+        const res = await axios.get(`/api/tokens/${token}/comments`, {
+          params: { page: nextPage },
+        });
+        setComments(prev =>
+          nextPage === 1 ? res.data.comments : [...prev, ...res.data.comments]
+        );
+        setPage(nextPage);
+        setTotal(res.data.total);
+        setHasMore(res.data.hasMore);
+      } catch (e) {
+        console.error("Failed to load comments", e);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    loadComments(1);
+  }, [loadComments, session.address]);
+
+  const post = async (body: string, imageUrl: string, parentId?: string) => {
+    await axios.post(`/api/tokens/${token}/comments`, {
+      body,
+      imageUrl: imageUrl || undefined,
+      parentId,
+    });
+    setReplyTo(null);
+    await loadComments(1);
+  };
+
+  const remove = async (id: string) => {
+    if (!window.confirm("Delete this comment?")) return;
+    try {
+      await axios.delete(`/api/tokens/${token}/comments/${id}`);
+      await loadComments(1);
+    } catch (e) {
+      console.error("Failed to delete comment", e);
+      window.alert(errorMessage(e, "Failed to delete comment."));
+    }
+  };
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    try {
+      await session.signIn();
+    } catch (e) {
+      console.error("Sign-in failed", e);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const renderComment = (c: TokenComment, isReply: boolean) => (
+    <div key={c.id} className={isReply ? "border-l border-white/10 pl-3" : ""}>
+      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+        <UserLabel address={c.author} className="text-cyan-200" />
+        {c.creator && (
+          <span className="rounded-full border border-amber-400/40 bg-amber-400/10 px-2 py-0.5 text-[9px] text-amber-200">
+            creator
+          </span>
+        )}
+        {c.holder && (
+          <span className="rounded-full border border-emerald-400/40 bg-emerald-400/10 px-2 py-0.5 text-[9px] text-emerald-200">
+            holder
+          </span>
+        )}
+        <span className="text-slate-500">{timeAgo(c.createdAt)}</span>
+        {c.canDelete && (
+          <button
+            onClick={() => remove(c.id)}
+            className="ml-auto text-slate-500 hover:text-rose-300"
+            aria-label="Delete comment"
+          >
+            <TrashIcon className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      {c.deleted ? (
+        <p className="mt-1 text-xs italic text-slate-500">[deleted]</p>
+      ) : (
+        <>
+          {c.body && (
+            <p className="mt-1 whitespace-pre-wrap break-words text-xs text-slate-200">{c.body}</p>
+          )}
+          {c.imageUrl && (
+            <a href={c.imageUrl} target="_blank" rel="noreferrer noopener">
+              <img
+                src={c.imageUrl}
+                alt="Comment attachment"
+                className="mt-2 max-h-48 rounded-xl border border-white/10 object-contain"
+              />
+            </a>
+          )}
+        </>
+      )}
+      {!isReply && (
+        <div className="mt-2 space-y-3">
+          {c.replies?.map(r => renderComment(r, true))}
+          {signedIn && !c.deleted && (
+            replyTo === c.id ? (
+              <Composer
+                compact
+                placeholder="Write a reply..."
+                onSubmit={(body, imageUrl) => post(body, imageUrl, c.id)}
+              />
+            ) : (
+              <button
+                onClick={() => setReplyTo(c.id)}
+                className="text-[11px] text-slate-400 hover:text-white"
+              >
+                Reply
+              </button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mt-4 space-y-4">
+      {signedIn ? (
+        <Composer placeholder="Say something about this token..." onSubmit={post} />
+      ) : (
+        <div className="flex items-center justify-between rounded-2xl border border-white/10 bg-slate-900/60 px-4 py-3 text-xs text-slate-300">
+          <span>
+            {account ? "Sign in with your wallet to comment." : "Connect your wallet to comment."}
+          </span>
+          {account && (
+            <button
+              onClick={handleSignIn}
+              disabled={signingIn}
+              className="rounded-full border border-white/15 bg-white/5 px-3 py-1 text-[11px] text-white transition hover:bg-white/10 disabled:opacity-50"
+            >
+              {signingIn ? "Signing..." : "Sign in"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {loading && comments.length === 0 ? (
+        <p className="text-xs text-slate-400">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-slate-400">No comments yet. Start the conversation.</p>
+      ) : (
+        <div className="max-h-[32rem] space-y-4 overflow-y-auto pr-1">
+          {comments.map(c => renderComment(c, false))}
+          {hasMore && (
+            <button
+              disabled={loading}
+              onClick={() => loadComments(page + 1)}
+              className="w-full rounded-full border border-white/15 bg-white/5 py-1.5 text-[11px] text-slate-200 transition hover:bg-white/10 disabled:opacity-50"
+            >
+              {loading ? "Loading..." : `Load more (${comments.length} of ${total})`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import Link from "next/link";
+import { shortAddress, useProfile } from "@/lib/profilesClient";
+
+type UserLabelProps = {
+  address: string;
+  // Link to /profile/[address]; turn off inside another link (e.g. token cards).
+  link?: boolean;
+  avatar?: boolean;
+  className?: string;
+};
+
+// A wallet shown by its username (and avatar) when it has a profile, else by
+// its shortened address.
+export default function UserLabel({ address, link = true, avatar = true, className = "" }: UserLabelProps) {
+  const { username, avatarUrl } = useProfile(address);
+
+  const content = (
+    <>
+      {avatar && avatarUrl && (
+        <img src={avatarUrl} alt="" className="h-4 w-4 shrink-0 rounded-full object-cover" />
+      )}
+      <span className={username ? "" : "font-mono"}>{username ?? shortAddress(address)}</span>
+    </>
+  );
+
+  return link ? (
+    <Link
+      href={`/profile/${address}`}
+      title={address}
+      className={`inline-flex items-center gap-1.5 hover:text-white ${className}`}
+    >
+      {content}
+    </Link>
+  ) : (
+    <span title={address} className={`inline-flex items-center gap-1.5 ${className}`}>
+      {content}
+    </span>
+  );
+}
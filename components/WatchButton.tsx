@@ -0,0 +1,39 @@
+"use client";
+
+import { StarIcon } from "@heroicons/react/24/outline";
+import { StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
+import { useWatchlist } from "@/lib/watchlistClient";
+
+type WatchButtonProps = {
+  token: string;
+  className?: string;
+};
+
+// Adds / removes a token from the watchlist (server-synced once signed in).
+export default function WatchButton({ token, className = "" }: WatchButtonProps) {
+  const watchlist = useWatchlist();
+  const watched = watchlist.isWatched(token);
+
+  const toggle = async () => {
+    try {
+      await watchlist.toggle(token);
+    } catch (e) {
+      console.error("Failed to update watchlist", e);
+    }
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      title={watched ? "Remove from watchlist" : "Add to watchlist"}
+      className={`inline-flex items-center gap-1 rounded-full border border-white/15 bg-white/5 px-2 py-0.5 text-[10px] text-slate-200 transition hover:bg-white/10 ${className}`}
+    >
+      {watched ? (
+        <StarSolidIcon className="h-3 w-3 text-amber-300" />
+      ) : (
+        <StarIcon className="h-3 w-3" />
+      )}
+      {watched ? "Watching" : "Watch"}
+    </button>
+  );
+}
@@ -0,0 +1,301 @@
+// lib/alerts.ts
+// Watchlist limits, alert rule validation and the alert evaluator the indexer
+// runs: rules are checked against indexed trades and the token index, and each
+// firing stores a Notification for the rule's wallet.
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { tradePriceEth } from "@/lib/amounts";
+import { AlertRule } from "@/models/AlertRule";
+import { MemeToken } from "@/models/MemeToken";
+import { Notification } from "@/models/Notification";
+import { Trade } from "@/models/Trade";
+
+export const WATCHLIST_MAX_TOKENS = 100;
+export const ALERTS_MAX_PER_WALLET = 50;
+// Trades get createdAt before their insert commits, so one can land behind a
+// large-trade cursor; each check looks back this far and skips trades it sent.
+const LATE_INSERT_MS = 60 * 1000;
+
+export const ALERT_KINDS = [
+  "priceAbove",
+  "priceBelow",
+  "percentChange",
+  "progressAbove",
+  "graduated",
+  "largeTrade",
+] as const;
+
+export type AlertKind = (typeof ALERT_KINDS)[number];
+
+export const ALERT_WINDOWS = {
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+} as const;
+
+export type AlertWindow = keyof typeof ALERT_WINDOWS;
+
+export type AlertRuleDoc = {
+  _id: Types.ObjectId;
+  wallet: string;
+  token: string;
+  kind: AlertKind;
+  threshold?: number;
+  window?: AlertWindow;
+  enabled: boolean;
+  active: boolean;
+  checkedAt?: Date;
+  armedAt?: Date;
+  seenTrades?: Types.ObjectId[];
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+};
+
+export type AlertRuleInput = {
+  token: string;
+  kind: AlertKind;
+  threshold: number | null;
+  window: AlertWindow | null;
+};
+
+/** How often the indexer evaluates alerts (ALERTS_CHECK_MS, default 15 s). */
+export const getAlertsCheckMs = () => {
+  const raw = process.env.ALERTS_CHECK_MS;
+  if (raw === undefined || raw === "") return 15_000;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error("ALERTS_CHECK_MS must be a positive integer");
+  }
+  return value;
+};
+
+const isAlertKind = (value: unknown): value is AlertKind =>
+  typeof value === "string" && (ALERT_KINDS as readonly string[]).includes(value);
+
+const isAlertWindow = (value: unknown): value is AlertWindow =>
+  typeof value === "string" && Object.hasOwn(ALERT_WINDOWS, value);
+
+/** Validates a POST /api/alerts body. */
+export function parseAlertRuleInput(raw: unknown): AlertRuleInput | { error: string } {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  if (typeof input.token !== "string" || !ethers.isAddress(input.token)) {
+    return { error: "Invalid token address" };
+  }
+  if (!isAlertKind(input.kind)) {
+    return { error: `kind must be one of ${ALERT_KINDS.join(", ")}` };
+  }
+  const token = input.token.toLowerCase();
+  if (input.kind === "graduated") return { token, kind: input.kind, threshold: null, window: null };
+
+  const threshold = Number(input.threshold);
+  if (!Number.isFinite(threshold)) return { error: "threshold must be a number" };
+  switch (input.kind) {
+    case "priceAbove":
+    case "priceBelow":
+    case "largeTrade":
+      if (threshold <= 0) return { error: "threshold must be positive" };
+      break;
+    case "progressAbove":
+      if (threshold <= 0 || threshold > 100) {
+        return { error: "threshold must be a percentage between 0 and 100" };
+      }
+      break;
+    case "percentChange":
+      if (threshold === 0) return { error: "threshold must be a non-zero percentage" };
+      if (!isAlertWindow(input.window)) {
+        return { error: `window must be one of ${Object.keys(ALERT_WINDOWS).join(", ")}` };
+      }
+      return { token, kind: input.kind, threshold, window: input.window };
+  }
+  return { token, kind: input.kind, threshold, window: null };
+}
+
+/** API shape of a rule. */
+export const toAlertRuleResponse = (r: AlertRuleDoc) => ({
+  id: r._id.toString(),
+  token: r.token,
+  kind: r.kind,
+  threshold: r.threshold ?? null,
+  window: r.window ?? null,
+  enabled: r.enabled,
+  active: r.active,
+  lastTriggeredAt: r.lastTriggeredAt?.getTime() ?? null,
+  createdAt: r.createdAt.getTime(),
+});
+
+type TokenState = {
+  address: string;
+  symbol?: string;
+  name?: string;
+  progress?: number;
+  isLaunched?: boolean;
+};
+
+type LargeTrade = { _id: Types.ObjectId; token: string; eth: number; side: string; createdAt: Date };
+
+type PriceTrade = { token: string; tokens?: number; eth?: number; priceWei?: string };
+
+const formatSei = (value: number) =>
+  value.toLocaleString("en-US", { maximumSignificantDigits: 6 });
+
+const labelOf = (t: TokenState | undefined, token: string) =>
+  t?.symbol ? `$${t.symbol}` : `${token.slice(0, 6)}...${token.slice(-4)}`;
+
+/** Latest trade price per token, optionally as of `at` (ms). */
+export async function latestPrices(tokens: string[], at?: number) {
+  const match: Record<string, unknown> = { token: { $in: tokens } };
+  if (at !== undefined) match.timestamp = { $lte: at };
+  const rows = await Trade.aggregate<{ _id: string; trade: PriceTrade }>([
+    { $match: match },
+    { $sort: { token: 1, timestamp: -1, _id: -1 } },
+    { $group: { _id: "$token", trade: { $first: "$$ROOT" } } },
+  ]);
+  const prices = new Map<string, number>();
+  for (const row of rows) {
+    const price = tradePriceEth(row.trade);
+    if (Number.isFinite(price) && price > 0) prices.set(row._id, price);
+  }
+  return prices;
+}
+
+/**
+ * Checks every enabled rule once. Condition rules (price, % change, progress)
+ * fire on the evaluation where their condition turns true; graduation rules
+ * fire once; large-trade rules fire once for each trade inserted since their last
+ * check, looking back LATE_INSERT_MS for trades that committed late.
+ * @returns number of notifications created
+ */
+export async function evaluateAlerts(): Promise<number> {
+  const rules = await AlertRule.find({ enabled: true }).lean<AlertRuleDoc[]>();
+  if (rules.length === 0) return 0;
+
+  const now = Date.now();
+  const tokens = [...new Set(rules.map(r => r.token))];
+  const states = new Map(
+    (
+      await MemeToken.find(
+        { address: { $in: tokens } },
+        { address: 1, symbol: 1, name: 1, progress: 1, isLaunched: 1 }
+      ).lean<TokenState[]>()
+    ).map(t => [t.address, t])
+  );
+  const prices = await latestPrices(tokens);
+
+  const windows = [...new Set(rules.filter(r => r.window).map(r => r.window!))];
+  const pastPrices = new Map<AlertWindow, Map<string, number>>();
+  for (const w of windows) {
+    const windowTokens = [...new Set(rules.filter(r => r.window === w).map(r => r.token))];
+    pastPrices.set(w, await latestPrices(windowTokens, now - ALERT_WINDOWS[w]));
+  }
+
+  // Large trades inserted since the oldest rule cursor, per token.
+  const tradeRules = rules.filter(r => r.kind === "largeTrade");
+  const until = new Date(now);
+  const largeTrades = new Map<string, LargeTrade[]>();
+  const tradesFrom = (r: AlertRuleDoc) =>
+    Math.max(
+      (r.checkedAt ?? r.createdAt).getTime() - LATE_INSERT_MS,
+      (r.armedAt ?? r.createdAt).getTime()
+    );
+  if (tradeRules.length > 0) {
+    const since = new Date(Math.min(...tradeRules.map(tradesFrom)));
+    const minEth = Math.min(...tradeRules.map(r => r.threshold ?? 0));
+    const trades = await Trade.find(
+      {
+        token: { $in: [...new Set(tradeRules.map(r => r.token))] },
+        createdAt: { $gt: since, $lte: until },
+        eth: { $gte: minEth },
+      },
+      { token: 1, eth: 1, side: 1, createdAt: 1 }
+    ).lean<LargeTrade[]>();
+    for (const t of trades) {
+      const list = largeTrades.get(t.token) ?? [];
+      list.push(t);
+      largeTrades.set(t.token, list);
+    }
+  }
+
+  const notifications: Record<string, unknown>[] = [];
+  const updates: Parameters<typeof AlertRule.bulkWrite>[0] = [];
+  const notify = (r: AlertRuleDoc, title: string, body: string) =>
+    notifications.push({ wallet: r.wallet, token: r.token, rule: r._id, kind: r.kind, title, body });
+
+  for (const r of rules) {
+    const state = states.get(r.token);
+    const label = labelOf(state, r.token);
+    const price = prices.get(r.token);
+    const threshold = r.threshold ?? 0;
+
+    if (r.kind === "graduated") {
+      if (!state?.isLaunched) continue;
+      notify(r, `${label} graduated`, `${label} reached its funding goal and launched on DragonSwap.`);
+      updates.push({
+        updateOne: {
+          filter: { _id: r._id },
+          update: { $set: { enabled: false, active: true, lastTriggeredAt: until } },
+        },
+      });
+      continue;
+    }
+
+    if (r.kind === "largeTrade") {
+      const from = tradesFrom(r);
+      const seen = new Set((r.seenTrades ?? []).map(id => id.toString()));
+      const matching = (largeTrades.get(r.token) ?? []).filter(
+        t => t.createdAt.getTime() > from && t.eth >= threshold
+      );
+      const hits = matching.filter(t => !seen.has(t._id.toString()));
+      for (const t of hits) {
+        notify(
+          r,
+          `Large ${t.side} on ${label}`,
+          `A ${formatSei(t.eth)} SEI ${t.side} (alert at ${formatSei(threshold)} SEI).`
+        );
+      }
+      // Hits the next check still looks back over, so they are not sent twice.
+      const seenTrades = matching
+        .filter(t => t.createdAt.getTime() > now - LATE_INSERT_MS)
+        .map(t => t._id);
+      const set: Record<string, unknown> = { checkedAt: until, seenTrades };
+      if (hits.length > 0) set.lastTriggeredAt = until;
+      updates.push({ updateOne: { filter: { _id: r._id }, update: { $set: set } } });
+      continue;
+    }
+
+    let holds: boolean | null = null;
+    let title = "";
+    let body = "";
+    if (r.kind === "priceAbove" || r.kind === "priceBelow") {
+      if (price === undefined) continue;
+      holds = r.kind === "priceAbove" ? price >= threshold : price <= threshold;
+      title = `${label} ${r.kind === "priceAbove" ? "above" : "below"} ${formatSei(threshold)} SEI`;
+      body = `Last trade at ${formatSei(price)} SEI per token.`;
+    } else if (r.kind === "percentChange") {
+      const past = pastPrices.get(r.window!)?.get(r.token);
+      if (price === undefined || past === undefined) continue;
+      const change = ((price - past) / past) * 100;
+      holds = threshold > 0 ? change >= threshold : change <= threshold;
+      title = `${label} ${change >= 0 ? "up" : "down"} ${Math.abs(change).toFixed(1)}% in ${r.window}`;
+      body = `From ${formatSei(past)} to ${formatSei(price)} SEI per token.`;
+    } else if (r.kind === "progressAbove") {
+      if (!state) continue;
+      holds = (state.progress ?? 0) >= threshold;
+      title = `${label} passed ${threshold}% of its funding goal`;
+      body = `Bonding curve progress is ${(state.progress ?? 0).toFixed(1)}%.`;
+    }
+    if (holds === null || holds === r.active) continue;
+
+    if (holds) notify(r, title, body);
+    updates.push({
+      updateOne: {
+        filter: { _id: r._id },
+        update: { $set: holds ? { active: true, lastTriggeredAt: until } : { active: false } },
+      },
+    });
+  }
+
+  if (notifications.length > 0) await Notification.insertMany(notifications);
+  if (updates.length > 0) await AlertRule.bulkWrite(updates);
+  return notifications.length;
+}
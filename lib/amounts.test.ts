@@ -0,0 +1,86 @@
+// lib/amounts.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decimalToBigInt,
+  floatToRaw,
+  priceWeiOf,
+  splitBuyFee,
+  splitSellFee,
+  toDecimal128,
+  tradePriceEth,
+} from "./amounts";
+
+const ONE = 10n ** 18n;
+
+describe("decimalToBigInt", () => {
+  it("round-trips a Decimal128", () => {
+    const value = 123_456_789n * ONE + 1n;
+    assert.equal(decimalToBigInt(toDecimal128(value)), value);
+  });
+
+  it("reads exponent notation", () => {
+    assert.equal(decimalToBigInt("1.5E+21"), 1_500n * ONE);
+    assert.equal(decimalToBigInt("-25E+1"), -250n);
+    assert.equal(decimalToBigInt("12345E-2"), 123n);
+  });
+
+  it("drops a fractional part", () => {
+    assert.equal(decimalToBigInt("42.9"), 42n);
+  });
+
+  it("is zero without a value", () => {
+    assert.equal(decimalToBigInt(null), 0n);
+    assert.equal(decimalToBigInt(undefined), 0n);
+  });
+});
+
+describe("splitBuyFee", () => {
+  it("undoes the 1% fee added to the curve cost", () => {
+    for (const cost of [0n, 1n, 99n, 101n, 12_345n, 3n * ONE + 7n]) {
+      const fee = cost / 100n;
+      assert.deepEqual(splitBuyFee(cost + fee), { amount: cost, fee }, String(cost));
+    }
+  });
+});
+
+describe("splitSellFee", () => {
+  it("undoes the 1% fee taken from the refund", () => {
+    for (const refund of [0n, 1n, 99n, 101n, 12_345n, 3n * ONE + 7n]) {
+      const fee = refund / 100n;
+      assert.deepEqual(splitSellFee(refund - fee), { amount: refund, fee }, String(refund));
+    }
+  });
+});
+
+describe("priceWeiOf", () => {
+  it("is wei per whole token", () => {
+    assert.equal(priceWeiOf(ONE, 4n * ONE), ONE / 4n);
+  });
+
+  it("is zero for an empty fill", () => {
+    assert.equal(priceWeiOf(ONE, 0n), 0n);
+  });
+});
+
+describe("floatToRaw", () => {
+  it("converts to 18-decimal units", () => {
+    assert.equal(floatToRaw(1.5), 3n * ONE / 2n);
+  });
+
+  it("is zero for non-positive or non-finite values", () => {
+    assert.equal(floatToRaw(0), 0n);
+    assert.equal(floatToRaw(-1), 0n);
+    assert.equal(floatToRaw(Number.NaN), 0n);
+  });
+});
+
+describe("tradePriceEth", () => {
+  it("prefers the stored fee-free price", () => {
+    assert.equal(tradePriceEth({ tokens: 10, eth: 5, priceWei: (ONE / 4n).toString() }), 0.25);
+  });
+
+  it("falls back to eth per token", () => {
+    assert.equal(tradePriceEth({ tokens: 10, eth: 5 }), 0.5);
+  });
+});
@@ -0,0 +1,66 @@
+// lib/amounts.ts
+// Helpers for raw (wei / 1e18-unit) amounts stored in Mongo.
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+
+export const toDecimal128 = (value: bigint) =>
+  Types.Decimal128.fromString(value.toString());
+
+/**
+ * Converts a Decimal128 (or its string form) holding an integer back to bigint.
+ * Mongo may return exponent notation (e.g. "1.5E+21") after arithmetic.
+ */
+export function decimalToBigInt(value: Types.Decimal128 | string | null | undefined): bigint {
+  if (value === null || value === undefined) return 0n;
+  const str = value.toString();
+  const match = /^(-?)(\d+)(?:\.(\d+))?E([+-]\d+)$/i.exec(str);
+  if (!match) return BigInt(str.split(".")[0]);
+
+  const [, sign, intPart, fracPart = "", expStr] = match;
+  const exp = Number(expStr);
+  const digits = intPart + fracPart;
+  const shift = exp - fracPart.length;
+  const abs = shift >= 0
+    ? BigInt(digits) * 10n ** BigInt(shift)
+    : BigInt(digits) / 10n ** BigInt(-shift);
+  return sign ? -abs : abs;
+}
+
+// TokenFactory.FEE_BPS / BPS_DENOMINATOR (contract constants).
+export const CURVE_FEE_BPS = 100n;
+export const BPS_DENOMINATOR = 10_000n;
+
+const curveFee = (amount: bigint) => (amount * CURVE_FEE_BPS) / BPS_DENOMINATOR;
+
+// The factory emits the fee-inclusive amount only. Both inverses below search
+// the few integers around the exact quotient to undo the contract's rounding.
+
+/** Splits a curve buy's `totalPaid` (cost + fee) into the curve cost and the fee. */
+export function splitBuyFee(totalPaid: bigint): { amount: bigint; fee: bigint } {
+  const guess = (totalPaid * BPS_DENOMINATOR) / (BPS_DENOMINATOR + CURVE_FEE_BPS);
+  for (let cost = guess > 2n ? guess - 2n : 0n; cost <= guess + 2n; cost++) {
+    if (cost + curveFee(cost) === totalPaid) return { amount: cost, fee: totalPaid - cost };
+  }
+  return { amount: guess, fee: totalPaid - guess };
+}
+
+/** Splits a curve sell's `netRefund` (refund - fee) into the gross refund and the fee. */
+export function splitSellFee(netRefund: bigint): { amount: bigint; fee: bigint } {
+  const guess = (netRefund * BPS_DENOMINATOR) / (BPS_DENOMINATOR - CURVE_FEE_BPS);
+  for (let refund = guess > 2n ? guess - 2n : 0n; refund <= guess + 2n; refund++) {
+    if (refund - curveFee(refund) === netRefund) return { amount: refund, fee: refund - netRefund };
+  }
+  return { amount: guess, fee: guess - netRefund };
+}
+
+/** Wei per whole token (1e18 raw units); "0" for an empty fill. */
+export const priceWeiOf = (weiAmount: bigint, tokensRaw: bigint) =>
+  tokensRaw === 0n ? 0n : (weiAmount * 10n ** 18n) / tokensRaw;
+
+/** Best-effort conversion of a legacy float amount to raw 18-decimal units. */
+export const floatToRaw = (value: number) =>
+  Number.isFinite(value) && value > 0 ? ethers.parseUnits(value.toFixed(18), 18) : 0n;
+
+/** SEI per token of a Trade row: the fee-free price when stored (schema v2), else eth / tokens. */
+export const tradePriceEth = (t: { tokens?: number; eth?: number; priceWei?: string }) =>
+  t.priceWei ? Number(ethers.formatEther(t.priceWei)) : (t.eth ?? 0) / (t.tokens ?? 0);
@@ -0,0 +1,150 @@
+// lib/auth.ts
+// Sign-In with Ethereum sessions: nonce issuance, EIP-4361 verification, an
+// HTTP-only session cookie backed by AuthSession, and `requireAuth` for API routes.
+import { createHash, randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ethers } from "ethers";
+import { connectMongo } from "@/lib/mongo";
+import { parseSiweMessage, siweTimeError } from "@/lib/siwe";
+import { AuthNonce } from "@/models/AuthNonce";
+import { AuthSession } from "@/models/AuthSession";
+
+export const SESSION_COOKIE = "seifun_session";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// A nonce must be used within this long, which also bounds a message's age.
+export const NONCE_TTL_MS = 10 * 60 * 1000;
+
+export type AuthSessionInfo = {
+  address: string; // lowercase
+  chainId: number | null;
+  expiresAt: number;
+};
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+
+/** A fresh single-use nonce for the next sign-in message. */
+export async function issueNonce() {
+  const nonce = randomBytes(16).toString("hex");
+  await AuthNonce.create({ nonce, expiresAt: new Date(Date.now() + NONCE_TTL_MS) });
+  return nonce;
+}
+
+/**
+ * Checks a signed EIP-4361 message: its domain is this host, it is inside its
+ * validity window, `signature` recovers to its address and its nonce was issued
+ * here and not used yet (it is consumed).
+ */
+export async function verifySiwe(
+  req: NextRequest,
+  message: string,
+  signature: string
+): Promise<{ address: string; chainId: number } | { error: string }> {
+  const parsed = parseSiweMessage(message);
+  if (!parsed) return { error: "Malformed sign-in message" };
+
+  // SIWE_DOMAIN pins the expected domain; the Host header is only a fallback for development.
+  const host = process.env.SIWE_DOMAIN || req.headers.get("host");
+  if (parsed.domain !== host) return { error: "Sign-in message is for another domain" };
+
+  const now = Date.now();
+  const timeError = siweTimeError(parsed, now);
+  if (timeError) return { error: timeError };
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    return { error: "Invalid signature" };
+  }
+  if (signer !== parsed.address) return { error: "Signature does not match address" };
+
+  const nonce = await AuthNonce.findOneAndDelete({
+    nonce: parsed.nonce,
+    expiresAt: { $gt: new Date(now) },
+  });
+  if (!nonce) return { error: "Unknown or expired nonce" };
+
+  return { address: parsed.address.toLowerCase(), chainId: parsed.chainId };
+}
+
+/** Stores a session for `address` and sets its cookie on `res`. */
+export async function createSession(res: NextResponse, address: string, chainId: number) {
+  const token = randomBytes(32).toString("hex");
+  await AuthSession.create({
+    tokenHash: sha256(token),
+    address: address.toLowerCase(),
+    chainId,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+/** The caller's session, or null when the cookie is missing, unknown or expired. */
+export async function getSession(req: NextRequest): Promise<AuthSessionInfo | null> {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  await connectMongo();
+  const session = await AuthSession.findOne({
+    tokenHash: sha256(token),
+    expiresAt: { $gt: new Date() },
+  }).lean<{ address: string; chainId?: number; expiresAt: Date }>();
+  if (!session) return null;
+  return {
+    address: session.address,
+    chainId: session.chainId ?? null,
+    expiresAt: session.expiresAt.getTime(),
+  };
+}
+
+/** Deletes the caller's session and clears its cookie on `res`. */
+export async function destroySession(req: NextRequest, res: NextResponse) {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await connectMongo();
+    await AuthSession.deleteOne({ tokenHash: sha256(token) });
+  }
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
+
+/** Whether `address` is listed in ADMIN_ADDRESSES (comma-separated). */
+export const isAdmin = (address: string) =>
+  (process.env.ADMIN_ADDRESSES ?? "")
+    .split(",")
+    .map(a => a.trim().toLowerCase())
+    .includes(address.toLowerCase());
+
+/**
+ * For API routes that need a signed-in wallet:
+ *
+ *   const { address, error } = await requireAuth(req);
+ *   if (error) return error;
+ *
+ * `error` is a 401 response when there is no valid session.
+ */
+export async function requireAuth(
+  req: NextRequest
+): Promise<{ address: string; error?: undefined } | { address?: undefined; error: NextResponse }> {
+  const session = await getSession(req);
+  if (!session) {
+    return { error: NextResponse.json({ error: "Sign in required" }, { status: 401 }) };
+  }
+  return { address: session.address };
+}
+
+/** Like `requireAuth`, with a 403 response for wallets not in ADMIN_ADDRESSES. */
+export async function requireAdmin(
+  req: NextRequest
+): Promise<{ address: string; error?: undefined } | { address?: undefined; error: NextResponse }> {
+  const auth = await requireAuth(req);
+  if (auth.error) return auth;
+  if (!isAdmin(auth.address)) {
+    return { error: NextResponse.json({ error: "Admin access required" }, { status: 403 }) };
+  }
+  return auth;
+}
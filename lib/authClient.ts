@@ -0,0 +1,74 @@
+// lib/authClient.ts
+// Browser side of Sign-In with Ethereum: builds the EIP-4361 message, has the
+// wallet sign it and exchanges it for a session cookie.
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { ethers } from "ethers";
+import { getBrowserProvider } from "@/lib/ethersClient";
+import { formatSiweMessage } from "@/lib/siwe";
+
+const SIGN_IN_STATEMENT = "Sign in to Sei.Fun to comment, edit your profile and manage your tokens.";
+
+// Fired on window whenever this tab signs in or out, so every useAuthSession updates.
+const SESSION_EVENT = "seifun:session";
+
+/** Signs in the wallet's current account; resolves to its lowercase address. */
+export async function signInWithEthereum(): Promise<string> {
+  const provider = getBrowserProvider();
+  const signer = await provider.getSigner();
+  const [{ data }, network] = await Promise.all([
+    axios.get("/api/auth/nonce"),
+    provider.getNetwork(),
+  ]);
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address: ethers.getAddress(await signer.getAddress()),
+    statement: SIGN_IN_STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId: Number(network.chainId),
+    nonce: data.nonce,
+    issuedAt: new Date().toISOString(),
+    expirationTime: new Date(data.expiresAt).toISOString(),
+  });
+  const signature = await signer.signMessage(message);
+  const res = await axios.post("/api/auth/verify", { message, signature });
+  window.dispatchEvent(new Event(SESSION_EVENT));
+  return res.data.address;
+}
+
+export async function signOut() {
+  await axios.post("/api/auth/logout");
+  window.dispatchEvent(new Event(SESSION_EVENT));
+}
+
+/** The signed-in wallet (lowercase) or null. */
+export async function fetchSession(): Promise<string | null> {
+  const res = await axios.get("/api/auth/session");
+  return res.data.address ?? null;
+}
+
+/** Session state shared by every component that uses it. */
+export function useAuthSession() {
+  const [address, setAddress] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAddress(await fetchSession());
+    } catch (e) {
+      console.error("Failed to load session", e);
+      setAddress(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(SESSION_EVENT, refresh);
+    return () => window.removeEventListener(SESSION_EVENT, refresh);
+  }, [refresh]);
+
+  return { address, loading, signIn: signInWithEthereum, signOut, refresh };
+}
@@ -0,0 +1,159 @@
+// lib/candles.ts
+// Incremental OHLCV rollups. 1m buckets are recomputed from Trade, larger
+// intervals from the 1m candles they contain, so refreshing a bucket is
+// idempotent and also covers trades removed by a reorg or promoted to final.
+import { ethers } from "ethers";
+import { tradePriceEth } from "@/lib/amounts";
+import { Candle } from "@/models/Candle";
+import { Trade } from "@/models/Trade";
+
+export const CANDLE_INTERVALS = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+export const isCandleInterval = (value: unknown): value is CandleInterval =>
+  typeof value === "string" && Object.hasOwn(CANDLE_INTERVALS, value);
+
+const BASE_MS = CANDLE_INTERVALS["1m"];
+const ROLLUP_INTERVALS = (Object.keys(CANDLE_INTERVALS) as CandleInterval[]).filter(
+  i => i !== "1m"
+);
+
+export type CandlePoint = { token: string; timestamp: number };
+
+type TradeRow = {
+  tokens?: number;
+  eth?: number;
+  ethWei?: string;
+  priceWei?: string;
+};
+
+type Ohlcv = {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  volumeEth: number;
+  volumeWei: string;
+  trades: number;
+};
+
+const align = (timestamp: number, ms: number) => Math.floor(timestamp / ms) * ms;
+
+const tradeWei = (t: TradeRow) =>
+  t.ethWei ? BigInt(t.ethWei) : ethers.parseEther((t.eth ?? 0).toFixed(18));
+
+/** Folds trades (oldest first) into one candle; null when none have a usable price. */
+function ohlcvFromTrades(trades: TradeRow[]): Ohlcv | null {
+  const priced = trades.filter(t => {
+    const price = tradePriceEth(t);
+    return Number.isFinite(price) && price > 0;
+  });
+  if (priced.length === 0) return null;
+
+  const prices = priced.map(tradePriceEth);
+  const volumeWei = priced.reduce((acc, t) => acc + tradeWei(t), 0n);
+  return {
+    open: prices[0],
+    high: Math.max(...prices),
+    low: Math.min(...prices),
+    close: prices[prices.length - 1],
+    volume: priced.reduce((acc, t) => acc + (t.tokens ?? 0), 0),
+    volumeEth: Number(ethers.formatEther(volumeWei)),
+    volumeWei: volumeWei.toString(),
+    trades: priced.length,
+  };
+}
+
+/** Merges consecutive candles (oldest first) into one. */
+function ohlcvFromCandles(candles: Ohlcv[]): Ohlcv | null {
+  if (candles.length === 0) return null;
+  const volumeWei = candles.reduce((acc, c) => acc + BigInt(c.volumeWei), 0n);
+  return {
+    open: candles[0].open,
+    high: Math.max(...candles.map(c => c.high)),
+    low: Math.min(...candles.map(c => c.low)),
+    close: candles[candles.length - 1].close,
+    volume: candles.reduce((acc, c) => acc + c.volume, 0),
+    volumeEth: Number(ethers.formatEther(volumeWei)),
+    volumeWei: volumeWei.toString(),
+    trades: candles.reduce((acc, c) => acc + c.trades, 0),
+  };
+}
+
+async function saveCandle(
+  key: { token: string; interval: CandleInterval; final: boolean; bucketStart: number },
+  ohlcv: Ohlcv | null,
+) {
+  if (ohlcv) {
+    await Candle.updateOne(key, { $set: ohlcv }, { upsert: true });
+  } else {
+    await Candle.deleteOne(key);
+  }
+}
+
+async function refreshSeries(token: string, minutes: number[], final: boolean) {
+  for (const bucketStart of minutes) {
+    const trades = await Trade.find({
+      token,
+      timestamp: { $gte: bucketStart, $lt: bucketStart + BASE_MS },
+      ...(final ? { status: "final" } : {}),
+    })
+      .sort({ timestamp: 1, blockNumber: 1, logIndex: 1 })
+      .lean<TradeRow[]>();
+    await saveCandle({ token, interval: "1m", final, bucketStart }, ohlcvFromTrades(trades));
+  }
+
+  for (const interval of ROLLUP_INTERVALS) {
+    const ms = CANDLE_INTERVALS[interval];
+    const buckets = [...new Set(minutes.map(m => align(m, ms)))];
+    for (const bucketStart of buckets) {
+      const base = await Candle.find({
+        token,
+        interval: "1m",
+        final,
+        bucketStart: { $gte: bucketStart, $lt: bucketStart + ms },
+      })
+        .sort({ bucketStart: 1 })
+        .lean<Ohlcv[]>();
+      await saveCandle({ token, interval, final, bucketStart }, ohlcvFromCandles(base));
+    }
+  }
+}
+
+/**
+ * Recomputes every candle containing one of `points`, for both the all-trades
+ * and the final-only series. Call after trades are stored, finalized or deleted.
+ */
+export async function refreshCandles(points: CandlePoint[]) {
+  const minutesByToken = new Map<string, Set<number>>();
+  for (const { token, timestamp } of points) {
+    if (!Number.isFinite(timestamp)) continue;
+    const key = token.toLowerCase();
+    if (!minutesByToken.has(key)) minutesByToken.set(key, new Set());
+    minutesByToken.get(key)!.add(align(timestamp, BASE_MS));
+  }
+
+  for (const [token, minutes] of minutesByToken) {
+    const sorted = [...minutes].sort((a, b) => a - b);
+    await refreshSeries(token, sorted, false);
+    await refreshSeries(token, sorted, true);
+  }
+}
+
+/** Refreshes the candles of every trade indexed in [fromBlock, toBlock]. */
+export async function refreshCandlesForBlocks(fromBlock: number, toBlock: number) {
+  const points = await Trade.find(
+    { blockNumber: { $gte: fromBlock, $lte: toBlock } },
+    { token: 1, timestamp: 1 }
+  ).lean<CandlePoint[]>();
+  await refreshCandles(points);
+}
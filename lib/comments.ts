@@ -0,0 +1,63 @@
+// lib/comments.ts
+// Token comment threads: input checks, the per-wallet rate limit, holder badges
+// and who may delete a comment.
+import { Types } from "mongoose";
+import { toDecimal128 } from "@/lib/amounts";
+import { isAdmin } from "@/lib/auth";
+import { checkHttpsUrl } from "@/lib/links";
+import { takeRateLimit } from "@/lib/rateLimit";
+import { HolderBalance } from "@/models/HolderBalance";
+
+export const COMMENT_MAX_LENGTH = 1000;
+export const COMMENT_IMAGE_URL_MAX_LENGTH = 500;
+
+// Read at call time, like the indexer config, so scripts can load .env first.
+export const getCommentsPerMinute = () => {
+  const raw = process.env.COMMENTS_PER_MINUTE;
+  if (raw === undefined || raw === "") return 3;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error("COMMENTS_PER_MINUTE must be a positive integer");
+  }
+  return value;
+};
+
+export type CommentDoc = {
+  _id: Types.ObjectId;
+  token: string;
+  author: string;
+  body: string;
+  imageUrl?: string;
+  parentId: Types.ObjectId | null;
+  replyCount: number;
+  deletedAt?: Date;
+  createdAt: Date;
+};
+
+/** Checks an image link: https only, bounded length. Returns an error message or null. */
+export const checkImageUrl = (value: string) =>
+  checkHttpsUrl(value, "Image link", COMMENT_IMAGE_URL_MAX_LENGTH);
+
+/**
+ * Takes one of `author`'s COMMENTS_PER_MINUTE slots.
+ * @returns 0 when the comment may be posted, else milliseconds until the next slot frees up
+ */
+export const takeCommentSlot = (author: string, now = Date.now()) =>
+  takeRateLimit(`comments:${author}`, getCommentsPerMinute(), 60_000, now);
+
+/** Which of `authors` currently hold a non-zero balance of `token`. */
+export async function holdersAmong(token: string, authors: string[]) {
+  if (authors.length === 0) return new Set<string>();
+  const rows = await HolderBalance.find(
+    { token, address: { $in: authors }, balance: { $gt: toDecimal128(0n) } },
+    { address: 1 }
+  ).lean<{ address: string }[]>();
+  return new Set(rows.map(r => r.address));
+}
+
+/** The author, the token's creator and admins may delete a comment. */
+export const canDeleteComment = (
+  viewer: string,
+  comment: Pick<CommentDoc, "author">,
+  creator: string | null
+) => viewer === comment.author || viewer === creator || isAdmin(viewer);
@@ -0,0 +1,283 @@
+// lib/competition.ts
+// Trading competition seasons: signed registration, scoring of registered wallets
+// from their trades inside the season window, periodic standings snapshots and
+// the final frozen result.
+import { ethers } from "ethers";
+import { floatToRaw } from "@/lib/amounts";
+import { applyPnlEvent, emptyPnlPosition, type PnlPosition } from "@/lib/pnl";
+import { CompetitionRegistration } from "@/models/CompetitionRegistration";
+import { CompetitionSeason } from "@/models/CompetitionSeason";
+import { CompetitionSnapshot } from "@/models/CompetitionSnapshot";
+import { Trade } from "@/models/Trade";
+
+// A signed registration message is accepted for this long after its issue time.
+export const REGISTRATION_MAX_AGE_MS = 10 * 60 * 1000;
+
+export type CompetitionSeasonDoc = {
+  slug: string;
+  name: string;
+  description?: string;
+  startAt: number;
+  endAt: number;
+  eligibleTokens: string[];
+  scoring: { volume: number; realizedPnl: number; trades: number };
+  minVolumeEth: number;
+  prizeTiers: { fromRank: number; toRank: number; prize: string }[];
+  lastSnapshotAt?: number;
+  finalizedAt?: number;
+};
+
+export type CompetitionStanding = {
+  rank: number | null;
+  wallet: string;
+  score: number;
+  volumeEth: number;
+  trades: number;
+  realizedPnlEth: number;
+  lastTradeAt: number | null;
+  prize: string | null;
+};
+
+export type CompetitionSnapshotDoc = {
+  season: string;
+  computedAt: number;
+  cutoff: number;
+  final: boolean;
+  participants: number;
+  entries: CompetitionStanding[];
+};
+
+export type SeasonStatus = "upcoming" | "active" | "ended" | "final";
+
+export const seasonStatus = (season: CompetitionSeasonDoc, now = Date.now()): SeasonStatus =>
+  season.finalizedAt
+    ? "final"
+    : now < season.startAt
+      ? "upcoming"
+      : now < season.endAt
+        ? "active"
+        : "ended";
+
+// Read at call time, like the indexer config, so scripts can load .env first.
+export const getCompetitionSnapshotMs = () => {
+  const raw = process.env.COMPETITION_SNAPSHOT_MS;
+  if (raw === undefined || raw === "") return 15 * 60_000;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error("COMPETITION_SNAPSHOT_MS must be a non-negative number");
+  }
+  return value;
+};
+
+/** The text a wallet signs (EIP-191 personal_sign) to enter `season`. */
+export const registrationMessage = (
+  season: Pick<CompetitionSeasonDoc, "slug" | "name">,
+  wallet: string,
+  issuedAt: number
+) =>
+  [
+    "Sei.Fun trading competition registration",
+    "",
+    `Season: ${season.name} (${season.slug})`,
+    `Wallet: ${ethers.getAddress(wallet)}`,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join("\n");
+
+/**
+ * Checks a registration signature. Returns an error message, or null when
+ * `signature` is `wallet` signing the registration message issued at `issuedAt`.
+ */
+export function verifyRegistration(
+  season: CompetitionSeasonDoc,
+  wallet: string,
+  issuedAt: number,
+  signature: string,
+  now = Date.now()
+): string | null {
+  if (!Number.isFinite(issuedAt) || issuedAt > now + 60_000) return "Invalid issuedAt";
+  if (now - issuedAt > REGISTRATION_MAX_AGE_MS) return "Registration message expired";
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(registrationMessage(season, wallet, issuedAt), signature);
+  } catch {
+    return "Invalid signature";
+  }
+  return signer.toLowerCase() === wallet.toLowerCase() ? null : "Signature does not match wallet";
+}
+
+type TradeRow = {
+  user: string;
+  token: string;
+  side: "buy" | "sell";
+  tokens?: number;
+  eth?: number;
+  tokensRaw?: string;
+  ethWei?: string;
+  timestamp: number;
+};
+
+const eth = (wei: bigint) => Number(ethers.formatEther(wei));
+
+const prizeFor = (season: CompetitionSeasonDoc, rank: number | null) =>
+  rank === null
+    ? null
+    : season.prizeTiers.find(t => rank >= t.fromRank && rank <= t.toRank)?.prize ?? null;
+
+/**
+ * Standings of every registered wallet from its trades of eligible tokens in
+ * [startAt, cutoff). Trades before the start only feed the average cost basis,
+ * so tokens bought before the season do not count as free profit when sold.
+ * With `finalOnly`, trades a reorg could still roll back are left out.
+ */
+export async function computeStandings(
+  season: CompetitionSeasonDoc,
+  cutoff: number,
+  finalOnly = false
+): Promise<CompetitionStanding[]> {
+  const wallets: string[] = await CompetitionRegistration.distinct("wallet", {
+    season: season.slug,
+  });
+  if (wallets.length === 0) return [];
+
+  type Stats = { volumeWei: bigint; trades: number; realizedWei: bigint; lastTradeAt: number | null };
+  const stats = new Map<string, Stats>(
+    wallets.map(w => [w, { volumeWei: 0n, trades: 0, realizedWei: 0n, lastTradeAt: null }])
+  );
+  const positions = new Map<string, PnlPosition>(); // `${wallet}:${token}`
+
+  const filter: Record<string, unknown> = {
+    user: { $in: wallets },
+    timestamp: { $lt: cutoff },
+  };
+  if (finalOnly) filter.status = "final";
+  if (season.eligibleTokens.length > 0) filter.token = { $in: season.eligibleTokens };
+
+  const cursor = Trade.find(filter, {
+    user: 1, token: 1, side: 1, tokens: 1, eth: 1, tokensRaw: 1, ethWei: 1, timestamp: 1,
+  })
+    .sort({ user: -1, timestamp: 1, _id: 1 })
+    .lean<TradeRow[]>()
+    .cursor();
+
+  for await (const row of cursor as AsyncIterable<TradeRow>) {
+    const key = `${row.user}:${row.token}`;
+    let position = positions.get(key);
+    if (!position) {
+      position = emptyPnlPosition("average");
+      positions.set(key, position);
+    }
+    const ethWei = row.ethWei ? BigInt(row.ethWei) : floatToRaw(row.eth ?? 0);
+    const realizedBefore = position.realizedWei;
+    applyPnlEvent(position, {
+      side: row.side,
+      tokensRaw: row.tokensRaw ? BigInt(row.tokensRaw) : floatToRaw(row.tokens ?? 0),
+      ethWei,
+      timestamp: row.timestamp,
+    });
+    if (row.timestamp < season.startAt) continue;
+
+    const s = stats.get(row.user)!;
+    s.volumeWei += ethWei;
+    s.trades++;
+    s.realizedWei += position.realizedWei - realizedBefore;
+    s.lastTradeAt = row.timestamp;
+  }
+
+  const { volume, realizedPnl, trades } = season.scoring;
+  const standings = [...stats].map(([wallet, s]) => {
+    const volumeEth = eth(s.volumeWei);
+    const realizedPnlEth = eth(s.realizedWei);
+    return {
+      rank: null as number | null,
+      wallet,
+      score: volume * volumeEth + realizedPnl * realizedPnlEth + trades * s.trades,
+      volumeEth,
+      trades: s.trades,
+      realizedPnlEth,
+      lastTradeAt: s.lastTradeAt,
+      prize: null as string | null,
+    };
+  });
+
+  const ranked = standings.filter(s => s.trades > 0 && s.volumeEth >= season.minVolumeEth);
+  const unranked = standings.filter(s => !ranked.includes(s));
+  ranked.sort(
+    (a, b) =>
+      b.score - a.score || b.volumeEth - a.volumeEth || a.wallet.localeCompare(b.wallet)
+  );
+  unranked.sort((a, b) => b.volumeEth - a.volumeEth || a.wallet.localeCompare(b.wallet));
+  ranked.forEach((s, i) => {
+    s.rank = i + 1;
+    s.prize = prizeFor(season, s.rank);
+  });
+  return [...ranked, ...unranked];
+}
+
+/**
+ * Stores the season's current standings. Once every block up to `endAt` is
+ * indexed and final (`settledAt`, the timestamp of the newest final indexed
+ * block, has reached it), the snapshot is final, counts final trades only and
+ * freezes the season; later calls return the final snapshot.
+ */
+export async function snapshotSeason(
+  season: CompetitionSeasonDoc,
+  settledAt: number,
+  now = Date.now()
+): Promise<CompetitionSnapshotDoc> {
+  if (season.finalizedAt) {
+    const frozen = await CompetitionSnapshot.findOne({ season: season.slug, final: true })
+      .lean<CompetitionSnapshotDoc>();
+    if (frozen) return frozen;
+  }
+
+  const cutoff = Math.min(now, season.endAt);
+  const final = now >= season.endAt && settledAt >= season.endAt;
+  const entries = await computeStandings(season, cutoff, final);
+  const snapshot: CompetitionSnapshotDoc = {
+    season: season.slug,
+    computedAt: now,
+    cutoff,
+    final,
+    participants: entries.length,
+    entries,
+  };
+
+  if (final) {
+    // The partial unique index keeps one final snapshot even if two runs race.
+    try {
+      await CompetitionSnapshot.create(snapshot);
+    } catch (e) {
+      if ((e as { code?: number }).code !== 11000) throw e;
+      return (await CompetitionSnapshot.findOne({ season: season.slug, final: true })
+        .lean<CompetitionSnapshotDoc>())!;
+    }
+    await CompetitionSeason.updateOne(
+      { slug: season.slug },
+      { $set: { finalizedAt: now, lastSnapshotAt: now } }
+    );
+  } else {
+    await CompetitionSnapshot.create(snapshot);
+    await CompetitionSeason.updateOne({ slug: season.slug }, { $set: { lastSnapshotAt: now } });
+  }
+  return snapshot;
+}
+
+/**
+ * Snapshots every started, unfinalized season whose last snapshot is older than
+ * COMPETITION_SNAPSHOT_MS, and finalizes the ended ones once `settledAt` (ms,
+ * timestamp of the factory checkpoint minus INDEXER_CONFIRMATIONS blocks) has
+ * passed their end. Called from the indexer loop only.
+ */
+export async function snapshotCompetitions(settledAt: number, now = Date.now()) {
+  const seasons = await CompetitionSeason.find({
+    startAt: { $lte: now },
+    finalizedAt: null,
+  }).lean<CompetitionSeasonDoc[]>();
+  const interval = getCompetitionSnapshotMs();
+
+  for (const season of seasons) {
+    const due = !season.lastSnapshotAt || now - season.lastSnapshotAt >= interval;
+    const settled = now >= season.endAt && settledAt >= season.endAt;
+    if (due || settled) await snapshotSeason(season, settledAt, now);
+  }
+}
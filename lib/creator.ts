@@ -0,0 +1,135 @@
+// lib/creator.ts
+// Creator dashboard: every token a wallet launched, with progress, volume,
+// holder count, unique buyers over time and the creator's own position.
+import { ethers } from "ethers";
+import { decimalToBigInt, floatToRaw, toDecimal128 } from "@/lib/amounts";
+import { getFactoryAddress } from "@/lib/indexer/config";
+import { computePnl, costOf, type PnlTrade } from "@/lib/pnl";
+import { toTokenResponse, type IndexedToken } from "@/lib/tokenIndex";
+import { HolderBalance } from "@/models/HolderBalance";
+import { MemeToken } from "@/models/MemeToken";
+import { Trade } from "@/models/Trade";
+import type { Types } from "mongoose";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** One day of a token's buyer growth: wallets whose first buy fell on that day. */
+export type BuyerPoint = {
+  time: number; // day start, ms
+  newBuyers: number;
+  totalBuyers: number;
+};
+
+type CreatorTrade = {
+  token: string;
+  side: "buy" | "sell";
+  tokens?: number;
+  eth?: number;
+  tokensRaw?: string;
+  ethWei?: string;
+  feeWei?: string;
+  timestamp: number;
+};
+
+const eth = (wei: bigint) => Number(ethers.formatEther(wei));
+
+export async function getCreatorDashboard(creator: string) {
+  const wallet = creator.toLowerCase();
+  const tokens = await MemeToken.find({ creator: wallet })
+    .sort({ createdAt: -1 })
+    .lean<IndexedToken[]>();
+  if (tokens.length === 0) return { creator: wallet, tokens: [] };
+  const addresses = tokens.map(t => t.address);
+
+  // Factory, pair and zero-address balances are not holders.
+  const excluded = [
+    getFactoryAddress(),
+    ethers.ZeroAddress,
+    ...tokens.map(t => t.pairAddress).filter((p): p is string => Boolean(p)),
+  ];
+
+  const [volumes, holderCounts, firstBuys, creatorBalances, creatorTrades] = await Promise.all([
+    Trade.aggregate<{ _id: string; volumeEth: number; trades: number }>([
+      { $match: { token: { $in: addresses } } },
+      { $group: { _id: "$token", volumeEth: { $sum: "$eth" }, trades: { $sum: 1 } } },
+    ]),
+    HolderBalance.aggregate<{ _id: string; holders: number }>([
+      {
+        $match: {
+          token: { $in: addresses },
+          address: { $nin: excluded },
+          balance: { $gt: toDecimal128(0n) },
+        },
+      },
+      { $group: { _id: "$token", holders: { $sum: 1 } } },
+    ]),
+    // Day of each wallet's first buy, counted per token and day.
+    Trade.aggregate<{ _id: { token: string; day: number }; newBuyers: number }>([
+      { $match: { token: { $in: addresses }, side: "buy" } },
+      { $group: { _id: { token: "$token", user: "$user" }, first: { $min: "$timestamp" } } },
+      {
+        $group: {
+          _id: {
+            token: "$_id.token",
+            day: { $subtract: ["$first", { $mod: ["$first", DAY_MS] }] },
+          },
+          newBuyers: { $sum: 1 },
+        },
+      },
+      { $sort: { "_id.day": 1 } },
+    ]),
+    HolderBalance.find({ token: { $in: addresses }, address: wallet }, { token: 1, balance: 1 })
+      .lean<{ token: string; balance: Types.Decimal128 }[]>(),
+    Trade.find({ token: { $in: addresses }, user: wallet })
+      .sort({ timestamp: 1, _id: 1 })
+      .lean<CreatorTrade[]>(),
+  ]);
+
+  const volumeBy = new Map(volumes.map(v => [v._id, v]));
+  const holdersBy = new Map(holderCounts.map(h => [h._id, h.holders]));
+  const balanceBy = new Map(creatorBalances.map(b => [b.token, decimalToBigInt(b.balance)]));
+
+  const buyersBy = new Map<string, BuyerPoint[]>();
+  for (const row of firstBuys) {
+    const series = buyersBy.get(row._id.token) ?? [];
+    const total = (series.at(-1)?.totalBuyers ?? 0) + row.newBuyers;
+    series.push({ time: row._id.day, newBuyers: row.newBuyers, totalBuyers: total });
+    buyersBy.set(row._id.token, series);
+  }
+
+  return {
+    creator: wallet,
+    tokens: tokens.map(t => {
+      const pnl = computePnl(
+        creatorTrades
+          .filter(tr => tr.token === t.address)
+          .map<PnlTrade>(tr => ({
+            side: tr.side,
+            tokensRaw: tr.tokensRaw ? BigInt(tr.tokensRaw) : floatToRaw(tr.tokens ?? 0),
+            ethWei: tr.ethWei ? BigInt(tr.ethWei) : floatToRaw(tr.eth ?? 0),
+            feeWei: tr.feeWei ? BigInt(tr.feeWei) : 0n,
+            timestamp: tr.timestamp,
+          }))
+      );
+      const balance = balanceBy.get(t.address) ?? 0n;
+      const supply = BigInt(t.totalSupply ?? "0");
+      const buyers = buyersBy.get(t.address) ?? [];
+      return {
+        ...toTokenResponse(t),
+        volumeEth: volumeBy.get(t.address)?.volumeEth ?? 0,
+        trades: volumeBy.get(t.address)?.trades ?? 0,
+        holders: holdersBy.get(t.address) ?? 0,
+        uniqueBuyers: buyers.at(-1)?.totalBuyers ?? 0,
+        buyers,
+        position: {
+          balance: balance.toString(),
+          percentOfSupply: supply > 0n ? Number((balance * 1_000_000n) / supply) / 10_000 : 0,
+          valueEth: (t.priceEth ?? 0) * Number(ethers.formatUnits(balance, 18)),
+          costBasisEth: eth(costOf(pnl, balance)),
+          realizedPnlEth: eth(pnl.realizedWei),
+          trades: pnl.trades,
+        },
+      };
+    }),
+  };
+}
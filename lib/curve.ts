@@ -0,0 +1,22 @@
+// lib/curve.ts
+// Server-side reads of a token's bonding-curve state.
+import { getFactoryServer } from "@/lib/ethersClient";
+
+export type CurveState = {
+  fundingRaised: string; // wei, decimal string
+  curveSupply: string;   // raw 1e18 units, decimal string
+  isLaunched: boolean;
+};
+
+export async function getCurveState(token: string): Promise<CurveState> {
+  const factory = getFactoryServer();
+  const [meme, supply] = await Promise.all([
+    factory.addressToMemeToken(token),
+    factory.curveSupply(token),
+  ]);
+  return {
+    fundingRaised: (meme.fundingRaised as bigint).toString(),
+    curveSupply: (supply as bigint).toString(),
+    isLaunched: meme.isLaunched as boolean,
+  };
+}
@@ -1,15 +1,34 @@
 import { ethers, BrowserProvider, Contract } from "ethers";
+import { tokenFactoryAbi } from "./abi/TokenFactory";
 
 // DragonSwap Router on Sei V2 EVM
-const ROUTER_ADDRESS = "0x527b42CA5e11370259EcaE68561C14dA415477C8";
+export const ROUTER_ADDRESS = "0x527b42CA5e11370259EcaE68561C14dA415477C8";
 // WSEI on Sei V2 EVM
-const WSEI_ADDRESS = "0xF8EB55EC97B59d91fe9E91A1d61147e0d2A7b6F7";
+export const WSEI_ADDRESS = "0xF8EB55EC97B59d91fe9E91A1d61147e0d2A7b6F7";
 
 const ROUTER_ABI = [
     "function swapExactSEIForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) external payable returns (uint[] memory amounts)",
     "function swapExactTokensForSEI(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)",
     "function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)",
     "function getAmountsIn(uint amountOut, address[] calldata path) external view returns (uint[] memory amounts)",
+    "function factory() external view returns (address)",
+    "function WETH() external pure returns (address)",
+];
+
+const PAIR_FACTORY_ABI = [
+    "function getPair(address tokenA, address tokenB) external view returns (address pair)",
+];
+
+// Uniswap V2 pair events and views. Sync (new reserves) is emitted right before
+// Swap; Transfer moves LP tokens.
+export const PAIR_ABI = [
+    "event Swap(address indexed sender, uint amount0In, uint amount1In, uint amount0Out, uint amount1Out, address indexed to)",
+    "event Sync(uint112 reserve0, uint112 reserve1)",
+    "event Transfer(address indexed from, address indexed to, uint value)",
+    "function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+    "function token0() external view returns (address)",
+    "function totalSupply() external view returns (uint)",
+    "function balanceOf(address owner) external view returns (uint)",
 ];
 
 const ERC20_ABI = [
@@ -28,6 +47,56 @@ export const getErc20Contract = (address: string, provider: BrowserProvider | et
 
 // --- Read Functions ---
 
+export type LaunchPair = {
+    address: string; // lowercase pair address
+    token0: string;  // lowercase token0 of the pair, orders getReserves / Swap amounts
+};
+
+// Uniswap V2 factory and WETH the TokenFactory launches through. Both are
+// immutable, so they are looked up once per process.
+let launchVenue: Promise<{ factory: string; weth: string }> | null = null;
+
+const getLaunchVenue = (provider: BrowserProvider | ethers.JsonRpcProvider) => {
+    if (!launchVenue) {
+        launchVenue = (async () => {
+            const tokenFactory = new Contract(
+                process.env.NEXT_PUBLIC_FACTORY_ADDRESS!,
+                tokenFactoryAbi,
+                provider
+            );
+            const [factory, routerAddress] = await Promise.all([
+                tokenFactory.uniswapFactory() as Promise<string>,
+                tokenFactory.uniswapRouter() as Promise<string>,
+            ]);
+            const router = new Contract(routerAddress, ROUTER_ABI, provider);
+            return { factory, weth: await router.WETH() as string };
+        })();
+        // Let the next call retry after an RPC failure.
+        launchVenue.catch(() => { launchVenue = null; });
+    }
+    return launchVenue;
+};
+
+// Resolves the token/WETH pair created by `_launchOnUniswap` through the
+// factory's own uniswapFactory / uniswapRouter. Returns null when the pair does
+// not exist yet or the lookup fails, so callers can retry later.
+export const getPairAddress = async (
+    provider: BrowserProvider | ethers.JsonRpcProvider,
+    tokenAddress: string
+): Promise<LaunchPair | null> => {
+    try {
+        const { factory, weth } = await getLaunchVenue(provider);
+        const pairFactory = new Contract(factory, PAIR_FACTORY_ABI, provider);
+        const pair: string = await pairFactory.getPair(tokenAddress, weth);
+        if (pair === ethers.ZeroAddress) return null;
+        const token0: string = await new Contract(pair, PAIR_ABI, provider).token0();
+        return { address: pair.toLowerCase(), token0: token0.toLowerCase() };
+    } catch (err) {
+        console.warn(`Pair lookup failed for ${tokenAddress}:`, err);
+        return null;
+    }
+};
+
 export const getDexQuoteBuy = async (
     provider: BrowserProvider | ethers.JsonRpcProvider,
     tokenAddress: string,
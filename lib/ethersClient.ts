@@ -23,3 +23,20 @@ export const getFactoryReadOnly = () => {
   const provider = new ethers.JsonRpcProvider(rpc);
   return new ethers.Contract(factoryAddress, tokenFactoryAbi, provider);
 };
+
+let rpcProvider: ethers.JsonRpcProvider | null = null;
+
+// Server-side provider shared by API routes and the indexer. RPC_URL can point at
+// a local JSON-RPC node (e.g. http://127.0.0.1:8545); defaults to the public RPC.
+export const getRpcProvider = () => {
+  if (!rpcProvider) {
+    const rpc = process.env.RPC_URL || process.env.NEXT_PUBLIC_SEPOLIA_RPC;
+    if (!rpc) throw new Error("RPC_URL not set");
+    rpcProvider = new ethers.JsonRpcProvider(rpc);
+  }
+  return rpcProvider;
+};
+
+// Read-only factory bound to the server-side provider.
+export const getFactoryServer = () =>
+  new ethers.Contract(process.env.NEXT_PUBLIC_FACTORY_ADDRESS!, tokenFactoryAbi, getRpcProvider());
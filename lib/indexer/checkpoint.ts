@@ -0,0 +1,20 @@
+// lib/indexer/checkpoint.ts
+import { IndexerState } from "@/models/IndexerState";
+
+export type Checkpoint = {
+  lastBlock: number;
+  lastBlockHash?: string;
+};
+
+export async function getCheckpoint(key: string): Promise<Checkpoint | null> {
+  const state = await IndexerState.findOne({ key }).lean<Checkpoint>();
+  return state ? { lastBlock: state.lastBlock, lastBlockHash: state.lastBlockHash } : null;
+}
+
+export async function setCheckpoint(key: string, lastBlock: number, lastBlockHash?: string) {
+  await IndexerState.updateOne(
+    { key },
+    { $set: { lastBlock, lastBlockHash } },
+    { upsert: true }
+  );
+}
@@ -0,0 +1,31 @@
+// lib/indexer/config.ts
+// Indexer settings, read from the environment at call time so scripts can load
+// .env files before the first lookup.
+
+const intFromEnv = (name: string, fallback: number) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return value;
+};
+
+export const getFactoryAddress = () => {
+  const address = process.env.NEXT_PUBLIC_FACTORY_ADDRESS;
+  if (!address) throw new Error("NEXT_PUBLIC_FACTORY_ADDRESS not set");
+  return address.toLowerCase();
+};
+
+export const getIndexerConfig = () => ({
+  // First block to scan when no checkpoint exists (the factory deploy block).
+  startBlock: intFromEnv("INDEXER_START_BLOCK", 0),
+  // Max blocks per eth_getLogs call.
+  batchSize: Math.max(1, intFromEnv("INDEXER_BATCH_SIZE", 2000)),
+  // Delay between polls once the indexer has caught up with the chain head.
+  pollMs: intFromEnv("INDEXER_POLL_MS", 4000),
+  // Blocks on top of a trade's block before it is marked final. Reorgs deeper
+  // than this are not handled.
+  confirmations: intFromEnv("INDEXER_CONFIRMATIONS", 12),
+});
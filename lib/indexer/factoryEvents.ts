@@ -0,0 +1,183 @@
+// lib/indexer/factoryEvents.ts
+import { ethers } from "ethers";
+import { tokenFactoryAbi } from "@/lib/abi/TokenFactory";
+import { getPairAddress } from "@/lib/dragonswap";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { priceWeiOf, splitBuyFee, splitSellFee } from "@/lib/amounts";
+import { Trade, TRADE_SCHEMA_VERSION } from "@/models/Trade";
+import { MemeToken } from "@/models/MemeToken";
+
+export const factoryInterface = new ethers.Interface(tokenFactoryAbi);
+
+// ListingFeeUpdated is fetched for webhooks only; applyFactoryLog skips it.
+const INDEXED_EVENTS = [
+  "MemeTokenCreated",
+  "TokenBought",
+  "TokenSold",
+  "TokenLaunched",
+  "ListingFeeUpdated",
+] as const;
+
+// topic0 values passed to eth_getLogs (OR-ed together in the first topic slot).
+export const factoryEventTopics = INDEXED_EVENTS.map(
+  name => factoryInterface.getEvent(name)!.topicHash
+);
+
+export type ChainTrade = {
+  schemaVersion: number;
+  token: string;
+  hash: string;
+  side: "buy" | "sell";
+  user: string;
+  venue: "curve" | "dex";
+  tokens: number;
+  eth: number;
+  tokensRaw: string;
+  ethWei: string;
+  feeWei: string;
+  priceWei: string;
+  timestamp: number;
+  source: "chain";
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+};
+
+export const parseFactoryLog = (log: ethers.Log) => {
+  try {
+    return factoryInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Maps a TokenBought / TokenSold log to a Trade document.
+ * @returns null for any other factory event
+ */
+export function tradeFromLog(
+  log: ethers.Log,
+  parsed: ethers.LogDescription,
+): ChainTrade | null {
+  if (parsed.name !== "TokenBought" && parsed.name !== "TokenSold") return null;
+
+  const isBuy = parsed.name === "TokenBought";
+  const args = parsed.args;
+  // Factory events report whole tokens, not raw 1e18 units.
+  const tokensRaw = (args.tokenQty as bigint) * 10n ** 18n;
+  const ethWei = (isBuy ? args.totalPaid : args.netRefund) as bigint;
+  const { amount, fee } = isBuy ? splitBuyFee(ethWei) : splitSellFee(ethWei);
+  return {
+    schemaVersion: TRADE_SCHEMA_VERSION,
+    token: (args.tokenAddress as string).toLowerCase(),
+    hash: log.transactionHash,
+    side: isBuy ? "buy" : "sell",
+    user: ((isBuy ? args.buyer : args.seller) as string).toLowerCase(),
+    venue: "curve",
+    tokens: Number(args.tokenQty),
+    eth: Number(ethers.formatEther(ethWei)),
+    tokensRaw: tokensRaw.toString(),
+    ethWei: ethWei.toString(),
+    feeWei: fee.toString(),
+    priceWei: priceWeiOf(amount, tokensRaw).toString(),
+    timestamp: Number(args.timestamp) * 1000,
+    source: "chain",
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    logIndex: log.index,
+  };
+}
+
+/**
+ * Extracts the curve trades for `token` from a mined transaction receipt.
+ * Only logs emitted by the factory itself are trusted.
+ */
+export function tradesFromReceipt(
+  receipt: ethers.TransactionReceipt,
+  token: string,
+  factoryAddress: string,
+): ChainTrade[] {
+  const trades: ChainTrade[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== factoryAddress.toLowerCase()) continue;
+    const parsed = parseFactoryLog(log);
+    const trade = parsed && tradeFromLog(log, parsed);
+    if (trade && trade.token === token.toLowerCase()) trades.push(trade);
+  }
+  return trades;
+}
+
+/**
+ * Stores a chain trade exactly once. A row the UI posted for the same tx before
+ * the indexer saw it is claimed and overwritten with the on-chain values.
+ * New rows start as "pending"; finalizeTrades promotes them.
+ */
+export async function upsertChainTrade(trade: ChainTrade) {
+  const claimed = await Trade.updateOne(
+    { hash: trade.hash, side: trade.side, logIndex: { $exists: false } },
+    { $set: { ...trade, status: "pending" } }
+  );
+  if (claimed.matchedCount > 0) return;
+
+  await Trade.updateOne(
+    { hash: trade.hash, logIndex: trade.logIndex },
+    { $set: trade, $setOnInsert: { status: "pending" } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Applies a single factory log to Mongo.
+ * @returns true when the log was one of the indexed events
+ */
+export async function applyFactoryLog(log: ethers.Log): Promise<boolean> {
+  const parsed = parseFactoryLog(log);
+  if (!parsed) return false;
+
+  const trade = tradeFromLog(log, parsed);
+  if (trade) {
+    await upsertChainTrade(trade);
+    return true;
+  }
+
+  const args = parsed.args;
+  if (parsed.name === "MemeTokenCreated") {
+    await MemeToken.updateOne(
+      { address: (args.tokenAddress as string).toLowerCase() },
+      {
+        $set: {
+          creator: (args.creator as string).toLowerCase(),
+          createdAt: Number(args.timestamp) * 1000,
+          createdBlock: log.blockNumber,
+          createdTx: log.transactionHash,
+        },
+      },
+      { upsert: true }
+    );
+    return true;
+  }
+
+  if (parsed.name === "TokenLaunched") {
+    // A failed lookup leaves pairAddress unset; indexPairsRange retries it.
+    const pair = await getPairAddress(getRpcProvider(), args.tokenAddress as string);
+    await MemeToken.updateOne(
+      { address: (args.tokenAddress as string).toLowerCase() },
+      {
+        $set: {
+          isLaunched: true,
+          pairAddress: pair?.address,
+          pairToken0: pair?.token0,
+          launchedAt: Number(args.timestamp) * 1000,
+          launchedBlock: log.blockNumber,
+          launchTx: log.transactionHash,
+          ethForLP: (args.ethForLP as bigint).toString(),
+          listingFeeTaken: (args.listingFeeTaken as bigint).toString(),
+        },
+      },
+      { upsert: true }
+    );
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,237 @@
+// lib/indexer/factoryIndexer.ts
+import { ethers } from "ethers";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { refreshCandlesForBlocks } from "@/lib/candles";
+import { refreshActiveTokens, refreshTokensForBlocks } from "@/lib/tokenIndex";
+import { getTrendingConfig, refreshAllTrending } from "@/lib/trending";
+import { getLeaderboardRefreshMs, refreshLeaderboard } from "@/lib/leaderboard";
+import { snapshotCompetitions } from "@/lib/competition";
+import { evaluateAlerts, getAlertsCheckMs } from "@/lib/alerts";
+import { deliverDueWebhooks, enqueueFactoryWebhooks } from "@/lib/webhooks";
+import { getCheckpoint, setCheckpoint } from "./checkpoint";
+import { getFactoryAddress, getIndexerConfig } from "./config";
+import { applyFactoryLog, factoryEventTopics } from "./factoryEvents";
+import { indexPairsRange } from "./pairEvents";
+import {
+  finalizeTrades,
+  finalizeTransfers,
+  rollbackOrphanedTrades,
+  rollbackOrphanedTransfers,
+} from "./reorg";
+import { scanLogs } from "./scanLogs";
+import { indexTransfersRange } from "./transfers";
+
+export const FACTORY_CHECKPOINT = "factory";
+// Last block whose factory events were queued as webhooks; trails the chain head
+// by INDEXER_CONFIRMATIONS so reorged events are never sent.
+export const WEBHOOKS_CHECKPOINT = "webhooks";
+
+// How often 24h stats of active tokens are recomputed when no new trades arrive.
+const ACTIVE_TOKENS_REFRESH_MS = 5 * 60 * 1000;
+
+// How often competition seasons are checked for a due snapshot or finalization.
+const COMPETITION_CHECK_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export type FactoryRangeOptions = {
+  /** Only events of this token (the indexed first argument of every event). */
+  token?: string;
+  /** Blocks per eth_getLogs call; adapts from here. Defaults to the whole range. */
+  span?: number;
+  maxSpan?: number;
+  onProgress?: (fromBlock: number, toBlock: number, applied: number) => void;
+};
+
+/**
+ * Fetches and applies all indexed factory events in [fromBlock, toBlock].
+ * @returns number of events stored
+ */
+export async function indexFactoryRange(
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number,
+  options: FactoryRangeOptions = {},
+): Promise<number> {
+  const span = options.span ?? toBlock - fromBlock + 1;
+  const tokenTopic = options.token
+    ? ethers.zeroPadValue(options.token.toLowerCase(), 32)
+    : null;
+
+  let applied = 0;
+  await scanLogs(
+    provider,
+    {
+      address: getFactoryAddress(),
+      topics: tokenTopic ? [factoryEventTopics, tokenTopic] : [factoryEventTopics],
+    },
+    fromBlock,
+    toBlock,
+    {
+      initialSpan: span,
+      maxSpan: options.maxSpan ?? span,
+      onChunk: async (logs, chunkFrom, chunkTo) => {
+        let chunkApplied = 0;
+        for (const log of logs) {
+          if (await applyFactoryLog(log)) chunkApplied++;
+        }
+        applied += chunkApplied;
+        options.onProgress?.(chunkFrom, chunkTo, chunkApplied);
+      },
+    }
+  );
+  return applied;
+}
+
+/**
+ * Queues webhooks for the factory events of up to `batchSize` finalized blocks
+ * after the webhooks checkpoint, never past `upTo`. Without a checkpoint it
+ * starts at `upTo`, so enabling webhooks does not replay history.
+ * @returns number of deliveries queued
+ */
+async function enqueueFinalizedWebhooks(
+  provider: ethers.Provider,
+  upTo: number,
+  batchSize: number,
+): Promise<number> {
+  const checkpoint = await getCheckpoint(WEBHOOKS_CHECKPOINT);
+  if (checkpoint === null) {
+    await setCheckpoint(WEBHOOKS_CHECKPOINT, upTo);
+    return 0;
+  }
+  const from = checkpoint.lastBlock + 1;
+  if (from > upTo) return 0;
+
+  const to = Math.min(upTo, from + batchSize - 1);
+  let queued = 0;
+  await scanLogs(
+    provider,
+    { address: getFactoryAddress(), topics: [factoryEventTopics] },
+    from,
+    to,
+    {
+      initialSpan: to - from + 1,
+      onChunk: async logs => {
+        queued += await enqueueFactoryWebhooks(logs);
+      },
+    }
+  );
+  await setCheckpoint(WEBHOOKS_CHECKPOINT, to);
+  return queued;
+}
+
+export type FactoryIndexerOptions = {
+  /** Stop once the chain head is reached instead of polling for new blocks. */
+  once?: boolean;
+  /** Checked between batches; return true to stop the loop. */
+  shouldStop?: () => boolean;
+  log?: (message: string) => void;
+};
+
+const minBlock = (a: number | null, b: number | null) =>
+  a === null ? b : b === null ? a : Math.min(a, b);
+
+/**
+ * Follows the factory from the stored checkpoint (or INDEXER_START_BLOCK) to the
+ * chain head, together with the Transfer logs of every factory token and the
+ * Swap / Sync logs of graduated tokens' pairs, saving the checkpoint after every
+ * batch so restarts resume.
+ * Before each batch it rolls back trades and transfers from orphaned blocks and
+ * rewinds the
+ * checkpoint if the last processed block was replaced, queues webhooks for newly
+ * finalized blocks and sends one batch of due deliveries.
+ */
+export async function runFactoryIndexer(options: FactoryIndexerOptions = {}) {
+  const { once = false, shouldStop = () => false, log = console.log } = options;
+  const { startBlock, batchSize, pollMs, confirmations } = getIndexerConfig();
+  const provider = getRpcProvider();
+
+  const checkpoint = await getCheckpoint(FACTORY_CHECKPOINT);
+  let lastBlock = checkpoint === null ? startBlock - 1 : checkpoint.lastBlock;
+  let lastBlockHash = checkpoint?.lastBlockHash;
+  log(`[indexer] starting at block ${lastBlock + 1}`);
+  let activeRefreshedAt = 0;
+  let trendingRefreshedAt = 0;
+  let leaderboardRefreshedAt = 0;
+  let competitionCheckedAt = 0;
+  let alertsCheckedAt = 0;
+
+  while (!shouldStop()) {
+    const head = await provider.getBlockNumber();
+
+    let resumeFrom = minBlock(
+      await rollbackOrphanedTrades(provider),
+      await rollbackOrphanedTransfers(provider),
+    );
+    if (lastBlockHash) {
+      const block = await provider.getBlock(lastBlock);
+      if (block?.hash !== lastBlockHash) {
+        resumeFrom = minBlock(resumeFrom, Math.max(startBlock, lastBlock - confirmations));
+      }
+    }
+    if (resumeFrom !== null && resumeFrom <= lastBlock) {
+      log(`[indexer] reorg detected, rewinding to block ${resumeFrom}`);
+      lastBlock = resumeFrom - 1;
+      lastBlockHash = undefined;
+      await setCheckpoint(FACTORY_CHECKPOINT, lastBlock);
+    }
+
+    await finalizeTrades(head, confirmations);
+    await finalizeTransfers(head, confirmations);
+
+    if (Date.now() - activeRefreshedAt > ACTIVE_TOKENS_REFRESH_MS) {
+      await refreshActiveTokens();
+      activeRefreshedAt = Date.now();
+    }
+    if (Date.now() - trendingRefreshedAt > getTrendingConfig().refreshMs) {
+      await refreshAllTrending();
+      trendingRefreshedAt = Date.now();
+    }
+    if (Date.now() - leaderboardRefreshedAt > getLeaderboardRefreshMs()) {
+      await refreshLeaderboard();
+      leaderboardRefreshedAt = Date.now();
+    }
+    if (Date.now() - competitionCheckedAt > COMPETITION_CHECK_MS) {
+      // Seasons finalize against the newest block that is both indexed and final.
+      const settled = lastBlock - confirmations;
+      const settledBlock = settled >= 0 ? await provider.getBlock(settled) : null;
+      await snapshotCompetitions((settledBlock?.timestamp ?? 0) * 1000);
+      competitionCheckedAt = Date.now();
+    }
+    if (Date.now() - alertsCheckedAt > getAlertsCheckMs()) {
+      const fired = await evaluateAlerts();
+      if (fired > 0) log(`[indexer] ${fired} alert notification(s)`);
+      alertsCheckedAt = Date.now();
+    }
+    // Only blocks that are both indexed (creators known) and final.
+    await enqueueFinalizedWebhooks(provider, Math.min(lastBlock, head - confirmations), batchSize);
+    const webhooks = await deliverDueWebhooks();
+    if (webhooks.delivered + webhooks.failed > 0) {
+      log(`[indexer] webhooks: ${webhooks.delivered} delivered, ${webhooks.failed} failed`);
+    }
+
+    const next = lastBlock + 1;
+    if (next > head) {
+      if (once) break;
+      await sleep(pollMs);
+      continue;
+    }
+
+    const to = Math.min(head, next + batchSize - 1);
+    const applied =
+      (await indexFactoryRange(provider, next, to)) +
+      (await indexTransfersRange(provider, next, to)) +
+      (await indexPairsRange(provider, next, to));
+    await refreshCandlesForBlocks(next, to);
+    await refreshTokensForBlocks(next, to);
+    const toBlock = await provider.getBlock(to);
+    lastBlock = to;
+    lastBlockHash = toBlock?.hash ?? undefined;
+    await setCheckpoint(FACTORY_CHECKPOINT, lastBlock, lastBlockHash);
+    if (applied > 0) {
+      log(`[indexer] blocks ${next}-${to}: ${applied} events`);
+    }
+  }
+
+  log(`[indexer] stopped at block ${lastBlock}`);
+}
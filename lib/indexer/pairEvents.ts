@@ -0,0 +1,236 @@
+// lib/indexer/pairEvents.ts
+import { ethers } from "ethers";
+import { getPairAddress, PAIR_ABI } from "@/lib/dragonswap";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { priceWeiOf } from "@/lib/amounts";
+import { TRADE_SCHEMA_VERSION } from "@/models/Trade";
+import { MemeToken } from "@/models/MemeToken";
+import { type ChainTrade, upsertChainTrade } from "./factoryEvents";
+import { scanLogs } from "./scanLogs";
+
+export const pairInterface = new ethers.Interface(PAIR_ABI);
+export const swapTopic = pairInterface.getEvent("Swap")!.topicHash;
+export const syncTopic = pairInterface.getEvent("Sync")!.topicHash;
+
+export const parsePairLog = (log: ethers.Log) => {
+  try {
+    return pairInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+};
+
+// eth_getLogs address lists are capped by most providers.
+const ADDRESS_CHUNK = 200;
+
+/** Splits a Swap/Sync argument pair into (token side, WETH side) using the pair's token0. */
+const orient = (token: string, token0: string, amount0: bigint, amount1: bigint) =>
+  token.toLowerCase() === token0.toLowerCase() ? [amount0, amount1] : [amount1, amount0];
+
+/**
+ * Maps a pair Swap log to a DEX trade of `token`.
+ * The log only names the router, so the trader (tx sender) and the block
+ * timestamp (ms) are passed in by the caller, along with the pair's token0.
+ * @returns null for non-Swap logs and swaps that don't move both sides
+ */
+export function tradeFromSwapLog(
+  log: ethers.Log,
+  parsed: ethers.LogDescription,
+  token: string,
+  token0: string,
+  user: string,
+  timestamp: number,
+): ChainTrade | null {
+  if (parsed.name !== "Swap") return null;
+
+  const args = parsed.args;
+  const [tokenIn, seiIn] = orient(token, token0, args.amount0In, args.amount1In);
+  const [tokenOut, seiOut] = orient(token, token0, args.amount0Out, args.amount1Out);
+  const isBuy = tokenOut > tokenIn;
+  const tokensRaw = isBuy ? tokenOut - tokenIn : tokenIn - tokenOut;
+  const ethWei = isBuy ? seiIn - seiOut : seiOut - seiIn;
+  if (tokensRaw <= 0n || ethWei <= 0n) return null;
+
+  return {
+    schemaVersion: TRADE_SCHEMA_VERSION,
+    token: token.toLowerCase(),
+    hash: log.transactionHash,
+    side: isBuy ? "buy" : "sell",
+    user: user.toLowerCase(),
+    venue: "dex",
+    tokens: Number(ethers.formatUnits(tokensRaw, 18)),
+    eth: Number(ethers.formatEther(ethWei)),
+    tokensRaw: tokensRaw.toString(),
+    ethWei: ethWei.toString(),
+    // The LP fee stays in the pool; no protocol fee is charged after graduation.
+    feeWei: "0",
+    priceWei: priceWeiOf(ethWei, tokensRaw).toString(),
+    timestamp,
+    source: "chain",
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    logIndex: log.index,
+  };
+}
+
+/**
+ * Extracts the DEX trades of `token` from a mined receipt. Only Swap logs
+ * emitted by the token's own pair are trusted.
+ */
+export function swapTradesFromReceipt(
+  receipt: ethers.TransactionReceipt,
+  token: string,
+  pair: { address: string; token0: string },
+  timestamp: number,
+): ChainTrade[] {
+  const trades: ChainTrade[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== pair.address.toLowerCase()) continue;
+    const parsed = parsePairLog(log);
+    const trade = parsed && tradeFromSwapLog(log, parsed, token, pair.token0, receipt.from, timestamp);
+    if (trade) trades.push(trade);
+  }
+  return trades;
+}
+
+/**
+ * Stores the pool reserves from a Sync log on the token, ignoring logs older
+ * than the reserves already saved (e.g. during a backfill).
+ */
+export async function applySyncLog(
+  log: ethers.Log,
+  parsed: ethers.LogDescription,
+  token: string,
+  token0: string,
+) {
+  const [reserveToken, reserveSei] = orient(token, token0, parsed.args.reserve0, parsed.args.reserve1);
+  await MemeToken.updateOne(
+    {
+      address: token.toLowerCase(),
+      $or: [
+        { reservesBlock: { $exists: false } },
+        { reservesBlock: { $lte: log.blockNumber } },
+      ],
+    },
+    {
+      $set: {
+        reserveToken: reserveToken.toString(),
+        reserveSei: reserveSei.toString(),
+        liquidityEth: 2 * Number(ethers.formatEther(reserveSei)),
+        reservesBlock: log.blockNumber,
+      },
+    }
+  );
+}
+
+/**
+ * Fills in pairAddress / pairToken0 for launched tokens whose pair lookup failed
+ * at launch time (or that were indexed before pairToken0 was stored).
+ */
+async function resolveMissingPairs() {
+  const missing = await MemeToken.find(
+    { isLaunched: true, $or: [{ pairAddress: null }, { pairToken0: null }] },
+    { address: 1 }
+  ).lean<{ address: string }[]>();
+  for (const { address } of missing) {
+    const pair = await getPairAddress(getRpcProvider(), address);
+    if (pair) {
+      await MemeToken.updateOne(
+        { address },
+        { $set: { pairAddress: pair.address, pairToken0: pair.token0 } }
+      );
+    }
+  }
+}
+
+export type PairRangeOptions = {
+  /** Only the pair of this token. */
+  token?: string;
+  /** Blocks per eth_getLogs call; adapts from here. Defaults to the whole range. */
+  span?: number;
+  maxSpan?: number;
+};
+
+/**
+ * Fetches Swap / Sync logs of every graduated token's DragonSwap pair in
+ * [fromBlock, toBlock]. Swaps become "dex" trades; Sync updates the reserves.
+ * Run after the factory events of the same range so new launches are included.
+ * @returns number of trades stored
+ */
+export async function indexPairsRange(
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number,
+  options: PairRangeOptions = {},
+): Promise<number> {
+  await resolveMissingPairs();
+  const tokens = await MemeToken.find(
+    {
+      pairAddress: { $ne: null },
+      pairToken0: { $ne: null },
+      launchedBlock: { $lte: toBlock },
+      ...(options.token ? { address: options.token.toLowerCase() } : {}),
+    },
+    { address: 1, pairAddress: 1, pairToken0: 1 }
+  ).lean<{ address: string; pairAddress: string; pairToken0: string }[]>();
+  if (tokens.length === 0) return 0;
+
+  // Swap logs carry neither the trader nor the time; look both up once per tx / block.
+  const senders = new Map<string, string>();
+  const blockTimes = new Map<number, number>();
+  const senderOf = async (hash: string) => {
+    if (!senders.has(hash)) {
+      const tx = await provider.getTransaction(hash);
+      senders.set(hash, tx?.from ?? ethers.ZeroAddress);
+    }
+    return senders.get(hash)!;
+  };
+  const timeOf = async (blockNumber: number) => {
+    if (!blockTimes.has(blockNumber)) {
+      const block = await provider.getBlock(blockNumber);
+      blockTimes.set(blockNumber, (block?.timestamp ?? 0) * 1000);
+    }
+    return blockTimes.get(blockNumber)!;
+  };
+
+  const span = options.span ?? toBlock - fromBlock + 1;
+  let applied = 0;
+  for (let i = 0; i < tokens.length; i += ADDRESS_CHUNK) {
+    const chunk = tokens.slice(i, i + ADDRESS_CHUNK);
+    const tokenOfPair = new Map(chunk.map(t => [t.pairAddress, t]));
+    await scanLogs(
+      provider,
+      { address: chunk.map(t => t.pairAddress), topics: [[swapTopic, syncTopic]] },
+      fromBlock,
+      toBlock,
+      {
+        initialSpan: span,
+        maxSpan: options.maxSpan ?? span,
+        onChunk: async logs => {
+          for (const log of logs) {
+            const token = tokenOfPair.get(log.address.toLowerCase());
+            const parsed = parsePairLog(log);
+            if (!token || !parsed) continue;
+            if (parsed.name === "Sync") {
+              await applySyncLog(log, parsed, token.address, token.pairToken0);
+              continue;
+            }
+            const trade = tradeFromSwapLog(
+              log,
+              parsed,
+              token.address,
+              token.pairToken0,
+              await senderOf(log.transactionHash),
+              await timeOf(log.blockNumber),
+            );
+            if (trade) {
+              await upsertChainTrade(trade);
+              applied++;
+            }
+          }
+        },
+      }
+    );
+  }
+  return applied;
+}
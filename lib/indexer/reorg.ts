@@ -0,0 +1,127 @@
+// lib/indexer/reorg.ts
+import { ethers } from "ethers";
+import type { Model, Types } from "mongoose";
+import { decimalToBigInt } from "@/lib/amounts";
+import { type CandlePoint, refreshCandles } from "@/lib/candles";
+import { Trade } from "@/models/Trade";
+import { TradeRollback } from "@/models/TradeRollback";
+import { TokenTransfer } from "@/models/TokenTransfer";
+import { moveBalance } from "./transfers";
+
+/**
+ * Promotes pending trades that are at least `confirmations` blocks deep and
+ * refreshes the final-only candles they land in.
+ */
+export async function finalizeTrades(head: number, confirmations: number) {
+  const filter = { status: "pending", blockNumber: { $lte: head - confirmations } };
+  const points = await Trade.find(filter, { token: 1, timestamp: 1 }).lean<CandlePoint[]>();
+  if (points.length === 0) return 0;
+
+  const res = await Trade.updateMany(filter, { $set: { status: "final" } });
+  await refreshCandles(points);
+  return res.modifiedCount;
+}
+
+/** Promotes deep-enough transfers and applies them to finalBalance. */
+export async function finalizeTransfers(head: number, confirmations: number) {
+  const ready = await TokenTransfer.find(
+    { status: "pending", blockNumber: { $lte: head - confirmations } },
+    { _id: 1 }
+  ).lean<{ _id: unknown }[]>();
+
+  let finalized = 0;
+  for (const { _id } of ready) {
+    // Flip the status first so a concurrent run cannot apply the same transfer twice.
+    const transfer = await TokenTransfer.findOneAndUpdate(
+      { _id, status: "pending" },
+      { $set: { status: "final" } }
+    ).lean<{ token: string; from: string; to: string; value: Types.Decimal128 }>();
+    if (!transfer) continue;
+    await moveBalance(
+      transfer.token,
+      transfer.from,
+      transfer.to,
+      decimalToBigInt(transfer.value),
+      "finalBalance"
+    );
+    finalized++;
+  }
+  return finalized;
+}
+
+/**
+ * Finds pending blocks of `model` whose stored hash is no longer canonical.
+ * @returns map of orphaned block number -> canonical hash (null if the block is gone)
+ */
+async function findOrphanedBlocks(
+  provider: ethers.Provider,
+  model: Model<unknown>,
+): Promise<Map<number, string | null>> {
+  const pendingBlocks: { _id: number; hashes: string[] }[] = await model.aggregate([
+    { $match: { status: "pending", blockNumber: { $exists: true } } },
+    { $group: { _id: "$blockNumber", hashes: { $addToSet: "$blockHash" } } },
+    { $sort: { _id: 1 } },
+  ]);
+
+  const orphaned = new Map<number, string | null>();
+  for (const { _id: blockNumber, hashes } of pendingBlocks) {
+    const block = await provider.getBlock(blockNumber);
+    const canonical = block?.hash ?? null;
+    if (hashes.some(hash => hash !== canonical)) orphaned.set(blockNumber, canonical);
+  }
+  return orphaned;
+}
+
+/**
+ * Deletes pending trades whose block hash is no longer on the canonical chain
+ * and logs them in TradeRollback for open trade streams.
+ * @returns lowest orphaned block number, or null when nothing was rolled back
+ */
+export async function rollbackOrphanedTrades(
+  provider: ethers.Provider,
+): Promise<number | null> {
+  const orphaned = await findOrphanedBlocks(provider, Trade);
+  for (const [blockNumber, canonical] of orphaned) {
+    const filter = { status: "pending", blockNumber, blockHash: { $ne: canonical } };
+    const rows = await Trade.find(filter, { token: 1, timestamp: 1, hash: 1, logIndex: 1 })
+      .lean<(CandlePoint & { _id: Types.ObjectId; hash: string; logIndex: number })[]>();
+    await Trade.deleteMany(filter);
+    await refreshCandles(rows);
+    // Logged after the candles are rebuilt, so a stream viewer refetching them
+    // on "remove" no longer sees the trade.
+    if (rows.length > 0) {
+      await TradeRollback.insertMany(rows.map(({ _id, token, timestamp, hash, logIndex }) => ({
+        trade: _id,
+        token,
+        hash,
+        logIndex,
+        timestamp,
+      })));
+    }
+  }
+  return orphaned.size > 0 ? Math.min(...orphaned.keys()) : null;
+}
+
+/**
+ * Reverses and deletes pending transfers from orphaned blocks.
+ * @returns lowest orphaned block number, or null when nothing was rolled back
+ */
+export async function rollbackOrphanedTransfers(
+  provider: ethers.Provider,
+): Promise<number | null> {
+  const orphaned = await findOrphanedBlocks(provider, TokenTransfer);
+  for (const [blockNumber, canonical] of orphaned) {
+    const transfers = await TokenTransfer.find({
+      status: "pending",
+      blockNumber,
+      blockHash: { $ne: canonical },
+    }).lean<{ _id: unknown; token: string; from: string; to: string; value: Types.Decimal128 }[]>();
+
+    for (const t of transfers) {
+      const removed = await TokenTransfer.deleteOne({ _id: t._id });
+      if (removed.deletedCount === 0) continue;
+      await moveBalance(t.token, t.from, t.to, -decimalToBigInt(t.value), "balance");
+    }
+  }
+  return orphaned.size > 0 ? Math.min(...orphaned.keys()) : null;
+}
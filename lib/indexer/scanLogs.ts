@@ -0,0 +1,59 @@
+// lib/indexer/scanLogs.ts
+import { ethers } from "ethers";
+
+// Providers reject large eth_getLogs windows in different ways (block range caps,
+// result caps, timeouts), so any failure halves the window and retries.
+const TARGET_LOGS_PER_CALL = 2000;
+
+export type ScanLogsOptions = {
+  /** Blocks per eth_getLogs call to start with. */
+  initialSpan: number;
+  /** Upper bound when growing the window after sparse results. */
+  maxSpan?: number;
+  /** Called with each chunk's logs, in block order. */
+  onChunk: (logs: ethers.Log[], fromBlock: number, toBlock: number) => Promise<void>;
+};
+
+/**
+ * Walks [fromBlock, toBlock] with an adaptive eth_getLogs window: halves it when
+ * a call fails or returns too many logs, doubles it (up to the largest window
+ * that has not failed) when results are sparse.
+ * @returns total number of logs seen
+ */
+export async function scanLogs(
+  provider: ethers.Provider,
+  filter: { address?: string | string[]; topics?: (string | string[] | null)[] },
+  fromBlock: number,
+  toBlock: number,
+  options: ScanLogsOptions,
+): Promise<number> {
+  let maxSpan = Math.max(1, options.maxSpan ?? options.initialSpan);
+  let span = Math.min(Math.max(1, options.initialSpan), maxSpan);
+  let start = fromBlock;
+  let total = 0;
+
+  while (start <= toBlock) {
+    const end = Math.min(toBlock, start + span - 1);
+    let logs: ethers.Log[];
+    try {
+      logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end });
+    } catch (err) {
+      if (span === 1) throw err;
+      span = Math.max(1, Math.floor(span / 2));
+      // Don't grow back into a window the provider already rejected.
+      maxSpan = span;
+      continue;
+    }
+
+    await options.onChunk(logs.filter(log => !log.removed), start, end);
+    total += logs.length;
+    start = end + 1;
+
+    if (logs.length > TARGET_LOGS_PER_CALL) {
+      span = Math.max(1, Math.floor(span / 2));
+    } else if (logs.length < TARGET_LOGS_PER_CALL / 4) {
+      span = Math.min(maxSpan, span * 2);
+    }
+  }
+  return total;
+}
@@ -0,0 +1,129 @@
+// lib/indexer/transfers.ts
+import { ethers } from "ethers";
+import { tokenAbi } from "@/lib/abi/Token";
+import { toDecimal128 } from "@/lib/amounts";
+import { HolderBalance } from "@/models/HolderBalance";
+import { MemeToken } from "@/models/MemeToken";
+import { TokenTransfer } from "@/models/TokenTransfer";
+import { scanLogs } from "./scanLogs";
+
+const tokenInterface = new ethers.Interface(tokenAbi);
+export const transferTopic = tokenInterface.getEvent("Transfer")!.topicHash;
+
+// eth_getLogs address lists are capped by most providers.
+const ADDRESS_CHUNK = 200;
+
+type BalanceField = "balance" | "finalBalance";
+
+/**
+ * Adds `delta` to one or both sides of a transfer. Mints (from the zero address)
+ * only credit the receiver; burns credit the zero address, whose balance is the
+ * total burned.
+ */
+export async function moveBalance(
+  token: string,
+  from: string,
+  to: string,
+  value: bigint,
+  field: BalanceField,
+) {
+  const updates = [];
+  if (from !== ethers.ZeroAddress) {
+    updates.push(HolderBalance.updateOne(
+      { token, address: from },
+      { $inc: { [field]: toDecimal128(-value) } },
+      { upsert: true }
+    ));
+  }
+  updates.push(HolderBalance.updateOne(
+    { token, address: to },
+    { $inc: { [field]: toDecimal128(value) } },
+    { upsert: true }
+  ));
+  await Promise.all(updates);
+}
+
+/**
+ * Stores one Transfer log and applies it to the pending balance ledger.
+ * Replays of the same log (hash + logIndex) are ignored.
+ */
+export async function applyTransferLog(log: ethers.Log) {
+  const parsed = tokenInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return false;
+
+  const token = log.address.toLowerCase();
+  const from = (parsed.args.from as string).toLowerCase();
+  const to = (parsed.args.to as string).toLowerCase();
+  const value = parsed.args.value as bigint;
+
+  const res = await TokenTransfer.updateOne(
+    { hash: log.transactionHash, logIndex: log.index },
+    {
+      $setOnInsert: {
+        token,
+        from,
+        to,
+        value: toDecimal128(value),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        status: "pending",
+      },
+    },
+    { upsert: true }
+  );
+  if (res.upsertedCount === 0) return false;
+
+  await moveBalance(token, from, to, value, "balance");
+  return true;
+}
+
+export type TransferRangeOptions = {
+  /** Only the Transfer logs of this token. */
+  token?: string;
+  /** Blocks per eth_getLogs call; adapts from here. Defaults to the whole range. */
+  span?: number;
+  maxSpan?: number;
+};
+
+/**
+ * Fetches Transfer logs of every factory token known by `toBlock`.
+ * Run after the factory events of the same range so new tokens are included.
+ */
+export async function indexTransfersRange(
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number,
+  options: TransferRangeOptions = {},
+): Promise<number> {
+  const tokens = await MemeToken.find(
+    {
+      createdBlock: { $lte: toBlock },
+      ...(options.token ? { address: options.token.toLowerCase() } : {}),
+    },
+    { address: 1 }
+  ).lean<{ address: string }[]>();
+  const span = options.span ?? toBlock - fromBlock + 1;
+
+  let applied = 0;
+  for (let i = 0; i < tokens.length; i += ADDRESS_CHUNK) {
+    await scanLogs(
+      provider,
+      {
+        address: tokens.slice(i, i + ADDRESS_CHUNK).map(t => t.address),
+        topics: [transferTopic],
+      },
+      fromBlock,
+      toBlock,
+      {
+        initialSpan: span,
+        maxSpan: options.maxSpan ?? span,
+        onChunk: async logs => {
+          for (const log of logs) {
+            if (await applyTransferLog(log)) applied++;
+          }
+        },
+      }
+    );
+  }
+  return applied;
+}
@@ -0,0 +1,202 @@
+// lib/leaderboard.ts
+// Trader leaderboard: one pass over all trades (per wallet, oldest first) builds
+// every window's volume, trade count and realized PnL, stored as LeaderboardEntry
+// rows so GET /api/leaderboard only sorts an indexed collection.
+import { ethers } from "ethers";
+import { floatToRaw } from "@/lib/amounts";
+import { ROUTER_ADDRESS } from "@/lib/dragonswap";
+import { getFactoryAddress } from "@/lib/indexer/config";
+import { applyPnlEvent, emptyPnlPosition, type PnlPosition } from "@/lib/pnl";
+import { LeaderboardEntry } from "@/models/LeaderboardEntry";
+import { MemeToken } from "@/models/MemeToken";
+import { Trade } from "@/models/Trade";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LEADERBOARD_WINDOWS = {
+  "24h": DAY_MS,
+  "7d": 7 * DAY_MS,
+  "30d": 30 * DAY_MS,
+  all: null,
+} as const;
+
+export type LeaderboardWindow = keyof typeof LEADERBOARD_WINDOWS;
+
+export const isLeaderboardWindow = (value: string): value is LeaderboardWindow =>
+  Object.hasOwn(LEADERBOARD_WINDOWS, value);
+
+export const LEADERBOARD_SORTS = {
+  volume: "volumeEth",
+  trades: "trades",
+  realizedPnl: "realizedPnlEth",
+  roi: "roi",
+} as const;
+
+export type LeaderboardSort = keyof typeof LEADERBOARD_SORTS;
+
+export const isLeaderboardSort = (value: string): value is LeaderboardSort =>
+  Object.hasOwn(LEADERBOARD_SORTS, value);
+
+// Wallets need at least this much cost sold (SEI) in a window to get an ROI,
+// so one lucky dust trade does not top the ROI board.
+export const MIN_ROI_COST_ETH = 1;
+
+// Read at call time, like the indexer config, so scripts can load .env first.
+export const getLeaderboardRefreshMs = () => {
+  const raw = process.env.LEADERBOARD_REFRESH_MS;
+  if (raw === undefined || raw === "") return 5 * 60_000;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error("LEADERBOARD_REFRESH_MS must be a non-negative number");
+  }
+  return value;
+};
+
+type TradeRow = {
+  user: string;
+  token: string;
+  side: "buy" | "sell";
+  tokens?: number;
+  eth?: number;
+  tokensRaw?: string;
+  ethWei?: string;
+  timestamp: number;
+};
+
+type WindowStats = {
+  volumeWei: bigint;
+  trades: number;
+  buys: number;
+  sells: number;
+  realizedWei: bigint;
+  costSoldWei: bigint;
+  tokens: Set<string>;
+  lastTradeAt: number;
+};
+
+const emptyStats = (): WindowStats => ({
+  volumeWei: 0n,
+  trades: 0,
+  buys: 0,
+  sells: 0,
+  realizedWei: 0n,
+  costSoldWei: 0n,
+  tokens: new Set(),
+  lastTradeAt: 0,
+});
+
+const eth = (wei: bigint) => Number(ethers.formatEther(wei));
+
+/** Factory, router, DragonSwap pairs and the zero address never rank. */
+export async function excludedAddresses() {
+  const pairs = await MemeToken.distinct("pairAddress", { pairAddress: { $ne: null } });
+  return new Set<string>([
+    getFactoryAddress(),
+    ROUTER_ADDRESS.toLowerCase(),
+    ethers.ZeroAddress,
+    ...pairs,
+  ]);
+}
+
+/** Rebuilds every window's entries from the Trade collection. */
+export async function refreshLeaderboard() {
+  const computedAt = Date.now();
+  const excluded = await excludedAddresses();
+  const windows = Object.entries(LEADERBOARD_WINDOWS).map(([window, ms]) => ({
+    window: window as LeaderboardWindow,
+    since: ms === null ? 0 : computedAt - ms,
+  }));
+
+  const rows: Record<string, unknown>[] = [];
+  let user: string | null = null;
+  let positions = new Map<string, PnlPosition>();
+  let stats = windows.map(emptyStats);
+
+  const flush = () => {
+    if (user === null || excluded.has(user)) return;
+    windows.forEach(({ window }, i) => {
+      const s = stats[i];
+      if (s.trades === 0) return;
+      const costSoldEth = eth(s.costSoldWei);
+      rows.push({
+        window,
+        user,
+        volumeEth: eth(s.volumeWei),
+        trades: s.trades,
+        buys: s.buys,
+        sells: s.sells,
+        realizedPnlEth: eth(s.realizedWei),
+        costSoldEth,
+        roi: costSoldEth >= MIN_ROI_COST_ETH ? eth(s.realizedWei) / costSoldEth : null,
+        tokens: s.tokens.size,
+        lastTradeAt: s.lastTradeAt,
+        computedAt,
+      });
+    });
+  };
+
+  // Matches the { user: 1, timestamp: -1, _id: -1 } index walked backwards.
+  const cursor = Trade.find(
+    {},
+    { user: 1, token: 1, side: 1, tokens: 1, eth: 1, tokensRaw: 1, ethWei: 1, timestamp: 1 }
+  )
+    .sort({ user: -1, timestamp: 1, _id: 1 })
+    .lean<TradeRow[]>()
+    .cursor();
+
+  for await (const row of cursor as AsyncIterable<TradeRow>) {
+    if (row.user !== user) {
+      flush();
+      user = row.user;
+      positions = new Map();
+      stats = windows.map(emptyStats);
+    }
+
+    let position = positions.get(row.token);
+    if (!position) {
+      position = emptyPnlPosition("average");
+      positions.set(row.token, position);
+    }
+    const ethWei = row.ethWei ? BigInt(row.ethWei) : floatToRaw(row.eth ?? 0);
+    const realizedBefore = position.realizedWei;
+    applyPnlEvent(position, {
+      side: row.side,
+      tokensRaw: row.tokensRaw ? BigInt(row.tokensRaw) : floatToRaw(row.tokens ?? 0),
+      ethWei,
+      timestamp: row.timestamp,
+    });
+    const realized = position.realizedWei - realizedBefore;
+
+    windows.forEach(({ since }, i) => {
+      if (row.timestamp < since) return;
+      const s = stats[i];
+      s.volumeWei += ethWei;
+      s.trades++;
+      s.tokens.add(row.token);
+      s.lastTradeAt = Math.max(s.lastTradeAt, row.timestamp);
+      if (row.side === "buy") {
+        s.buys++;
+      } else {
+        s.sells++;
+        s.realizedWei += realized;
+        s.costSoldWei += ethWei - realized;
+      }
+    });
+  }
+  flush();
+
+  for (let i = 0; i < rows.length; i += 500) {
+    await LeaderboardEntry.bulkWrite(
+      rows.slice(i, i + 500).map(row => ({
+        updateOne: {
+          filter: { window: row.window, user: row.user },
+          update: { $set: row },
+          upsert: true,
+        },
+      }))
+    );
+  }
+  // Rows of wallets that left a window; $lt so an overlapping newer run keeps its rows.
+  await LeaderboardEntry.deleteMany({ computedAt: { $lt: computedAt } });
+  return rows.length;
+}
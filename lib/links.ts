@@ -0,0 +1,32 @@
+// lib/links.ts
+// User-supplied links (profiles, token metadata, comment images): https only,
+// bounded length.
+
+export const SOCIAL_LINKS = ["website", "twitter", "telegram"] as const;
+
+export type SocialLinks = Partial<Record<(typeof SOCIAL_LINKS)[number], string>>;
+
+/** Returns an error message naming `label`, or null when `value` is an acceptable https link. */
+export function checkHttpsUrl(value: string, label: string, maxLength = 300): string | null {
+  if (value.length > maxLength) return `${label} is too long`;
+  try {
+    if (new URL(value).protocol !== "https:") return `${label} must use https`;
+  } catch {
+    return `${label} is not a valid link`;
+  }
+  return null;
+}
+
+/** Picks the non-empty social links out of `raw` and checks each one. */
+export function parseSocialLinks(raw: unknown): SocialLinks | { error: string } {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const links: SocialLinks = {};
+  for (const key of SOCIAL_LINKS) {
+    const value = typeof input[key] === "string" ? (input[key] as string).trim() : "";
+    if (!value) continue;
+    const error = checkHttpsUrl(value, `The ${key} link`);
+    if (error) return { error };
+    links[key] = value;
+  }
+  return links;
+}
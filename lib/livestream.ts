@@ -0,0 +1,274 @@
+// lib/livestream.ts
+// The /livestream board: scheduled stream sessions with host-pinned tokens, the
+// platform activity feed (launches, big trades, graduations, trending movers) and
+// the wallet-authenticated chat room. GET /api/stream/activity pushes all of it.
+import { Types } from "mongoose";
+import { latestPrices } from "@/lib/alerts";
+import { isAdmin } from "@/lib/auth";
+import { takeRateLimit } from "@/lib/rateLimit";
+import { toTokenResponse, type IndexedToken } from "@/lib/tokenIndex";
+import { TRENDING_WINDOWS, type TrendingSnapshotDoc } from "@/lib/trending";
+import { ChatMessage } from "@/models/ChatMessage";
+import { MemeToken } from "@/models/MemeToken";
+import { StreamSession } from "@/models/StreamSession";
+import { Trade } from "@/models/Trade";
+import { TrendingSnapshot } from "@/models/TrendingSnapshot";
+
+export const CHAT_MESSAGE_MAX_LENGTH = 280;
+export const CHAT_HISTORY_LIMIT = 50;
+export const FEATURED_MAX_TOKENS = 6;
+export const FEATURED_NOTE_MAX_LENGTH = 140;
+// Items of each kind sent when a viewer connects.
+export const ACTIVITY_BACKLOG = 15;
+export const MOVERS_LIMIT = 5;
+const MOVERS_WINDOW = "1h";
+
+// Read at call time, like the indexer config, so scripts can load .env first.
+const positiveFromEnv = (name: string, fallback: number, integer: boolean) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    throw new Error(`${name} must be a positive ${integer ? "integer" : "number"}`);
+  }
+  return value;
+};
+
+/** Smallest trade, in SEI, shown as a big buy or sell (LIVESTREAM_BIG_TRADE_ETH, default 1). */
+export const getBigTradeEth = () => positiveFromEnv("LIVESTREAM_BIG_TRADE_ETH", 1, false);
+
+/** Chat messages a wallet may post per minute (LIVESTREAM_CHAT_PER_MINUTE, default 10). */
+export const getChatMessagesPerMinute = () =>
+  positiveFromEnv("LIVESTREAM_CHAT_PER_MINUTE", 10, true);
+
+export type FeaturedTokenDoc = {
+  token: string;
+  note: string;
+  pinnedAt: number;
+  pinnedBy?: string;
+};
+
+export type StreamSessionDoc = {
+  _id: Types.ObjectId;
+  slug: string;
+  title: string;
+  description?: string;
+  host: string;
+  startAt: number;
+  endAt: number;
+  featuredTokens: FeaturedTokenDoc[];
+};
+
+export type ChatMessageDoc = {
+  _id: Types.ObjectId;
+  author: string;
+  body: string;
+  session?: string;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type TradeDoc = {
+  _id: Types.ObjectId;
+  token: string;
+  hash?: string;
+  side: "buy" | "sell";
+  user?: string;
+  tokens?: number;
+  eth?: number;
+  timestamp: number;
+  status?: "pending" | "final";
+  createdAt: Date;
+};
+
+export type StreamSessionStatus = "upcoming" | "live" | "ended";
+
+export const sessionStatus = (s: StreamSessionDoc, now = Date.now()): StreamSessionStatus =>
+  now < s.startAt ? "upcoming" : now < s.endAt ? "live" : "ended";
+
+/** The session on air, else the next scheduled one, else null. */
+export async function findCurrentSession(now = Date.now()) {
+  const live = await StreamSession.findOne({ startAt: { $lte: now }, endAt: { $gt: now } })
+    .sort({ startAt: -1 })
+    .lean<StreamSessionDoc>();
+  if (live) return live;
+  return StreamSession.findOne({ startAt: { $gt: now } })
+    .sort({ startAt: 1 })
+    .lean<StreamSessionDoc>();
+}
+
+/** The host and admins may pin tokens to a session. */
+export const canManageSession = (viewer: string, s: StreamSessionDoc) =>
+  viewer === s.host || isAdmin(viewer);
+
+/** API shape of a session; featured tokens carry their index entry. */
+export async function toSessionResponse(
+  s: StreamSessionDoc,
+  viewer: string | null,
+  now = Date.now()
+) {
+  const tokens = new Map(
+    (
+      await MemeToken.find({ address: { $in: s.featuredTokens.map(f => f.token) } })
+        .lean<IndexedToken[]>()
+    ).map(t => [t.address, t])
+  );
+  return {
+    slug: s.slug,
+    title: s.title,
+    description: s.description ?? "",
+    host: s.host,
+    startAt: s.startAt,
+    endAt: s.endAt,
+    status: sessionStatus(s, now),
+    featured: s.featuredTokens
+      .filter(f => tokens.has(f.token))
+      .map(f => ({ ...toTokenResponse(tokens.get(f.token)!), note: f.note, pinnedAt: f.pinnedAt })),
+    canManage: viewer !== null && canManageSession(viewer, s),
+  };
+}
+
+// Token fields the activity feed shows next to each event.
+const SUMMARY_FIELDS = { address: 1, name: 1, symbol: 1, tokenImageUrl: 1 };
+
+const toTokenSummary = (t: IndexedToken) => ({
+  address: t.address,
+  name: t.name ?? "",
+  symbol: t.symbol ?? "",
+  tokenImageUrl: t.tokenImageUrl ?? "",
+});
+
+async function tokenSummaries(addresses: string[]) {
+  const rows = await MemeToken.find({ address: { $in: [...new Set(addresses)] } }, SUMMARY_FIELDS)
+    .lean<IndexedToken[]>();
+  return new Map(rows.map(t => [t.address, toTokenSummary(t)]));
+}
+
+/** Activity item of a newly created token. */
+export const toLaunchItem = (t: IndexedToken) => ({
+  token: toTokenSummary(t),
+  creator: t.creator ?? null,
+  createdAt: t.createdAt ?? null,
+});
+
+/** Activity item of a token that reached its funding goal and moved to DragonSwap. */
+export const toGraduationItem = (t: IndexedToken) => ({
+  token: toTokenSummary(t),
+  launchedAt: t.launchedAt ?? null,
+  pairAddress: t.pairAddress ?? null,
+  liquidityEth: t.liquidityEth ?? 0,
+});
+
+/** Activity items of big trades, with their token's name and image. */
+export async function toTradeItems(trades: TradeDoc[]) {
+  const summaries = await tokenSummaries(trades.map(t => t.token));
+  return trades.map(t => ({
+    id: t._id.toString(),
+    token: summaries.get(t.token) ?? { address: t.token, name: "", symbol: "", tokenImageUrl: "" },
+    side: t.side,
+    user: t.user ?? null,
+    eth: t.eth ?? 0,
+    tokens: t.tokens ?? 0,
+    hash: t.hash ?? null,
+    status: t.status ?? null,
+    timestamp: t.timestamp,
+  }));
+}
+
+// New tokens are listed once their metadata has been read from the chain.
+export const LAUNCH_FILTER = { name: { $exists: true, $ne: "" } };
+
+export const recentLaunches = async () =>
+  (
+    await MemeToken.find(LAUNCH_FILTER).sort({ createdAt: -1, _id: -1 }).limit(ACTIVITY_BACKLOG)
+      .lean<IndexedToken[]>()
+  ).map(toLaunchItem);
+
+export const recentGraduations = async () =>
+  (
+    await MemeToken.find({ isLaunched: true }).sort({ launchedAt: -1, _id: -1 }).limit(ACTIVITY_BACKLOG)
+      .lean<IndexedToken[]>()
+  ).map(toGraduationItem);
+
+export const recentBigTrades = async () =>
+  toTradeItems(
+    await Trade.find({ eth: { $gte: getBigTradeEth() } })
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(ACTIVITY_BACKLOG)
+      .lean<TradeDoc[]>()
+  );
+
+/**
+ * Top tokens of the 1h trending ranking with their price change over the hour.
+ * @returns null before the indexer has computed the ranking
+ */
+export async function getTrendingMovers() {
+  const snapshot = await TrendingSnapshot.findOne({ window: MOVERS_WINDOW })
+    .lean<TrendingSnapshotDoc>();
+  if (!snapshot) return null;
+  const entries = snapshot.entries.slice(0, MOVERS_LIMIT);
+  const tokens = entries.map(e => e.token);
+  const [summaries, prices, pastPrices] = await Promise.all([
+    tokenSummaries(tokens),
+    latestPrices(tokens),
+    latestPrices(tokens, snapshot.computedAt - TRENDING_WINDOWS[MOVERS_WINDOW]),
+  ]);
+  return {
+    window: MOVERS_WINDOW,
+    computedAt: snapshot.computedAt,
+    movers: entries.map(e => {
+      const price = prices.get(e.token) ?? null;
+      const past = pastPrices.get(e.token);
+      return {
+        token: summaries.get(e.token) ?? { address: e.token, name: "", symbol: "", tokenImageUrl: "" },
+        rank: e.rank,
+        score: e.score,
+        volumeEth: e.totalVolumeEth,
+        trades: e.tradeCount,
+        priceEth: price,
+        // null for tokens without a trade before the window
+        changePct: price !== null && past ? ((price - past) / past) * 100 : null,
+      };
+    }),
+  };
+}
+
+/** API shape of a chat message. */
+export const toChatMessageResponse = (m: ChatMessageDoc) => ({
+  id: m._id.toString(),
+  author: m.author,
+  body: m.deletedAt ? "" : m.body,
+  session: m.session ?? null,
+  deleted: Boolean(m.deletedAt),
+  createdAt: m.createdAt.getTime(),
+});
+
+/** The latest chat messages, oldest first. */
+export const recentChatMessages = async () =>
+  (
+    await ChatMessage.find({ deletedAt: null })
+      .sort({ createdAt: -1 })
+      .limit(CHAT_HISTORY_LIMIT)
+      .lean<ChatMessageDoc[]>()
+  )
+    .reverse()
+    .map(toChatMessageResponse);
+
+/**
+ * Takes one of `author`'s LIVESTREAM_CHAT_PER_MINUTE slots.
+ * @returns 0 when the message may be posted, else milliseconds until the next slot frees up
+ */
+export const takeChatSlot = (author: string, now = Date.now()) =>
+  takeRateLimit(`chat:${author}`, getChatMessagesPerMinute(), 60_000, now);
+
+/** The author, admins and the host of the session on air may delete a chat message. */
+export const canDeleteChatMessage = (
+  viewer: string,
+  message: Pick<ChatMessageDoc, "author">,
+  session: StreamSessionDoc | null,
+  now = Date.now()
+) =>
+  viewer === message.author ||
+  isAdmin(viewer) ||
+  (session !== null && sessionStatus(session, now) === "live" && viewer === session.host);
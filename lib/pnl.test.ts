@@ -0,0 +1,164 @@
+// lib/pnl.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyPnlEvent,
+  computePnl,
+  computeWalletPnl,
+  emptyPnlPosition,
+  returnOnInvestment,
+  unrealizedPnl,
+  type PnlEvent,
+} from "./pnl";
+
+const buy = (tokensRaw: bigint, ethWei: bigint, timestamp = 0, feeWei?: bigint): PnlEvent =>
+  ({ side: "buy", tokensRaw, ethWei, feeWei, timestamp });
+const sell = (tokensRaw: bigint, ethWei: bigint, timestamp = 0, feeWei?: bigint): PnlEvent =>
+  ({ side: "sell", tokensRaw, ethWei, feeWei, timestamp });
+const transferIn = (tokensRaw: bigint, costWei?: bigint): PnlEvent =>
+  ({ kind: "transfer", direction: "in", tokensRaw, costWei });
+const transferOut = (tokensRaw: bigint): PnlEvent =>
+  ({ kind: "transfer", direction: "out", tokensRaw });
+
+describe("applyPnlEvent", () => {
+  it("updates a position in place", () => {
+    const p = emptyPnlPosition("fifo");
+    applyPnlEvent(p, buy(100n, 250n, 1));
+    assert.equal(p.position, 100n);
+    assert.equal(p.costBasisWei, 250n);
+    assert.equal(p.boughtRaw, 100n);
+    assert.equal(p.spentWei, 250n);
+    assert.equal(p.trades, 1);
+    assert.deepEqual(p.lots, [{ tokensRaw: 100n, costWei: 250n, timestamp: 1 }]);
+  });
+
+  it("does not count transfers as trades", () => {
+    const p = emptyPnlPosition("average");
+    applyPnlEvent(p, transferIn(40n));
+    assert.equal(p.trades, 0);
+    assert.equal(p.transferredInRaw, 40n);
+    assert.equal(p.boughtRaw, 0n);
+  });
+});
+
+describe("computePnl", () => {
+  const events = [buy(100n, 100n, 1), buy(100n, 300n, 2), sell(100n, 250n, 3)];
+
+  it("sells the oldest lots first with FIFO", () => {
+    const p = computePnl(events, "fifo");
+    assert.equal(p.realizedWei, 150n);
+    assert.equal(p.position, 100n);
+    assert.equal(p.costBasisWei, 300n);
+    assert.deepEqual(p.lots, [{ tokensRaw: 100n, costWei: 300n, timestamp: 2 }]);
+  });
+
+  it("sells at the average cost with the average method", () => {
+    const p = computePnl(events, "average");
+    assert.equal(p.realizedWei, 50n);
+    assert.equal(p.position, 100n);
+    assert.equal(p.costBasisWei, 200n);
+    assert.deepEqual(p.lots, []);
+  });
+
+  it("defaults to the average method", () => {
+    assert.equal(computePnl(events).method, "average");
+  });
+
+  it("splits a partially sold FIFO lot by its proportional cost", () => {
+    const p = computePnl([buy(100n, 100n, 1), buy(100n, 300n, 2), sell(150n, 600n, 3)], "fifo");
+    assert.equal(p.realizedWei, 350n);
+    assert.equal(p.position, 50n);
+    assert.equal(p.costBasisWei, 150n);
+    assert.deepEqual(p.lots, [{ tokensRaw: 50n, costWei: 150n, timestamp: 2 }]);
+  });
+
+  it("moves transferred tokens at cost without realizing anything", () => {
+    const inAndOut = [transferIn(50n), buy(50n, 100n, 1), transferOut(50n)];
+
+    const average = computePnl(inAndOut, "average");
+    assert.equal(average.position, 50n);
+    assert.equal(average.costBasisWei, 50n);
+    assert.equal(average.realizedWei, 0n);
+    assert.equal(average.transferredInRaw, 50n);
+    assert.equal(average.transferredOutRaw, 50n);
+
+    // FIFO sends the zero-cost transferred lot out first.
+    const fifo = computePnl(inAndOut, "fifo");
+    assert.equal(fifo.position, 50n);
+    assert.equal(fifo.costBasisWei, 100n);
+    assert.equal(fifo.realizedWei, 0n);
+    assert.deepEqual(fifo.lots, [{ tokensRaw: 50n, costWei: 100n, timestamp: 1 }]);
+  });
+
+  it("carries a known cost on incoming transfers", () => {
+    const p = computePnl([transferIn(100n, 80n), sell(100n, 200n, 1)], "fifo");
+    assert.equal(p.realizedWei, 120n);
+    assert.equal(p.spentWei, 0n);
+  });
+
+  it("realizes a sell beyond the tracked position at zero cost", () => {
+    for (const method of ["fifo", "average"] as const) {
+      const p = computePnl([buy(100n, 100n, 1), sell(150n, 300n, 2), sell(10n, 20n, 3)], method);
+      assert.equal(p.realizedWei, 220n, method);
+      assert.equal(p.position, 0n, method);
+      assert.equal(p.costBasisWei, 0n, method);
+      assert.equal(p.soldRaw, 160n, method);
+      assert.deepEqual(p.lots, [], method);
+    }
+  });
+
+  it("counts fees in the cost of buys and the proceeds of sells", () => {
+    const p = computePnl([buy(100n, 101n, 1, 1n), sell(100n, 99n, 2, 1n)]);
+    assert.equal(p.feesWei, 2n);
+    assert.equal(p.spentWei, 101n);
+    assert.equal(p.receivedWei, 99n);
+    assert.equal(p.realizedWei, -2n);
+    assert.equal(p.trades, 2);
+  });
+});
+
+describe("computeWalletPnl", () => {
+  it("keeps a separate position per token", () => {
+    const positions = computeWalletPnl(
+      [
+        { ...buy(100n, 100n, 1), token: "0xa" },
+        { ...buy(10n, 50n, 2), token: "0xb" },
+        { ...sell(50n, 80n, 3), token: "0xa" },
+      ],
+      "fifo"
+    );
+    assert.deepEqual([...positions.keys()], ["0xa", "0xb"]);
+    const a = positions.get("0xa")!;
+    assert.equal(a.method, "fifo");
+    assert.equal(a.realizedWei, 30n);
+    assert.equal(a.position, 50n);
+    const b = positions.get("0xb")!;
+    assert.equal(b.position, 10n);
+    assert.equal(b.realizedWei, 0n);
+  });
+
+  it("returns no positions without events", () => {
+    assert.equal(computeWalletPnl([]).size, 0);
+  });
+});
+
+describe("returnOnInvestment", () => {
+  it("combines realized and unrealized PnL over the SEI spent", () => {
+    const p = computePnl([buy(100n, 100n, 1), sell(50n, 100n, 2)]);
+    assert.equal(unrealizedPnl(p, 50n, 80n), 30n);
+    assert.equal(returnOnInvestment(p, 30n), 0.8);
+  });
+
+  it("still reports a return once the cost basis is zero", () => {
+    const p = computePnl([buy(100n, 100n, 1), sell(100n, 150n, 2)]);
+    assert.equal(p.costBasisWei, 0n);
+    assert.equal(returnOnInvestment(p, 0n), 0.5);
+  });
+
+  it("is null without any SEI spent", () => {
+    const p = computePnl([transferIn(100n), sell(100n, 50n, 1)]);
+    assert.equal(p.costBasisWei, 0n);
+    assert.equal(p.realizedWei, 50n);
+    assert.equal(returnOnInvestment(p, 0n), null);
+  });
+});
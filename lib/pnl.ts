@@ -0,0 +1,189 @@
+// lib/pnl.ts
+// Cost basis and PnL of a wallet's positions, from its ordered trades and token
+// transfers. Pure functions over raw bigint amounts (wei / 1e18 token units); no I/O.
+//
+// Conventions:
+//  - a buy's `ethWei` is what the wallet paid, fee included, so fees raise the cost basis;
+//  - a sell's `ethWei` is what the wallet received, fee deducted, so fees lower proceeds;
+//  - tokens received by transfer enter at `costWei` (0 unless known) and leave by
+//    transfer at their cost basis, without realizing anything;
+//  - a sell larger than the tracked position realizes the excess at zero cost.
+
+export type PnlMethod = "fifo" | "average";
+
+export const PNL_METHODS: PnlMethod[] = ["fifo", "average"];
+
+export type PnlTrade = {
+  kind?: "trade";
+  side: "buy" | "sell";
+  tokensRaw: bigint;
+  ethWei: bigint;  // SEI paid for a buy (fee included) / received for a sell (fee deducted)
+  feeWei?: bigint; // fee part of ethWei, for reporting
+  timestamp: number;
+};
+
+export type PnlTransfer = {
+  kind: "transfer";
+  direction: "in" | "out";
+  tokensRaw: bigint;
+  costWei?: bigint; // cost basis of received tokens, 0 when unknown
+  timestamp?: number; // Transfer logs are stored without block time
+};
+
+export type PnlEvent = PnlTrade | PnlTransfer;
+
+/** Open FIFO lot: tokens still held from one buy or incoming transfer. */
+export type PnlLot = {
+  tokensRaw: bigint;
+  costWei: bigint;
+  timestamp: number | null;
+};
+
+export type PnlPosition = {
+  method: PnlMethod;
+  position: bigint;     // tokens held according to the events
+  costBasisWei: bigint; // cost of `position`
+  realizedWei: bigint;  // proceeds minus cost of the tokens sold
+  boughtRaw: bigint;
+  soldRaw: bigint;
+  transferredInRaw: bigint;
+  transferredOutRaw: bigint;
+  spentWei: bigint;     // SEI paid for buys, fees included
+  receivedWei: bigint;  // SEI received from sells, after fees
+  feesWei: bigint;
+  trades: number;
+  lots: PnlLot[];       // FIFO only; empty for the average-cost method
+};
+
+export const emptyPnlPosition = (method: PnlMethod): PnlPosition => ({
+  method,
+  position: 0n,
+  costBasisWei: 0n,
+  realizedWei: 0n,
+  boughtRaw: 0n,
+  soldRaw: 0n,
+  transferredInRaw: 0n,
+  transferredOutRaw: 0n,
+  spentWei: 0n,
+  receivedWei: 0n,
+  feesWei: 0n,
+  trades: 0,
+  lots: [],
+});
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/** Adds tokens with their cost. */
+function addTokens(p: PnlPosition, tokensRaw: bigint, costWei: bigint, timestamp: number | null) {
+  p.position += tokensRaw;
+  p.costBasisWei += costWei;
+  if (p.method === "fifo" && tokensRaw > 0n) p.lots.push({ tokensRaw, costWei, timestamp });
+}
+
+/**
+ * Removes up to `tokensRaw` tokens and returns the cost they carried: oldest lots
+ * first (FIFO) or the average cost of the position.
+ */
+function removeTokens(p: PnlPosition, tokensRaw: bigint): bigint {
+  const covered = min(tokensRaw, p.position);
+  if (covered === 0n) return 0n;
+
+  let costOut = 0n;
+  if (p.method === "average") {
+    costOut = (p.costBasisWei * covered) / p.position;
+  } else {
+    let left = covered;
+    while (left > 0n && p.lots.length > 0) {
+      const lot = p.lots[0];
+      if (lot.tokensRaw <= left) {
+        costOut += lot.costWei;
+        left -= lot.tokensRaw;
+        p.lots.shift();
+      } else {
+        // Partial lot: take its proportional cost, keep the rest open.
+        const part = (lot.costWei * left) / lot.tokensRaw;
+        costOut += part;
+        lot.costWei -= part;
+        lot.tokensRaw -= left;
+        left = 0n;
+      }
+    }
+  }
+  p.position -= covered;
+  p.costBasisWei -= costOut;
+  return costOut;
+}
+
+/** Applies one event to a position in place. */
+export function applyPnlEvent(p: PnlPosition, e: PnlEvent) {
+  if (e.kind === "transfer") {
+    if (e.direction === "in") {
+      addTokens(p, e.tokensRaw, e.costWei ?? 0n, e.timestamp ?? null);
+      p.transferredInRaw += e.tokensRaw;
+    } else {
+      removeTokens(p, e.tokensRaw);
+      p.transferredOutRaw += e.tokensRaw;
+    }
+    return;
+  }
+
+  p.trades++;
+  p.feesWei += e.feeWei ?? 0n;
+  if (e.side === "buy") {
+    addTokens(p, e.tokensRaw, e.ethWei, e.timestamp);
+    p.boughtRaw += e.tokensRaw;
+    p.spentWei += e.ethWei;
+  } else {
+    const costOut = removeTokens(p, e.tokensRaw);
+    p.realizedWei += e.ethWei - costOut;
+    p.soldRaw += e.tokensRaw;
+    p.receivedWei += e.ethWei;
+  }
+}
+
+/**
+ * Position of one token after `events`.
+ * @param events oldest first
+ */
+export function computePnl(events: PnlEvent[], method: PnlMethod = "average"): PnlPosition {
+  const p = emptyPnlPosition(method);
+  for (const e of events) applyPnlEvent(p, e);
+  return p;
+}
+
+/**
+ * Positions per token for a wallet's events across tokens.
+ * @param events oldest first
+ */
+export function computeWalletPnl(
+  events: (PnlEvent & { token: string })[],
+  method: PnlMethod = "average"
+): Map<string, PnlPosition> {
+  const positions = new Map<string, PnlPosition>();
+  for (const e of events) {
+    let p = positions.get(e.token);
+    if (!p) {
+      p = emptyPnlPosition(method);
+      positions.set(e.token, p);
+    }
+    applyPnlEvent(p, e);
+  }
+  return positions;
+}
+
+/** Cost of `amount` tokens at the position's average cost. */
+export const costOf = (p: PnlPosition, amount: bigint) =>
+  p.position > 0n ? (p.costBasisWei * min(amount, p.position)) / p.position : 0n;
+
+/**
+ * Unrealized PnL of holding `balance` tokens worth `valueWei` now. Tokens beyond
+ * the tracked position (e.g. received before indexing) carry no cost.
+ */
+export const unrealizedPnl = (p: PnlPosition, balance: bigint, valueWei: bigint) =>
+  balance > 0n ? valueWei - costOf(p, balance) : 0n;
+
+/** Realized + unrealized PnL over the SEI spent; null before any buy. */
+export const returnOnInvestment = (p: PnlPosition, unrealizedWei: bigint) =>
+  p.spentWei > 0n
+    ? Number(((p.realizedWei + unrealizedWei) * 1_000_000n) / p.spentWei) / 1_000_000
+    : null;
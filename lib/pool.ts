@@ -0,0 +1,134 @@
+// lib/pool.ts
+// Server-side reads of a graduated token's DragonSwap pool, plus proof that the
+// LP tokens minted at launch were sent to address(0) by _launchOnUniswap.
+import { ethers } from "ethers";
+import { getPairAddress, PAIR_ABI } from "@/lib/dragonswap";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { getFactoryAddress } from "@/lib/indexer/config";
+import { pairInterface } from "@/lib/indexer/pairEvents";
+import { MemeToken } from "@/models/MemeToken";
+
+const transferTopic = pairInterface.getEvent("Transfer")!.topicHash;
+
+export type PoolInfo = {
+  pairAddress: string;
+  reserveToken: string; // raw 1e18 units, live from getReserves()
+  reserveSei: string;   // wei
+  priceEth: number;     // pool price, SEI per token
+  liquidityEth: number; // both sides valued in SEI
+  lp: {
+    totalSupply: string;
+    burnedBalance: string;   // LP held by address(0), incl. the pair's MINIMUM_LIQUIDITY
+    burnedPercent: number;   // of totalSupply
+    factoryBalance: string;  // LP still held by the factory (0 if fully burned)
+    burnTx: string | null;   // launch tx holding the factory -> address(0) transfer
+    burnLogIndex: number | null;
+    burnAmount: string | null;
+  };
+  launch: {
+    ethForLP: string | null;        // wei
+    listingFeeTaken: string | null; // wei
+    launchedAt: number | null;      // ms, TokenLaunched timestamp
+    launchedBlock: number | null;
+    launchTx: string | null;
+  };
+};
+
+type LaunchedToken = {
+  address: string;
+  isLaunched?: boolean;
+  pairAddress?: string;
+  launchTx?: string;
+  launchedAt?: number;
+  launchedBlock?: number;
+  ethForLP?: string;
+  listingFeeTaken?: string;
+  lpBurned?: string;
+  lpBurnLogIndex?: number;
+};
+
+/**
+ * Finds the factory's LP Transfer to address(0) in the launch tx and caches it
+ * on the MemeToken document.
+ */
+async function findLpBurn(doc: LaunchedToken, pairAddress: string) {
+  if (doc.lpBurned) return { amount: doc.lpBurned, logIndex: doc.lpBurnLogIndex ?? null };
+  if (!doc.launchTx) return null;
+
+  const receipt = await getRpcProvider().getTransactionReceipt(doc.launchTx);
+  if (!receipt) return null;
+  const factory = getFactoryAddress();
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== pairAddress || log.topics[0] !== transferTopic) continue;
+    const parsed = pairInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (
+      parsed &&
+      (parsed.args.from as string).toLowerCase() === factory &&
+      parsed.args.to === ethers.ZeroAddress
+    ) {
+      const amount = (parsed.args.value as bigint).toString();
+      await MemeToken.updateOne(
+        { address: doc.address },
+        { $set: { lpBurned: amount, lpBurnLogIndex: log.index } }
+      );
+      return { amount, logIndex: log.index };
+    }
+  }
+  return null;
+}
+
+/** Live pool state of a launched token; null before launch or when no pair exists. */
+export async function getPoolInfo(token: string): Promise<PoolInfo | null> {
+  const address = token.toLowerCase();
+  const doc = await MemeToken.findOne({ address }).lean<LaunchedToken>();
+  if (!doc?.isLaunched) return null;
+
+  const provider = getRpcProvider();
+  let pairAddress = doc.pairAddress;
+  if (!pairAddress) {
+    const pair = await getPairAddress(provider, address);
+    if (!pair) return null;
+    pairAddress = pair.address;
+    await MemeToken.updateOne({ address }, { $set: { pairAddress, pairToken0: pair.token0 } });
+  }
+
+  const pair = new ethers.Contract(pairAddress, PAIR_ABI, provider);
+  const [reserves, token0, lpSupply, burnedBalance, factoryBalance, burn] = await Promise.all([
+    pair.getReserves() as Promise<[bigint, bigint, bigint]>,
+    pair.token0() as Promise<string>,
+    pair.totalSupply() as Promise<bigint>,
+    pair.balanceOf(ethers.ZeroAddress) as Promise<bigint>,
+    pair.balanceOf(getFactoryAddress()) as Promise<bigint>,
+    findLpBurn(doc, pairAddress),
+  ]);
+
+  const tokenIs0 = token0.toLowerCase() === address;
+  const reserveToken = tokenIs0 ? reserves[0] : reserves[1];
+  const reserveSei = tokenIs0 ? reserves[1] : reserves[0];
+  const reserveSeiEth = Number(ethers.formatEther(reserveSei));
+  const reserveTokens = Number(ethers.formatUnits(reserveToken, 18));
+
+  return {
+    pairAddress,
+    reserveToken: reserveToken.toString(),
+    reserveSei: reserveSei.toString(),
+    priceEth: reserveTokens > 0 ? reserveSeiEth / reserveTokens : 0,
+    liquidityEth: 2 * reserveSeiEth,
+    lp: {
+      totalSupply: lpSupply.toString(),
+      burnedBalance: burnedBalance.toString(),
+      burnedPercent: lpSupply > 0n ? Number((burnedBalance * 10_000n) / lpSupply) / 100 : 0,
+      factoryBalance: factoryBalance.toString(),
+      burnTx: burn ? doc.launchTx ?? null : null,
+      burnLogIndex: burn?.logIndex ?? null,
+      burnAmount: burn?.amount ?? null,
+    },
+    launch: {
+      ethForLP: doc.ethForLP ?? null,
+      listingFeeTaken: doc.listingFeeTaken ?? null,
+      launchedAt: doc.launchedAt ?? null,
+      launchedBlock: doc.launchedBlock ?? null,
+      launchTx: doc.launchTx ?? null,
+    },
+  };
+}
@@ -0,0 +1,323 @@
+// lib/portfolio.ts
+// Wallet portfolio across factory tokens: on-chain balances valued at the
+// current curve / DEX sell quote, with cost basis and PnL from lib/pnl.ts.
+import { ethers } from "ethers";
+import type { Types } from "mongoose";
+import { tokenAbi } from "@/lib/abi/Token";
+import {
+  BPS_DENOMINATOR,
+  CURVE_FEE_BPS,
+  decimalToBigInt,
+  floatToRaw,
+  toDecimal128,
+} from "@/lib/amounts";
+import { getDexQuoteSell } from "@/lib/dragonswap";
+import { getFactoryServer, getRpcProvider } from "@/lib/ethersClient";
+import {
+  computeWalletPnl,
+  costOf,
+  emptyPnlPosition,
+  type PnlEvent,
+  type PnlMethod,
+  type PnlTrade,
+  unrealizedPnl,
+} from "@/lib/pnl";
+import { Candle } from "@/models/Candle";
+import { HolderBalance } from "@/models/HolderBalance";
+import { MemeToken } from "@/models/MemeToken";
+import { TokenTransfer } from "@/models/TokenTransfer";
+import { Trade } from "@/models/Trade";
+
+type TradeRow = {
+  token: string;
+  side: "buy" | "sell";
+  tokens?: number;
+  eth?: number;
+  tokensRaw?: string;
+  ethWei?: string;
+  feeWei?: string;
+  timestamp: number;
+  blockNumber?: number;
+  logIndex?: number;
+};
+
+type TransferRow = {
+  token: string;
+  from: string;
+  to: string;
+  value: Types.Decimal128;
+  blockNumber: number;
+  logIndex: number;
+};
+
+type TokenRow = {
+  address: string;
+  name?: string;
+  symbol?: string;
+  tokenImageUrl?: string;
+  isLaunched?: boolean;
+};
+
+const eth = (wei: bigint) => Number(ethers.formatEther(wei));
+
+// Schema v2 rows carry raw amounts; older rows only have the floats.
+const toPnlTrade = (t: TradeRow): PnlTrade => ({
+  side: t.side,
+  tokensRaw: t.tokensRaw ? BigInt(t.tokensRaw) : floatToRaw(t.tokens ?? 0),
+  ethWei: t.ethWei ? BigInt(t.ethWei) : floatToRaw(t.eth ?? 0),
+  feeWei: t.feeWei ? BigInt(t.feeWei) : 0n,
+  timestamp: t.timestamp,
+});
+
+type OrderedEvent = PnlEvent & { token: string; blockNumber?: number; logIndex?: number };
+
+/**
+ * The wallet's trades plus its wallet-to-wallet token transfers, in chain order.
+ * Mints, burns and pair transfers are the trades themselves and are skipped.
+ * Rows without a block (unverified client posts) go last, by time.
+ */
+async function walletEvents(address: string, pairs: Set<string>) {
+  const [trades, transfers] = await Promise.all([
+    Trade.find({ user: address }).sort({ timestamp: 1, _id: 1 }).lean<TradeRow[]>(),
+    TokenTransfer.find({ $or: [{ from: address }, { to: address }] }).lean<TransferRow[]>(),
+  ]);
+
+  const events: OrderedEvent[] = trades.map(t => ({
+    ...toPnlTrade(t),
+    token: t.token,
+    blockNumber: t.blockNumber,
+    logIndex: t.logIndex,
+  }));
+  for (const t of transfers) {
+    const counterparty = t.from === address ? t.to : t.from;
+    if (counterparty === ethers.ZeroAddress || pairs.has(counterparty) || t.from === t.to) continue;
+    events.push({
+      kind: "transfer",
+      direction: t.to === address ? "in" : "out",
+      tokensRaw: decimalToBigInt(t.value),
+      token: t.token,
+      blockNumber: t.blockNumber,
+      logIndex: t.logIndex,
+    });
+  }
+
+  const block = (e: OrderedEvent) => e.blockNumber ?? Number.MAX_SAFE_INTEGER;
+  return events.sort((a, b) => block(a) - block(b) || (a.logIndex ?? 0) - (b.logIndex ?? 0));
+}
+
+async function walletTrades(address: string) {
+  const rows = await Trade.find({ user: address })
+    .sort({ timestamp: 1, _id: 1 })
+    .lean<TradeRow[]>();
+  const byToken = new Map<string, PnlTrade[]>();
+  for (const row of rows) {
+    const list = byToken.get(row.token) ?? [];
+    list.push(toPnlTrade(row));
+    byToken.set(row.token, list);
+  }
+  return byToken;
+}
+
+/** SEI (wei) a sale of `amount` would return now: curve refund after fee, or DEX quote. */
+async function sellValue(token: string, amount: bigint, isLaunched: boolean) {
+  if (amount === 0n) return 0n;
+  if (isLaunched) return getDexQuoteSell(getRpcProvider(), token, amount);
+
+  const factory = getFactoryServer();
+  const supply: bigint = await factory.curveSupply(token);
+  const sellable = amount < supply ? amount : supply;
+  if (sellable === 0n) return 0n;
+  const refund: bigint = await factory.calculateRefund(supply, sellable);
+  return refund - (refund * CURVE_FEE_BPS) / BPS_DENOMINATOR;
+}
+
+export type Holding = {
+  token: string;
+  name: string;
+  symbol: string;
+  tokenImageUrl: string;
+  venue: "curve" | "dex";
+  balance: string;       // raw units, from balanceOf
+  valueWei: string;      // sell quote for the whole balance
+  valueEth: number;
+  averageCostEth: number; // SEI per token, fees included
+  costBasisEth: number;   // cost of the held tokens (tokens received by transfer cost 0)
+  realizedPnlEth: number;
+  unrealizedPnlEth: number;
+  spentEth: number;
+  receivedEth: number;
+  feesEth: number;
+  trades: number;
+};
+
+export type Portfolio = {
+  address: string;
+  method: PnlMethod;
+  holdings: Holding[];
+  totals: {
+    valueEth: number;
+    costBasisEth: number;
+    realizedPnlEth: number;
+    unrealizedPnlEth: number;
+  };
+};
+
+/** Every factory token the wallet holds or has traded, highest value first. */
+export async function getPortfolio(
+  wallet: string,
+  method: PnlMethod = "average"
+): Promise<Portfolio> {
+  const address = wallet.toLowerCase();
+  const [traded, held, pairRows] = await Promise.all([
+    Trade.distinct("token", { user: address }),
+    HolderBalance.distinct("token", { address, balance: { $gt: toDecimal128(0n) } }),
+    MemeToken.find({ pairAddress: { $ne: null } }, { pairAddress: 1 })
+      .lean<{ pairAddress: string }[]>(),
+  ]);
+  const tokens = [...new Set<string>([...traded, ...held])];
+  const metas = await MemeToken.find({ address: { $in: tokens } }).lean<TokenRow[]>();
+  const metaOf = new Map(metas.map(m => [m.address, m]));
+  const positions = computeWalletPnl(
+    await walletEvents(address, new Set(pairRows.map(r => r.pairAddress))),
+    method
+  );
+
+  const holdings = await Promise.all(
+    tokens.map(async (token): Promise<Holding> => {
+      const meta = metaOf.get(token);
+      const isLaunched = meta?.isLaunched ?? false;
+      const erc20 = new ethers.Contract(token, tokenAbi, getRpcProvider());
+      const balance: bigint = await erc20.balanceOf(address);
+      const valueWei = await sellValue(token, balance, isLaunched).catch(err => {
+        console.error(`[portfolio] quote failed for ${token}:`, err);
+        return 0n;
+      });
+
+      const pnl = positions.get(token) ?? emptyPnlPosition(method);
+      const costBasisWei = costOf(pnl, balance);
+      const averageCost = pnl.position > 0n
+        ? eth(pnl.costBasisWei) / Number(ethers.formatUnits(pnl.position, 18))
+        : 0;
+
+      return {
+        token,
+        name: meta?.name ?? "",
+        symbol: meta?.symbol ?? "",
+        tokenImageUrl: meta?.tokenImageUrl ?? "",
+        venue: isLaunched ? "dex" : "curve",
+        balance: balance.toString(),
+        valueWei: valueWei.toString(),
+        valueEth: eth(valueWei),
+        averageCostEth: averageCost,
+        costBasisEth: eth(costBasisWei),
+        realizedPnlEth: eth(pnl.realizedWei),
+        unrealizedPnlEth: eth(unrealizedPnl(pnl, balance, valueWei)),
+        spentEth: eth(pnl.spentWei),
+        receivedEth: eth(pnl.receivedWei),
+        feesEth: eth(pnl.feesWei),
+        trades: pnl.trades,
+      };
+    })
+  );
+
+  holdings.sort((a, b) => b.valueEth - a.valueEth || b.trades - a.trades);
+  const sum = (key: keyof Portfolio["totals"]) =>
+    holdings.reduce((acc, h) => acc + h[key], 0);
+  return {
+    address,
+    method,
+    holdings,
+    totals: {
+      valueEth: sum("valueEth"),
+      costBasisEth: sum("costBasisEth"),
+      realizedPnlEth: sum("realizedPnlEth"),
+      unrealizedPnlEth: sum("unrealizedPnlEth"),
+    },
+  };
+}
+
+export const HISTORY_INTERVALS = {
+  "1h": { ms: 60 * 60 * 1000, maxPoints: 24 * 30 },
+  "1d": { ms: 24 * 60 * 60 * 1000, maxPoints: 365 },
+} as const;
+
+export type HistoryInterval = keyof typeof HISTORY_INTERVALS;
+
+export type HistoryPoint = {
+  time: number;     // bucket start, ms
+  valueEth: number; // sum of positions * candle close
+  investedEth: number; // SEI spent minus SEI received so far
+};
+
+type CloseRow = { token: string; bucketStart: number; close: number };
+
+/**
+ * Combined value over time: each token's trade-derived position at the end of a
+ * bucket, priced at the close of that token's latest candle. Transfers are not
+ * timestamped, so tokens moved between wallets are not reflected here.
+ */
+export async function getPortfolioHistory(
+  wallet: string,
+  interval: HistoryInterval
+): Promise<HistoryPoint[]> {
+  const address = wallet.toLowerCase();
+  const { ms, maxPoints } = HISTORY_INTERVALS[interval];
+  const tradesByToken = await walletTrades(address);
+  if (tradesByToken.size === 0) return [];
+
+  const firstTrade = Math.min(...[...tradesByToken.values()].map(t => t[0].timestamp));
+  const now = Date.now();
+  const start = Math.floor(Math.max(firstTrade, now - (maxPoints - 1) * ms) / ms) * ms;
+
+  const closes = await Candle.find(
+    {
+      token: { $in: [...tradesByToken.keys()] },
+      interval,
+      final: false,
+      bucketStart: { $lte: now },
+    },
+    { token: 1, bucketStart: 1, close: 1 }
+  )
+    .sort({ bucketStart: 1 })
+    .lean<CloseRow[]>();
+  const closesByToken = new Map<string, CloseRow[]>();
+  for (const c of closes) {
+    const list = closesByToken.get(c.token) ?? [];
+    list.push(c);
+    closesByToken.set(c.token, list);
+  }
+
+  // Walk every token's trades and candles forward once, bucket by bucket.
+  const cursors = [...tradesByToken.entries()].map(([token, trades]) => ({
+    trades,
+    closes: closesByToken.get(token) ?? [],
+    tradeIdx: 0,
+    closeIdx: 0,
+    position: 0n,
+    price: 0,
+  }));
+  let invested = 0n;
+  const points: HistoryPoint[] = [];
+  for (let time = start; time <= now; time += ms) {
+    const end = time + ms;
+    let value = 0;
+    for (const c of cursors) {
+      while (c.tradeIdx < c.trades.length && c.trades[c.tradeIdx].timestamp < end) {
+        const t = c.trades[c.tradeIdx++];
+        if (t.side === "buy") {
+          c.position += t.tokensRaw;
+          invested += t.ethWei;
+        } else {
+          c.position = c.position > t.tokensRaw ? c.position - t.tokensRaw : 0n;
+          invested -= t.ethWei;
+        }
+      }
+      while (c.closeIdx < c.closes.length && c.closes[c.closeIdx].bucketStart < end) {
+        c.price = c.closes[c.closeIdx++].close;
+      }
+      value += Number(ethers.formatUnits(c.position, 18)) * c.price;
+    }
+    points.push({ time, valueEth: value, investedEth: eth(invested) });
+  }
+  return points;
+}
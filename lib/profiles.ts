@@ -0,0 +1,62 @@
+// lib/profiles.ts
+// Wallet profiles: input checks for edits and batched lookups of the username
+// and avatar shown in place of raw addresses.
+import { checkHttpsUrl, parseSocialLinks, type SocialLinks } from "@/lib/links";
+import { Profile } from "@/models/Profile";
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9_]{3,20}$/;
+export const BIO_MAX_LENGTH = 280;
+
+export type ProfileDoc = {
+  address: string;
+  username?: string;
+  avatarUrl?: string;
+  bio?: string;
+  links?: SocialLinks;
+  updatedAt?: Date;
+};
+
+/** What lists show instead of an address. */
+export type ProfileSummary = { username: string | null; avatarUrl: string | null };
+
+export type ProfileInput = {
+  username: string | null;
+  avatarUrl: string | null;
+  bio: string;
+  links: SocialLinks;
+};
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/** Validates a profile edit. Returns the cleaned input or an error message. */
+export function parseProfileInput(body: unknown): ProfileInput | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const username = optionalString(input.username);
+  if (username && !USERNAME_PATTERN.test(username)) {
+    return { error: "Usernames are 3-20 letters, digits or underscores" };
+  }
+  const avatarUrl = optionalString(input.avatarUrl);
+  const avatarError = avatarUrl && checkHttpsUrl(avatarUrl, "Avatar");
+  if (avatarError) return { error: avatarError };
+
+  const bio = optionalString(input.bio) ?? "";
+  if (bio.length > BIO_MAX_LENGTH) {
+    return { error: `Bios are limited to ${BIO_MAX_LENGTH} characters` };
+  }
+
+  const links = parseSocialLinks(input.links);
+  if ("error" in links) return links;
+  return { username, avatarUrl, bio, links };
+}
+
+/** Username and avatar per address (lowercase); addresses without a profile are omitted. */
+export async function getProfileSummaries(addresses: string[]) {
+  const rows = await Profile.find(
+    { address: { $in: addresses.map(a => a.toLowerCase()) } },
+    { address: 1, username: 1, avatarUrl: 1 }
+  ).lean<ProfileDoc[]>();
+  return new Map<string, ProfileSummary>(
+    rows.map(p => [p.address, { username: p.username ?? null, avatarUrl: p.avatarUrl ?? null }])
+  );
+}
@@ -0,0 +1,67 @@
+// lib/profilesClient.ts
+// Browser cache of wallet usernames / avatars. Lookups made in the same tick are
+// batched into one GET /api/profiles call, so every address on a page can ask
+// for its own profile.
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import axios from "axios";
+
+export type ProfileSummary = { username: string | null; avatarUrl: string | null };
+
+const BATCH_SIZE = 100;
+const EMPTY: ProfileSummary = { username: null, avatarUrl: null };
+
+const cache = new Map<string, ProfileSummary>();
+const queued = new Set<string>();
+const listeners = new Set<() => void>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const notify = () => listeners.forEach(l => l());
+
+async function flush() {
+  flushTimer = null;
+  const batch = [...queued];
+  queued.clear();
+  for (let i = 0; i < batch.length; i += BATCH_SIZE) {
+    const chunk = batch.slice(i, i + BATCH_SIZE);
+    try {
+      const res = await axios.get("/api/profiles", { params: { addresses: chunk.join(",") } });
+      for (const address of chunk) cache.set(address, res.data.profiles[address] ?? EMPTY);
+    } catch (e) {
+      console.error("Failed to load profiles", e);
+      for (const address of chunk) cache.set(address, EMPTY);
+    }
+  }
+  notify();
+}
+
+function request(address: string) {
+  if (cache.has(address) || queued.has(address)) return;
+  queued.add(address);
+  if (!flushTimer) flushTimer = setTimeout(flush, 10);
+}
+
+/** Drops a cached profile (e.g. after editing it) and refetches it. */
+export function invalidateProfile(address: string) {
+  cache.delete(address.toLowerCase());
+  request(address.toLowerCase());
+  notify();
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Username / avatar of `address`; empty until loaded or when it has no profile. */
+export function useProfile(address: string | null | undefined): ProfileSummary {
+  const key = address?.toLowerCase() ?? null;
+  useEffect(() => {
+    if (key) request(key);
+  }, [key]);
+  const getSnapshot = useCallback(() => (key ? cache.get(key) ?? EMPTY : EMPTY), [key]);
+  return useSyncExternalStore(subscribe, getSnapshot, () => EMPTY);
+}
+
+export const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
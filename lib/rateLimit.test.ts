@@ -0,0 +1,46 @@
+// lib/rateLimit.test.ts
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import mongoose from "mongoose";
+import { connectMongo } from "./mongo";
+import { retryAfterMs, takeRateLimit } from "./rateLimit";
+import { RateLimit } from "@/models/RateLimit";
+
+const at = (ms: number) => new Date(ms);
+
+describe("retryAfterMs", () => {
+  it("waits for the oldest hit that counts against the limit", () => {
+    const hits = [at(1_000), at(2_000), at(3_000)];
+    assert.equal(retryAfterMs(hits, 2, 10_000, 5_000), 7_000);
+    assert.equal(retryAfterMs(hits, 3, 10_000, 5_000), 6_000);
+  });
+
+  it("waits at least 1 ms", () => {
+    assert.equal(retryAfterMs([at(1_000)], 1, 1_000, 5_000), 1);
+    assert.equal(retryAfterMs([], 1, 1_000, 5_000), 1);
+  });
+});
+
+// Needs a MongoDB server: run with MONGODB_URI set to a scratch database.
+describe("takeRateLimit", { skip: !process.env.MONGODB_URI && "MONGODB_URI not set" }, () => {
+  const key = `test:${new mongoose.Types.ObjectId().toString()}`;
+
+  before(() => connectMongo());
+  after(async () => {
+    await RateLimit.deleteOne({ key });
+    await mongoose.disconnect();
+  });
+
+  it("lets only `limit` of many parallel hits through", async () => {
+    const now = Date.now();
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => takeRateLimit(key, 3, 60_000, now))
+    );
+    assert.equal(results.filter(wait => wait === 0).length, 3);
+    for (const wait of results.filter(wait => wait !== 0)) assert.equal(wait, 60_000);
+  });
+
+  it("allows hits again once the window has passed", async () => {
+    assert.equal(await takeRateLimit(key, 3, 60_000, Date.now() + 60_000), 0);
+  });
+});
@@ -0,0 +1,35 @@
+// lib/rateLimit.ts
+// Per-wallet sliding-window rate limits stored in Mongo. A hit is only recorded
+// by a conditional update that also checks the count, so parallel requests
+// cannot all pass the same check before any of them is stored.
+import { RateLimit } from "@/models/RateLimit";
+
+/**
+ * Records a hit on `key` unless `limit` hits already fall within the last
+ * `windowMs`.
+ * @returns 0 when the hit was recorded, else milliseconds until the next one is allowed
+ */
+export async function takeRateLimit(key: string, limit: number, windowMs: number, now = Date.now()) {
+  const expiresAt = new Date(now + windowMs);
+  await RateLimit.updateOne(
+    { key },
+    { $pull: { hits: { $lte: new Date(now - windowMs) } }, $setOnInsert: { expiresAt } },
+    { upsert: true }
+  );
+  // Fewer than `limit` hits left means hits[limit - 1] does not exist.
+  const taken = await RateLimit.findOneAndUpdate(
+    { key, [`hits.${limit - 1}`]: { $exists: false } },
+    { $push: { hits: new Date(now) }, $set: { expiresAt } }
+  );
+  if (taken) return 0;
+
+  const state = await RateLimit.findOne({ key }).lean<{ hits: Date[] }>();
+  return retryAfterMs(state?.hits ?? [], limit, windowMs, now);
+}
+
+/** Milliseconds until `hits` (oldest first) leave room for one more within `limit`; at least 1. */
+export function retryAfterMs(hits: readonly Date[], limit: number, windowMs: number, now = Date.now()) {
+  // The oldest hit that counts against the limit leaves the window first.
+  const oldest = hits[hits.length - limit];
+  return oldest ? Math.max(1, oldest.getTime() + windowMs - now) : 1;
+}
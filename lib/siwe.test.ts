@@ -0,0 +1,87 @@
+// lib/siwe.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatSiweMessage, parseSiweMessage, siweTimeError, type SiweMessage } from "./siwe";
+
+const ADDRESS = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+
+const message = (overrides: Partial<SiweMessage> = {}): SiweMessage => ({
+  domain: "sei.fun",
+  address: ADDRESS,
+  statement: "Sign in to Sei.Fun",
+  uri: "https://sei.fun",
+  version: "1",
+  chainId: 1329,
+  nonce: "abcdef0123456789",
+  issuedAt: "2025-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("parseSiweMessage", () => {
+  it("reads back every field of a formatted message", () => {
+    const m = message({
+      expirationTime: "2025-01-01T00:10:00.000Z",
+      notBefore: "2025-01-01T00:00:00.000Z",
+      requestId: "42",
+      resources: ["https://sei.fun/a", "ipfs://b"],
+    });
+    assert.deepEqual(parseSiweMessage(formatSiweMessage(m)), m);
+  });
+
+  it("accepts a message without a statement or optional fields", () => {
+    const m = message({ statement: undefined });
+    const text = formatSiweMessage(m);
+    assert.equal(text.split("\n")[3], "URI: https://sei.fun");
+    assert.deepEqual(parseSiweMessage(text), {
+      ...m,
+      expirationTime: undefined,
+      notBefore: undefined,
+      requestId: undefined,
+      resources: undefined,
+    });
+  });
+
+  it("rejects an address that is not checksummed", () => {
+    assert.equal(parseSiweMessage(formatSiweMessage(message({ address: ADDRESS.toLowerCase() }))), null);
+  });
+
+  it("rejects a missing required field", () => {
+    const text = formatSiweMessage(message()).replace(/\nChain ID: \d+/, "");
+    assert.equal(parseSiweMessage(text), null);
+  });
+
+  it("rejects short nonces, bad chain ids and bad timestamps", () => {
+    assert.equal(parseSiweMessage(formatSiweMessage(message({ nonce: "abc" }))), null);
+    assert.equal(parseSiweMessage(formatSiweMessage(message({ chainId: 0 }))), null);
+    assert.equal(parseSiweMessage(formatSiweMessage(message({ issuedAt: "yesterday" }))), null);
+  });
+
+  it("rejects trailing lines and another header", () => {
+    assert.equal(parseSiweMessage(`${formatSiweMessage(message())}\nExtra: 1`), null);
+    assert.equal(parseSiweMessage(formatSiweMessage(message()).replace("wants you", "asks you")), null);
+  });
+});
+
+describe("siweTimeError", () => {
+  const now = Date.parse("2025-01-01T00:05:00.000Z");
+
+  it("accepts a message inside its validity window", () => {
+    const m = message({ notBefore: "2025-01-01T00:00:00.000Z", expirationTime: "2025-01-01T00:10:00.000Z" });
+    assert.equal(siweTimeError(m, now), null);
+    assert.equal(siweTimeError(message(), now), null);
+  });
+
+  it("rejects a message at or past its expiration time", () => {
+    assert.equal(
+      siweTimeError(message({ expirationTime: "2025-01-01T00:05:00.000Z" }), now),
+      "Sign-in message expired"
+    );
+  });
+
+  it("rejects a message before its notBefore time", () => {
+    assert.equal(
+      siweTimeError(message({ notBefore: "2025-01-01T00:05:00.001Z" }), now),
+      "Sign-in message not valid yet"
+    );
+  });
+});
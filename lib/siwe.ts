@@ -0,0 +1,123 @@
+// lib/siwe.ts
+// EIP-4361 (Sign-In with Ethereum) message formatting and parsing. Pure, so the
+// browser builds the message with the same code the server parses it with.
+import { ethers } from "ethers";
+
+export type SiweMessage = {
+  domain: string;     // host[:port] asking for the sign-in
+  address: string;    // EIP-55 checksummed
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;      // at least 8 alphanumeric characters
+  issuedAt: string;   // ISO 8601
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+};
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+/** The exact text the wallet signs. */
+export function formatSiweMessage(m: SiweMessage): string {
+  const lines = [`${m.domain}${HEADER_SUFFIX}`, m.address, ""];
+  if (m.statement) lines.push(m.statement, "");
+  lines.push(
+    `URI: ${m.uri}`,
+    `Version: ${m.version}`,
+    `Chain ID: ${m.chainId}`,
+    `Nonce: ${m.nonce}`,
+    `Issued At: ${m.issuedAt}`
+  );
+  if (m.expirationTime) lines.push(`Expiration Time: ${m.expirationTime}`);
+  if (m.notBefore) lines.push(`Not Before: ${m.notBefore}`);
+  if (m.requestId !== undefined) lines.push(`Request ID: ${m.requestId}`);
+  if (m.resources?.length) lines.push("Resources:", ...m.resources.map(r => `- ${r}`));
+  return lines.join("\n");
+}
+
+const FIELDS: [key: keyof SiweMessage, label: string, required: boolean][] = [
+  ["uri", "URI", true],
+  ["version", "Version", true],
+  ["chainId", "Chain ID", true],
+  ["nonce", "Nonce", true],
+  ["issuedAt", "Issued At", true],
+  ["expirationTime", "Expiration Time", false],
+  ["notBefore", "Not Before", false],
+  ["requestId", "Request ID", false],
+];
+
+const isTimestamp = (value: string | undefined) =>
+  value === undefined || !Number.isNaN(Date.parse(value));
+
+/** Parses a message produced by `formatSiweMessage`; null when it is not valid EIP-4361. */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split("\n");
+  let i = 0;
+
+  const header = lines[i++];
+  if (!header?.endsWith(HEADER_SUFFIX)) return null;
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!domain || /\s/.test(domain)) return null;
+
+  const address = lines[i++];
+  if (!address || !ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    return null;
+  }
+  if (lines[i++] !== "") return null;
+
+  let statement: string | undefined;
+  if (lines[i] !== undefined && !lines[i].startsWith("URI: ")) {
+    statement = lines[i++];
+    if (lines[i++] !== "") return null;
+  }
+
+  const values: Partial<Record<keyof SiweMessage, string>> = {};
+  for (const [key, label, required] of FIELDS) {
+    const prefix = `${label}: `;
+    if (lines[i]?.startsWith(prefix)) {
+      values[key] = lines[i++].slice(prefix.length);
+    } else if (required) {
+      return null;
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[i] === "Resources:") {
+    i++;
+    resources = [];
+    while (lines[i]?.startsWith("- ")) resources.push(lines[i++].slice(2));
+  }
+  if (i !== lines.length) return null;
+
+  const chainId = Number(values.chainId);
+  if (values.version !== "1" || !Number.isInteger(chainId) || chainId <= 0) return null;
+  if (!/^[a-zA-Z0-9]{8,}$/.test(values.nonce!)) return null;
+  if (!isTimestamp(values.issuedAt) || !isTimestamp(values.expirationTime) || !isTimestamp(values.notBefore)) {
+    return null;
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: values.uri!,
+    version: "1",
+    chainId,
+    nonce: values.nonce!,
+    issuedAt: values.issuedAt!,
+    expirationTime: values.expirationTime,
+    notBefore: values.notBefore,
+    requestId: values.requestId,
+    resources,
+  };
+}
+
+/** Why `m` cannot be used at `now` (ms): past its expiration or before its notBefore; null when valid. */
+export function siweTimeError(m: SiweMessage, now = Date.now()): string | null {
+  if (m.expirationTime && Date.parse(m.expirationTime) <= now) return "Sign-in message expired";
+  if (m.notBefore && Date.parse(m.notBefore) > now) return "Sign-in message not valid yet";
+  return null;
+}
@@ -0,0 +1,165 @@
+// lib/tokenIndex.ts
+// Keeps the MemeToken index (metadata, progress, price, market cap, 24h volume)
+// in sync with the factory and the stored trades.
+import { ethers } from "ethers";
+import { tokenAbi } from "@/lib/abi/Token";
+import { tradePriceEth } from "@/lib/amounts";
+import { getFactoryServer, getRpcProvider } from "@/lib/ethersClient";
+import type { SocialLinks } from "@/lib/links";
+import { MemeToken } from "@/models/MemeToken";
+import { Trade } from "@/models/Trade";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let fundingGoal: bigint | null = null;
+
+/** TokenFactory.MEMECOIN_FUNDING_GOAL, read once per process. */
+export async function getFundingGoal(): Promise<bigint> {
+  if (fundingGoal === null) {
+    fundingGoal = (await getFactoryServer().MEMECOIN_FUNDING_GOAL()) as bigint;
+  }
+  return fundingGoal;
+}
+
+/** Curve completion in percent (two decimals), 100 once launched. */
+export const progressOf = (fundingRaised: bigint, goal: bigint, isLaunched: boolean) => {
+  if (isLaunched) return 100;
+  if (goal === 0n) return 0;
+  return Math.min(100, Number((fundingRaised * 10_000n) / goal) / 100);
+};
+
+/**
+ * Re-reads one token from addressToMemeToken and recomputes its trade stats.
+ * @returns false when the factory does not know the address
+ */
+export async function refreshTokenIndex(address: string): Promise<boolean> {
+  const token = address.toLowerCase();
+  const meme = await getFactoryServer().addressToMemeToken(token);
+  if ((meme.tokenAddress as string) === ethers.ZeroAddress) return false;
+
+  const erc20 = new ethers.Contract(token, tokenAbi, getRpcProvider());
+  const [goal, totalSupply, lastTrade, volume] = await Promise.all([
+    getFundingGoal(),
+    erc20.totalSupply() as Promise<bigint>,
+    Trade.findOne({ token })
+      .sort({ timestamp: -1, _id: -1 })
+      .lean<{ tokens?: number; eth?: number; priceWei?: string; timestamp: number }>(),
+    Trade.aggregate<{ eth: number; trades: number }>([
+      { $match: { token, timestamp: { $gte: Date.now() - DAY_MS } } },
+      { $group: { _id: null, eth: { $sum: "$eth" }, trades: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const fundingRaised = meme.fundingRaised as bigint;
+  const isLaunched = meme.isLaunched as boolean;
+  const price = lastTrade ? tradePriceEth(lastTrade) : 0;
+  const priceEth = Number.isFinite(price) ? price : 0;
+
+  await MemeToken.updateOne(
+    { address: token },
+    {
+      $set: {
+        name: meme.name,
+        symbol: meme.symbol,
+        description: meme.description,
+        tokenImageUrl: meme.tokenImageUrl,
+        creator: (meme.creatorAddress as string).toLowerCase(),
+        isLaunched,
+        fundingRaised: fundingRaised.toString(),
+        progress: progressOf(fundingRaised, goal, isLaunched),
+        totalSupply: totalSupply.toString(),
+        priceEth,
+        marketCapEth: priceEth * Number(ethers.formatUnits(totalSupply, 18)),
+        volume24hEth: volume[0]?.eth ?? 0,
+        trades24h: volume[0]?.trades ?? 0,
+        lastTradeAt: lastTrade?.timestamp,
+        indexRefreshedAt: Date.now(),
+      },
+      // Placeholder until the MemeTokenCreated log is indexed.
+      $setOnInsert: { createdAt: Date.now() },
+    },
+    { upsert: true }
+  );
+  return true;
+}
+
+/** Refreshes tokens created, launched or traded in [fromBlock, toBlock]. */
+export async function refreshTokensForBlocks(fromBlock: number, toBlock: number) {
+  const blocks = { $gte: fromBlock, $lte: toBlock };
+  const [traded, changed] = await Promise.all([
+    Trade.distinct("token", { blockNumber: blocks }),
+    MemeToken.distinct("address", { $or: [{ createdBlock: blocks }, { launchedBlock: blocks }] }),
+  ]);
+  const tokens = new Set<string>([...traded, ...changed]);
+  for (const token of tokens) await refreshTokenIndex(token);
+  return tokens.size;
+}
+
+/** Refreshes tokens whose 24h volume may have rolled off since the last refresh. */
+export async function refreshActiveTokens() {
+  const stale = await MemeToken.find(
+    { trades24h: { $gt: 0 } },
+    { address: 1 }
+  ).lean<{ address: string }[]>();
+  for (const { address } of stale) await refreshTokenIndex(address);
+  return stale.length;
+}
+
+export type IndexedToken = {
+  address: string;
+  name?: string;
+  symbol?: string;
+  description?: string;
+  tokenImageUrl?: string;
+  creator?: string;
+  fundingRaised?: string;
+  progress?: number;
+  isLaunched?: boolean;
+  createdAt?: number;
+  launchedAt?: number;
+  pairAddress?: string;
+  launchTx?: string;
+  ethForLP?: string;
+  listingFeeTaken?: string;
+  reserveToken?: string;
+  reserveSei?: string;
+  liquidityEth?: number;
+  totalSupply?: string;
+  priceEth?: number;
+  marketCapEth?: number;
+  volume24hEth?: number;
+  trades24h?: number;
+  lastTradeAt?: number;
+  links?: SocialLinks;
+  bannerUrl?: string;
+};
+
+/** API shape; field names follow TokenFactory.MemeToken so the UI can reuse its type. */
+export const toTokenResponse = (t: IndexedToken) => ({
+  tokenAddress: t.address,
+  name: t.name ?? "",
+  symbol: t.symbol ?? "",
+  description: t.description ?? "",
+  tokenImageUrl: t.tokenImageUrl ?? "",
+  creatorAddress: t.creator ?? null,
+  fundingRaised: t.fundingRaised ?? "0",
+  progress: t.progress ?? 0,
+  isLaunched: t.isLaunched ?? false,
+  createdAt: t.createdAt ?? null,
+  launchedAt: t.launchedAt ?? null,
+  pairAddress: t.pairAddress ?? null,
+  launchTx: t.launchTx ?? null,
+  ethForLP: t.ethForLP ?? null,
+  listingFeeTaken: t.listingFeeTaken ?? null,
+  reserveToken: t.reserveToken ?? null,
+  reserveSei: t.reserveSei ?? null,
+  liquidityEth: t.liquidityEth ?? 0,
+  totalSupply: t.totalSupply ?? null,
+  priceEth: t.priceEth ?? 0,
+  marketCapEth: t.marketCapEth ?? 0,
+  volume24hEth: t.volume24hEth ?? 0,
+  trades24h: t.trades24h ?? 0,
+  lastTradeAt: t.lastTradeAt ?? null,
+  links: t.links ?? {},
+  bannerUrl: t.bannerUrl ?? null,
+});
@@ -0,0 +1,214 @@
+// lib/trending.ts
+// Trending engine: scores tokens per window from their trades and stores the
+// ranking in TrendingSnapshot, so GET /api/trending only reads a document.
+//
+// Each component is scaled to 0-1:
+//   volume      – SEI volume with exponential time decay, log scaled against the top token
+//   traders     – unique traders, log scaled against the top token
+//   buyPressure – buys' share of SEI volume
+//   trades      – trade count with the same decay, log scaled against the top token
+//   recency     – decay of the time since the last trade
+// score = 100 * weighted mean of the components * (1 - whalePenalty * topTraderShare),
+// so volume that comes from a single wallet counts for less.
+import { Trade } from "@/models/Trade";
+import { TrendingSnapshot } from "@/models/TrendingSnapshot";
+
+export const TRENDING_WINDOWS = {
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+export type TrendingWindow = keyof typeof TRENDING_WINDOWS;
+
+export const isTrendingWindow = (value: string): value is TrendingWindow =>
+  Object.hasOwn(TRENDING_WINDOWS, value);
+
+// Entries kept per snapshot (the API's max limit).
+export const TRENDING_MAX_ENTRIES = 100;
+
+export type TrendingComponents = {
+  volume: number;
+  traders: number;
+  buyPressure: number;
+  trades: number;
+  recency: number;
+};
+
+export type TrendingEntry = {
+  token: string;
+  rank: number;
+  score: number;
+  components: TrendingComponents;
+  whalePenalty: number;
+  tradeCount: number;
+  buys: number;
+  sells: number;
+  uniqueTraders: number;
+  totalVolumeEth: number;
+  decayedVolumeEth: number;
+  topTraderShare: number;
+  lastTradeAt: number;
+};
+
+export type TrendingSnapshotDoc = {
+  window: TrendingWindow;
+  computedAt: number;
+  totalVolumeEth: number;
+  activeTokens: number;
+  entries: TrendingEntry[];
+};
+
+const floatFromEnv = (name: string, fallback: number) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return value;
+};
+
+// Read at call time, like the indexer config, so scripts can load .env first.
+export const getTrendingConfig = () => ({
+  weights: {
+    volume: floatFromEnv("TRENDING_WEIGHT_VOLUME", 0.35),
+    traders: floatFromEnv("TRENDING_WEIGHT_TRADERS", 0.25),
+    buyPressure: floatFromEnv("TRENDING_WEIGHT_BUY_PRESSURE", 0.1),
+    trades: floatFromEnv("TRENDING_WEIGHT_TRADES", 0.15),
+    recency: floatFromEnv("TRENDING_WEIGHT_RECENCY", 0.15),
+  } satisfies TrendingComponents,
+  // Decay half-life as a fraction of the window (0.25 of 24h = 6h).
+  halfLife: floatFromEnv("TRENDING_HALF_LIFE", 0.25),
+  whalePenalty: Math.min(1, floatFromEnv("TRENDING_WHALE_PENALTY", 0.5)),
+  refreshMs: floatFromEnv("TRENDING_REFRESH_MS", 60_000),
+});
+
+type TokenActivity = {
+  _id: string;
+  tradeCount: number;
+  buys: number;
+  volumeEth: number;
+  buyEth: number;
+  decayedVolumeEth: number;
+  decayedTrades: number;
+  uniqueTraders: number;
+  topTraderDecayedEth: number;
+  lastTradeAt: number;
+};
+
+const logScale = (value: number, max: number) =>
+  max > 0 ? Math.log1p(value) / Math.log1p(max) : 0;
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+/** Scores every token traded in `window` and replaces its snapshot. */
+export async function refreshTrending(window: TrendingWindow): Promise<TrendingSnapshotDoc> {
+  const { weights, halfLife, whalePenalty } = getTrendingConfig();
+  const windowMs = TRENDING_WINDOWS[window];
+  const halfLifeMs = Math.max(1, windowMs * halfLife);
+  const now = Date.now();
+
+  const activity = await Trade.aggregate<TokenActivity>([
+    { $match: { timestamp: { $gte: now - windowMs } } },
+    {
+      $addFields: {
+        ethValue: { $ifNull: ["$eth", 0] },
+        decay: { $pow: [0.5, { $divide: [{ $subtract: [now, "$timestamp"] }, halfLifeMs] }] },
+        isBuy: { $eq: ["$side", "buy"] },
+      },
+    },
+    // Per wallet first, for unique traders and the largest wallet's share.
+    {
+      $group: {
+        _id: { token: "$token", user: "$user" },
+        tradeCount: { $sum: 1 },
+        buys: { $sum: { $cond: ["$isBuy", 1, 0] } },
+        volumeEth: { $sum: "$ethValue" },
+        buyEth: { $sum: { $cond: ["$isBuy", "$ethValue", 0] } },
+        decayedVolumeEth: { $sum: { $multiply: ["$ethValue", "$decay"] } },
+        decayedTrades: { $sum: "$decay" },
+        lastTradeAt: { $max: "$timestamp" },
+      },
+    },
+    {
+      $group: {
+        _id: "$_id.token",
+        tradeCount: { $sum: "$tradeCount" },
+        buys: { $sum: "$buys" },
+        volumeEth: { $sum: "$volumeEth" },
+        buyEth: { $sum: "$buyEth" },
+        decayedVolumeEth: { $sum: "$decayedVolumeEth" },
+        decayedTrades: { $sum: "$decayedTrades" },
+        uniqueTraders: { $sum: 1 },
+        topTraderDecayedEth: { $max: "$decayedVolumeEth" },
+        lastTradeAt: { $max: "$lastTradeAt" },
+      },
+    },
+  ]);
+
+  const maxVolume = Math.max(0, ...activity.map(a => a.decayedVolumeEth));
+  const maxTraders = Math.max(0, ...activity.map(a => a.uniqueTraders));
+  const maxTrades = Math.max(0, ...activity.map(a => a.decayedTrades));
+  const weightSum = Object.values(weights).reduce((acc, w) => acc + w, 0) || 1;
+
+  const scored = activity.map(a => {
+    const components: TrendingComponents = {
+      volume: logScale(a.decayedVolumeEth, maxVolume),
+      traders: logScale(a.uniqueTraders, maxTraders),
+      buyPressure: a.volumeEth > 0 ? a.buyEth / a.volumeEth : 0.5,
+      trades: logScale(a.decayedTrades, maxTrades),
+      recency: Math.pow(0.5, (now - a.lastTradeAt) / halfLifeMs),
+    };
+    const weighted = (Object.keys(weights) as (keyof TrendingComponents)[])
+      .reduce((acc, key) => acc + weights[key] * components[key], 0) / weightSum;
+    const topTraderShare = a.decayedVolumeEth > 0 ? a.topTraderDecayedEth / a.decayedVolumeEth : 1;
+    const penalty = 1 - whalePenalty * topTraderShare;
+
+    return {
+      token: a._id,
+      rank: 0,
+      score: round(100 * weighted * penalty, 2),
+      components: {
+        volume: round(components.volume),
+        traders: round(components.traders),
+        buyPressure: round(components.buyPressure),
+        trades: round(components.trades),
+        recency: round(components.recency),
+      },
+      whalePenalty: round(penalty),
+      tradeCount: a.tradeCount,
+      buys: a.buys,
+      sells: a.tradeCount - a.buys,
+      uniqueTraders: a.uniqueTraders,
+      totalVolumeEth: a.volumeEth,
+      decayedVolumeEth: a.decayedVolumeEth,
+      topTraderShare: round(topTraderShare),
+      lastTradeAt: a.lastTradeAt,
+    } satisfies TrendingEntry;
+  });
+
+  const entries = scored
+    .sort((a, b) => b.score - a.score || b.lastTradeAt - a.lastTradeAt)
+    .slice(0, TRENDING_MAX_ENTRIES)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+
+  const snapshot: TrendingSnapshotDoc = {
+    window,
+    computedAt: now,
+    totalVolumeEth: activity.reduce((acc, a) => acc + a.volumeEth, 0),
+    activeTokens: activity.length,
+    entries,
+  };
+  await TrendingSnapshot.updateOne({ window }, { $set: snapshot }, { upsert: true });
+  return snapshot;
+}
+
+/** Recomputes every window; called by the indexer every TRENDING_REFRESH_MS. */
+export async function refreshAllTrending() {
+  for (const window of Object.keys(TRENDING_WINDOWS) as TrendingWindow[]) {
+    await refreshTrending(window);
+  }
+}
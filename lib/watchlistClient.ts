@@ -0,0 +1,100 @@
+// lib/watchlistClient.ts
+// Browser watchlist shared by every component on the page. Signed-in wallets use
+// the server list (/api/watchlist); otherwise it lives in localStorage, and is
+// merged into the server list on the next sign-in.
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import axios from "axios";
+import { useAuthSession } from "@/lib/authClient";
+
+const STORAGE_KEY = "seifun:watchlist";
+const EMPTY: string[] = [];
+
+let owner: string | null = null; // wallet the list was loaded for, "local" when signed out
+let addresses: string[] = EMPTY;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(l => l());
+
+const setList = (next: string[]) => {
+  addresses = next;
+  notify();
+};
+
+const readLocal = (): string[] => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((a): a is string => typeof a === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (list: string[]) => {
+  if (list.length === 0) window.localStorage.removeItem(STORAGE_KEY);
+  else window.localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+};
+
+async function load(wallet: string | null) {
+  const key = wallet ?? "local";
+  if (owner === key) return;
+  owner = key;
+  if (!wallet) {
+    setList(readLocal());
+    return;
+  }
+  try {
+    const local = readLocal();
+    const res = local.length > 0
+      ? await axios.post("/api/watchlist", { tokens: local })
+      : await axios.get("/api/watchlist");
+    writeLocal([]);
+    if (owner === key) setList(res.data.addresses);
+  } catch (e) {
+    console.error("Failed to load watchlist", e);
+    if (owner === key) setList(readLocal());
+  }
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** The watchlist (lowercase token addresses, oldest first) and a toggle. */
+export function useWatchlist() {
+  const session = useAuthSession();
+  const wallet = session.loading ? null : session.address;
+
+  useEffect(() => {
+    if (!session.loading) load(wallet);
+  }, [session.loading, wallet]);
+
+  const list = useSyncExternalStore(subscribe, () => addresses, () => EMPTY);
+
+  const isWatched = useCallback(
+    (token: string) => list.includes(token.toLowerCase()),
+    [list]
+  );
+
+  const toggle = useCallback(
+    async (token: string) => {
+      const key = token.toLowerCase();
+      const watched = addresses.includes(key);
+      if (!wallet) {
+        const next = watched ? addresses.filter(a => a !== key) : [...addresses, key];
+        writeLocal(next);
+        setList(next);
+        return;
+      }
+      const res = watched
+        ? await axios.delete("/api/watchlist", { params: { token: key } })
+        : await axios.post("/api/watchlist", { tokens: [key] });
+      setList(res.data.addresses);
+    },
+    [wallet]
+  );
+
+  return { addresses: list, isWatched, toggle, synced: Boolean(wallet) };
+}
@@ -0,0 +1,63 @@
+// lib/webhooks.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { signWebhook, verifyWebhookSignature } from "./webhooks";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ id: "0xabc:1", type: "ping", createdAt: 0, data: {} });
+
+describe("signWebhook", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const headers = signWebhook(SECRET, BODY, 1_700_000_000);
+    const expected = createHmac("sha256", SECRET).update(`1700000000.${BODY}`).digest("hex");
+    assert.deepEqual(headers, {
+      "X-SeiFun-Timestamp": "1700000000",
+      "X-SeiFun-Signature": `sha256=${expected}`,
+    });
+  });
+
+  it("defaults to the current time", () => {
+    const before = Math.floor(Date.now() / 1000);
+    const ts = Number(signWebhook(SECRET, BODY)["X-SeiFun-Timestamp"]);
+    assert.ok(ts >= before && ts <= before + 1);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const signed = signWebhook(SECRET, BODY, now);
+  const verify = (secret: string, body: string, headers = signed, toleranceSec?: number) =>
+    verifyWebhookSignature(
+      secret,
+      body,
+      headers["X-SeiFun-Timestamp"],
+      headers["X-SeiFun-Signature"],
+      toleranceSec
+    );
+
+  it("accepts its own signature", () => {
+    assert.equal(verify(SECRET, BODY), true);
+  });
+
+  it("rejects another secret or a changed body", () => {
+    assert.equal(verify("whsec_other", BODY), false);
+    assert.equal(verify(SECRET, `${BODY} `), false);
+  });
+
+  it("rejects a timestamp the signature was not made for", () => {
+    const headers = { ...signed, "X-SeiFun-Timestamp": String(now - 1) };
+    assert.equal(verify(SECRET, BODY, headers), false);
+  });
+
+  it("rejects stale timestamps", () => {
+    const old = signWebhook(SECRET, BODY, now - 600);
+    assert.equal(verify(SECRET, BODY, old), false);
+    assert.equal(verify(SECRET, BODY, old, 900), true);
+  });
+
+  it("rejects malformed headers", () => {
+    assert.equal(verify(SECRET, BODY, { ...signed, "X-SeiFun-Signature": "sha256=00" }), false);
+    assert.equal(verify(SECRET, BODY, { ...signed, "X-SeiFun-Timestamp": "soon" }), false);
+  });
+});
@@ -0,0 +1,489 @@
+// lib/webhooks.ts
+// Outbound webhooks for factory events. The indexer queues one WebhookDelivery
+// per matching subscription once a factory log's block is final, then POSTs due
+// deliveries one batch per loop, retrying failures with exponential backoff until
+// WEBHOOK_MAX_ATTEMPTS, after which they land in the dead-letter queue (status "dead").
+//
+// Each request carries:
+//   X-SeiFun-Event      event type
+//   X-SeiFun-Delivery   delivery id (stable across retries)
+//   X-SeiFun-Timestamp  unix seconds of this attempt
+//   X-SeiFun-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed by the secret>
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { ethers } from "ethers";
+import { Types } from "mongoose";
+import { splitBuyFee, splitSellFee, priceWeiOf } from "@/lib/amounts";
+import { parseFactoryLog } from "@/lib/indexer/factoryEvents";
+import { checkHttpsUrl } from "@/lib/links";
+import { MemeToken } from "@/models/MemeToken";
+import { WebhookDelivery } from "@/models/WebhookDelivery";
+import { WebhookSubscription } from "@/models/WebhookSubscription";
+
+export const WEBHOOK_EVENTS = [
+  "token.created",
+  "token.bought",
+  "token.sold",
+  "token.launched",
+  "listingFee.updated",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+const EVENT_BY_LOG: Record<string, WebhookEventType> = {
+  MemeTokenCreated: "token.created",
+  TokenBought: "token.bought",
+  TokenSold: "token.sold",
+  TokenLaunched: "token.launched",
+  ListingFeeUpdated: "listingFee.updated",
+};
+
+export const WEBHOOK_URL_MAX_LENGTH = 500;
+// Requests slower than this count as failed attempts.
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Deliveries sent per indexer loop, so a backlog cannot hold up indexing.
+const DELIVERY_BATCH = 50;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export type WebhookFilters = { tokens: string[]; creators: string[]; minEth: number };
+
+export type WebhookSubscriptionDoc = {
+  _id: Types.ObjectId;
+  owner: string;
+  url: string;
+  secret: string;
+  description: string;
+  events: WebhookEventType[];
+  filters: WebhookFilters;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type WebhookDeliveryDoc = {
+  _id: Types.ObjectId;
+  subscription: Types.ObjectId;
+  eventId: string;
+  event: string;
+  payload: WebhookPayload;
+  status: "pending" | "delivered" | "dead";
+  attempts: number;
+  nextAttemptAt: Date;
+  lastAttemptAt?: Date;
+  lastStatus?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+};
+
+/** JSON body of every delivery. */
+export type WebhookPayload = {
+  id: string;
+  type: WebhookEventType | "ping";
+  createdAt: number; // ms, when the event was queued
+  data: Record<string, unknown>;
+};
+
+type FactoryEvent = {
+  id: string;
+  type: WebhookEventType;
+  token: string | null;
+  creator: string | null;
+  eth: number | null; // SEI size of trade events
+  data: Record<string, unknown>;
+};
+
+const intFromEnv = (name: string, fallback: number) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`${name} must be a positive integer`);
+  return value;
+};
+
+/** Attempts before a delivery moves to the dead-letter queue (WEBHOOK_MAX_ATTEMPTS, default 8). */
+export const getWebhookMaxAttempts = () => intFromEnv("WEBHOOK_MAX_ATTEMPTS", 8);
+
+/** First retry delay, doubled on every further failure (WEBHOOK_RETRY_BASE_MS, default 30 s). */
+export const getWebhookRetryBaseMs = () => intFromEnv("WEBHOOK_RETRY_BASE_MS", 30_000);
+
+export const retryDelayMs = (attempts: number) =>
+  Math.min(MAX_BACKOFF_MS, getWebhookRetryBaseMs() * 2 ** Math.max(0, attempts - 1));
+
+export const isWebhookEvent = (value: unknown): value is WebhookEventType =>
+  typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/** Headers for one attempt of `body`. */
+export function signWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return {
+    "X-SeiFun-Timestamp": String(timestamp),
+    "X-SeiFun-Signature": `sha256=${hmac(secret, timestamp, body)}`,
+  };
+}
+
+/**
+ * For receivers: whether `signature` (the X-SeiFun-Signature header) matches
+ * `body` and `timestamp`, and the timestamp is within `toleranceSec` of now.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  timestamp: string,
+  signature: string,
+  toleranceSec = 300
+) {
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || Math.abs(Date.now() / 1000 - ts) > toleranceSec) return false;
+  const expected = Buffer.from(`sha256=${hmac(secret, ts, body)}`);
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Checks a subscription URL: https, or plain http outside production so a local
+ * receiver can be used for testing.
+ */
+export function checkWebhookUrl(value: string): string | null {
+  if (process.env.NODE_ENV !== "production" && value.startsWith("http://")) {
+    if (value.length > WEBHOOK_URL_MAX_LENGTH) return "Webhook URL is too long";
+    try {
+      new URL(value);
+      return null;
+    } catch {
+      return "Webhook URL is not a valid link";
+    }
+  }
+  return checkHttpsUrl(value, "Webhook URL", WEBHOOK_URL_MAX_LENGTH);
+}
+
+type SubscriptionInput = {
+  url?: string;
+  description?: string;
+  events?: WebhookEventType[];
+  filters?: WebhookFilters;
+  enabled?: boolean;
+};
+
+const addressList = (value: unknown, label: string): string[] | { error: string } => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(v => typeof v === "string" && ethers.isAddress(v))) {
+    return { error: `${label} must be a list of addresses` };
+  }
+  return [...new Set(value.map(v => (v as string).toLowerCase()))];
+};
+
+/**
+ * Validates a POST / PATCH body. With `partial`, missing fields are left out
+ * instead of defaulted.
+ */
+export function parseSubscriptionInput(raw: unknown, partial = false): SubscriptionInput | { error: string } {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const out: SubscriptionInput = {};
+
+  if (input.url !== undefined || !partial) {
+    if (typeof input.url !== "string") return { error: "url is required" };
+    const url = input.url.trim();
+    const urlError = checkWebhookUrl(url);
+    if (urlError) return { error: urlError };
+    out.url = url;
+  }
+  if (input.description !== undefined || !partial) {
+    const description = typeof input.description === "string" ? input.description.trim() : "";
+    if (description.length > 200) return { error: "description is too long" };
+    out.description = description;
+  }
+  if (input.events !== undefined || !partial) {
+    const events = input.events ?? [];
+    if (!Array.isArray(events) || !events.every(isWebhookEvent)) {
+      return { error: `events must be a list of ${WEBHOOK_EVENTS.join(", ")}` };
+    }
+    out.events = [...new Set(events)];
+  }
+  if (input.filters !== undefined || !partial) {
+    const filters = (input.filters ?? {}) as Record<string, unknown>;
+    const tokens = addressList(filters.tokens, "filters.tokens");
+    if ("error" in tokens) return tokens;
+    const creators = addressList(filters.creators, "filters.creators");
+    if ("error" in creators) return creators;
+    const minEth = filters.minEth === undefined ? 0 : Number(filters.minEth);
+    if (!Number.isFinite(minEth) || minEth < 0) return { error: "filters.minEth must be a non-negative number" };
+    out.filters = { tokens, creators, minEth };
+  }
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") return { error: "enabled must be true or false" };
+    out.enabled = input.enabled;
+  }
+  return out;
+}
+
+/** API shape of a subscription; the secret is only returned on creation / rotation. */
+export const toSubscriptionResponse = (s: WebhookSubscriptionDoc, withSecret = false) => ({
+  id: s._id.toString(),
+  url: s.url,
+  description: s.description,
+  events: s.events,
+  filters: s.filters,
+  enabled: s.enabled,
+  createdAt: s.createdAt.getTime(),
+  updatedAt: s.updatedAt.getTime(),
+  ...(withSecret ? { secret: s.secret } : {}),
+});
+
+/** API shape of a delivery log row. */
+export const toDeliveryResponse = (d: WebhookDeliveryDoc) => ({
+  id: d._id.toString(),
+  eventId: d.eventId,
+  event: d.event,
+  status: d.status,
+  attempts: d.attempts,
+  nextAttemptAt: d.status === "pending" ? d.nextAttemptAt.getTime() : null,
+  lastAttemptAt: d.lastAttemptAt?.getTime() ?? null,
+  lastStatus: d.lastStatus ?? null,
+  lastError: d.lastError ?? null,
+  deliveredAt: d.deliveredAt?.getTime() ?? null,
+  createdAt: d.createdAt.getTime(),
+  payload: d.payload,
+});
+
+/** Maps a factory log to its webhook event, or null for logs that are not forwarded. */
+function factoryEventFromLog(log: ethers.Log): FactoryEvent | null {
+  const parsed = parseFactoryLog(log);
+  const type = parsed && EVENT_BY_LOG[parsed.name];
+  if (!parsed || !type) return null;
+  const args = parsed.args;
+  const base = {
+    txHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+  };
+  const id = `${log.transactionHash}:${log.index}`;
+
+  if (type === "listingFee.updated") {
+    return {
+      id,
+      type,
+      token: null,
+      creator: null,
+      eth: null,
+      data: { ...base, newListingFeeWei: (args.newListingFee as bigint).toString() },
+    };
+  }
+
+  const token = (args.tokenAddress as string).toLowerCase();
+  const timestamp = Number(args.timestamp) * 1000;
+  if (type === "token.created") {
+    const creator = (args.creator as string).toLowerCase();
+    return { id, type, token, creator, eth: null, data: { ...base, token, creator, timestamp } };
+  }
+  if (type === "token.launched") {
+    return {
+      id,
+      type,
+      token,
+      creator: null,
+      eth: null,
+      data: {
+        ...base,
+        token,
+        ethForLPWei: (args.ethForLP as bigint).toString(),
+        listingFeeTakenWei: (args.listingFeeTaken as bigint).toString(),
+        timestamp,
+      },
+    };
+  }
+
+  // TokenBought / TokenSold, in the units of the Trade collection.
+  const isBuy = type === "token.bought";
+  const tokensRaw = (args.tokenQty as bigint) * 10n ** 18n;
+  const ethWei = (isBuy ? args.totalPaid : args.netRefund) as bigint;
+  const { amount, fee } = isBuy ? splitBuyFee(ethWei) : splitSellFee(ethWei);
+  const eth = Number(ethers.formatEther(ethWei));
+  return {
+    id,
+    type,
+    token,
+    creator: null,
+    eth,
+    data: {
+      ...base,
+      token,
+      trader: ((isBuy ? args.buyer : args.seller) as string).toLowerCase(),
+      side: isBuy ? "buy" : "sell",
+      tokens: Number(args.tokenQty),
+      tokensRaw: tokensRaw.toString(),
+      eth,
+      ethWei: ethWei.toString(),
+      feeWei: fee.toString(),
+      priceWei: priceWeiOf(amount, tokensRaw).toString(),
+      timestamp,
+    },
+  };
+}
+
+const matches = (s: WebhookSubscriptionDoc, e: FactoryEvent) => {
+  if (s.events.length > 0 && !s.events.includes(e.type)) return false;
+  const { tokens, creators, minEth } = s.filters;
+  // Token / creator filters drop events without a token (listing fee updates).
+  if (tokens.length > 0 && (!e.token || !tokens.includes(e.token))) return false;
+  if (creators.length > 0 && (!e.creator || !creators.includes(e.creator))) return false;
+  if (minEth > 0 && e.eth !== null && e.eth < minEth) return false;
+  return true;
+};
+
+/**
+ * Queues deliveries for the forwarded events among `logs`, from finalized blocks
+ * that are already applied (so new tokens have their creator indexed). Re-queuing an event is a no-op, so
+ * re-indexed blocks are not sent twice.
+ * @returns number of deliveries queued
+ */
+export async function enqueueFactoryWebhooks(logs: readonly ethers.Log[]): Promise<number> {
+  const events = logs.map(factoryEventFromLog).filter((e): e is FactoryEvent => e !== null);
+  if (events.length === 0) return 0;
+  const subscriptions = await WebhookSubscription.find({ enabled: true }).lean<WebhookSubscriptionDoc[]>();
+  if (subscriptions.length === 0) return 0;
+
+  // Creator of each traded / launched token, for the creator filter.
+  const tokens = [...new Set(events.filter(e => e.token && !e.creator).map(e => e.token!))];
+  if (tokens.length > 0) {
+    const rows = await MemeToken.find({ address: { $in: tokens } }, { address: 1, creator: 1 })
+      .lean<{ address: string; creator?: string }[]>();
+    const creators = new Map(rows.map(r => [r.address, r.creator ?? null]));
+    for (const e of events) if (e.token && !e.creator) e.creator = creators.get(e.token) ?? null;
+  }
+
+  const createdAt = Date.now();
+  const ops = events.flatMap(e =>
+    subscriptions
+      .filter(s => matches(s, e))
+      .map(s => ({
+        updateOne: {
+          filter: { subscription: s._id, eventId: e.id },
+          update: {
+            $setOnInsert: {
+              subscription: s._id,
+              eventId: e.id,
+              event: e.type,
+              payload: { id: e.id, type: e.type, createdAt, data: { ...e.data, creator: e.creator } },
+              status: "pending",
+              attempts: 0,
+              nextAttemptAt: new Date(createdAt),
+            },
+          },
+          upsert: true,
+        },
+      }))
+  );
+  if (ops.length === 0) return 0;
+  const result = await WebhookDelivery.bulkWrite(ops, { ordered: false });
+  return result.upsertedCount;
+}
+
+/** Queues a "ping" delivery to `subscription`, to test the endpoint. */
+export async function enqueuePing(subscription: Types.ObjectId) {
+  const id = `ping:${new Types.ObjectId().toString()}`;
+  return WebhookDelivery.create({
+    subscription,
+    eventId: id,
+    event: "ping",
+    payload: { id, type: "ping", createdAt: Date.now(), data: {} },
+  });
+}
+
+/** Sends one delivery and records the outcome. */
+async function attemptDelivery(
+  d: WebhookDeliveryDoc,
+  s: WebhookSubscriptionDoc
+): Promise<"delivered" | "failed"> {
+  const now = new Date();
+  const body = JSON.stringify(d.payload);
+  let status: number | undefined;
+  let error: string | undefined;
+  try {
+    const res = await fetch(s.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "SeiFun-Webhooks/1",
+        "X-SeiFun-Event": d.event,
+        "X-SeiFun-Delivery": d._id.toString(),
+        ...signWebhook(s.secret, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    status = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const attempts = d.attempts + 1;
+  if (!error) {
+    await WebhookDelivery.updateOne(
+      { _id: d._id },
+      {
+        $set: { status: "delivered", attempts, lastAttemptAt: now, lastStatus: status, deliveredAt: now },
+        $unset: { lastError: 1 },
+      }
+    );
+    return "delivered";
+  }
+  const dead = attempts >= getWebhookMaxAttempts();
+  await WebhookDelivery.updateOne(
+    { _id: d._id },
+    {
+      $set: {
+        status: dead ? "dead" : "pending",
+        attempts,
+        lastAttemptAt: now,
+        lastError: error.slice(0, 500),
+        nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts)),
+        ...(status === undefined ? {} : { lastStatus: status }),
+      },
+      ...(status === undefined ? { $unset: { lastStatus: 1 } } : {}),
+    }
+  );
+  return "failed";
+}
+
+/**
+ * Sends up to DELIVERY_BATCH due deliveries of enabled subscriptions in parallel,
+ * oldest first; the rest wait for the next call. Deliveries of a paused
+ * subscription stay queued, without using attempts, until it is resumed.
+ * @returns counts of delivered and failed attempts
+ */
+export async function deliverDueWebhooks() {
+  const active = await WebhookSubscription.find({ enabled: true }).lean<WebhookSubscriptionDoc[]>();
+  if (active.length === 0) return { delivered: 0, failed: 0 };
+  const subscriptions = new Map(active.map(s => [s._id.toString(), s]));
+  const due = await WebhookDelivery.find({
+    status: "pending",
+    nextAttemptAt: { $lte: new Date() },
+    subscription: { $in: active.map(s => s._id) },
+  })
+    .sort({ nextAttemptAt: 1, _id: 1 })
+    .limit(DELIVERY_BATCH)
+    .lean<WebhookDeliveryDoc[]>();
+  if (due.length === 0) return { delivered: 0, failed: 0 };
+  const results = await Promise.all(
+    due.map(d => attemptDelivery(d, subscriptions.get(d.subscription.toString())!))
+  );
+  return {
+    delivered: results.filter(r => r === "delivered").length,
+    failed: results.filter(r => r === "failed").length,
+  };
+}
+
+/** Moves a dead (or still pending) delivery back to the front of the queue. */
+export async function requeueDelivery(id: Types.ObjectId | string) {
+  return WebhookDelivery.findOneAndUpdate(
+    { _id: id, status: { $ne: "delivered" } },
+    { $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() } },
+    { new: true }
+  ).lean<WebhookDeliveryDoc>();
+}
@@ -0,0 +1,33 @@
+// models/AlertRule.ts
+import { Schema, models, model } from "mongoose";
+
+// A wallet's alert on one token, evaluated by the indexer (lib/alerts.ts).
+// Condition alerts fire when their condition becomes true and re-arm once it is
+// false again; graduation alerts fire once and are then disabled.
+const AlertRuleSchema = new Schema(
+  {
+    wallet: { type: String, required: true }, // lowercase, from the session
+    token: { type: String, required: true },  // lowercase token address
+    kind: {
+      type: String,
+      enum: ["priceAbove", "priceBelow", "percentChange", "progressAbove", "graduated", "largeTrade"],
+      required: true,
+    },
+    // SEI per token (price*), signed percent (percentChange), percent (progressAbove)
+    // or SEI (largeTrade); unused for graduated.
+    threshold: Number,
+    window: { type: String, enum: ["5m", "1h", "6h", "24h"] }, // percentChange only
+    enabled: { type: Boolean, default: true },
+    active: { type: Boolean, default: false }, // condition held at the last evaluation
+    checkedAt: Date,     // largeTrade: trades inserted up to here were checked
+    armedAt: Date,       // largeTrade: trades inserted before this are ignored
+    seenTrades: [{ type: Schema.Types.ObjectId }], // largeTrade: hits near checkedAt, already sent
+    lastTriggeredAt: Date,
+  },
+  { timestamps: true }
+);
+
+AlertRuleSchema.index({ wallet: 1, createdAt: -1 });
+AlertRuleSchema.index({ enabled: 1, token: 1 });
+
+export const AlertRule = models.AlertRule || model("AlertRule", AlertRuleSchema);
@@ -0,0 +1,13 @@
+// models/AuthNonce.ts
+import { Schema, models, model } from "mongoose";
+
+// Sign-In with Ethereum nonce: single use, removed when a sign-in consumes it
+// or by the TTL index once it expires.
+const AuthNonceSchema = new Schema({
+  nonce: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+});
+
+AuthNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AuthNonce = models.AuthNonce || model("AuthNonce", AuthNonceSchema);
@@ -0,0 +1,18 @@
+// models/AuthSession.ts
+import { Schema, models, model } from "mongoose";
+
+// A signed-in wallet. The cookie holds a random token; only its SHA-256 is stored.
+const AuthSessionSchema = new Schema(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    address: { type: String, required: true }, // lowercase
+    chainId: Number,
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+AuthSessionSchema.index({ address: 1 });
+
+export const AuthSession = models.AuthSession || model("AuthSession", AuthSessionSchema);
@@ -0,0 +1,27 @@
+// models/Candle.ts
+import { Schema, models, model } from "mongoose";
+
+// OHLCV rollup per token / interval / bucket, rebuilt from Trade by lib/candles.ts.
+// Two series are kept: all trades, and final-only (status "final").
+const CandleSchema = new Schema(
+  {
+    token: String,
+    interval: { type: String, enum: ["1m", "5m", "15m", "1h", "4h", "1d"] },
+    final: Boolean,
+    bucketStart: Number, // ms since epoch, aligned to the interval
+    open: Number,  // SEI per token
+    high: Number,
+    low: Number,
+    close: Number,
+    volume: Number,    // tokens traded
+    volumeEth: Number, // SEI traded
+    volumeWei: String, // SEI traded, wei decimal string
+    trades: Number
+  },
+  { timestamps: true }
+);
+
+CandleSchema.index({ token: 1, interval: 1, final: 1, bucketStart: 1 }, { unique: true });
+
+export const Candle =
+  models.Candle || model("Candle", CandleSchema);
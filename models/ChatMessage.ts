@@ -0,0 +1,24 @@
+// models/ChatMessage.ts
+import { Schema, models, model } from "mongoose";
+
+// A message in the /livestream chat room. Deleted messages keep their row,
+// without body, so the activity stream can tell viewers to drop them.
+const ChatMessageSchema = new Schema(
+  {
+    author: { type: String, required: true }, // lowercase wallet, from the session
+    body: { type: String, default: "" },
+    session: String,                          // slug of the stream session live when posted
+    deletedAt: Date,
+    deletedBy: String,                        // lowercase wallet of the author, host or admin
+  },
+  { timestamps: true }
+);
+
+// Chat history is kept for a week.
+ChatMessageSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+ChatMessageSchema.index({ author: 1, createdAt: -1 });
+// Cursor of GET /api/stream/activity.
+ChatMessageSchema.index({ updatedAt: 1 });
+
+export const ChatMessage =
+  models.ChatMessage || model("ChatMessage", ChatMessageSchema);
@@ -0,0 +1,24 @@
+// models/Comment.ts
+import { Schema, models, model } from "mongoose";
+
+// A post in a token's comment thread. Replies point at a top-level comment
+// (threads are one level deep). Deleted comments keep their row, without body
+// or image, so their replies stay in place.
+const CommentSchema = new Schema(
+  {
+    token: { type: String, required: true },  // lowercase token address
+    author: { type: String, required: true }, // lowercase wallet, from the session
+    body: { type: String, default: "" },
+    imageUrl: String,                          // https link, rendered inline
+    parentId: { type: Schema.Types.ObjectId, default: null },
+    replyCount: { type: Number, default: 0 },  // top-level comments only
+    deletedAt: Date,
+    deletedBy: String,                         // lowercase wallet of the author, creator or admin
+  },
+  { timestamps: true }
+);
+
+CommentSchema.index({ token: 1, parentId: 1, createdAt: -1 });
+CommentSchema.index({ author: 1, createdAt: -1 });
+
+export const Comment = models.Comment || model("Comment", CommentSchema);
@@ -0,0 +1,20 @@
+// models/CompetitionRegistration.ts
+import { Schema, models, model } from "mongoose";
+
+// A wallet's signed entry into a season. The message and signature are kept as proof.
+const CompetitionRegistrationSchema = new Schema(
+  {
+    season: { type: String, required: true }, // CompetitionSeason.slug
+    wallet: { type: String, required: true }, // lowercase
+    message: { type: String, required: true },
+    signature: { type: String, required: true },
+    registeredAt: { type: Number, required: true },
+  },
+  { timestamps: true }
+);
+
+CompetitionRegistrationSchema.index({ season: 1, wallet: 1 }, { unique: true });
+
+export const CompetitionRegistration =
+  models.CompetitionRegistration ||
+  model("CompetitionRegistration", CompetitionRegistrationSchema);
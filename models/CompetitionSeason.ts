@@ -0,0 +1,39 @@
+// models/CompetitionSeason.ts
+import { Schema, models, model } from "mongoose";
+
+const PrizeTierSchema = new Schema(
+  {
+    fromRank: { type: Number, required: true }, // inclusive
+    toRank: { type: Number, required: true },   // inclusive
+    prize: { type: String, required: true },    // free text, e.g. "500 SEI"
+  },
+  { _id: false }
+);
+
+// A trading competition season, created with `npm run competition:season`.
+// score = volume * volumeEth + realizedPnl * realizedPnlEth + trades * trades
+const CompetitionSeasonSchema = new Schema(
+  {
+    slug: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    description: String,
+    startAt: { type: Number, required: true }, // ms since epoch, inclusive
+    endAt: { type: Number, required: true },   // ms since epoch, exclusive
+    eligibleTokens: { type: [String], default: [] }, // lowercase; empty = every factory token
+    scoring: {
+      volume: { type: Number, default: 1 },
+      realizedPnl: { type: Number, default: 0 },
+      trades: { type: Number, default: 0 },
+    },
+    minVolumeEth: { type: Number, default: 0 }, // below this a wallet is listed but not ranked
+    prizeTiers: { type: [PrizeTierSchema], default: [] },
+    lastSnapshotAt: Number,
+    finalizedAt: Number, // set with the final snapshot; the season is frozen afterwards
+  },
+  { timestamps: true }
+);
+
+CompetitionSeasonSchema.index({ startAt: -1 });
+
+export const CompetitionSeason =
+  models.CompetitionSeason || model("CompetitionSeason", CompetitionSeasonSchema);
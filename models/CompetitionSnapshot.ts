@@ -0,0 +1,40 @@
+// models/CompetitionSnapshot.ts
+import { Schema, models, model } from "mongoose";
+
+const CompetitionStandingSchema = new Schema(
+  {
+    rank: Number, // null below the season's minVolumeEth
+    wallet: String,
+    score: Number,
+    volumeEth: Number,
+    trades: Number,
+    realizedPnlEth: Number,
+    lastTradeAt: Number,
+    prize: String,
+  },
+  { _id: false }
+);
+
+// Standings of every registered wallet at one point of a season, written by
+// lib/competition.ts. The snapshot with `final: true` is the frozen result.
+const CompetitionSnapshotSchema = new Schema(
+  {
+    season: { type: String, required: true }, // CompetitionSeason.slug
+    computedAt: { type: Number, required: true },
+    // Trades up to this time are counted (min of computedAt and the season end).
+    cutoff: { type: Number, required: true },
+    final: { type: Boolean, default: false },
+    participants: Number,
+    entries: [CompetitionStandingSchema], // ranked first, best first
+  },
+  { timestamps: true }
+);
+
+CompetitionSnapshotSchema.index({ season: 1, computedAt: -1 });
+CompetitionSnapshotSchema.index(
+  { season: 1, final: 1 },
+  { unique: true, partialFilterExpression: { final: true } }
+);
+
+export const CompetitionSnapshot =
+  models.CompetitionSnapshot || model("CompetitionSnapshot", CompetitionSnapshotSchema);
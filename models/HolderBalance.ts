@@ -0,0 +1,20 @@
+// models/HolderBalance.ts
+import { Schema, models, model } from "mongoose";
+
+// Per-wallet token balance, maintained from TokenTransfer logs.
+const HolderBalanceSchema = new Schema(
+  {
+    token: { type: String, required: true },
+    address: { type: String, required: true },
+    balance: Schema.Types.Decimal128,      // raw units, includes pending transfers
+    finalBalance: Schema.Types.Decimal128  // raw units, final transfers only
+  },
+  { timestamps: true }
+);
+
+HolderBalanceSchema.index({ token: 1, address: 1 }, { unique: true });
+HolderBalanceSchema.index({ token: 1, balance: -1 });
+HolderBalanceSchema.index({ token: 1, finalBalance: -1 });
+
+export const HolderBalance =
+  models.HolderBalance || model("HolderBalance", HolderBalanceSchema);
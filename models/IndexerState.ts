@@ -0,0 +1,15 @@
+// models/IndexerState.ts
+import { Schema, models, model } from "mongoose";
+
+// Checkpoints for the chain indexers, keyed by stream name (e.g. "factory").
+const IndexerStateSchema = new Schema(
+  {
+    key: { type: String, required: true, unique: true },
+    lastBlock: { type: Number, required: true }, // last fully processed block
+    lastBlockHash: String // hash of lastBlock when it was processed, for reorg checks
+  },
+  { timestamps: true }
+);
+
+export const IndexerState =
+  models.IndexerState || model("IndexerState", IndexerStateSchema);
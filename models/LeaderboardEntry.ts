@@ -0,0 +1,31 @@
+// models/LeaderboardEntry.ts
+import { Schema, models, model } from "mongoose";
+
+// One wallet's trading stats over one leaderboard window, rebuilt by lib/leaderboard.ts.
+const LeaderboardEntrySchema = new Schema(
+  {
+    window: { type: String, enum: ["24h", "7d", "30d", "all"], required: true },
+    user: { type: String, required: true }, // lowercase wallet
+    volumeEth: Number,      // SEI traded, both sides
+    trades: Number,
+    buys: Number,
+    sells: Number,
+    realizedPnlEth: Number, // from sells inside the window, cost basis from all earlier trades
+    costSoldEth: Number,    // cost basis of the tokens sold inside the window
+    roi: Number,            // realizedPnlEth / costSoldEth; null below the minimum cost sold
+    tokens: Number,         // distinct tokens traded inside the window
+    lastTradeAt: Number,
+    computedAt: Number
+  },
+  { timestamps: true }
+);
+
+LeaderboardEntrySchema.index({ window: 1, user: 1 }, { unique: true });
+// Sort keys of GET /api/leaderboard; user breaks ties.
+LeaderboardEntrySchema.index({ window: 1, volumeEth: -1, user: 1 });
+LeaderboardEntrySchema.index({ window: 1, trades: -1, user: 1 });
+LeaderboardEntrySchema.index({ window: 1, realizedPnlEth: -1, user: 1 });
+LeaderboardEntrySchema.index({ window: 1, roi: -1, user: 1 });
+
+export const LeaderboardEntry =
+  models.LeaderboardEntry || model("LeaderboardEntry", LeaderboardEntrySchema);
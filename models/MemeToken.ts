@@ -0,0 +1,62 @@
+// models/MemeToken.ts
+import { Schema, models, model } from "mongoose";
+
+// Off-chain mirror of TokenFactory.MemeToken, filled by the indexer and
+// refreshed from addressToMemeToken by lib/tokenIndex.ts (backs GET /api/tokens).
+const MemeTokenSchema = new Schema(
+  {
+    address: { type: String, required: true, unique: true }, // lowercase token address
+    creator: { type: String, index: true },
+    name: String,
+    symbol: String,
+    description: String,
+    tokenImageUrl: String,
+    createdAt: Number, // ms since epoch (block timestamp)
+    createdBlock: Number,
+    createdTx: String,
+    fundingRaised: String, // wei, decimal string
+    progress: { type: Number, default: 0 }, // % of MEMECOIN_FUNDING_GOAL, 100 once launched
+    totalSupply: String,   // raw 1e18 units
+    priceEth: { type: Number, default: 0 },     // last trade price, SEI per token
+    marketCapEth: { type: Number, default: 0 }, // priceEth * totalSupply
+    volume24hEth: { type: Number, default: 0 },
+    trades24h: { type: Number, default: 0 },
+    lastTradeAt: Number,
+    indexRefreshedAt: Number,
+    isLaunched: { type: Boolean, default: false, index: true },
+    launchedAt: Number,
+    launchedBlock: Number,
+    launchTx: String,
+    ethForLP: String,      // wei, decimal string
+    listingFeeTaken: String, // wei, decimal string
+    pairAddress: { type: String, index: true }, // lowercase DragonSwap pair, set at launch
+    pairToken0: String, // lowercase token0 of the pair (the token or WETH)
+    reserveToken: String, // latest pair reserves from Sync, raw 1e18 units
+    reserveSei: String,   // wei
+    liquidityEth: Number, // 2 * reserveSei, in SEI
+    reservesBlock: Number,
+    lpBurned: String,     // LP tokens sent to address(0) in the launch tx, raw units
+    lpBurnLogIndex: Number,
+    // Off-chain metadata edited by the creator (PATCH /api/tokens/[address]/metadata).
+    links: {
+      website: String,
+      twitter: String,
+      telegram: String,
+    },
+    bannerUrl: String,
+    metadataUpdatedAt: Number
+  },
+  { timestamps: { createdAt: "insertedAt", updatedAt: "updatedAt" } }
+);
+
+MemeTokenSchema.index({ name: "text", symbol: "text" }, { weights: { symbol: 2, name: 1 } });
+// Sort keys of GET /api/tokens; _id breaks ties for cursor pagination.
+MemeTokenSchema.index({ createdAt: -1, _id: -1 });
+MemeTokenSchema.index({ marketCapEth: -1, _id: -1 });
+MemeTokenSchema.index({ volume24hEth: -1, _id: -1 });
+MemeTokenSchema.index({ progress: -1, _id: -1 });
+MemeTokenSchema.index({ launchedAt: -1, _id: -1 });
+MemeTokenSchema.index({ liquidityEth: -1, _id: -1 });
+
+export const MemeToken =
+  models.MemeToken || model("MemeToken", MemeTokenSchema);
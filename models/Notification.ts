@@ -0,0 +1,23 @@
+// models/Notification.ts
+import { Schema, models, model } from "mongoose";
+
+// In-app notification of a triggered alert; expires after 30 days.
+const NotificationSchema = new Schema(
+  {
+    wallet: { type: String, required: true }, // lowercase recipient
+    token: String,                            // lowercase token address
+    rule: Schema.Types.ObjectId,              // AlertRule that fired
+    kind: String,                             // the rule's kind
+    title: { type: String, required: true },
+    body: { type: String, default: "" },
+    readAt: Date,
+  },
+  { timestamps: true }
+);
+
+NotificationSchema.index({ wallet: 1, createdAt: -1 });
+NotificationSchema.index({ wallet: 1, readAt: 1 });
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const Notification =
+  models.Notification || model("Notification", NotificationSchema);
@@ -0,0 +1,26 @@
+// models/Profile.ts
+import { Schema, models, model } from "mongoose";
+
+// Off-chain wallet profile, editable only by a session for the same wallet.
+const ProfileSchema = new Schema(
+  {
+    address: { type: String, required: true, unique: true }, // lowercase wallet
+    username: String,      // as typed, shown everywhere
+    usernameLower: String, // uniqueness is case-insensitive
+    avatarUrl: String,     // https link
+    bio: String,
+    links: {
+      website: String,
+      twitter: String,
+      telegram: String,
+    },
+  },
+  { timestamps: true }
+);
+
+ProfileSchema.index(
+  { usernameLower: 1 },
+  { unique: true, partialFilterExpression: { usernameLower: { $type: "string" } } }
+);
+
+export const Profile = models.Profile || model("Profile", ProfileSchema);
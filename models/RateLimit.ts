@@ -0,0 +1,14 @@
+// models/RateLimit.ts
+import { Schema, models, model } from "mongoose";
+
+// Sliding-window hit log of one rate-limited action per wallet (lib/rateLimit.ts),
+// e.g. "comments:<wallet>". Removed by the TTL index once the window has passed.
+const RateLimitSchema = new Schema({
+  key: { type: String, required: true, unique: true },
+  hits: { type: [Date], default: [] }, // oldest first, inside the window
+  expiresAt: { type: Date, required: true },
+});
+
+RateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimit = models.RateLimit || model("RateLimit", RateLimitSchema);
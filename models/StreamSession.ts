@@ -0,0 +1,33 @@
+// models/StreamSession.ts
+import { Schema, models, model } from "mongoose";
+
+const FeaturedTokenSchema = new Schema(
+  {
+    token: { type: String, required: true }, // lowercase token address
+    note: { type: String, default: "" },     // short host caption
+    pinnedAt: { type: Number, required: true }, // ms since epoch
+    pinnedBy: String,                        // lowercase wallet of the host or admin
+  },
+  { _id: false }
+);
+
+// A scheduled livestream broadcast, created with `npm run livestream:session`.
+// While it runs, /livestream shows it with the tokens its host has pinned.
+const StreamSessionSchema = new Schema(
+  {
+    slug: { type: String, required: true, unique: true },
+    title: { type: String, required: true },
+    description: String,
+    host: { type: String, required: true },    // lowercase wallet allowed to pin tokens
+    startAt: { type: Number, required: true }, // ms since epoch, inclusive
+    endAt: { type: Number, required: true },   // ms since epoch, exclusive
+    featuredTokens: { type: [FeaturedTokenSchema], default: [] }, // pin order
+  },
+  { timestamps: true }
+);
+
+StreamSessionSchema.index({ startAt: -1 });
+StreamSessionSchema.index({ endAt: 1 });
+
+export const StreamSession =
+  models.StreamSession || model("StreamSession", StreamSessionSchema);
@@ -0,0 +1,27 @@
+// models/TokenTransfer.ts
+import { Schema, models, model } from "mongoose";
+
+// Raw ERC20 Transfer logs from factory tokens; the source of HolderBalance.
+const TokenTransferSchema = new Schema(
+  {
+    token: { type: String, required: true, index: true },
+    hash: { type: String, required: true },
+    logIndex: { type: Number, required: true },
+    blockNumber: { type: Number, required: true, index: true },
+    blockHash: String,
+    from: String,
+    to: String,
+    value: Schema.Types.Decimal128, // raw units (18 decimals)
+    // Same lifecycle as Trade.status; finalBalance only moves on "final".
+    status: { type: String, enum: ["pending", "final"], default: "pending", index: true }
+  },
+  { timestamps: true }
+);
+
+TokenTransferSchema.index({ hash: 1, logIndex: 1 }, { unique: true });
+// Wallet history (portfolio / PnL).
+TokenTransferSchema.index({ from: 1, blockNumber: 1 });
+TokenTransferSchema.index({ to: 1, blockNumber: 1 });
+
+export const TokenTransfer =
+  models.TokenTransfer || model("TokenTransfer", TokenTransferSchema);
@@ -1,18 +1,48 @@
 // models/Trade.ts
 import mongoose, { Schema, models, model } from "mongoose";
 
+// v1: client-posted floats only. v2: raw amounts as decimal strings + venue/fee/price.
+export const TRADE_SCHEMA_VERSION = 2;
+
 const TradeSchema = new Schema(
   {
-    token: { type: String, index: true },
+    schemaVersion: { type: Number, default: TRADE_SCHEMA_VERSION },
+    token: String,
     hash: String,
     side: { type: String, enum: ["buy", "sell"], index: true },
-    user: { type: String, index: true }, // address of the trader
-    tokens: Number, // how many tokens
-    eth: Number,    // ETH spent/received
-    timestamp: Number // ms since epoch
+    user: String, // address of the trader
+    venue: { type: String, enum: ["curve", "dex"] },
+    tokens: Number, // how many tokens (display / aggregation only, use tokensRaw)
+    eth: Number,    // SEI spent/received (display / aggregation only, use ethWei)
+    tokensRaw: String, // token amount in 1e18 units, decimal string
+    ethWei: String,    // SEI paid (buy, incl. fee) or received (sell, after fee), wei
+    feeWei: String,    // protocol fee paid on this fill, wei
+    priceWei: String,  // fee-free wei per whole token
+    timestamp: Number, // ms since epoch
+    source: { type: String, enum: ["client", "chain"], default: "client" },
+    blockNumber: Number, // set when indexed from chain
+    blockHash: String,
+    logIndex: Number,
+    // Chain rows start "pending" and become "final" once INDEXER_CONFIRMATIONS deep.
+    status: { type: String, enum: ["pending", "final"], index: true }
   },
   { timestamps: true }
 );
 
+// One row per on-chain log; client-posted rows have no logIndex and are skipped.
+TradeSchema.index(
+  { hash: 1, logIndex: 1 },
+  { unique: true, partialFilterExpression: { logIndex: { $exists: true } } }
+);
+// _id breaks timestamp ties for cursor pagination (GET /api/trades).
+TradeSchema.index({ token: 1, timestamp: 1, _id: 1 });
+TradeSchema.index({ user: 1, timestamp: -1, _id: -1 });
+TradeSchema.index({ timestamp: -1 });
+TradeSchema.index({ blockNumber: 1 });
+// Insertion-time cursor of large-trade alerts (lib/alerts.ts).
+TradeSchema.index({ token: 1, createdAt: 1 });
+// Change cursor of the live trade stream (GET /api/stream/trades).
+TradeSchema.index({ token: 1, updatedAt: 1 });
+
 export const Trade =
   models.Trade || model("Trade", TradeSchema);
@@ -0,0 +1,21 @@
+// models/TradeRollback.ts
+import { Schema, models, model } from "mongoose";
+
+// A pending trade deleted by reorg rollback (lib/indexer/reorg.ts), kept for a
+// day so open trade streams can tell viewers to drop it.
+const TradeRollbackSchema = new Schema(
+  {
+    trade: { type: Schema.Types.ObjectId, required: true }, // _id of the deleted Trade
+    token: { type: String, required: true },
+    hash: String,
+    logIndex: Number,
+    timestamp: Number, // ms, of the deleted trade
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+TradeRollbackSchema.index({ token: 1, createdAt: 1 });
+TradeRollbackSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const TradeRollback =
+  models.TradeRollback || model("TradeRollback", TradeRollbackSchema);
@@ -0,0 +1,43 @@
+// models/TrendingSnapshot.ts
+import { Schema, models, model } from "mongoose";
+
+// Precomputed trending ranking for one window, rebuilt by lib/trending.ts.
+// One document per window so a refresh swaps the whole ranking at once.
+const TrendingEntrySchema = new Schema(
+  {
+    token: String,
+    rank: Number,
+    score: Number, // 0-100
+    components: {
+      volume: Number,      // 0-1, decayed SEI volume (log scaled, relative to the top token)
+      traders: Number,     // 0-1, unique traders (log scaled, relative)
+      buyPressure: Number, // 0-1, buy share of SEI volume
+      trades: Number,      // 0-1, decayed trade count (log scaled, relative)
+      recency: Number,     // 0-1, decay of the last trade's age
+    },
+    whalePenalty: Number, // multiplier applied to the weighted sum
+    tradeCount: Number,
+    buys: Number,
+    sells: Number,
+    uniqueTraders: Number,
+    totalVolumeEth: Number,
+    decayedVolumeEth: Number,
+    topTraderShare: Number, // largest trader's share of decayed volume
+    lastTradeAt: Number,
+  },
+  { _id: false }
+);
+
+const TrendingSnapshotSchema = new Schema(
+  {
+    window: { type: String, enum: ["5m", "1h", "6h", "24h", "7d"], unique: true },
+    computedAt: Number, // ms since epoch
+    totalVolumeEth: Number, // all tokens in the window
+    activeTokens: Number,
+    entries: [TrendingEntrySchema], // best first, capped at TRENDING_MAX_ENTRIES
+  },
+  { timestamps: true }
+);
+
+export const TrendingSnapshot =
+  models.TrendingSnapshot || model("TrendingSnapshot", TrendingSnapshotSchema);
@@ -0,0 +1,17 @@
+// models/WatchlistItem.ts
+import { Schema, models, model } from "mongoose";
+
+// A token on a wallet's watchlist (GET/POST/DELETE /api/watchlist).
+const WatchlistItemSchema = new Schema(
+  {
+    wallet: { type: String, required: true }, // lowercase, from the session
+    token: { type: String, required: true },  // lowercase token address
+  },
+  { timestamps: true }
+);
+
+WatchlistItemSchema.index({ wallet: 1, token: 1 }, { unique: true });
+WatchlistItemSchema.index({ wallet: 1, createdAt: 1 });
+
+export const WatchlistItem =
+  models.WatchlistItem || model("WatchlistItem", WatchlistItemSchema);
@@ -0,0 +1,30 @@
+// models/WebhookDelivery.ts
+import { Schema, models, model } from "mongoose";
+
+// One event for one subscription: the delivery log and retry queue. Rows go
+// "pending" → "delivered", or → "dead" (the dead-letter queue) after
+// WEBHOOK_MAX_ATTEMPTS failures; dead rows can be requeued by hand.
+const WebhookDeliverySchema = new Schema(
+  {
+    subscription: { type: Schema.Types.ObjectId, required: true },
+    eventId: { type: String, required: true }, // "<txHash>:<logIndex>", or "ping:<id>"
+    event: { type: String, required: true },   // WEBHOOK_EVENTS or "ping"
+    payload: { type: Schema.Types.Mixed, required: true }, // JSON body sent
+    status: { type: String, enum: ["pending", "delivered", "dead"], default: "pending" },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: () => new Date() },
+    lastAttemptAt: Date,
+    lastStatus: Number, // HTTP status of the last attempt, unset on network errors
+    lastError: String,
+    deliveredAt: Date,
+  },
+  { timestamps: true }
+);
+
+// An event is queued once per subscription, even when its block is re-indexed.
+WebhookDeliverySchema.index({ subscription: 1, eventId: 1 }, { unique: true });
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscription: 1, createdAt: -1 });
+
+export const WebhookDelivery =
+  models.WebhookDelivery || model("WebhookDelivery", WebhookDeliverySchema);
@@ -0,0 +1,26 @@
+// models/WebhookSubscription.ts
+import { Schema, models, model } from "mongoose";
+
+// An endpoint that receives signed factory events (lib/webhooks.ts). Empty
+// filter lists match everything.
+const WebhookSubscriptionSchema = new Schema(
+  {
+    owner: { type: String, required: true }, // lowercase admin wallet that created it
+    url: { type: String, required: true },
+    secret: { type: String, required: true }, // HMAC-SHA256 key, shown once on creation
+    description: { type: String, default: "" },
+    events: { type: [String], default: [] },  // WEBHOOK_EVENTS; empty = all
+    filters: {
+      tokens: { type: [String], default: [] },   // lowercase token addresses
+      creators: { type: [String], default: [] }, // lowercase creator wallets
+      minEth: { type: Number, default: 0 },      // minimum SEI size of trade events
+    },
+    enabled: { type: Boolean, default: true, index: true },
+  },
+  { timestamps: true }
+);
+
+WebhookSubscriptionSchema.index({ owner: 1, createdAt: -1 });
+
+export const WebhookSubscription =
+  models.WebhookSubscription || model("WebhookSubscription", WebhookSubscriptionSchema);
@@ -0,0 +1,126 @@
+// scripts/backfill.ts
+// Rebuilds Trade / MemeToken data from factory logs, token Transfer logs (the
+// holder ledger) and DragonSwap pair swaps of graduated tokens, for one token or
+// a block range.
+// Usage: npm run backfill -- [--token 0x...] [--from N] [--to N] [--span N] [--drop-unverified]
+import { loadEnvConfig } from "@next/env";
+import { ethers } from "ethers";
+import mongoose from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { getIndexerConfig } from "@/lib/indexer/config";
+import { indexFactoryRange } from "@/lib/indexer/factoryIndexer";
+import { indexPairsRange } from "@/lib/indexer/pairEvents";
+import { indexTransfersRange } from "@/lib/indexer/transfers";
+import { type CandlePoint, refreshCandles, refreshCandlesForBlocks } from "@/lib/candles";
+import { refreshTokenIndex, refreshTokensForBlocks } from "@/lib/tokenIndex";
+import { finalizeTrades, finalizeTransfers } from "@/lib/indexer/reorg";
+import { Trade } from "@/models/Trade";
+import { MemeToken } from "@/models/MemeToken";
+
+loadEnvConfig(process.cwd());
+
+const MAX_SPAN = 50_000;
+
+const argValue = (name: string) => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx === -1 ? undefined : process.argv[idx + 1];
+};
+
+const blockArg = (name: string) => {
+  const raw = argValue(name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`--${name} must be a block number`);
+  }
+  return value;
+};
+
+async function main() {
+  const token = argValue("token")?.toLowerCase();
+  if (token !== undefined && !ethers.isAddress(token)) {
+    throw new Error("--token must be an address");
+  }
+  const dropUnverified = process.argv.includes("--drop-unverified");
+  if (dropUnverified && !token) {
+    throw new Error("--drop-unverified requires --token");
+  }
+
+  const { startBlock, batchSize, confirmations } = getIndexerConfig();
+  const provider = getRpcProvider();
+  await connectMongo();
+
+  const head = await provider.getBlockNumber();
+  let fromArg = blockArg("from");
+  if (fromArg === undefined && token) {
+    // Start at the token's creation block when the factory event is already known.
+    const meta = await MemeToken.findOne({ address: token }).lean<{ createdBlock?: number }>();
+    fromArg = meta?.createdBlock;
+  }
+  const from = fromArg ?? startBlock;
+  const to = Math.min(blockArg("to") ?? head, head);
+  const span = blockArg("span") ?? batchSize;
+  if (from > to) throw new Error(`Empty range ${from}-${to}`);
+
+  const scope = token ? `token ${token}` : "all tokens";
+  console.log(`[backfill] ${scope}, blocks ${from}-${to}`);
+
+  const started = Date.now();
+  const applied = await indexFactoryRange(provider, from, to, {
+    token,
+    span,
+    maxSpan: MAX_SPAN,
+    onProgress: (chunkFrom, chunkTo, chunkApplied) => {
+      const pct = ((chunkTo - from + 1) / (to - from + 1)) * 100;
+      console.log(
+        `[backfill] ${chunkFrom}-${chunkTo} (${pct.toFixed(1)}%): ${chunkApplied} events`
+      );
+    },
+  });
+  // Tokens and pairs are known once the factory pass has stored their creation /
+  // TokenLaunched events. Transfers go through the live indexer's ledger path,
+  // which skips logs it has already applied.
+  const transfers = await indexTransfersRange(provider, from, to, { token, span, maxSpan: MAX_SPAN });
+  console.log(`[backfill] ${transfers} transfers`);
+  const swaps = await indexPairsRange(provider, from, to, { token, span, maxSpan: MAX_SPAN });
+  console.log(`[backfill] ${swaps} DEX swaps`);
+  await refreshCandlesForBlocks(from, to);
+  await finalizeTrades(head, confirmations);
+  await finalizeTransfers(head, confirmations);
+  const refreshed = token
+    ? Number(await refreshTokenIndex(token))
+    : await refreshTokensForBlocks(from, to);
+  console.log(`[backfill] refreshed ${refreshed} token index entries`);
+
+  console.log(
+    `[backfill] done: ${applied + transfers + swaps} events in ${((Date.now() - started) / 1000).toFixed(1)}s`
+  );
+
+  if (token) {
+    // Rows the UI posted that no factory log claimed (old client-reported trades).
+    // Legacy rows may still carry the checksummed token address.
+    const unverified = {
+      token: { $in: [token, ethers.getAddress(token)] },
+      logIndex: { $exists: false },
+    };
+    const count = await Trade.countDocuments(unverified);
+    if (count > 0 && dropUnverified) {
+      const points = await Trade.find(unverified, { token: 1, timestamp: 1 }).lean<CandlePoint[]>();
+      await Trade.deleteMany(unverified);
+      await refreshCandles(points);
+      console.log(`[backfill] removed ${count} unverified client rows`);
+    } else if (count > 0) {
+      console.log(
+        `[backfill] ${count} client rows have no matching log; rerun with --drop-unverified to remove them`
+      );
+    }
+  }
+}
+
+main()
+  .catch(err => {
+    console.error("[backfill] fatal:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
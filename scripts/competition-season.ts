@@ -0,0 +1,99 @@
+// scripts/competition-season.ts
+// Creates or updates a trading competition season. Finalized seasons are frozen
+// and cannot be changed.
+// Usage: npm run competition:season -- --slug s1 --name "Season 1" --start 2026-11-01T00:00:00Z
+//   --end 2026-11-08T00:00:00Z [--description "..."] [--tokens 0x..,0x..]
+//   [--volume 1] [--pnl 0] [--trades 0] [--min-volume 0] [--prizes "1-1:500 SEI,2-10:50 SEI"]
+import { loadEnvConfig } from "@next/env";
+import { ethers } from "ethers";
+import mongoose from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { CompetitionSeason } from "@/models/CompetitionSeason";
+
+loadEnvConfig(process.cwd());
+
+const argValue = (name: string) => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx === -1 ? undefined : process.argv[idx + 1];
+};
+
+const timeArg = (name: string) => {
+  const raw = argValue(name);
+  if (raw === undefined) throw new Error(`--${name} is required`);
+  const value = Date.parse(raw);
+  if (Number.isNaN(value)) throw new Error(`--${name} must be a date (ISO 8601)`);
+  return value;
+};
+
+const numberArg = (name: string, fallback: number) => {
+  const raw = argValue(name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`--${name} must be a number`);
+  return value;
+};
+
+// "1-1:500 SEI,2-10:50 SEI" -> [{ fromRank: 1, toRank: 1, prize: "500 SEI" }, ...]
+const parsePrizes = (raw: string | undefined) =>
+  (raw ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map(tier => {
+      const match = /^\s*(\d+)(?:-(\d+))?:(.+)$/.exec(tier);
+      if (!match) throw new Error(`Bad prize tier "${tier}" (expected from-to:prize)`);
+      const fromRank = Number(match[1]);
+      return { fromRank, toRank: Number(match[2] ?? fromRank), prize: match[3].trim() };
+    });
+
+async function main() {
+  const slug = argValue("slug");
+  const name = argValue("name");
+  if (!slug || !name) throw new Error("--slug and --name are required");
+  const startAt = timeArg("start");
+  const endAt = timeArg("end");
+  if (endAt <= startAt) throw new Error("--end must be after --start");
+
+  const eligibleTokens = (argValue("tokens") ?? "")
+    .split(",")
+    .filter(Boolean)
+    .map(t => {
+      if (!ethers.isAddress(t)) throw new Error(`--tokens: ${t} is not an address`);
+      return t.toLowerCase();
+    });
+
+  await connectMongo();
+  const existing = await CompetitionSeason.findOne({ slug }).lean<{ finalizedAt?: number }>();
+  if (existing?.finalizedAt) throw new Error(`Season ${slug} is finalized`);
+
+  await CompetitionSeason.updateOne(
+    { slug },
+    {
+      $set: {
+        name,
+        description: argValue("description") ?? "",
+        startAt,
+        endAt,
+        eligibleTokens,
+        scoring: {
+          volume: numberArg("volume", 1),
+          realizedPnl: numberArg("pnl", 0),
+          trades: numberArg("trades", 0),
+        },
+        minVolumeEth: numberArg("min-volume", 0),
+        prizeTiers: parsePrizes(argValue("prizes")),
+      },
+    },
+    { upsert: true }
+  );
+  console.log(
+    `[competition] ${existing ? "updated" : "created"} ${slug}: ` +
+    `${new Date(startAt).toISOString()} - ${new Date(endAt).toISOString()}`
+  );
+}
+
+main()
+  .catch(err => {
+    console.error("[competition] fatal:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
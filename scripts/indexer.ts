@@ -0,0 +1,31 @@
+// scripts/indexer.ts
+// Follows TokenFactory events into Mongo. Usage: npm run indexer [-- --once]
+import { loadEnvConfig } from "@next/env";
+import mongoose from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { runFactoryIndexer } from "@/lib/indexer/factoryIndexer";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const once = process.argv.includes("--once");
+  let stopping = false;
+  const stop = () => {
+    console.log("[indexer] shutting down after current batch...");
+    stopping = true;
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  await connectMongo();
+  try {
+    await runFactoryIndexer({ once, shouldStop: () => stopping });
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch(err => {
+  console.error("[indexer] fatal:", err);
+  process.exit(1);
+});
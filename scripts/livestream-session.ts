@@ -0,0 +1,90 @@
+// scripts/livestream-session.ts
+// Schedules or updates a livestream session. The host wallet can then pin
+// featured tokens from /livestream while the session has not ended.
+// Usage: npm run livestream:session -- --slug launch-night --title "Launch night" --host 0x..
+//   --start 2026-11-01T18:00:00Z --end 2026-11-01T20:00:00Z [--description "..."]
+//   [--tokens 0x..,0x..]   (replaces the pinned tokens)
+import { loadEnvConfig } from "@next/env";
+import { ethers } from "ethers";
+import mongoose from "mongoose";
+import { FEATURED_MAX_TOKENS } from "@/lib/livestream";
+import { connectMongo } from "@/lib/mongo";
+import { MemeToken } from "@/models/MemeToken";
+import { StreamSession } from "@/models/StreamSession";
+
+loadEnvConfig(process.cwd());
+
+const argValue = (name: string) => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx === -1 ? undefined : process.argv[idx + 1];
+};
+
+const timeArg = (name: string) => {
+  const raw = argValue(name);
+  if (raw === undefined) throw new Error(`--${name} is required`);
+  const value = Date.parse(raw);
+  if (Number.isNaN(value)) throw new Error(`--${name} must be a date (ISO 8601)`);
+  return value;
+};
+
+async function main() {
+  const slug = argValue("slug");
+  const title = argValue("title");
+  const host = argValue("host");
+  if (!slug || !title) throw new Error("--slug and --title are required");
+  if (!host || !ethers.isAddress(host)) throw new Error("--host must be a wallet address");
+  const startAt = timeArg("start");
+  const endAt = timeArg("end");
+  if (endAt <= startAt) throw new Error("--end must be after --start");
+
+  const rawTokens = argValue("tokens");
+  const tokens = rawTokens === undefined
+    ? null
+    : [...new Set(
+        rawTokens
+          .split(",")
+          .filter(Boolean)
+          .map(t => {
+            if (!ethers.isAddress(t)) throw new Error(`--tokens: ${t} is not an address`);
+            return t.toLowerCase();
+          })
+      )];
+  if (tokens && tokens.length > FEATURED_MAX_TOKENS) {
+    throw new Error(`--tokens: at most ${FEATURED_MAX_TOKENS} tokens can be pinned`);
+  }
+
+  await connectMongo();
+  if (tokens) {
+    const known = new Set(
+      (await MemeToken.find({ address: { $in: tokens } }, { address: 1 })
+        .lean<{ address: string }[]>()).map(t => t.address)
+    );
+    const unknown = tokens.filter(t => !known.has(t));
+    if (unknown.length > 0) throw new Error(`--tokens: not indexed: ${unknown.join(", ")}`);
+  }
+
+  const existing = await StreamSession.exists({ slug });
+  const set: Record<string, unknown> = {
+    title,
+    description: argValue("description") ?? "",
+    host: host.toLowerCase(),
+    startAt,
+    endAt,
+  };
+  if (tokens) {
+    const now = Date.now();
+    set.featuredTokens = tokens.map(token => ({ token, note: "", pinnedAt: now }));
+  }
+  await StreamSession.updateOne({ slug }, { $set: set }, { upsert: true });
+  console.log(
+    `[livestream] ${existing ? "updated" : "created"} ${slug}: ` +
+    `${new Date(startAt).toISOString()} - ${new Date(endAt).toISOString()}`
+  );
+}
+
+main()
+  .catch(err => {
+    console.error("[livestream] fatal:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
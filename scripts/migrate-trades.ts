@@ -0,0 +1,135 @@
+// scripts/migrate-trades.ts
+// Upgrades Trade documents written before schema v2 (float-only amounts).
+// Indexed rows are re-derived exactly from their receipt; client-posted rows are
+// converted from the stored floats, which may be off in the last digits.
+// Usage: npm run migrate:trades
+import { loadEnvConfig } from "@next/env";
+import { ethers } from "ethers";
+import mongoose from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { getRpcProvider } from "@/lib/ethersClient";
+import { floatToRaw, priceWeiOf, splitBuyFee, splitSellFee } from "@/lib/amounts";
+import { getFactoryAddress } from "@/lib/indexer/config";
+import { parseFactoryLog, tradeFromLog } from "@/lib/indexer/factoryEvents";
+import { Trade, TRADE_SCHEMA_VERSION } from "@/models/Trade";
+import { MemeToken } from "@/models/MemeToken";
+
+loadEnvConfig(process.cwd());
+
+const BATCH = 500;
+
+type LegacyTrade = {
+  _id: mongoose.Types.ObjectId;
+  token: string;
+  hash: string;
+  side: "buy" | "sell";
+  user?: string;
+  tokens?: number;
+  eth?: number;
+  timestamp?: number;
+  logIndex?: number;
+};
+
+async function main() {
+  const provider = getRpcProvider();
+  const factory = getFactoryAddress();
+  await connectMongo();
+
+  const receipts = new Map<string, ethers.TransactionReceipt | null>();
+  const launchedAt = new Map<string, number | null>();
+
+  // Exact values straight from the factory log the row was indexed from.
+  const fromReceipt = async (row: LegacyTrade) => {
+    if (!receipts.has(row.hash)) {
+      receipts.set(row.hash, await provider.getTransactionReceipt(row.hash));
+    }
+    const log = receipts.get(row.hash)?.logs.find(
+      l => l.index === row.logIndex && l.address.toLowerCase() === factory
+    );
+    const parsed = log && parseFactoryLog(log);
+    const trade = parsed && tradeFromLog(log, parsed);
+    if (!trade) return null;
+    const { tokensRaw, ethWei, feeWei, priceWei, venue } = trade;
+    return { tokensRaw, ethWei, feeWei, priceWei, venue };
+  };
+
+  const fromFloats = async (row: LegacyTrade) => {
+    const token = row.token.toLowerCase();
+    if (!launchedAt.has(token)) {
+      const meta = await MemeToken.findOne({ address: token }).lean<{ launchedAt?: number }>();
+      launchedAt.set(token, meta?.launchedAt ?? null);
+    }
+    const launched = launchedAt.get(token);
+    const venue: "curve" | "dex" =
+      launched && (row.timestamp ?? 0) >= launched ? "dex" : "curve";
+
+    const tokensRaw = floatToRaw(row.tokens ?? 0);
+    const ethWei = floatToRaw(row.eth ?? 0);
+    // Only the bonding curve charges the protocol fee.
+    const { amount, fee } = venue === "dex"
+      ? { amount: ethWei, fee: 0n }
+      : row.side === "buy" ? splitBuyFee(ethWei) : splitSellFee(ethWei);
+    return {
+      tokensRaw: tokensRaw.toString(),
+      ethWei: ethWei.toString(),
+      feeWei: fee.toString(),
+      priceWei: priceWeiOf(amount, tokensRaw).toString(),
+      venue,
+    };
+  };
+
+  const filter = {
+    $or: [
+      { schemaVersion: { $exists: false } },
+      { schemaVersion: { $lt: TRADE_SCHEMA_VERSION } },
+    ],
+  };
+  const total = await Trade.countDocuments(filter);
+  console.log(`[migrate-trades] ${total} trades below v${TRADE_SCHEMA_VERSION}`);
+
+  let done = 0;
+  let exact = 0;
+  let ops: mongoose.AnyBulkWriteOperation[] = [];
+  const flush = async () => {
+    if (ops.length === 0) return;
+    await Trade.bulkWrite(ops, { ordered: false });
+    done += ops.length;
+    ops = [];
+    console.log(`[migrate-trades] ${done}/${total}`);
+  };
+
+  const cursor = Trade.find(filter).lean<LegacyTrade[]>().cursor();
+  for await (const doc of cursor) {
+    const row = doc as unknown as LegacyTrade;
+    let amounts = row.logIndex !== undefined ? await fromReceipt(row) : null;
+    if (amounts) exact++;
+    else amounts = await fromFloats(row);
+
+    ops.push({
+      updateOne: {
+        filter: { _id: row._id },
+        update: {
+          $set: {
+            ...amounts,
+            schemaVersion: TRADE_SCHEMA_VERSION,
+            token: row.token.toLowerCase(),
+            ...(row.user ? { user: row.user.toLowerCase() } : {}),
+          },
+        },
+      },
+    });
+    if (ops.length >= BATCH) await flush();
+  }
+  await flush();
+
+  console.log(
+    `[migrate-trades] done: ${done} migrated (${exact} from receipts, ${done - exact} from floats)`
+  );
+}
+
+main()
+  .catch(err => {
+    console.error("[migrate-trades] fatal:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,54 @@
+// scripts/rebuild-candles.ts
+// Recomputes the Candle rollups from Trade, e.g. after migrate:trades or on a
+// database that holds trades from before the rollups existed.
+// Usage: npm run candles:rebuild -- [--token 0x...]
+import { loadEnvConfig } from "@next/env";
+import { ethers } from "ethers";
+import mongoose from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { type CandlePoint, refreshCandles } from "@/lib/candles";
+import { Candle } from "@/models/Candle";
+import { Trade } from "@/models/Trade";
+
+loadEnvConfig(process.cwd());
+
+const BATCH = 1000;
+
+async function main() {
+  const idx = process.argv.indexOf("--token");
+  const token = idx === -1 ? undefined : process.argv[idx + 1]?.toLowerCase();
+  if (token !== undefined && !ethers.isAddress(token)) {
+    throw new Error("--token must be an address");
+  }
+
+  await connectMongo();
+  const scope = token ? { token } : {};
+  const removed = await Candle.deleteMany(scope);
+  console.log(`[candles] cleared ${removed.deletedCount} candles`);
+
+  // One point per traded minute is enough; refreshCandles rebuilds the rest.
+  const minutes: { _id: CandlePoint }[] = await Trade.aggregate([
+    { $match: { ...scope, timestamp: { $type: "number" } } },
+    {
+      $group: {
+        _id: {
+          token: "$token",
+          timestamp: { $subtract: ["$timestamp", { $mod: ["$timestamp", 60_000] }] },
+        },
+      },
+    },
+    { $sort: { "_id.token": 1, "_id.timestamp": 1 } },
+  ]);
+
+  for (let i = 0; i < minutes.length; i += BATCH) {
+    await refreshCandles(minutes.slice(i, i + BATCH).map(m => m._id));
+    console.log(`[candles] ${Math.min(i + BATCH, minutes.length)}/${minutes.length} minutes`);
+  }
+}
+
+main()
+  .catch(err => {
+    console.error("[candles] fatal:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
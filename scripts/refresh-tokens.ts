@@ -0,0 +1,33 @@
+// scripts/refresh-tokens.ts
+// Seeds / refreshes the MemeToken index for every factory token (metadata,
+// progress, price, market cap, 24h volume). The indexer keeps it current after that.
+// Usage: npm run tokens:refresh
+import { loadEnvConfig } from "@next/env";
+import mongoose from "mongoose";
+import { connectMongo } from "@/lib/mongo";
+import { getFactoryServer } from "@/lib/ethersClient";
+import { refreshTokenIndex } from "@/lib/tokenIndex";
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  await connectMongo();
+  const all: { tokenAddress: string }[] = await getFactoryServer().getAllMemeTokens();
+  console.log(`[tokens] ${all.length} factory tokens`);
+
+  let done = 0;
+  for (const { tokenAddress } of all) {
+    await refreshTokenIndex(tokenAddress);
+    done++;
+    if (done % 50 === 0 || done === all.length) {
+      console.log(`[tokens] ${done}/${all.length}`);
+    }
+  }
+}
+
+main()
+  .catch(err => {
+    console.error("[tokens] fatal:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
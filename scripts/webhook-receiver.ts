@@ -0,0 +1,58 @@
+// scripts/webhook-receiver.ts
+// Local endpoint for testing webhook subscriptions end to end: verifies each
+// request's signature and prints the event. `--fail N` answers the first N
+// requests with HTTP 500 to exercise retries and the dead-letter queue.
+// Usage: npm run webhooks:receiver -- --secret whsec_... [--port 4001] [--fail 0]
+// Subscribe it with url http://localhost:4001/ (plain http is accepted outside production).
+import { createServer } from "http";
+import { verifyWebhookSignature } from "@/lib/webhooks";
+
+const argValue = (name: string) => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx === -1 ? undefined : process.argv[idx + 1];
+};
+
+const secret = argValue("secret");
+if (!secret) {
+  console.error("--secret is required (returned when the subscription was created)");
+  process.exit(1);
+}
+const port = Number(argValue("port") ?? 4001);
+let failuresLeft = Number(argValue("fail") ?? 0);
+
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", chunk => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const header = (name: string) => String(req.headers[name] ?? "");
+    const valid = verifyWebhookSignature(
+      secret,
+      body,
+      header("x-seifun-timestamp"),
+      header("x-seifun-signature")
+    );
+    const event = header("x-seifun-event");
+    const delivery = header("x-seifun-delivery");
+
+    if (!valid) {
+      console.log(`[receiver] ${delivery} ${event}: bad signature, 401`);
+      res.writeHead(401).end();
+      return;
+    }
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[receiver] ${delivery} ${event}: failing on purpose (${failuresLeft} left), 500`);
+      res.writeHead(500).end();
+      return;
+    }
+    console.log(`[receiver] ${delivery} ${event}: ${body}`);
+    res.writeHead(204).end();
+  });
+});
+
+server.listen(port, () => console.log(`[receiver] listening on http://localhost:${port}/`));
+
+const stop = () => server.close(() => process.exit(0));
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);